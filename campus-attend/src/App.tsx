@@ -1,11 +1,13 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './context/AuthContext';
+import { SemesterProvider } from './context/SemesterContext';
 import ProtectedRoute from './components/ProtectedRoute';
 
 // ── Auth pages ──────────────────────────────────────────────
 import LoginPage from './pages/auth/LoginPage';
 import RegisterPage from './pages/auth/RegisterPage';
+import VerifyStatementPage from './pages/auth/VerifyStatementPage';
 
 // ── Student ─────────────────────────────────────────────────
 import StudentLayout from './pages/student/StudentLayout';
@@ -15,6 +17,7 @@ import StudentEvents from './pages/student/StudentEvents';
 import StudentAttendance from './pages/student/AttendancePage';
 import StudentRoadmap from './pages/student/StudentRoadmap';
 import StudentCheckIn from './pages/student/StudentCheckIn';
+import ClassCheckIn from './pages/student/ClassCheckInPage';
 import CheckInPage from './pages/student/CheckInPage';
 
 // ── Faculty ─────────────────────────────────────────────────
@@ -23,6 +26,10 @@ import FacultyDashboard from './pages/faculty/FacultyDashboard';
 import FacultySubjects from './pages/faculty/FacultySubjects';
 import FacultyAttendance from './pages/faculty/FacultyAttendance';
 import FacultyRequests from './pages/faculty/FacultyRequests';
+import FacultyMedicalLeave from './pages/faculty/FacultyMedicalLeave';
+import FacultyWatchlist from './pages/faculty/FacultyWatchlist';
+import FacultyTimetableImport from './pages/faculty/FacultyTimetableImport';
+import FacultyCorrections from './pages/faculty/FacultyCorrections';
 
 // ── Club Admin ──────────────────────────────────────────────
 import ClubLayout from './pages/club/ClubLayout';
@@ -37,97 +44,119 @@ import AdminLayout from './pages/admin/AdminLayout';
 import AdminDashboard from './pages/admin/AdminDashboard';
 import AdminUsers from './pages/admin/AdminUsers';
 import AdminSemester from './pages/admin/AdminSemester';
+import AdminHolidays from './pages/admin/AdminHolidays';
+import AdminClashes from './pages/admin/AdminClashes';
+import AdminVenues from './pages/admin/AdminVenues';
+import AdminSubstitutions from './pages/admin/AdminSubstitutions';
+import AdminAttendanceAudit from './pages/admin/AdminAttendanceAudit';
 
 export default function App() {
   return (
     <AuthProvider>
-      <BrowserRouter>
-        <Routes>
-          {/* ── Public routes ──────────────────────────── */}
-          <Route path="/" element={<Navigate to="/login" replace />} />
-          <Route path="/login" element={<LoginPage />} />
-          <Route path="/register" element={<RegisterPage />} />
+      <SemesterProvider>
+        <BrowserRouter>
+          <Routes>
+            {/* ── Public routes ──────────────────────────── */}
+            <Route path="/" element={<Navigate to="/login" replace />} />
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/register" element={<RegisterPage />} />
+            <Route path="/verify" element={<VerifyStatementPage />} />
+            <Route path="/verify/:code" element={<VerifyStatementPage />} />
 
-          {/* ── QR Check-in (public URL, requires auth) ── */}
-          <Route
-            path="/checkin/:token"
-            element={
-              <ProtectedRoute>
-                <CheckInPage />
-              </ProtectedRoute>
-            }
-          />
+            {/* ── QR Check-in (public URL, requires auth) ── */}
+            <Route
+              path="/checkin/:token"
+              element={
+                <ProtectedRoute>
+                  <CheckInPage />
+                </ProtectedRoute>
+              }
+            />
 
-          {/* ── Student routes ─────────────────────────── */}
-          <Route
-            path="/student"
-            element={
-              <ProtectedRoute role="student">
-                <StudentLayout />
-              </ProtectedRoute>
-            }
-          >
-            <Route index element={<Navigate to="dashboard" replace />} />
-            <Route path="dashboard" element={<StudentDashboard />} />
-            <Route path="timetable" element={<StudentTimetable />} />
-            <Route path="events" element={<StudentEvents />} />
-            <Route path="attendance" element={<StudentAttendance />} />
-            <Route path="roadmap" element={<StudentRoadmap />} />
-            <Route path="check-in/:eventId" element={<StudentCheckIn />} />
-          </Route>
+            {/* ── Student routes ─────────────────────────── */}
+            <Route
+              path="/student"
+              element={
+                <ProtectedRoute role="student">
+                  <StudentLayout />
+                </ProtectedRoute>
+              }
+            >
+              <Route index element={<Navigate to="dashboard" replace />} />
+              <Route path="dashboard" element={<StudentDashboard />} />
+              <Route path="timetable" element={<StudentTimetable />} />
+              <Route path="events" element={<StudentEvents />} />
+              <Route path="attendance" element={<StudentAttendance />} />
+              <Route path="roadmap" element={<StudentRoadmap />} />
+              <Route path="check-in/:eventId" element={<StudentCheckIn />} />
+              <Route path="class-check-in" element={<ClassCheckIn />} />
+            </Route>
 
-          {/* ── Faculty routes ─────────────────────────── */}
-          <Route
-            path="/faculty"
-            element={
-              <ProtectedRoute role="faculty">
-                <FacultyLayout />
-              </ProtectedRoute>
-            }
-          >
-            <Route index element={<Navigate to="dashboard" replace />} />
-            <Route path="dashboard" element={<FacultyDashboard />} />
-            <Route path="subjects" element={<FacultySubjects />} />
-            <Route path="attendance" element={<FacultyAttendance />} />
-            <Route path="requests" element={<FacultyRequests />} />
-          </Route>
+            {/* ── Faculty routes ─────────────────────────── */}
+            <Route
+              path="/faculty"
+              element={
+                <ProtectedRoute role="faculty">
+                  <FacultyLayout />
+                </ProtectedRoute>
+              }
+            >
+              <Route index element={<Navigate to="dashboard" replace />} />
+              <Route path="dashboard" element={<FacultyDashboard />} />
+              <Route path="subjects" element={<FacultySubjects />} />
+              <Route path="timetable-import" element={<FacultyTimetableImport />} />
+              <Route path="attendance" element={<FacultyAttendance />} />
+              <Route path="requests" element={<FacultyRequests />} />
+              <Route path="corrections" element={<FacultyCorrections />} />
+              <Route path="watchlist" element={<FacultyWatchlist />} />
+              <Route path="medical-leave" element={<FacultyMedicalLeave />} />
+            </Route>
 
-          {/* ── Club Admin routes ──────────────────────── */}
-          <Route
-            path="/club"
-            element={
-              <ProtectedRoute role="club_admin">
-                <ClubLayout />
-              </ProtectedRoute>
-            }
-          >
-            <Route index element={<Navigate to="dashboard" replace />} />
-            <Route path="dashboard" element={<ClubDashboard />} />
-            <Route path="events" element={<ClubEvents />} />
-            <Route path="events/new" element={<ClubEventNew />} />
-            <Route path="events/:id" element={<ClubEventDetail />} />
-            <Route path="attendees" element={<ClubAttendees />} />
-          </Route>
+            {/* ── Club Admin routes ──────────────────────── */}
+            <Route
+              path="/club"
+              element={
+                <ProtectedRoute role="club_admin">
+                  <ClubLayout />
+                </ProtectedRoute>
+              }
+            >
+              <Route index element={<Navigate to="dashboard" replace />} />
+              <Route path="dashboard" element={<ClubDashboard />} />
+              <Route path="events" element={<ClubEvents />} />
+              <Route path="events/new" element={<ClubEventNew />} />
+              <Route path="events/:id" element={<ClubEventDetail />} />
+              <Route path="attendees" element={<ClubAttendees />} />
+            </Route>
 
-          {/* ── Admin routes ───────────────────────────── */}
-          <Route
-            path="/admin"
-            element={
-              <ProtectedRoute role="admin">
-                <AdminLayout />
-              </ProtectedRoute>
-            }
-          >
-            <Route index element={<Navigate to="dashboard" replace />} />
-            <Route path="dashboard" element={<AdminDashboard />} />
-            <Route path="users" element={<AdminUsers />} />
-            <Route path="semester" element={<AdminSemester />} />
-          </Route>
+            {/* ── Admin routes ───────────────────────────── */}
+            <Route
+              path="/admin"
+              element={
+                <ProtectedRoute role="admin">
+                  <AdminLayout />
+                </ProtectedRoute>
+              }
+            >
+              <Route index element={<Navigate to="dashboard" replace />} />
+              <Route path="dashboard" element={<AdminDashboard />} />
+              <Route path="users" element={<AdminUsers />} />
+              <Route path="semester" element={<AdminSemester />} />
+              <Route path="holidays" element={<AdminHolidays />} />
+              <Route path="clashes" element={<AdminClashes />} />
+              <Route path="venues" element={<AdminVenues />} />
+              <Route path="substitutions" element={<AdminSubstitutions />} />
+              <Route path="attendance-audit" element={<AdminAttendanceAudit />} />
+              <Route path="timetable-import" element={<FacultyTimetableImport />} />
+              <Route path="corrections" element={<FacultyCorrections />} />
+              <Route path="medical-leave" element={<FacultyMedicalLeave />} />
+            </Route>
 
-          {/* ── Catch-all fallback ─────────────────────── */}
-          <Route path="*" element={<Navigate to="/login" replace />} />
-        </Routes>
-      </BrowserRouter>
+            {/* ── Catch-all fallback ─────────────────────── */}
+            <Route path="*" element={<Navigate to="/login" replace />} />
+          </Routes>
+        </BrowserRouter>
+      </SemesterProvider>
 
       {/* Toast container — top-center, mobile-friendly */}
       <Toaster
@@ -0,0 +1,105 @@
+import { Loader2, X, Copy, RefreshCw, CalendarPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import {
+    useCalendarFeedToken,
+    useRotateCalendarFeedToken,
+    calendarFeedUrl,
+    calendarWebcalUrl,
+} from '../hooks/useCalendarFeed';
+
+interface CalendarSubscribeModalProps {
+    onClose: () => void;
+}
+
+export default function CalendarSubscribeModal({ onClose }: CalendarSubscribeModalProps) {
+    const { data: token, isLoading } = useCalendarFeedToken();
+    const rotate = useRotateCalendarFeedToken();
+
+    const url = token ? calendarFeedUrl(token) : '';
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(url);
+            toast.success('Feed URL copied');
+        } catch {
+            toast.error('Could not copy — select the URL and copy it manually');
+        }
+    };
+
+    const handleRotate = async () => {
+        if (!confirm('Generate a new URL? Calendars subscribed to the old one will stop updating.')) return;
+        try {
+            await rotate.mutateAsync();
+            toast.success('New feed URL generated');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to rotate feed URL');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="w-full max-w-lg bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-900">Subscribe to Calendar</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <p className="text-sm text-gray-600">
+                    Add this URL to Google Calendar, Apple Calendar or Outlook as a subscribed
+                    calendar. Your classes and registered events stay in sync, including
+                    cancellations and reschedules.
+                </p>
+
+                {isLoading || !token ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex gap-2">
+                            <input
+                                readOnly
+                                value={url}
+                                onFocus={(e) => e.target.select()}
+                                className="flex-1 min-w-0 rounded-lg border border-gray-300 bg-gray-50 py-2 px-3 text-xs font-mono text-gray-700"
+                            />
+                            <button
+                                onClick={handleCopy}
+                                className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 transition"
+                            >
+                                <Copy className="w-4 h-4" /> Copy
+                            </button>
+                        </div>
+
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <a
+                                href={calendarWebcalUrl(token)}
+                                className="flex-1 flex items-center justify-center gap-1.5 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 transition"
+                            >
+                                <CalendarPlus className="w-4 h-4" /> Open in Calendar App
+                            </a>
+                            <button
+                                onClick={handleRotate}
+                                disabled={rotate.isPending}
+                                className="flex items-center justify-center gap-1.5 rounded-lg border border-red-200 bg-red-50 px-4 py-2.5 text-sm font-semibold text-red-600 hover:bg-red-100 disabled:opacity-60 transition"
+                            >
+                                {rotate.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                                Rotate URL
+                            </button>
+                        </div>
+
+                        <p className="text-xs text-gray-400">
+                            Anyone with this URL can see your timetable. Rotate it if it has been shared.
+                        </p>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import SemesterSwitcher from './SemesterSwitcher';
 import {
     PanelLeftClose,
     PanelLeftOpen,
@@ -25,9 +26,11 @@ const ROLE_COLORS: Record<string, string> = {
 interface DashboardLayoutProps {
     navItems: NavItem[];
     title: string;
+    /** Show the academic semester picker above the page content */
+    showSemesterSwitcher?: boolean;
 }
 
-export default function DashboardLayout({ navItems, title }: DashboardLayoutProps) {
+export default function DashboardLayout({ navItems, title, showSemesterSwitcher = false }: DashboardLayoutProps) {
     const { profile, signOut } = useAuth();
     const navigate = useNavigate();
     const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -159,6 +162,11 @@ export default function DashboardLayout({ navItems, title }: DashboardLayoutProp
 
                 {/* Page content */}
                 <main className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto pb-20 md:pb-8">
+                    {showSemesterSwitcher && (
+                        <div className="mb-6">
+                            <SemesterSwitcher />
+                        </div>
+                    )}
                     <Outlet />
                 </main>
             </div>
@@ -0,0 +1,111 @@
+import { QRCodeSVG } from 'qrcode.react';
+import { Loader2, X, Users, Square, UserX } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useLiveCheckIn, useCloseCheckIn } from '../hooks/useClassCheckIn';
+
+interface LiveCheckInModalProps {
+    sessionId: string;
+    /** Shown above the code, e.g. "CS301 · 10:00 AM" */
+    title: string;
+    /** Hides the screen; check-in stays open until ended */
+    onClose: () => void;
+    /** Called once check-in is closed; `finalised` when the rest were marked absent */
+    onEnded?: (finalised: boolean) => void;
+}
+
+export default function LiveCheckInModal({ sessionId, title, onClose, onEnded }: LiveCheckInModalProps) {
+    const { data: live, isLoading } = useLiveCheckIn(sessionId);
+    const closeCheckIn = useCloseCheckIn();
+
+    const checkInUrl = live?.code
+        ? `${window.location.origin}/student/class-check-in?s=${sessionId}&c=${live.code}`
+        : '';
+    const remaining = live ? Math.max(live.enrolled - live.marked, 0) : 0;
+
+    const handleEnd = async (markAbsent: boolean) => {
+        if (markAbsent && !confirm(`End check-in and mark the ${remaining} remaining student${remaining === 1 ? '' : 's'} absent?`)) return;
+        try {
+            const absent = await closeCheckIn.mutateAsync({ sessionId, markAbsent });
+            toast.success(markAbsent ? `Check-in closed — ${absent} marked absent` : 'Check-in closed');
+            onEnded?.(markAbsent);
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to close check-in');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 p-4">
+            <div className="w-full max-w-lg bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Live Check-in</h2>
+                        <p className="text-xs text-gray-500">{title}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                        aria-label="Hide"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {isLoading || !live ? (
+                    <div className="flex justify-center py-16">
+                        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+                    </div>
+                ) : live.is_open && live.code ? (
+                    <div className="flex flex-col items-center gap-4">
+                        <div className="bg-white p-3 rounded-2xl shadow-md border border-gray-100">
+                            <QRCodeSVG value={checkInUrl} size={280} level="M" includeMargin />
+                        </div>
+                        <p className="font-mono text-5xl font-bold tracking-[0.3em] text-gray-900">{live.code}</p>
+                        <div className="w-full h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                            <div
+                                className="h-full bg-indigo-500 transition-all"
+                                style={{ width: `${((live.seconds_left ?? 0) / (live.rotate_seconds ?? 10)) * 100}%` }}
+                            />
+                        </div>
+                        <p className="text-xs text-gray-500 text-center">
+                            Scan the QR, or enter the code under Check In. It changes every {live.rotate_seconds} seconds.
+                        </p>
+                    </div>
+                ) : (
+                    <p className="py-10 text-center text-sm text-gray-500">Check-in is closed for this session.</p>
+                )}
+
+                {live && (
+                    <div className="flex items-center justify-center gap-2 rounded-lg bg-indigo-50 px-4 py-3 text-sm text-indigo-800">
+                        <Users className="w-4 h-4" />
+                        <span>
+                            <span className="text-xl font-bold">{live.checked_in}</span> checked in
+                            <span className="text-indigo-500"> · {live.marked} of {live.enrolled} marked</span>
+                        </span>
+                    </div>
+                )}
+
+                {live?.is_open && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => handleEnd(false)}
+                            disabled={closeCheckIn.isPending}
+                            className="flex items-center justify-center gap-1.5 rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60 transition"
+                        >
+                            <Square className="w-4 h-4" /> End Check-in
+                        </button>
+                        <button
+                            onClick={() => handleEnd(true)}
+                            disabled={closeCheckIn.isPending}
+                            className="flex items-center justify-center gap-1.5 rounded-lg bg-red-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-60 transition"
+                        >
+                            {closeCheckIn.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserX className="w-4 h-4" />}
+                            End & Mark {remaining} Absent
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,33 @@
+import { GraduationCap, Lock } from 'lucide-react';
+import { useSemester } from '../hooks/useSemester';
+
+export default function SemesterSwitcher() {
+    const { semesters, currentSemester, semesterId, isReadOnly, setSemesterId } = useSemester();
+
+    if (semesters.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-600">
+                <GraduationCap className="w-4 h-4 text-indigo-500" />
+                <select
+                    value={semesterId ?? ''}
+                    onChange={(e) => setSemesterId(e.target.value)}
+                    className="bg-transparent font-medium text-gray-900 outline-none"
+                    aria-label="Semester"
+                >
+                    {semesters.map((s) => (
+                        <option key={s.id} value={s.id}>
+                            {s.name}{s.id === currentSemester?.id ? ' (current)' : ''}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            {isReadOnly && (
+                <span className="flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-[11px] font-semibold text-gray-500">
+                    <Lock className="w-3 h-3" /> Past semester · read-only
+                </span>
+            )}
+        </div>
+    );
+}
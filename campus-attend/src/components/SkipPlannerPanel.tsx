@@ -0,0 +1,154 @@
+import { format, parseISO } from 'date-fns';
+import { Sparkles, X, CalendarOff, Sunrise, CalendarRange } from 'lucide-react';
+import type { SkipGoals, SkipPlan } from '../lib/skipOptimizer';
+
+interface SkipPlannerPanelProps {
+    goals: SkipGoals;
+    onChange: (goals: SkipGoals) => void;
+    plan: SkipPlan | null;
+    onClose: () => void;
+}
+
+function pctColor(pct: number, threshold: number) {
+    if (pct >= threshold) return 'text-emerald-600';
+    return 'text-red-600';
+}
+
+export default function SkipPlannerPanel({
+    goals,
+    onChange,
+    plan,
+    onClose,
+}: SkipPlannerPanelProps) {
+    const inputCls =
+        'rounded-lg border border-gray-300 py-1.5 px-2 text-xs text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+    return (
+        <div className="bg-white rounded-xl border border-indigo-200 p-5 space-y-4">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <Sparkles className="w-4 h-4 text-indigo-500" /> Skip Planner
+                </h2>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                    aria-label="Close skip planner"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {/* Goals */}
+            <div className="flex flex-wrap gap-x-6 gap-y-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={goals.freeDays}
+                        onChange={(e) => onChange({ ...goals, freeDays: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <CalendarOff className="w-4 h-4 text-gray-400" /> Whole free days
+                </label>
+
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={goals.avoidEarly}
+                        onChange={(e) => onChange({ ...goals, avoidEarly: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <Sunrise className="w-4 h-4 text-gray-400" /> Skip classes before
+                    <input
+                        type="time"
+                        value={goals.earlyCutoff}
+                        onChange={(e) => onChange({ ...goals, earlyCutoff: e.target.value })}
+                        className={inputCls}
+                    />
+                </label>
+
+                <div className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={!!goals.range}
+                        onChange={(e) =>
+                            onChange({
+                                ...goals,
+                                range: e.target.checked
+                                    ? { from: format(new Date(), 'yyyy-MM-dd'), to: format(new Date(), 'yyyy-MM-dd') }
+                                    : null,
+                            })
+                        }
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <CalendarRange className="w-4 h-4 text-gray-400" /> Take off
+                    <input
+                        type="date"
+                        value={goals.range?.from ?? ''}
+                        disabled={!goals.range}
+                        onChange={(e) => goals.range && onChange({ ...goals, range: { ...goals.range, from: e.target.value } })}
+                        className={inputCls}
+                    />
+                    to
+                    <input
+                        type="date"
+                        value={goals.range?.to ?? ''}
+                        disabled={!goals.range}
+                        onChange={(e) => goals.range && onChange({ ...goals, range: { ...goals.range, to: e.target.value } })}
+                        className={inputCls}
+                    />
+                </div>
+            </div>
+
+            {/* Result */}
+            {!plan ? (
+                <p className="text-xs text-gray-400">Loading attendance buffers…</p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-3 text-xs font-medium">
+                        <span className="text-indigo-700">{plan.skipped.size} classes can be skipped</span>
+                        <span className="text-teal-700">
+                            {plan.freeDays.length} free day{plan.freeDays.length === 1 ? '' : 's'}
+                            {plan.freeDays.length > 0 &&
+                                ` (${plan.freeDays.slice(0, 5).map((d) => format(parseISO(d), 'dd MMM')).join(', ')}${plan.freeDays.length > 5 ? '…' : ''})`}
+                        </span>
+                        {plan.rangeConflicts.length > 0 && (
+                            <span className="text-red-600">
+                                {plan.rangeConflicts.length} class{plan.rangeConflicts.length === 1 ? '' : 'es'} in your range would drop you below threshold
+                            </span>
+                        )}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="border-b border-gray-100 text-left font-semibold text-gray-500 uppercase tracking-wider">
+                                    <th className="py-2 pr-3">Subject</th>
+                                    <th className="py-2 px-3 text-center">Skips / Buffer</th>
+                                    <th className="py-2 px-3 text-center">Now</th>
+                                    <th className="py-2 px-3 text-center">Projected</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-50">
+                                {plan.subjects.map((s) => (
+                                    <tr key={s.subject_id}>
+                                        <td className="py-2 pr-3 font-medium text-gray-900">{s.subject_code}</td>
+                                        <td className="py-2 px-3 text-center text-gray-700">
+                                            {s.planned_skips} / {s.budget}
+                                        </td>
+                                        <td className={`py-2 px-3 text-center ${pctColor(s.current_pct, s.threshold)}`}>
+                                            {Math.round(s.current_pct * 100)}%
+                                        </td>
+                                        <td className={`py-2 px-3 text-center font-semibold ${pctColor(s.projected_pct, s.threshold)}`}>
+                                            {Math.round(s.projected_pct * 100)}%
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
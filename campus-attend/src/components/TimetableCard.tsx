@@ -1,16 +1,19 @@
-import { Clock, MapPin, User, Trash2 } from 'lucide-react';
+import { format, differenceInCalendarDays } from 'date-fns';
+import { Clock, MapPin, User, Trash2, MessageSquareWarning, MoveRight } from 'lucide-react';
 import type { TimetableSession } from '../hooks/useTimetable';
+import { useSemester } from '../hooks/useSemester';
+import { isPersonalItem, type TimetableItem } from '../hooks/usePersonalEntries';
 
 // ── Subject color palette ───────────────────────────────────
 const PALETTE = [
-    { bg: 'bg-indigo-50', border: 'border-indigo-300', text: 'text-indigo-700', badge: 'bg-indigo-100' },
-    { bg: 'bg-teal-50', border: 'border-teal-300', text: 'text-teal-700', badge: 'bg-teal-100' },
-    { bg: 'bg-amber-50', border: 'border-amber-300', text: 'text-amber-700', badge: 'bg-amber-100' },
-    { bg: 'bg-rose-50', border: 'border-rose-300', text: 'text-rose-700', badge: 'bg-rose-100' },
-    { bg: 'bg-emerald-50', border: 'border-emerald-300', text: 'text-emerald-700', badge: 'bg-emerald-100' },
-    { bg: 'bg-violet-50', border: 'border-violet-300', text: 'text-violet-700', badge: 'bg-violet-100' },
-    { bg: 'bg-sky-50', border: 'border-sky-300', text: 'text-sky-700', badge: 'bg-sky-100' },
-    { bg: 'bg-orange-50', border: 'border-orange-300', text: 'text-orange-700', badge: 'bg-orange-100' },
+    { bg: 'bg-indigo-50', border: 'border-indigo-300', text: 'text-indigo-700', badge: 'bg-indigo-100', dot: 'bg-indigo-400' },
+    { bg: 'bg-teal-50', border: 'border-teal-300', text: 'text-teal-700', badge: 'bg-teal-100', dot: 'bg-teal-400' },
+    { bg: 'bg-amber-50', border: 'border-amber-300', text: 'text-amber-700', badge: 'bg-amber-100', dot: 'bg-amber-400' },
+    { bg: 'bg-rose-50', border: 'border-rose-300', text: 'text-rose-700', badge: 'bg-rose-100', dot: 'bg-rose-400' },
+    { bg: 'bg-emerald-50', border: 'border-emerald-300', text: 'text-emerald-700', badge: 'bg-emerald-100', dot: 'bg-emerald-400' },
+    { bg: 'bg-violet-50', border: 'border-violet-300', text: 'text-violet-700', badge: 'bg-violet-100', dot: 'bg-violet-400' },
+    { bg: 'bg-sky-50', border: 'border-sky-300', text: 'text-sky-700', badge: 'bg-sky-100', dot: 'bg-sky-400' },
+    { bg: 'bg-orange-50', border: 'border-orange-300', text: 'text-orange-700', badge: 'bg-orange-100', dot: 'bg-orange-400' },
 ];
 
 export function getSubjectColor(subjectId: string, subjectIds: string[]) {
@@ -25,12 +28,26 @@ const TYPE_LABEL: Record<string, string> = {
     tutorial: 'TUT',
 };
 
+// ── Personal entries: one neutral style, kind as the badge ──
+const PERSONAL_COLOR = { bg: 'bg-slate-50', border: 'border-slate-300', text: 'text-slate-700', badge: 'bg-slate-200', dot: 'bg-slate-400' };
+
+const KIND_LABEL: Record<string, string> = {
+    study: 'STUDY',
+    class: 'EXTRA CLASS',
+    reminder: 'REMINDER',
+};
+
 interface TimetableCardProps {
-    session: TimetableSession;
+    session: TimetableItem;
     subjectIds: string[];
     isToday?: boolean;
-    onDelete?: (id: string) => void;
+    /** Personal entries only; receives the entry id */
+    onDelete?: (entryId: string) => void;
+    /** Official sessions only; opens the correction proposal */
+    onSuggest?: (session: TimetableSession) => void;
     compact?: boolean;
+    /** Marked as skippable by the skip planner overlay */
+    skipPlanned?: boolean;
 }
 
 export default function TimetableCard({
@@ -38,9 +55,20 @@ export default function TimetableCard({
     subjectIds,
     isToday = false,
     onDelete,
+    onSuggest,
     compact = false,
+    skipPlanned = false,
 }: TimetableCardProps) {
-    const color = getSubjectColor(session.subject?.id ?? '', subjectIds);
+    const personal = isPersonalItem(session);
+    const color = personal ? PERSONAL_COLOR : getSubjectColor(session.subject?.id ?? '', subjectIds);
+
+    // Recently moved sessions say where they were, for reschedule_badge_days
+    const { selectedSemester } = useSemester();
+    const badgeDays = selectedSemester?.reschedule_badge_days ?? 7;
+    const moved = !personal && session.rescheduled_from_date && session.rescheduled_at
+        && differenceInCalendarDays(new Date(), new Date(session.rescheduled_at)) < badgeDays
+        ? session
+        : null;
 
     const formatTime = (t: string) => {
         const [h, m] = t.split(':');
@@ -55,30 +83,59 @@ export default function TimetableCard({
             className={`
         relative rounded-xl border-l-4 p-3 transition-shadow hover:shadow-md
         ${color.bg} ${color.border}
+        ${personal ? 'border border-dashed' : ''}
         ${isToday ? 'ring-2 ring-indigo-400 ring-offset-1' : ''}
         ${compact ? 'p-2' : ''}
+        ${skipPlanned ? 'opacity-60 border-dashed' : ''}
       `}
         >
             {/* Subject name + code */}
             <div className="flex items-start justify-between gap-2">
                 <div className="min-w-0">
                     <h4 className={`font-semibold truncate text-sm ${color.text}`}>
-                        {session.subject?.name ?? 'Unknown'}
+                        {personal ? session.title : session.subject?.name ?? 'Unknown'}
                     </h4>
                     <span className={`inline-block text-[10px] font-bold px-1.5 py-0.5 rounded-full mt-0.5 ${color.badge} ${color.text}`}>
-                        {session.subject?.code} · {TYPE_LABEL[session.session_type] ?? session.session_type}
+                        {personal
+                            ? `PERSONAL · ${KIND_LABEL[session.kind] ?? session.kind}`
+                            : `${session.subject?.code} · ${TYPE_LABEL[session.session_type] ?? session.session_type}`}
                     </span>
+                    {moved && (
+                        <span
+                            className="inline-flex items-center gap-0.5 ml-1 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-orange-100 text-orange-700"
+                            title={moved.reschedule_reason ?? undefined}
+                        >
+                            <MoveRight className="w-3 h-3" />
+                            MOVED FROM {format(new Date(`${moved.rescheduled_from_date}T00:00:00`), 'EEE d MMM').toUpperCase()}
+                            {moved.rescheduled_from_start && ` ${moved.rescheduled_from_start.slice(0, 5)}`}
+                        </span>
+                    )}
+                    {skipPlanned && (
+                        <span className="inline-block ml-1 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-gray-800 text-white">
+                            SKIP
+                        </span>
+                    )}
                 </div>
 
-                {onDelete && (
+                {personal && onDelete && (
                     <button
-                        onClick={() => onDelete(session.id)}
+                        onClick={() => onDelete(session.entry_id)}
                         className="p-1 rounded-lg text-gray-400 hover:bg-red-100 hover:text-red-500 transition shrink-0"
-                        aria-label="Remove session"
+                        aria-label="Remove entry"
                     >
                         <Trash2 className="w-4 h-4" />
                     </button>
                 )}
+                {!personal && onSuggest && (
+                    <button
+                        onClick={() => onSuggest(session)}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-amber-100 hover:text-amber-600 transition shrink-0"
+                        aria-label="Suggest correction"
+                        title="Suggest a correction"
+                    >
+                        <MessageSquareWarning className="w-4 h-4" />
+                    </button>
+                )}
             </div>
 
             {/* Meta row */}
@@ -95,13 +152,17 @@ export default function TimetableCard({
                     </span>
                 )}
 
-                {session.subject?.faculty && (
+                {!personal && session.subject?.faculty && (
                     <span className="flex items-center gap-1">
                         <User className="w-3.5 h-3.5" />
                         {session.subject.faculty.full_name}
                     </span>
                 )}
             </div>
+
+            {personal && session.notes && !compact && (
+                <p className="mt-1.5 text-xs text-gray-500 line-clamp-2">{session.notes}</p>
+            )}
         </div>
     );
 }
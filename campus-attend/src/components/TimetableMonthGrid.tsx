@@ -0,0 +1,122 @@
+import { useMemo } from 'react';
+import {
+    format,
+    startOfWeek,
+    endOfWeek,
+    startOfMonth,
+    endOfMonth,
+    eachDayOfInterval,
+    isSameMonth,
+    isToday as checkIsToday,
+} from 'date-fns';
+
+import { getSubjectColor } from './TimetableCard';
+import { isPersonalItem, type TimetableItem } from '../hooks/usePersonalEntries';
+
+// ── Constants ───────────────────────────────────────────────
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+const MAX_CHIPS = 3;
+
+interface TimetableMonthGridProps {
+    month: Date;
+    /** Sessions and personal entries keyed by YYYY-MM-DD, in start-time order */
+    sessionsByDate: Map<string, TimetableItem[]>;
+    subjectIds: string[];
+    /** Session ids marked by the skip planner */
+    skipped?: Set<string>;
+    onSelectDay: (day: Date) => void;
+}
+
+export default function TimetableMonthGrid({
+    month,
+    sessionsByDate,
+    subjectIds,
+    skipped,
+    onSelectDay,
+}: TimetableMonthGridProps) {
+    const days = useMemo(
+        () => eachDayOfInterval({
+            start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+            end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+        }),
+        [month],
+    );
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            {/* Day headers */}
+            <div className="grid grid-cols-7 border-b border-gray-100">
+                {DAYS.map((d) => (
+                    <div key={d} className="py-2 text-center text-xs font-semibold text-gray-500">
+                        {d}
+                    </div>
+                ))}
+            </div>
+
+            {/* Day cells */}
+            <div className="grid grid-cols-7">
+                {days.map((day) => {
+                    const key = format(day, 'yyyy-MM-dd');
+                    const daySessions = sessionsByDate.get(key) ?? [];
+                    const inMonth = isSameMonth(day, month);
+                    const today = checkIsToday(day);
+
+                    return (
+                        <button
+                            key={key}
+                            onClick={() => onSelectDay(day)}
+                            className={`min-h-[76px] md:min-h-[104px] border-b border-r border-gray-100 p-1 text-left align-top transition hover:bg-indigo-50/40 ${inMonth ? '' : 'bg-gray-50/60'}`}
+                        >
+                            <span
+                                className={`inline-flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold ${today
+                                    ? 'bg-indigo-600 text-white'
+                                    : inMonth ? 'text-gray-700' : 'text-gray-400'
+                                    }`}
+                            >
+                                {format(day, 'd')}
+                            </span>
+
+                            {/* Dots on phones, chips on wider screens */}
+                            {daySessions.length > 0 && (
+                                <div className="mt-1 flex flex-wrap gap-0.5 md:hidden">
+                                    {daySessions.map((s) => (
+                                        <span
+                                            key={s.id}
+                                            className={`h-1.5 w-1.5 rounded-full ${isPersonalItem(s) ? 'bg-slate-400' : getSubjectColor(s.subject?.id ?? '', subjectIds).dot}`}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            <div className="mt-1 hidden md:block space-y-0.5">
+                                {daySessions.slice(0, MAX_CHIPS).map((s) => {
+                                    if (isPersonalItem(s)) {
+                                        return (
+                                            <p
+                                                key={s.id}
+                                                className="truncate rounded border border-dashed border-slate-300 px-1 py-0.5 text-[10px] font-medium text-slate-600"
+                                            >
+                                                {s.start_time.slice(0, 5)} {s.title}
+                                            </p>
+                                        );
+                                    }
+                                    const color = getSubjectColor(s.subject?.id ?? '', subjectIds);
+                                    return (
+                                        <p
+                                            key={s.id}
+                                            className={`truncate rounded px-1 py-0.5 text-[10px] font-medium ${color.badge} ${color.text} ${skipped?.has(s.id) ? 'line-through opacity-60' : ''}`}
+                                        >
+                                            {s.start_time.slice(0, 5)} {s.subject?.code}
+                                        </p>
+                                    );
+                                })}
+                                {daySessions.length > MAX_CHIPS && (
+                                    <p className="px-1 text-[10px] text-gray-400">+{daySessions.length - MAX_CHIPS} more</p>
+                                )}
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
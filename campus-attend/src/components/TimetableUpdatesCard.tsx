@@ -0,0 +1,90 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, CalendarClock, CalendarX, CalendarCheck, CalendarPlus, CalendarSync, CheckCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import {
+    useMyTimetableNotifications,
+    useMarkTimetableNotificationsRead,
+} from '../hooks/useTimetableNotifications';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const KIND_CLS = {
+    cancelled: { row: 'border-l-red-400', icon: 'text-red-500', Icon: CalendarX },
+    restored: { row: 'border-l-emerald-400', icon: 'text-emerald-500', Icon: CalendarCheck },
+    makeup: { row: 'border-l-indigo-400', icon: 'text-indigo-500', Icon: CalendarPlus },
+    rescheduled: { row: 'border-l-orange-400', icon: 'text-orange-500', Icon: CalendarSync },
+} as const;
+
+// ── Component ───────────────────────────────────────────────
+
+export default function TimetableUpdatesCard() {
+    const { data: notifications, isLoading } = useMyTimetableNotifications();
+    const markRead = useMarkTimetableNotificationsRead();
+
+    const unreadIds = (notifications ?? []).filter((n) => !n.read_at).map((n) => n.id);
+
+    const handleMarkAll = async () => {
+        try {
+            await markRead.mutateAsync(unreadIds);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update notifications');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200">
+            <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4 text-indigo-500" />
+                    Timetable Updates
+                    {unreadIds.length > 0 && (
+                        <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700">
+                            {unreadIds.length} new
+                        </span>
+                    )}
+                </h2>
+                {unreadIds.length > 0 && (
+                    <button
+                        onClick={handleMarkAll}
+                        disabled={markRead.isPending}
+                        className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700 disabled:opacity-60 transition"
+                    >
+                        <CheckCheck className="w-3.5 h-3.5" /> Mark all read
+                    </button>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                </div>
+            ) : !notifications || notifications.length === 0 ? (
+                <p className="px-5 py-8 text-center text-sm text-gray-400">
+                    No cancelled, moved or make-up classes.
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-50">
+                    {notifications.map((n) => {
+                        const kind = KIND_CLS[n.kind];
+                        return (
+                            <li
+                                key={n.id}
+                                className={`flex items-start gap-3 px-5 py-3 border-l-4 ${kind.row} ${n.read_at ? 'opacity-60' : ''}`}
+                            >
+                                <kind.Icon className={`w-4 h-4 mt-0.5 shrink-0 ${kind.icon}`} />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-gray-900">{n.message}</p>
+                                    <p className="text-xs text-gray-400 mt-0.5">
+                                        {n.subject?.name ?? 'Unknown subject'} ·{' '}
+                                        {formatDistanceToNow(new Date(n.created_at), { addSuffix: true })}
+                                    </p>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import { useId } from 'react';
+import { Users } from 'lucide-react';
+
+import { useVenues, matchVenue } from '../hooks/useVenues';
+import type { Venue } from '../types/database';
+
+interface VenueInputProps {
+    value: string;
+    /** `venue` is the registry entry the text resolves to, if any */
+    onChange: (value: string, venue: Venue | null) => void;
+    className?: string;
+    placeholder?: string;
+    /** Show the matched venue's building and capacity under the input */
+    showDetails?: boolean;
+}
+
+/**
+ * Free-text venue field with the venue registry as suggestions.
+ * Unknown text is still accepted; the database links it to a venue
+ * once an admin registers the name or an alias.
+ */
+export default function VenueInput({
+    value,
+    onChange,
+    className,
+    placeholder = 'Room 301',
+    showDetails = false,
+}: VenueInputProps) {
+    const listId = useId();
+    const { data: venues } = useVenues();
+    const matched = matchVenue(venues, value);
+
+    return (
+        <>
+            <input
+                type="text"
+                list={listId}
+                value={value}
+                onChange={(e) => onChange(e.target.value, matchVenue(venues, e.target.value))}
+                className={className}
+                placeholder={placeholder}
+            />
+            <datalist id={listId}>
+                {(venues ?? []).map((v) => (
+                    <option key={v.id} value={v.name}>
+                        {[v.building, v.capacity ? `${v.capacity} seats` : null].filter(Boolean).join(' · ')}
+                    </option>
+                ))}
+            </datalist>
+            {showDetails && value.trim() && (
+                <p className="mt-1 text-[11px] text-gray-400 flex items-center gap-2">
+                    {matched ? (
+                        <>
+                            {matched.name !== value.trim() && <span>→ {matched.name}</span>}
+                            {matched.building && <span>{matched.building}</span>}
+                            {matched.capacity && (
+                                <span className="flex items-center gap-0.5"><Users className="w-3 h-3" /> {matched.capacity}</span>
+                            )}
+                        </>
+                    ) : (
+                        'Not a registered venue'
+                    )}
+                </p>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,85 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, BellRing, AlertTriangle, AlertOctagon, CheckCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useMyAlerts, useMarkAlertsRead } from '../../hooks/useAttendanceAlerts';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const SEVERITY_CLS = {
+    warning: { row: 'border-l-amber-400', icon: 'text-amber-500', Icon: AlertTriangle },
+    critical: { row: 'border-l-red-500', icon: 'text-red-600', Icon: AlertOctagon },
+} as const;
+
+// ── Component ───────────────────────────────────────────────
+
+export default function AttendanceAlertsCard() {
+    const { data: alerts, isLoading } = useMyAlerts();
+    const markRead = useMarkAlertsRead();
+
+    const unreadIds = (alerts ?? []).filter((a) => !a.read_at).map((a) => a.id);
+
+    const handleMarkAll = async () => {
+        try {
+            await markRead.mutateAsync(unreadIds);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update alerts');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200">
+            <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <BellRing className="w-4 h-4 text-indigo-500" />
+                    Attendance Alerts
+                    {unreadIds.length > 0 && (
+                        <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                            {unreadIds.length} new
+                        </span>
+                    )}
+                </h2>
+                {unreadIds.length > 0 && (
+                    <button
+                        onClick={handleMarkAll}
+                        disabled={markRead.isPending}
+                        className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700 disabled:opacity-60 transition"
+                    >
+                        <CheckCheck className="w-3.5 h-3.5" /> Mark all read
+                    </button>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                </div>
+            ) : !alerts || alerts.length === 0 ? (
+                <p className="px-5 py-8 text-center text-sm text-gray-400">
+                    No alerts — your attendance is on track.
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-50">
+                    {alerts.map((a) => {
+                        const sev = SEVERITY_CLS[a.severity];
+                        return (
+                            <li
+                                key={a.id}
+                                className={`flex items-start gap-3 px-5 py-3 border-l-4 ${sev.row} ${a.read_at ? 'opacity-60' : ''}`}
+                            >
+                                <sev.Icon className={`w-4 h-4 mt-0.5 shrink-0 ${sev.icon}`} />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-gray-900">{a.message}</p>
+                                    <p className="text-xs text-gray-400 mt-0.5">
+                                        {a.subject?.name ?? 'Unknown subject'} ·{' '}
+                                        {formatDistanceToNow(new Date(a.created_at), { addSuffix: true })}
+                                    </p>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, X, History, Search, ArrowRight } from 'lucide-react';
+
+import { useSessionAudit, SOURCE_LABELS } from '../../hooks/useAttendanceAudit';
+
+const STATUS_STYLES: Record<string, string> = {
+    present: 'bg-emerald-100 text-emerald-700',
+    absent: 'bg-red-100 text-red-600',
+    on_duty: 'bg-sky-100 text-sky-700',
+    medical: 'bg-violet-100 text-violet-700',
+};
+
+function StatusChip({ status }: { status: string | null }) {
+    if (!status) return <span className="text-xs text-gray-400">none</span>;
+    return (
+        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${STATUS_STYLES[status] ?? 'bg-gray-100 text-gray-600'}`}>
+            {status.replace('_', ' ')}
+        </span>
+    );
+}
+
+interface AttendanceHistoryDrawerProps {
+    sessionId: string;
+    /** Shown under the heading, e.g. "CS301 · 10:00 AM" */
+    title: string;
+    onClose: () => void;
+}
+
+/** Every change to a session's attendance, newest first */
+export default function AttendanceHistoryDrawer({ sessionId, title, onClose }: AttendanceHistoryDrawerProps) {
+    const { data: entries, isLoading } = useSessionAudit(sessionId);
+    const [search, setSearch] = useState('');
+
+    const q = search.trim().toLowerCase();
+    const visible = (entries ?? []).filter(
+        (e) => !q || e.student?.full_name.toLowerCase().includes(q) || e.student?.email.toLowerCase().includes(q),
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+            <div
+                className="w-full max-w-md h-full bg-white shadow-xl flex flex-col animate-in slide-in-from-right"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+                            <History className="w-5 h-5 text-indigo-500" /> Attendance History
+                        </h2>
+                        <p className="text-xs text-gray-500">{title}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                        aria-label="Close"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="px-5 py-3 border-b border-gray-100">
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Filter by student…"
+                            className="block w-full rounded-lg border border-gray-300 py-2 pl-9 pr-3 text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto">
+                    {isLoading ? (
+                        <div className="flex justify-center py-16">
+                            <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+                        </div>
+                    ) : visible.length === 0 ? (
+                        <p className="px-5 py-10 text-center text-sm text-gray-400">
+                            {q ? 'No changes for that student.' : 'No attendance has been recorded for this session yet.'}
+                        </p>
+                    ) : (
+                        <ul className="divide-y divide-gray-50">
+                            {visible.map((e) => (
+                                <li key={e.id} className="px-5 py-3 space-y-1.5">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <p className="text-sm font-medium text-gray-900 truncate">
+                                            {e.student?.full_name ?? 'Unknown student'}
+                                        </p>
+                                        <span className="text-xs text-gray-400 whitespace-nowrap">
+                                            {format(new Date(e.changed_at), 'dd MMM, HH:mm:ss')}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-1.5">
+                                        {e.action === 'delete' ? (
+                                            <>
+                                                <StatusChip status={e.old_status} />
+                                                <span className="text-xs text-red-500 font-medium">removed</span>
+                                            </>
+                                        ) : (
+                                            <>
+                                                {e.action === 'update' && (
+                                                    <>
+                                                        <StatusChip status={e.old_status} />
+                                                        <ArrowRight className="w-3 h-3 text-gray-400" />
+                                                    </>
+                                                )}
+                                                <StatusChip status={e.new_status} />
+                                            </>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        {SOURCE_LABELS[e.source]} · {e.actor?.full_name ?? 'System'}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+import { useState, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Stethoscope, Upload, FileText, Send, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import {
+    useMyMedicalLeaves,
+    useSubmitMedicalLeave,
+    getCertificateUrl,
+} from '../../hooks/useMedicalLeave';
+import type { MedicalLeaveRequest } from '../../types/database';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const STATUS_BADGE: Record<MedicalLeaveRequest['status'], string> = {
+    pending: 'bg-amber-100 text-amber-700',
+    approved: 'bg-emerald-100 text-emerald-700',
+    rejected: 'bg-red-100 text-red-600',
+};
+
+const MAX_CERTIFICATE_BYTES = 5 * 1024 * 1024;
+
+// ── Component ───────────────────────────────────────────────
+
+export default function MedicalLeavePanel({ readOnly = false }: { readOnly?: boolean }) {
+    const { data: requests, isLoading } = useMyMedicalLeaves();
+    const submit = useSubmitMedicalLeave();
+
+    const [showForm, setShowForm] = useState(false);
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [reason, setReason] = useState('');
+    const [certificate, setCertificate] = useState<File | null>(null);
+
+    const resetForm = () => {
+        setFromDate('');
+        setToDate('');
+        setReason('');
+        setCertificate(null);
+        setShowForm(false);
+    };
+
+    const handleFile = (file: File | undefined) => {
+        if (!file) return;
+        if (file.size > MAX_CERTIFICATE_BYTES) {
+            toast.error('Certificate must be under 5 MB');
+            return;
+        }
+        setCertificate(file);
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (toDate < fromDate) {
+            toast.error('End date must be on or after start date');
+            return;
+        }
+        try {
+            await submit.mutateAsync({ fromDate, toDate, reason: reason.trim(), certificate });
+            toast.success('Medical leave submitted for review');
+            resetForm();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to submit');
+        }
+    };
+
+    const openCertificate = async (path: string) => {
+        try {
+            window.open(await getCertificateUrl(path), '_blank', 'noopener');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Could not open certificate');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200">
+            <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <Stethoscope className="w-4 h-4 text-violet-500" />
+                    Medical Leave
+                </h2>
+                {!showForm && !readOnly && (
+                    <button
+                        onClick={() => setShowForm(true)}
+                        className="rounded-lg bg-violet-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-violet-700 transition"
+                    >
+                        Apply
+                    </button>
+                )}
+            </div>
+
+            {/* ── Submission form ─────────────────────────────── */}
+            {showForm && !readOnly && (
+                <form onSubmit={handleSubmit} className="p-5 space-y-3 border-b border-gray-100">
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs font-medium text-gray-600">
+                            From
+                            <input
+                                type="date"
+                                required
+                                value={fromDate}
+                                onChange={(e) => setFromDate(e.target.value)}
+                                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none"
+                            />
+                        </label>
+                        <label className="text-xs font-medium text-gray-600">
+                            To
+                            <input
+                                type="date"
+                                required
+                                min={fromDate || undefined}
+                                value={toDate}
+                                onChange={(e) => setToDate(e.target.value)}
+                                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none"
+                            />
+                        </label>
+                    </div>
+
+                    <textarea
+                        required
+                        rows={2}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Reason (e.g. fever, hospitalised)"
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none resize-none"
+                    />
+
+                    <label className="flex items-center gap-2 rounded-lg border border-dashed border-gray-300 px-3 py-2.5 text-xs text-gray-500 cursor-pointer hover:bg-gray-50 transition">
+                        <Upload className="w-4 h-4 text-gray-400" />
+                        <span className="truncate">
+                            {certificate ? certificate.name : 'Upload medical certificate (PDF or image, max 5 MB)'}
+                        </span>
+                        <input
+                            type="file"
+                            accept="application/pdf,image/*"
+                            className="hidden"
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                        />
+                    </label>
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={resetForm}
+                            className="flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-2 text-xs font-medium text-gray-600 hover:bg-gray-50 transition"
+                        >
+                            <X className="w-3.5 h-3.5" /> Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={submit.isPending}
+                            className="flex items-center gap-1.5 rounded-lg bg-violet-600 px-4 py-2 text-xs font-semibold text-white hover:bg-violet-700 disabled:opacity-60 transition"
+                        >
+                            {submit.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                            Submit
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {/* ── My requests ─────────────────────────────────── */}
+            {isLoading ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                </div>
+            ) : !requests || requests.length === 0 ? (
+                <p className="px-5 py-8 text-center text-sm text-gray-400">No medical leave requests.</p>
+            ) : (
+                <ul className="divide-y divide-gray-50">
+                    {requests.map((r) => (
+                        <li key={r.id} className="px-5 py-3 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <p className="text-sm font-medium text-gray-900">
+                                    {format(new Date(`${r.from_date}T00:00:00`), 'dd MMM')} – {format(new Date(`${r.to_date}T00:00:00`), 'dd MMM yyyy')}
+                                </p>
+                                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${STATUS_BADGE[r.status]}`}>
+                                    {r.status}
+                                </span>
+                            </div>
+                            <p className="text-xs text-gray-500 truncate">{r.reason}</p>
+                            <div className="flex items-center gap-3 text-[11px] text-gray-400">
+                                {r.certificate_path && (
+                                    <button
+                                        onClick={() => openCertificate(r.certificate_path!)}
+                                        className="flex items-center gap-1 font-medium text-indigo-600 hover:text-indigo-700"
+                                    >
+                                        <FileText className="w-3 h-3" /> Certificate
+                                    </button>
+                                )}
+                                {r.status === 'approved' && (
+                                    <span>{r.sessions_marked} session{r.sessions_marked === 1 ? '' : 's'} marked medical</span>
+                                )}
+                                {r.reviewer_response && <span className="truncate">“{r.reviewer_response}”</span>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
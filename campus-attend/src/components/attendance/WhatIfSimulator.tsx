@@ -0,0 +1,193 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, FlaskConical, RotateCcw, XCircle, CheckCircle2, Bell } from 'lucide-react';
+
+import { useUpcomingSessions, type SubjectAttendance, type Eligibility } from '../../hooks/useAttendance';
+import { simulateBuffer, type SimulatedMark, type WeightedMark } from '../../lib/attendanceSimulator';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const ELIGIBILITY_CLS: Record<Eligibility, string> = {
+    safe: 'bg-emerald-100 text-emerald-700',
+    condonable: 'bg-amber-100 text-amber-700',
+    detained: 'bg-red-200 text-red-800',
+};
+
+const MARK_OPTIONS: { value: SimulatedMark; label: string; active: string; icon: typeof CheckCircle2 }[] = [
+    { value: 'skipped', label: 'Skip', active: 'bg-red-500 text-white', icon: XCircle },
+    { value: 'attended', label: 'Attend', active: 'bg-emerald-600 text-white', icon: CheckCircle2 },
+    { value: 'on_duty', label: 'OD', active: 'bg-sky-500 text-white', icon: Bell },
+];
+
+const fmtPct = (v: number) => `${Math.round(v * 100)}%`;
+
+const fmtTime = (t: string) => {
+    const [h, m] = t.split(':');
+    const hr = parseInt(h, 10);
+    return `${hr % 12 || 12}:${m} ${hr >= 12 ? 'PM' : 'AM'}`;
+};
+
+// ── Component ───────────────────────────────────────────────
+
+export default function WhatIfSimulator({ subjects }: { subjects: SubjectAttendance[] }) {
+    const { data: upcoming, isLoading } = useUpcomingSessions(14);
+    const [marks, setMarks] = useState<Record<string, SimulatedMark>>({});
+
+    const toggleMark = (sessionId: string, mark: SimulatedMark) => {
+        setMarks((prev) => {
+            const next = { ...prev };
+            if (next[sessionId] === mark) delete next[sessionId];
+            else next[sessionId] = mark;
+            return next;
+        });
+    };
+
+    // Group upcoming sessions by date for the picker
+    const byDate = useMemo(() => {
+        const map = new Map<string, NonNullable<typeof upcoming>>();
+        for (const s of upcoming ?? []) {
+            const arr = map.get(s.scheduled_date) ?? [];
+            arr.push(s);
+            map.set(s.scheduled_date, arr);
+        }
+        return [...map.entries()];
+    }, [upcoming]);
+
+    // Recompute every subject with the hypothetical marks
+    const simulated = useMemo(() => {
+        const marksBySubject = new Map<string, WeightedMark[]>();
+        for (const s of upcoming ?? []) {
+            const m = marks[s.id];
+            if (!m) continue;
+            const arr = marksBySubject.get(s.subject_id) ?? [];
+            arr.push({ mark: m, weight: s.session_weight ?? 1 });
+            marksBySubject.set(s.subject_id, arr);
+        }
+        return subjects.map((s) => ({
+            subject: s,
+            touched: marksBySubject.has(s.subject_id),
+            sim: simulateBuffer(s.buffer, marksBySubject.get(s.subject_id) ?? []),
+        }));
+    }, [subjects, upcoming, marks]);
+
+    const markedCount = Object.keys(marks).length;
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200">
+            <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <FlaskConical className="w-4 h-4 text-amber-500" />
+                    What-if Simulator
+                    <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 uppercase">
+                        Hypothetical
+                    </span>
+                </h2>
+                {markedCount > 0 && (
+                    <button
+                        onClick={() => setMarks({})}
+                        className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700 transition"
+                    >
+                        <RotateCcw className="w-3.5 h-3.5" /> Reset ({markedCount})
+                    </button>
+                )}
+            </div>
+
+            <div className="grid lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-gray-100">
+                {/* ── Session picker ──────────────────────────── */}
+                <div className="p-5 max-h-96 overflow-y-auto space-y-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                        </div>
+                    ) : byDate.length === 0 ? (
+                        <p className="text-sm text-gray-400 text-center py-8">
+                            No classes scheduled in the next two weeks.
+                        </p>
+                    ) : (
+                        byDate.map(([date, daySessions]) => (
+                            <div key={date}>
+                                <h3 className="text-xs font-semibold text-gray-500 mb-2">
+                                    {format(new Date(`${date}T00:00:00`), 'EEE, dd MMM')}
+                                </h3>
+                                <ul className="space-y-2">
+                                    {daySessions.map((s) => (
+                                        <li key={s.id} className="flex items-center justify-between gap-2">
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-medium text-gray-900 truncate">
+                                                    {s.subject?.code ?? '—'}
+                                                    <span className="ml-1.5 text-xs font-normal text-gray-400">
+                                                        {s.session_type}
+                                                        {s.session_weight !== 1 && ` · ${s.session_weight} hrs`}
+                                                    </span>
+                                                </p>
+                                                <p className="text-xs text-gray-500">
+                                                    {fmtTime(s.start_time)} – {fmtTime(s.end_time)}
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-1 shrink-0">
+                                                {MARK_OPTIONS.map((o) => {
+                                                    const Icon = o.icon;
+                                                    const isActive = marks[s.id] === o.value;
+                                                    return (
+                                                        <button
+                                                            key={o.value}
+                                                            onClick={() => toggleMark(s.id, o.value)}
+                                                            className={`flex items-center gap-1 rounded-lg px-2 py-1 text-[11px] font-semibold transition ${isActive ? o.active : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                                                                }`}
+                                                        >
+                                                            <Icon className="w-3 h-3" />
+                                                            {o.label}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                {/* ── Real vs simulated ───────────────────────── */}
+                <div className="p-5 overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="border-b border-gray-100 text-left font-semibold text-gray-500 uppercase tracking-wider">
+                                <th className="py-2 pr-3">Subject</th>
+                                <th className="py-2 px-2 text-center">Now</th>
+                                <th className="py-2 px-2 text-center text-amber-600">If…</th>
+                                <th className="py-2 px-2 text-center">Projected</th>
+                                <th className="py-2 px-2 text-center text-amber-600">If…</th>
+                                <th className="py-2 pl-2 text-center text-amber-600">Status if…</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50">
+                            {simulated.map(({ subject: s, touched, sim }) => (
+                                <tr key={s.subject_id} className={touched ? 'bg-amber-50/50' : ''}>
+                                    <td className="py-2 pr-3 font-medium text-gray-900">{s.subject_code}</td>
+                                    <td className="py-2 px-2 text-center text-gray-700">{fmtPct(s.buffer.current_pct)}</td>
+                                    <td className="py-2 px-2 text-center font-semibold text-amber-700 italic">
+                                        {fmtPct(sim.current_pct)}
+                                    </td>
+                                    <td className="py-2 px-2 text-center text-gray-700">{fmtPct(s.buffer.projected_pct)}</td>
+                                    <td className="py-2 px-2 text-center font-semibold text-amber-700 italic">
+                                        {fmtPct(sim.projected_pct)}
+                                    </td>
+                                    <td className="py-2 pl-2 text-center">
+                                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${ELIGIBILITY_CLS[sim.eligibility]}`}>
+                                            {sim.eligibility}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-[11px] text-gray-400 mt-3">
+                        Amber “If…” columns are simulated from your selections and are not real attendance.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+import { useState, useMemo, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '../api/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { SemesterContext, type SemesterContextValue } from '../hooks/useSemester';
+import type { AcademicSemester } from '../types/database';
+
+// ── Helper: fetch all semesters, newest first ───────────────
+async function fetchSemesters(): Promise<AcademicSemester[]> {
+    const { data, error } = await supabase
+        .from('academic_semesters')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+}
+
+// ── Provider ────────────────────────────────────────────────
+export function SemesterProvider({ children }: { children: ReactNode }) {
+    const { user } = useAuth();
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const { data: semesters = [], isLoading: loading } = useQuery({
+        queryKey: ['academic-semesters', user?.id],
+        queryFn: fetchSemesters,
+        enabled: !!user,
+        staleTime: 300_000,
+    });
+
+    const value = useMemo<SemesterContextValue>(() => {
+        const currentSemester = semesters.find((s) => s.is_current) ?? semesters[0] ?? null;
+        const selectedSemester =
+            semesters.find((s) => s.id === selectedId) ?? currentSemester;
+        // Same rule as is_semester_closed on the server: ended and not current
+        const today = format(new Date(), 'yyyy-MM-dd');
+
+        return {
+            semesters,
+            currentSemester,
+            selectedSemester,
+            semesterId: selectedSemester?.id ?? null,
+            isReadOnly: !!selectedSemester && !selectedSemester.is_current && selectedSemester.end_date < today,
+            loading,
+            setSemesterId: setSelectedId,
+        };
+    }, [semesters, selectedId, loading]);
+
+    return (
+        <SemesterContext.Provider value={value}>
+            {children}
+        </SemesterContext.Provider>
+    );
+}
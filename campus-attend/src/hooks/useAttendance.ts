@@ -1,9 +1,24 @@
 import { supabase } from '../api/supabase';
 import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
 import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+    buildTrendSeries,
+    type TrendPoint,
+    type TrendRecord,
+    type TrendSession,
+} from '../lib/attendanceTrend';
 
 // ── Types ───────────────────────────────────────────────────
 
+export type Eligibility = 'safe' | 'condonable' | 'detained';
+
+export type WeightingMode = 'unit' | 'session_type' | 'duration';
+
+export type MedicalPolicy = 'exclude_from_held' | 'count_as_present';
+
+// Counts are weighted contact hours unless weighting_mode is 'unit'
 export interface AttendanceBuffer {
     present_count: number;
     held_count: number;
@@ -12,6 +27,14 @@ export interface AttendanceBuffer {
     buffer_classes: number;
     projected_pct: number;
     is_safe: boolean;
+    attendance_threshold: number;
+    condonation_threshold: number;
+    eligibility: Eligibility;
+    classes_to_threshold: number | null;
+    classes_to_condonation: number | null;
+    weighting_mode: WeightingMode;
+    medical_count: number;      // medical hours held so far
+    medical_policy: MedicalPolicy;
 }
 
 export interface SubjectAttendance {
@@ -20,6 +43,7 @@ export interface SubjectAttendance {
     subject_code: string;
     buffer: AttendanceBuffer;
     on_duty_count: number;
+    medical_count: number;
 }
 
 export interface RecentRecord {
@@ -42,75 +66,35 @@ export interface RecentRecord {
 
 async function fetchAttendanceSummary(
     studentId: string,
+    semesterId: string | null,
 ): Promise<SubjectAttendance[]> {
-    // 1. Get enrolled subjects
-    const { data: enrollments, error: enrolErr } = await supabase
-        .from('student_subjects')
-        .select('subject_id, subjects!subject_id ( id, name, code )')
-        .eq('student_id', studentId);
-
-    if (enrolErr) throw enrolErr;
-    if (!enrollments || enrollments.length === 0) return [];
-
-    // 2. For each subject, call the RPC
-    const results: SubjectAttendance[] = [];
-
-    for (const row of enrollments) {
-        const subj = row.subjects as unknown as { id: string; name: string; code: string } | null;
-        if (!subj) continue;
-
-        const { data, error } = await supabase.rpc('calculate_attendance_buffer', {
-            p_student_id: studentId,
-            p_subject_id: subj.id,
-        });
-
-        if (error) {
-            console.error(`RPC error for ${subj.code}:`, error.message);
-            continue;
-        }
-
-        // Count on-duty records
-        const { count } = await supabase
-            .from('attendance_records')
-            .select('id', { count: 'exact', head: true })
-            .eq('student_id', studentId)
-            .eq('status', 'on_duty')
-            .in(
-                'class_session_id',
-                (
-                    await supabase
-                        .from('class_sessions')
-                        .select('id')
-                        .eq('subject_id', subj.id)
-                ).data?.map((c) => c.id) ?? [],
-            );
-
-        results.push({
-            subject_id: subj.id,
-            subject_name: subj.name,
-            subject_code: subj.code,
-            buffer: data as unknown as AttendanceBuffer,
-            on_duty_count: count ?? 0,
-        });
-    }
+    // Single set-returning RPC: buffer + OD / medical counts for every
+    // enrolled subject in the semester (current semester when null)
+    const { data, error } = await supabase.rpc('get_student_attendance_summary', {
+        p_student_id: studentId,
+        p_semester_id: semesterId,
+    });
 
-    return results;
+    if (error) throw error;
+    return (data as unknown as SubjectAttendance[]) ?? [];
 }
 
 async function fetchRecentRecords(
     studentId: string,
+    semesterId: string,
     limit = 10,
 ): Promise<RecentRecord[]> {
     const { data, error } = await supabase
         .from('attendance_records')
         .select(`
       id, status, marked_at, marked_by, notes,
-      class_session:class_sessions!class_session_id (
-        scheduled_date, start_time,
+      class_session:class_sessions!class_session_id!inner (
+        scheduled_date, start_time, academic_semester_id,
         subject:subjects!subject_id ( name, code )
       )
     `)
         .eq('student_id', studentId)
+        .eq('class_session.academic_semester_id', semesterId)
         .order('marked_at', { ascending: false })
         .limit(limit);
 
@@ -118,75 +102,136 @@ async function fetchRecentRecords(
     return (data as unknown as RecentRecord[]) ?? [];
 }
 
-// ── Trend data (weekly aggregated) ──────────────────────────
+// ── Trend data (weekly aggregated + projection) ────────────
+
+async function fetchEnrolledSubjectIds(
+    studentId: string,
+    semesterId: string,
+): Promise<string[]> {
+    const { data, error } = await supabase
+        .from('student_subjects')
+        .select('subject_id')
+        .eq('student_id', studentId)
+        .eq('academic_semester_id', semesterId);
 
-export interface WeeklyTrend {
-    week: string;       // e.g. "Week 1", "Week 2"
-    pct: number;        // cumulative attendance %
-    projected: number;  // projected end-of-semester %
+    if (error) throw error;
+    return (data ?? [])
+        .map((e) => e.subject_id)
+        .filter(Boolean) as string[];
 }
 
-async function fetchTrendData(studentId: string): Promise<WeeklyTrend[]> {
-    // Fetch all attendance records ordered by date
+async function fetchTrendData(
+    studentId: string,
+    semesterId: string,
+    medicalPolicy: MedicalPolicy,
+): Promise<TrendPoint[]> {
+    // The semester's attendance records
     const { data, error } = await supabase
         .from('attendance_records')
         .select(`
-      status, marked_at,
-      class_session:class_sessions!class_session_id ( scheduled_date )
+      status, class_session_id,
+      class_session:class_sessions!class_session_id!inner (
+        subject_id, scheduled_date, session_weight, academic_semester_id
+      )
     `)
         .eq('student_id', studentId)
-        .order('marked_at', { ascending: true });
+        .eq('class_session.academic_semester_id', semesterId);
 
     if (error) throw error;
-    if (!data || data.length === 0) return [];
-
-    // Group by week and compute cumulative attendance
-    const trends: WeeklyTrend[] = [];
-    let totalHeld = 0;
-    let totalPresent = 0;
-    let weekNum = 0;
-    let lastWeekKey = '';
-
-    for (const record of data) {
-        const session = record.class_session as unknown as { scheduled_date: string } | null;
-        const dateStr = session?.scheduled_date ?? record.marked_at;
-        const date = new Date(dateStr);
-        // ISO week key
-        const weekKey = `${date.getFullYear()}-W${Math.ceil(
-            ((date.getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / 86400000 + 1) / 7,
-        )}`;
-
-        totalHeld++;
-        if (record.status === 'present' || record.status === 'on_duty') {
-            totalPresent++;
-        }
-
-        if (weekKey !== lastWeekKey) {
-            weekNum++;
-            lastWeekKey = weekKey;
-        }
-
-        // Upsert the current week's data point
-        const pct = totalHeld > 0 ? Math.round((totalPresent / totalHeld) * 10000) / 100 : 100;
-        const existing = trends.find((t) => t.week === `Week ${weekNum}`);
-        if (existing) {
-            existing.pct = pct;
-            existing.projected = pct; // simplified projection
-        } else {
-            trends.push({ week: `Week ${weekNum}`, pct, projected: pct });
-        }
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const all = (data ?? []).map((r) => {
+        const cs = r.class_session as unknown as
+            { subject_id: string | null; scheduled_date: string; session_weight: number };
+        const record: TrendRecord = {
+            status: r.status as TrendRecord['status'],
+            subject_id: cs.subject_id,
+            scheduled_date: cs.scheduled_date,
+            session_weight: cs.session_weight ?? 1,
+        };
+        return { sessionId: (r as unknown as { class_session_id: string }).class_session_id, record };
+    });
+
+    // Approved medical leave marks sessions ahead of time; those belong
+    // to the projection, not the actual series
+    const records = all.filter((a) => a.record.scheduled_date <= today).map((a) => a.record);
+    const medicalAhead = new Set(
+        all.filter((a) => a.record.scheduled_date > today && a.record.status === 'medical').map((a) => a.sessionId),
+    );
+    if (records.length === 0) return [];
+
+    // Remaining scheduled sessions (strictly after today) for the projection
+    const subjectIds = await fetchEnrolledSubjectIds(studentId, semesterId);
+    let remaining: TrendSession[] = [];
+    if (subjectIds.length > 0) {
+        const { data: future, error: futureErr } = await supabase
+            .from('class_sessions')
+            .select('id, subject_id, scheduled_date, session_weight')
+            .in('subject_id', subjectIds)
+            .eq('academic_semester_id', semesterId)
+            .eq('is_cancelled', false)
+            .gt('scheduled_date', today);
+
+        if (futureErr) throw futureErr;
+        remaining = ((future ?? []) as unknown as (Omit<TrendSession, 'medical'> & { id: string })[])
+            .map(({ id, ...s }) => ({ ...s, medical: medicalAhead.has(id) }));
     }
 
-    return trends;
+    return buildTrendSeries(records, remaining, medicalPolicy);
+}
+
+// ── Upcoming sessions (for the what-if simulator) ──────────
+
+export interface UpcomingSession {
+    id: string;
+    subject_id: string;
+    scheduled_date: string;
+    start_time: string;
+    end_time: string;
+    session_type: 'lecture' | 'lab' | 'tutorial';
+    session_weight: number;
+    subject: { name: string; code: string } | null;
+}
+
+async function fetchUpcomingSessions(
+    studentId: string,
+    semesterId: string,
+    days: number,
+): Promise<UpcomingSession[]> {
+    const subjectIds = await fetchEnrolledSubjectIds(studentId, semesterId);
+    if (subjectIds.length === 0) return [];
+
+    // Strictly after today — today's sessions already count as held
+    const from = new Date();
+    from.setDate(from.getDate() + 1);
+    const to = new Date();
+    to.setDate(to.getDate() + days);
+
+    const { data, error } = await supabase
+        .from('class_sessions')
+        .select(`
+      id, subject_id, scheduled_date, start_time, end_time, session_type, session_weight,
+      subject:subjects!subject_id ( name, code )
+    `)
+        .in('subject_id', subjectIds)
+        .eq('is_cancelled', false)
+        .gte('scheduled_date', format(from, 'yyyy-MM-dd'))
+        .lte('scheduled_date', format(to, 'yyyy-MM-dd'))
+        .order('scheduled_date')
+        .order('start_time');
+
+    if (error) throw error;
+    return (data as unknown as UpcomingSession[]) ?? [];
 }
 
 // ── React Query hooks ───────────────────────────────────────
 
 export function useAttendanceSummary() {
     const { user } = useAuth();
+    const { semesterId } = useSemester();
     return useQuery({
-        queryKey: ['attendance-summary', user?.id],
-        queryFn: () => fetchAttendanceSummary(user!.id),
+        queryKey: ['attendance-summary', user?.id, semesterId],
+        queryFn: () => fetchAttendanceSummary(user!.id, semesterId),
         enabled: !!user,
         staleTime: 60_000,
     });
@@ -194,20 +239,35 @@ export function useAttendanceSummary() {
 
 export function useRecentRecords(limit = 10) {
     const { user } = useAuth();
+    const { semesterId } = useSemester();
     return useQuery({
-        queryKey: ['recent-attendance', user?.id, limit],
-        queryFn: () => fetchRecentRecords(user!.id, limit),
-        enabled: !!user,
+        queryKey: ['recent-attendance', user?.id, semesterId, limit],
+        queryFn: () => fetchRecentRecords(user!.id, semesterId!, limit),
+        enabled: !!user && !!semesterId,
         staleTime: 60_000,
     });
 }
 
 export function useAttendanceTrend() {
     const { user } = useAuth();
+    const { semesterId, selectedSemester } = useSemester();
+    const medicalPolicy = selectedSemester?.medical_policy ?? 'exclude_from_held';
     return useQuery({
-        queryKey: ['attendance-trend', user?.id],
-        queryFn: () => fetchTrendData(user!.id),
-        enabled: !!user,
+        queryKey: ['attendance-trend', user?.id, semesterId, medicalPolicy],
+        queryFn: () => fetchTrendData(user!.id, semesterId!, medicalPolicy),
+        enabled: !!user && !!semesterId,
+        staleTime: 120_000,
+    });
+}
+
+export function useUpcomingSessions(days = 14) {
+    const { user } = useAuth();
+    const { semesterId, isReadOnly } = useSemester();
+    return useQuery({
+        queryKey: ['upcoming-sessions', user?.id, semesterId, days],
+        queryFn: () => fetchUpcomingSessions(user!.id, semesterId!, days),
+        // Past semesters have nothing upcoming
+        enabled: !!user && !!semesterId && !isReadOnly,
         staleTime: 120_000,
     });
 }
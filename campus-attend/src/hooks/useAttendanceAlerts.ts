@@ -0,0 +1,82 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AttendanceAlert } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface AlertWithSubject extends AttendanceAlert {
+    subject: { id: string; name: string; code: string } | null;
+}
+
+export interface WatchlistAlert extends AlertWithSubject {
+    student: { id: string; full_name: string; email: string; department: string | null } | null;
+}
+
+// ── Student: own alerts ─────────────────────────────────────
+
+export function useMyAlerts(limit = 20) {
+    const { user } = useAuth();
+    return useQuery({
+        queryKey: ['attendance-alerts', user?.id, limit],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('attendance_alerts')
+                .select(`*, subject:subjects!subject_id ( id, name, code )`)
+                .eq('student_id', user!.id)
+                .order('created_at', { ascending: false })
+                .limit(limit);
+            if (error) throw error;
+            return (data as unknown as AlertWithSubject[]) ?? [];
+        },
+        enabled: !!user,
+        staleTime: 60_000,
+    });
+}
+
+export function useMarkAlertsRead() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (alertIds: string[]) => {
+            const { error } = await supabase
+                .from('attendance_alerts')
+                .update({ read_at: new Date().toISOString() })
+                .in('id', alertIds);
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['attendance-alerts'] });
+        },
+    });
+}
+
+// ── Faculty / mentor: watchlist ─────────────────────────────
+
+/**
+ * Alerts for the selected semester visible to the signed-in user —
+ * RLS limits rows to subjects they teach and students they mentor.
+ */
+export function useAlertWatchlist() {
+    const { user } = useAuth();
+    const { semesterId } = useSemester();
+    return useQuery({
+        queryKey: ['alert-watchlist', user?.id, semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('attendance_alerts')
+                .select(`
+          *,
+          subject:subjects!subject_id!inner ( id, name, code, academic_semester_id ),
+          student:profiles!student_id ( id, full_name, email, department )
+        `)
+                .eq('subject.academic_semester_id', semesterId!)
+                .order('created_at', { ascending: false });
+            if (error) throw error;
+            return (data as unknown as WatchlistAlert[]) ?? [];
+        },
+        enabled: !!user && !!semesterId,
+        staleTime: 60_000,
+    });
+}
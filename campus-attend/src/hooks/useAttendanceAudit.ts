@@ -0,0 +1,76 @@
+import { supabase } from '../api/supabase';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { AttendanceAudit, Database } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type AttendanceSource = AttendanceAudit['source'];
+
+export interface SessionAuditEntry extends AttendanceAudit {
+    student: { full_name: string; email: string } | null;
+    actor: { full_name: string } | null;
+}
+
+export type AuditSearchRow = Database['public']['Functions']['search_attendance_audit']['Returns'][number];
+
+export interface AuditSearchFilters {
+    query: string;
+    source: AttendanceSource | '';
+    from: string;               // yyyy-MM-dd, '' = open
+    to: string;
+    page: number;
+}
+
+export const SOURCE_LABELS: Record<AttendanceSource, string> = {
+    faculty_ui: 'Faculty',
+    od_approval: 'OD approval',
+    medical_leave: 'Medical leave',
+    import: 'Import',
+    self_check_in: 'Self check-in',
+    system: 'System',
+};
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// ── Query: One session's history (faculty drawer) ───────────
+
+export function useSessionAudit(sessionId: string | null) {
+    return useQuery({
+        queryKey: ['attendance-audit', sessionId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('attendance_audit')
+                .select(`
+          *,
+          student:profiles!student_id ( full_name, email ),
+          actor:profiles!actor_id ( full_name )
+        `)
+                .eq('class_session_id', sessionId!)
+                .order('changed_at', { ascending: false });
+            if (error) throw error;
+            return (data as unknown as SessionAuditEntry[]) ?? [];
+        },
+        enabled: !!sessionId,
+    });
+}
+
+// ── Query: Searchable audit log (admin) ─────────────────────
+
+export function useAttendanceAuditSearch(filters: AuditSearchFilters) {
+    return useQuery({
+        queryKey: ['attendance-audit-search', filters],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('search_attendance_audit', {
+                p_query: filters.query.trim() || null,
+                p_source: filters.source || null,
+                p_from: filters.from || null,
+                p_to: filters.to || null,
+                p_limit: AUDIT_PAGE_SIZE,
+                p_offset: filters.page * AUDIT_PAGE_SIZE,
+            });
+            if (error) throw error;
+            return (data as unknown as AuditSearchRow[]) ?? [];
+        },
+        placeholderData: keepPreviousData,
+    });
+}
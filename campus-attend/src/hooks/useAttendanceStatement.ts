@@ -0,0 +1,96 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { StatementSubjectLine } from '../types/database';
+import { buildStatementCsv, downloadBlob, type StatementRecord } from '../lib/attendanceStatement';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface VerifiedStatement {
+    verification_code: string;
+    student_name: string;
+    department: string | null;
+    semester_name: string | null;
+    summary: StatementSubjectLine[];
+    issued_at: string;
+}
+
+// ── Mutation: PDF statement (issued by the Edge Function) ───
+
+export function useDownloadStatementPdf() {
+    const { user } = useAuth();
+    const { semesterId, selectedSemester } = useSemester();
+
+    return useMutation({
+        mutationFn: async () => {
+            if (!user) throw new Error('Not authenticated');
+
+            const { data, error } = await supabase.functions.invoke('attendance-statement', {
+                body: { semester_id: semesterId },
+            });
+            if (error) throw error;
+
+            const pdf = new Blob([data as Blob], { type: 'application/pdf' });
+            const label = selectedSemester?.name ?? format(new Date(), 'yyyy-MM-dd');
+            downloadBlob(pdf, `attendance-statement-${label.replace(/\s+/g, '-')}.pdf`);
+        },
+    });
+}
+
+// ── Mutation: CSV of every record in the semester ───────────
+
+export function useDownloadStatementCsv() {
+    const { user } = useAuth();
+    const { semesterId, selectedSemester } = useSemester();
+
+    return useMutation({
+        mutationFn: async () => {
+            if (!user) throw new Error('Not authenticated');
+            if (!semesterId) throw new Error('No semester selected');
+
+            const { data, error } = await supabase
+                .from('attendance_records')
+                .select(`
+          status, marked_at, marked_by, notes,
+          class_session:class_sessions!class_session_id!inner (
+            scheduled_date, start_time, end_time, session_type, academic_semester_id,
+            subject:subjects!subject_id ( name, code )
+          )
+        `)
+                .eq('student_id', user.id)
+                .eq('class_session.academic_semester_id', semesterId);
+            if (error) throw error;
+
+            const records = (data as unknown as StatementRecord[]) ?? [];
+            if (records.length === 0) throw new Error('No attendance records to export');
+
+            const csv = buildStatementCsv(records);
+            const label = selectedSemester?.name ?? format(new Date(), 'yyyy-MM-dd');
+            downloadBlob(
+                new Blob([csv], { type: 'text/csv;charset=utf-8;' }),
+                `attendance-${label.replace(/\s+/g, '-')}.csv`,
+            );
+            return records.length;
+        },
+    });
+}
+
+// ── Public: verify a statement by code ──────────────────────
+
+export function useVerifyStatement(code: string | undefined) {
+    return useQuery({
+        queryKey: ['statement-verification', code],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('verify_attendance_statement', {
+                p_code: code!,
+            });
+            if (error) throw error;
+            const rows = (data as unknown as VerifiedStatement[]) ?? [];
+            return rows[0] ?? null;
+        },
+        enabled: !!code,
+        retry: false,
+    });
+}
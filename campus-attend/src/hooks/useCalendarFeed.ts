@@ -0,0 +1,59 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL as string}/functions/v1`;
+
+/** https:// URL for the calendar-feed Edge Function */
+export function calendarFeedUrl(token: string): string {
+    return `${FUNCTIONS_URL}/calendar-feed?token=${token}`;
+}
+
+/** webcal:// variant that phones open straight in their calendar app */
+export function calendarWebcalUrl(token: string): string {
+    return calendarFeedUrl(token).replace(/^https?:/, 'webcal:');
+}
+
+// ── Query: The user's feed token (created on first use) ─────
+
+export function useCalendarFeedToken() {
+    const { user } = useAuth();
+    return useQuery({
+        queryKey: ['calendar-feed-token', user?.id],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('calendar_feed_tokens')
+                .select('token')
+                .eq('user_id', user!.id)
+                .maybeSingle();
+            if (error) throw error;
+            if (data) return (data as unknown as { token: string }).token;
+
+            const { data: created, error: createErr } = await supabase.rpc('rotate_calendar_feed_token');
+            if (createErr) throw createErr;
+            return created as unknown as string;
+        },
+        enabled: !!user,
+        staleTime: Infinity,
+    });
+}
+
+// ── Mutation: Rotate (invalidates existing subscriptions) ───
+
+export function useRotateCalendarFeedToken() {
+    const { user } = useAuth();
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async () => {
+            const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+            if (error) throw error;
+            return data as unknown as string;
+        },
+        onSuccess: (token) => {
+            qc.setQueryData(['calendar-feed-token', user?.id], token);
+        },
+    });
+}
@@ -0,0 +1,99 @@
+import { supabase } from '../api/supabase';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Database } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type LiveCheckIn = Database['public']['Functions']['get_class_check_in']['Returns'];
+export type ClassCheckInResult = Database['public']['Functions']['class_check_in']['Returns'];
+
+// Check-ins and closing write attendance for the session
+const CHECK_IN_KEYS = [
+    ['class-check-in'],
+    ['session-attendance'],
+    ['faculty-sessions'],
+    ['attendance-audit'],
+];
+
+// ── Query: Faculty's live screen (code + count) ─────────────
+
+/**
+ * Polls while the window is open so the projected code follows the
+ * server's rotation and the count stays current.
+ */
+export function useLiveCheckIn(sessionId: string | null) {
+    return useQuery({
+        queryKey: ['class-check-in', sessionId],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('get_class_check_in', {
+                p_session_id: sessionId!,
+            });
+            if (error) throw error;
+            return data as unknown as LiveCheckIn;
+        },
+        enabled: !!sessionId,
+        refetchInterval: (query) => {
+            const live = query.state.data;
+            if (!live?.is_open) return false;
+            // Refresh right after the code turns over, and at least every 3 s for the count
+            return Math.min((live.seconds_left ?? 3) * 1000 + 250, 3000);
+        },
+    });
+}
+
+// ── Mutations: Faculty open / close the window ──────────────
+
+export function useOpenCheckIn() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (sessionId: string) => {
+            const { error } = await supabase.rpc('open_class_check_in', {
+                p_session_id: sessionId,
+            });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            for (const queryKey of CHECK_IN_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+/** Resolves to the number of students marked absent */
+export function useCloseCheckIn() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ sessionId, markAbsent }: { sessionId: string; markAbsent: boolean }) => {
+            const { data, error } = await supabase.rpc('close_class_check_in', {
+                p_session_id: sessionId,
+                p_mark_absent: markAbsent,
+            });
+            if (error) throw error;
+            return (data as unknown as number) ?? 0;
+        },
+        onSuccess: () => {
+            for (const queryKey of CHECK_IN_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Student checks in with a code ─────────────────
+
+export function useClassCheckIn() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ code, sessionId }: { code: string; sessionId?: string | null }) => {
+            const { data, error } = await supabase.rpc('class_check_in', {
+                p_code: code,
+                p_session_id: sessionId ?? null,
+            });
+            if (error) throw error;
+            return data as unknown as ClassCheckInResult;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['attendance-summary'] });
+        },
+    });
+}
@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { supabase } from '../api/supabase';
 import { useAuth } from './useAuth';
+import type { Venue } from '../types/database';
 
 // ── Types ───────────────────────────────────────────────────
 
@@ -79,6 +80,8 @@ export function useEventForm() {
     const [uploading, setUploading] = useState(false);
     const [creating, setCreating] = useState(false);
     const [created, setCreated] = useState<CreatedEvent | null>(null);
+    // True while the geofence still holds a venue's defaults
+    const geofenceFromVenue = useRef(false);
 
     // ── Upload banner to Supabase Storage ─────────────────
     const uploadBanner = useCallback(async (file: File) => {
@@ -156,11 +159,31 @@ export function useEventForm() {
     // ── Update a single form field ────────────────────────
     const updateField = useCallback(
         <K extends keyof EventFormData>(key: K, value: EventFormData[K]) => {
+            if (key.startsWith('geofence_')) geofenceFromVenue.current = false;
             setForm((prev) => ({ ...prev, [key]: value }));
         },
         [],
     );
 
+    // ── Set the venue, defaulting the geofence from the registry ──
+    // A geofence the organiser placed by hand is never overwritten.
+    const updateVenue = useCallback((text: string, venue: Venue | null) => {
+        setForm((prev) => {
+            const canDefault = geofenceFromVenue.current || (prev.geofence_lat === '' && prev.geofence_lng === '');
+            if (!venue || venue.geofence_lat === null || venue.geofence_lng === null || !canDefault) {
+                return { ...prev, venue: text };
+            }
+            geofenceFromVenue.current = true;
+            return {
+                ...prev,
+                venue: text,
+                geofence_lat: venue.geofence_lat,
+                geofence_lng: venue.geofence_lng,
+                geofence_radius_m: venue.geofence_radius_m,
+            };
+        });
+    }, []);
+
     // ── Create event in DB ────────────────────────────────
     const createEvent = useCallback(async () => {
         if (!user) throw new Error('Not authenticated');
@@ -211,6 +234,7 @@ export function useEventForm() {
         setParsed(null);
         setForm({ ...EMPTY_FORM });
         setCreated(null);
+        geofenceFromVenue.current = false;
     }, []);
 
     return {
@@ -227,6 +251,7 @@ export function useEventForm() {
         parseBanner,
         uploadAndParse,
         updateField,
+        updateVenue,
         createEvent,
         reset,
     };
@@ -1,7 +1,9 @@
 import { supabase } from '../api/supabase';
 import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Subject, ClassSession } from '../types/database';
+import type { Subject, ClassSession, AttendanceRecord } from '../types/database';
+import { withOfflineCache, enqueueAttendance, isNetworkError, type MarkStatus } from '../lib/offlineStore';
 
 // ── Types ───────────────────────────────────────────────────
 
@@ -10,6 +12,7 @@ export interface FacultySubject extends Subject {
 }
 
 export interface SessionWithSubject extends ClassSession {
+    session_weight: number;     // weighted contact hours, see session_weight()
     subject: Pick<Subject, 'id' | 'name' | 'code'> | null;
 }
 
@@ -24,8 +27,18 @@ export interface EnrolledStudent {
     };
 }
 
+/** A record already saved for the session */
+export interface StoredMark {
+    student_id: string;
+    status: MarkStatus;
+    marked_by: AttendanceRecord['marked_by'];
+    source: AttendanceRecord['source'];
+    marked_at: string;
+}
+
 export interface StudentRow extends EnrolledStudent {
-    status: 'present' | 'absent' | 'on_duty' | 'medical';
+    status: MarkStatus;
+    stored: StoredMark | null;  // what the session has on record, null = not marked yet
     hasPendingOD: boolean;
     odRequestId: string | null;
 }
@@ -50,18 +63,21 @@ export interface ODRequest {
 
 export function useFacultySubjects() {
     const { user } = useAuth();
+    const { semesterId } = useSemester();
     return useQuery({
-        queryKey: ['faculty-subjects', user?.id],
-        queryFn: async () => {
+        queryKey: ['faculty-subjects', user?.id, semesterId],
+        queryFn: ({ queryKey }) => withOfflineCache(queryKey, async () => {
             const { data, error } = await supabase
                 .from('subjects')
                 .select('*')
                 .eq('faculty_id', user!.id)
+                .eq('academic_semester_id', semesterId!)
                 .order('name');
             if (error) throw error;
             return (data ?? []) as FacultySubject[];
-        },
-        enabled: !!user,
+        }),
+        enabled: !!user && !!semesterId,
+        networkMode: 'always',
         staleTime: 120_000,
     });
 }
@@ -72,18 +88,19 @@ export function useFacultySessions(subjectId: string | null, dateFilter?: string
     const today = dateFilter ?? new Date().toISOString().slice(0, 10);
     return useQuery({
         queryKey: ['faculty-sessions', subjectId, today],
-        queryFn: async () => {
+        queryFn: ({ queryKey }) => withOfflineCache(queryKey, async () => {
             const { data, error } = await supabase
                 .from('class_sessions')
-                .select(`*, subject:subjects!subject_id ( id, name, code )`)
+                .select(`*, session_weight, subject:subjects!subject_id ( id, name, code )`)
                 .eq('subject_id', subjectId!)
                 .eq('scheduled_date', today)
                 .eq('is_cancelled', false)
                 .order('start_time');
             if (error) throw error;
             return (data as unknown as SessionWithSubject[]) ?? [];
-        },
+        }),
         enabled: !!subjectId,
+        networkMode: 'always',
         staleTime: 30_000,
     });
 }
@@ -93,7 +110,7 @@ export function useFacultySessions(subjectId: string | null, dateFilter?: string
 export function useEnrolledStudents(subjectId: string | null) {
     return useQuery({
         queryKey: ['enrolled-students', subjectId],
-        queryFn: async () => {
+        queryFn: ({ queryKey }) => withOfflineCache(queryKey, async () => {
             const { data, error } = await supabase
                 .from('student_subjects')
                 .select(`
@@ -105,8 +122,9 @@ export function useEnrolledStudents(subjectId: string | null) {
                 .eq('subject_id', subjectId!);
             if (error) throw error;
             return (data as unknown as EnrolledStudent[]) ?? [];
-        },
+        }),
         enabled: !!subjectId,
+        networkMode: 'always',
         staleTime: 60_000,
     });
 }
@@ -116,7 +134,7 @@ export function useEnrolledStudents(subjectId: string | null) {
 export function usePendingODsForSession(sessionId: string | null) {
     return useQuery({
         queryKey: ['pending-ods', sessionId],
-        queryFn: async () => {
+        queryFn: ({ queryKey }) => withOfflineCache(queryKey, async () => {
             const { data, error } = await supabase
                 .from('on_duty_requests')
                 .select('id, student_id, status')
@@ -124,8 +142,28 @@ export function usePendingODsForSession(sessionId: string | null) {
                 .eq('status', 'pending');
             if (error) throw error;
             return (data ?? []) as { id: string; student_id: string | null; status: string }[];
-        },
+        }),
         enabled: !!sessionId,
+        networkMode: 'always',
+        staleTime: 15_000,
+    });
+}
+
+// ── Query: Attendance already stored for a session ─────────
+
+export function useSessionAttendance(sessionId: string | null) {
+    return useQuery({
+        queryKey: ['session-attendance', sessionId],
+        queryFn: ({ queryKey }) => withOfflineCache(queryKey, async () => {
+            const { data, error } = await supabase
+                .from('attendance_records')
+                .select('student_id, status, marked_by, source, marked_at')
+                .eq('class_session_id', sessionId!);
+            if (error) throw error;
+            return (data ?? []) as StoredMark[];
+        }),
+        enabled: !!sessionId,
+        networkMode: 'always',
         staleTime: 15_000,
     });
 }
@@ -134,30 +172,63 @@ export function usePendingODsForSession(sessionId: string | null) {
 
 interface BulkAttendanceInput {
     session_id: string;
-    records: { student_id: string; status: 'present' | 'absent' | 'on_duty' | 'medical' }[];
+    subject_id?: string | null;
+    records: { student_id: string; status: MarkStatus }[];
+    /** Stored statuses the faculty saw, used to spot conflicts if the submission is queued */
+    base?: Record<string, MarkStatus | null>;
 }
 
+/** Writes a session's attendance; shared by the mutation and the offline sync */
+export async function saveAttendance({ session_id, subject_id, records }: BulkAttendanceInput) {
+    const rows = records.map((r) => ({
+        student_id: r.student_id,
+        class_session_id: session_id,
+        status: r.status,
+        marked_by: 'faculty' as const,
+        source: 'faculty_ui' as const,
+    }));
+
+    const { error } = await supabase
+        .from('attendance_records')
+        .upsert(rows, { onConflict: 'student_id,class_session_id' });
+
+    if (error) throw error;
+
+    // Re-evaluate early-warning alerts for this subject (fire-and-forget)
+    if (subject_id) {
+        supabase.functions
+            .invoke('evaluate-attendance', { body: { subject_id } })
+            .catch(console.error);
+    }
+}
+
+/** Resolves to { queued: true } when there was no connection and the submission waits on the device */
 export function useBulkMarkAttendance() {
     const qc = useQueryClient();
 
     return useMutation({
-        mutationFn: async ({ session_id, records }: BulkAttendanceInput) => {
-            const rows = records.map((r) => ({
-                student_id: r.student_id,
-                class_session_id: session_id,
-                status: r.status,
-                marked_by: 'faculty' as const,
-            }));
-
-            const { error } = await supabase
-                .from('attendance_records')
-                .upsert(rows, { onConflict: 'student_id,class_session_id' });
-
-            if (error) throw error;
+        mutationFn: async (input: BulkAttendanceInput) => {
+            try {
+                await saveAttendance(input);
+                return { queued: false };
+            } catch (err) {
+                if (!isNetworkError(err)) throw err;
+                await enqueueAttendance({
+                    session_id: input.session_id,
+                    subject_id: input.subject_id ?? null,
+                    records: input.records,
+                    base: input.base ?? {},
+                });
+                return { queued: true };
+            }
         },
+        networkMode: 'always',
         onSuccess: () => {
             qc.invalidateQueries({ queryKey: ['faculty-sessions'] });
             qc.invalidateQueries({ queryKey: ['pending-ods'] });
+            qc.invalidateQueries({ queryKey: ['session-attendance'] });
+            qc.invalidateQueries({ queryKey: ['attendance-queue'] });
+            qc.invalidateQueries({ queryKey: ['attendance-audit'] });
         },
     });
 }
@@ -228,6 +299,7 @@ export function useResolveODRequest() {
                             class_session_id: sessionId,
                             status: 'on_duty',
                             marked_by: 'faculty',
+                            source: 'od_approval',
                         },
                         { onConflict: 'student_id,class_session_id' },
                     );
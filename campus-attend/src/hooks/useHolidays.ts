@@ -0,0 +1,88 @@
+import { supabase } from '../api/supabase';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AcademicHoliday } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface DeclareHolidayInput {
+    date: string;   // YYYY-MM-DD
+    name: string;
+}
+
+export interface DeclareHolidayResult {
+    holiday_id: string;
+    cancelled: number;
+    kept: number;   // sessions that already had attendance
+}
+
+// Holidays cancel sessions everywhere, so refresh every session view
+const HOLIDAY_KEYS = [
+    ['academic-holidays'],
+    ['subject-sessions'],
+    ['faculty-subjects'],
+    ['faculty-sessions'],
+    ['attendance-summary'],
+];
+
+// ── Query: Holidays of the selected semester ────────────────
+
+export function useHolidays() {
+    const { semesterId } = useSemester();
+    return useQuery({
+        queryKey: ['academic-holidays', semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('academic_holidays')
+                .select('*')
+                .eq('academic_semester_id', semesterId!)
+                .order('holiday_date');
+            if (error) throw error;
+            return (data as unknown as AcademicHoliday[]) ?? [];
+        },
+        enabled: !!semesterId,
+        staleTime: 300_000,
+    });
+}
+
+// ── Mutation: Declare a holiday (bulk-cancels its sessions) ─
+
+export function useDeclareHoliday() {
+    const qc = useQueryClient();
+    const { semesterId } = useSemester();
+
+    return useMutation({
+        mutationFn: async (input: DeclareHolidayInput) => {
+            if (!semesterId) throw new Error('No semester selected');
+            const { data, error } = await supabase.rpc('declare_holiday', {
+                p_semester_id: semesterId,
+                p_date: input.date,
+                p_name: input.name,
+            });
+            if (error) throw error;
+            return data as unknown as DeclareHolidayResult;
+        },
+        onSuccess: () => {
+            for (const queryKey of HOLIDAY_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Remove a holiday (restores its sessions) ──────
+
+export function useRemoveHoliday() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (holidayId: string) => {
+            const { data, error } = await supabase.rpc('remove_holiday', {
+                p_holiday_id: holidayId,
+            });
+            if (error) throw error;
+            return (data as unknown as number) ?? 0;
+        },
+        onSuccess: () => {
+            for (const queryKey of HOLIDAY_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
@@ -0,0 +1,149 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { MedicalLeaveRequest } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface MedicalLeaveWithStudent extends MedicalLeaveRequest {
+    student: {
+        id: string;
+        full_name: string;
+        email: string;
+        department: string | null;
+    } | null;
+}
+
+const CERTIFICATE_BUCKET = 'medical-certificates';
+
+// ── Student: own requests ───────────────────────────────────
+
+export function useMyMedicalLeaves() {
+    const { user } = useAuth();
+    return useQuery({
+        queryKey: ['medical-leaves', user?.id],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('medical_leave_requests')
+                .select('*')
+                .eq('student_id', user!.id)
+                .order('created_at', { ascending: false });
+            if (error) throw error;
+            return (data as unknown as MedicalLeaveRequest[]) ?? [];
+        },
+        enabled: !!user,
+        staleTime: 30_000,
+    });
+}
+
+// ── Mutation: Submit medical leave ──────────────────────────
+
+interface SubmitMedicalLeaveInput {
+    fromDate: string;
+    toDate: string;
+    reason: string;
+    certificate: File | null;
+}
+
+export function useSubmitMedicalLeave() {
+    const { user } = useAuth();
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ fromDate, toDate, reason, certificate }: SubmitMedicalLeaveInput) => {
+            if (!user) throw new Error('Not authenticated');
+
+            // 1. Upload certificate into the student's own folder (private bucket)
+            let certificatePath: string | null = null;
+            if (certificate) {
+                const ext = certificate.name.split('.').pop() ?? 'pdf';
+                certificatePath = `${user.id}/${Date.now()}_${Math.random().toString(36).slice(2)}.${ext}`;
+
+                const { error: upErr } = await supabase.storage
+                    .from(CERTIFICATE_BUCKET)
+                    .upload(certificatePath, certificate, { contentType: certificate.type });
+                if (upErr) throw upErr;
+            }
+
+            // 2. Create the request — reviewer is assigned server-side from profiles.mentor_id
+            const { error } = await supabase.from('medical_leave_requests').insert({
+                student_id: user.id,
+                from_date: fromDate,
+                to_date: toDate,
+                reason,
+                certificate_path: certificatePath,
+            });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['medical-leaves'] });
+        },
+    });
+}
+
+// ── Reviewer: requests routed to me (admins see all) ────────
+
+export function useMedicalLeaveQueue() {
+    const { user, profile } = useAuth();
+    const isAdmin = profile?.role === 'admin';
+
+    return useQuery({
+        queryKey: ['medical-leave-queue', user?.id, isAdmin],
+        queryFn: async () => {
+            let query = supabase
+                .from('medical_leave_requests')
+                .select(`
+          *,
+          student:profiles!student_id ( id, full_name, email, department )
+        `)
+                .order('created_at', { ascending: false });
+
+            if (!isAdmin) query = query.eq('reviewer_id', user!.id);
+
+            const { data, error } = await query;
+            if (error) throw error;
+            return (data as unknown as MedicalLeaveWithStudent[]) ?? [];
+        },
+        enabled: !!user,
+        staleTime: 30_000,
+    });
+}
+
+// ── Certificate link (short-lived signed URL) ───────────────
+
+export async function getCertificateUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+        .from(CERTIFICATE_BUCKET)
+        .createSignedUrl(path, 60 * 5);
+    if (error) throw error;
+    return data.signedUrl;
+}
+
+// ── Mutation: Approve / Reject medical leave ────────────────
+
+interface ResolveMedicalLeaveInput {
+    requestId: string;
+    action: 'approved' | 'rejected';
+    response?: string;
+}
+
+export function useResolveMedicalLeave() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ requestId, action, response }: ResolveMedicalLeaveInput) => {
+            // Marks affected sessions 'medical' on approval; returns how many
+            const { data, error } = await supabase.rpc('resolve_medical_leave', {
+                p_request_id: requestId,
+                p_action: action,
+                p_response: response ?? null,
+            });
+            if (error) throw error;
+            return (data as unknown as number) ?? 0;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['medical-leave-queue'] });
+            qc.invalidateQueries({ queryKey: ['attendance-summary'] });
+        },
+    });
+}
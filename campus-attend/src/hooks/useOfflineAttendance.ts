@@ -0,0 +1,200 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../api/supabase';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { saveAttendance } from './useFacultyAttendance';
+import {
+    getQueuedAttendance,
+    updateQueuedAttendance,
+    removeQueuedAttendance,
+    isNetworkError,
+    type MarkStatus,
+    type QueuedAttendance,
+} from '../lib/offlineStore';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface SyncResult {
+    synced: number;             // sessions sent
+    conflicts: number;          // records kept as changed on the server
+    failed: number;             // sessions the server rejected
+}
+
+// Everything an attendance write can change
+const SYNC_KEYS = [
+    ['attendance-queue'],
+    ['faculty-sessions'],
+    ['pending-ods'],
+    ['session-attendance'],
+    ['attendance-audit'],
+];
+
+const RETRY_MS = 60_000;
+
+// ── Connectivity ────────────────────────────────────────────
+
+function subscribeOnline(onChange: () => void) {
+    window.addEventListener('online', onChange);
+    window.addEventListener('offline', onChange);
+    return () => {
+        window.removeEventListener('online', onChange);
+        window.removeEventListener('offline', onChange);
+    };
+}
+
+export function useOnlineStatus() {
+    return useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+}
+
+// ── Query: Submissions waiting on this device ───────────────
+
+export function useAttendanceQueue() {
+    return useQuery({
+        queryKey: ['attendance-queue'],
+        queryFn: async () => {
+            const entries = await getQueuedAttendance();
+            return new Map(entries.map((e) => [e.session_id, e]));
+        },
+        networkMode: 'always',
+        staleTime: Infinity,
+    });
+}
+
+// ── Sync ────────────────────────────────────────────────────
+
+/**
+ * Sends one queued submission. Students whose record changed on the
+ * server since the roster was loaded (an approved OD, medical leave,
+ * a colleague's marking) keep the server's value; the rest are written.
+ * Returns the number of records left as they were.
+ */
+async function syncEntry(entry: QueuedAttendance): Promise<number> {
+    const { data, error } = await supabase
+        .from('attendance_records')
+        .select('student_id, status')
+        .eq('class_session_id', entry.session_id);
+    if (error) throw error;
+
+    const server = new Map(
+        ((data ?? []) as { student_id: string; status: MarkStatus }[]).map((r) => [r.student_id, r.status]),
+    );
+    const conflicted = new Set(
+        entry.records
+            .filter((r) => {
+                const now = server.get(r.student_id) ?? null;
+                return now !== (entry.base[r.student_id] ?? null) && now !== r.status;
+            })
+            .map((r) => r.student_id),
+    );
+
+    const records = entry.records.filter((r) => !conflicted.has(r.student_id));
+    if (records.length > 0) {
+        await saveAttendance({ session_id: entry.session_id, subject_id: entry.subject_id, records });
+    }
+    await removeQueuedAttendance(entry.session_id);
+    return conflicted.size;
+}
+
+let running: Promise<SyncResult> | null = null;
+
+/**
+ * Sends every queued submission; stops early if the connection drops
+ * again. Submissions the server already rejected are left alone until
+ * the user retries or discards them.
+ */
+export function syncAttendanceQueue(): Promise<SyncResult> {
+    running ??= (async () => {
+        const result: SyncResult = { synced: 0, conflicts: 0, failed: 0 };
+        for (const entry of await getQueuedAttendance()) {
+            if (entry.last_error) continue;
+            try {
+                result.conflicts += await syncEntry(entry);
+                result.synced++;
+            } catch (err) {
+                if (isNetworkError(err)) break;
+                result.failed++;
+                const message = err instanceof Error ? err.message : (err as { message?: string }).message;
+                await updateQueuedAttendance({ ...entry, last_error: message ?? 'Rejected by the server' });
+            }
+        }
+        return result;
+    })().finally(() => {
+        running = null;
+    });
+    return running;
+}
+
+function reportSync({ synced, conflicts, failed }: SyncResult) {
+    if (synced > 0) {
+        toast.success(`Offline attendance synced for ${synced} session${synced === 1 ? '' : 's'}`);
+    }
+    if (conflicts > 0) {
+        toast(`${conflicts} record${conflicts === 1 ? ' was' : 's were'} changed by someone else while you were offline and kept as they are`, { icon: '⚠️' });
+    }
+    if (failed > 0) {
+        toast.error(`${failed} offline submission${failed === 1 ? '' : 's'} could not be synced`);
+    }
+}
+
+/**
+ * Keeps the queue draining: on mount, whenever the browser comes back
+ * online and every minute while something is waiting to be sent.
+ */
+export function useAttendanceSync() {
+    const qc = useQueryClient();
+    const { data: queue } = useAttendanceQueue();
+    const pending = [...(queue?.values() ?? [])].filter((e) => !e.last_error).length;
+
+    useEffect(() => {
+        const sync = async () => {
+            if (!navigator.onLine) return;
+            try {
+                const result = await syncAttendanceQueue();
+                if (result.synced === 0 && result.failed === 0) return;
+
+                for (const queryKey of SYNC_KEYS) qc.invalidateQueries({ queryKey });
+                reportSync(result);
+            } catch (err: unknown) {
+                console.error(err);
+            }
+        };
+
+        sync();
+        window.addEventListener('online', sync);
+        const timer = pending > 0 ? setInterval(sync, RETRY_MS) : undefined;
+        return () => {
+            window.removeEventListener('online', sync);
+            clearInterval(timer);
+        };
+    }, [qc, pending]);
+}
+
+// ── Mutation: Send a rejected submission again ──────────────
+
+export function useRetryQueuedAttendance() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (entry: QueuedAttendance) => {
+            await updateQueuedAttendance({ ...entry, last_error: null });
+            return syncAttendanceQueue();
+        },
+        onSuccess: reportSync,
+        onSettled: () => {
+            for (const queryKey of SYNC_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Drop a rejected submission ────────────────────
+
+export function useDiscardQueuedAttendance() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: (sessionId: string) => removeQueuedAttendance(sessionId),
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['attendance-queue'] });
+        },
+    });
+}
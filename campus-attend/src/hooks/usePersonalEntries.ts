@@ -0,0 +1,150 @@
+import { addDays, format } from 'date-fns';
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PersonalTimetableEntry } from '../types/database';
+import type { DateRange, TimetableSession } from './useTimetable';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type PersonalEntryKind = PersonalTimetableEntry['kind'];
+
+/** One occurrence of a personal entry, shaped to sit next to class sessions */
+export interface PersonalTimetableItem {
+    is_personal: true;
+    id: string;                 // entry id + occurrence date
+    entry_id: string;
+    kind: PersonalEntryKind;
+    title: string;
+    scheduled_date: string;
+    start_time: string;
+    end_time: string;
+    venue: string | null;
+    notes: string | null;
+    subject: null;
+}
+
+export type TimetableItem = TimetableSession | PersonalTimetableItem;
+
+export interface AddPersonalEntryInput {
+    kind: PersonalEntryKind;
+    title: string;
+    entry_date: string;         // YYYY-MM-DD
+    start_time: string;         // HH:MM
+    end_time: string;           // HH:MM
+    venue?: string;
+    notes?: string;
+    repeat_until?: string | null;
+}
+
+export const isPersonalItem = (item: TimetableItem): item is PersonalTimetableItem =>
+    'is_personal' in item;
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/** Expand weekly entries into their occurrences inside `range` */
+function expandEntries(entries: PersonalTimetableEntry[], range: DateRange): PersonalTimetableItem[] {
+    const items: PersonalTimetableItem[] = [];
+    for (const e of entries) {
+        const last = e.repeat_until && e.repeat_until < range.to ? e.repeat_until : range.to;
+        for (
+            let d = new Date(`${e.entry_date}T00:00:00`);
+            format(d, 'yyyy-MM-dd') <= (e.repeat_until ? last : e.entry_date);
+            d = addDays(d, 7)
+        ) {
+            const date = format(d, 'yyyy-MM-dd');
+            if (date < range.from) continue;
+            items.push({
+                is_personal: true,
+                id: `${e.id}:${date}`,
+                entry_id: e.id,
+                kind: e.kind,
+                title: e.title,
+                scheduled_date: date,
+                start_time: e.start_time,
+                end_time: e.end_time,
+                venue: e.venue,
+                notes: e.notes,
+                subject: null,
+            });
+        }
+    }
+    return items;
+}
+
+// ── Query: Personal entries in a date range ─────────────────
+
+export function usePersonalEntries(range: DateRange) {
+    const { user } = useAuth();
+    const { semesterId } = useSemester();
+
+    return useQuery({
+        queryKey: ['personal-entries', user?.id, semesterId, range.from, range.to],
+        queryFn: async () => {
+            // Single entries inside the range, or weekly ones still running
+            const { data, error } = await supabase
+                .from('personal_timetable_entries')
+                .select('*')
+                .eq('student_id', user!.id)
+                .eq('academic_semester_id', semesterId!)
+                .lte('entry_date', range.to)
+                .or(`entry_date.gte.${range.from},repeat_until.gte.${range.from}`)
+                .order('start_time');
+            if (error) throw error;
+            return expandEntries((data as unknown as PersonalTimetableEntry[]) ?? [], range);
+        },
+        enabled: !!user && !!semesterId,
+        staleTime: 60_000,
+    });
+}
+
+// ── Mutation: Add a personal entry ──────────────────────────
+
+export function useAddPersonalEntry() {
+    const qc = useQueryClient();
+    const { user } = useAuth();
+    const { semesterId } = useSemester();
+
+    return useMutation({
+        mutationFn: async (input: AddPersonalEntryInput) => {
+            const { error } = await supabase
+                .from('personal_timetable_entries')
+                .insert({
+                    student_id: user!.id,
+                    academic_semester_id: semesterId,
+                    kind: input.kind,
+                    title: input.title,
+                    entry_date: input.entry_date,
+                    start_time: input.start_time,
+                    end_time: input.end_time,
+                    venue: input.venue ?? null,
+                    notes: input.notes ?? null,
+                    repeat_until: input.repeat_until ?? null,
+                });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['personal-entries'] });
+        },
+    });
+}
+
+// ── Mutation: Delete a personal entry (every occurrence) ────
+
+export function useDeletePersonalEntry() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (entryId: string) => {
+            const { error } = await supabase
+                .from('personal_timetable_entries')
+                .delete()
+                .eq('id', entryId);
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['personal-entries'] });
+        },
+    });
+}
@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import type { AcademicSemester } from '../types/database';
+
+// ── Context value shape ─────────────────────────────────────
+export interface SemesterContextValue {
+    semesters: AcademicSemester[];
+    currentSemester: AcademicSemester | null;
+    selectedSemester: AcademicSemester | null;
+    /** Selected semester id; hooks scope their queries to this */
+    semesterId: string | null;
+    /** True when the selected semester has ended and isn't the current one */
+    isReadOnly: boolean;
+    loading: boolean;
+    setSemesterId: (id: string) => void;
+}
+
+// Provided by <SemesterProvider> (context/SemesterContext)
+export const SemesterContext = createContext<SemesterContextValue | undefined>(
+    undefined,
+);
+
+/**
+ * Access the selected academic semester.
+ * Must be used inside a <SemesterProvider>.
+ */
+export function useSemester(): SemesterContextValue {
+    const ctx = useContext(SemesterContext);
+    if (ctx === undefined) {
+        throw new Error('useSemester must be used within a <SemesterProvider>');
+    }
+    return ctx;
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../api/supabase';
+import { useSemester } from './useSemester';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { Database } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface ProposedSession {
+    subject_id: string;
+    scheduled_date: string;     // YYYY-MM-DD
+    start_time: string;         // HH:MM
+    end_time: string;           // HH:MM
+    venue: string | null;
+}
+
+export type SessionClash = Database['public']['Functions']['check_session_clashes']['Returns'][number];
+export type SemesterClash = Database['public']['Functions']['get_semester_clashes']['Returns'][number];
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const hhmm = (t: string) => t.slice(0, 5);
+
+/** One-line explanation of a clash, from the proposed session's side */
+export function describeClash(c: SessionClash, ownSubjectId: string): string {
+    const when = `${hhmm(c.start_time)}–${hhmm(c.end_time)}`;
+    switch (c.clash_type) {
+        case 'student':
+            return `${c.shared_students} student${c.shared_students === 1 ? '' : 's'} also take ${c.subject_code} at ${when}`;
+        case 'venue':
+            return `${c.venue} is booked for ${c.subject_code} at ${when}`;
+        default:
+            return c.subject_id === ownSubjectId
+                ? `Overlaps another ${c.subject_code} session at ${when}`
+                : `Same faculty teaches ${c.subject_code} at ${when}`;
+    }
+}
+
+/**
+ * Checks proposed sessions against the stored timetable.
+ * `exclude` lists session ids the caller is about to move or cancel.
+ */
+export async function checkSessionClashes(
+    sessions: ProposedSession[],
+    exclude: string[] = [],
+): Promise<SessionClash[]> {
+    if (sessions.length === 0) return [];
+    const { data, error } = await supabase.rpc('check_session_clashes', {
+        p_sessions: sessions,
+        p_exclude: exclude,
+    });
+    if (error) throw error;
+    return (data as unknown as SessionClash[]) ?? [];
+}
+
+// ── Query: Live clash check for a form ──────────────────────
+
+/**
+ * Pass a memoised array, or null while the form is incomplete.
+ * Re-checks 400 ms after the last change.
+ */
+export function useSessionClashes(sessions: ProposedSession[] | null, exclude: string[] = []) {
+    const [debounced, setDebounced] = useState(sessions);
+
+    useEffect(() => {
+        const t = setTimeout(() => setDebounced(sessions), 400);
+        return () => clearTimeout(t);
+    }, [sessions]);
+
+    return useQuery({
+        queryKey: ['session-clashes', debounced, exclude],
+        queryFn: () => checkSessionClashes(debounced!, exclude),
+        enabled: !!debounced && debounced.length > 0,
+        placeholderData: keepPreviousData,
+        staleTime: 30_000,
+    });
+}
+
+// ── Query: Admin clash report ───────────────────────────────
+
+export function useSemesterClashes() {
+    const { semesterId } = useSemester();
+    return useQuery({
+        queryKey: ['semester-clashes', semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('get_semester_clashes', {
+                p_semester_id: semesterId!,
+            });
+            if (error) throw error;
+            return (data as unknown as SemesterClash[]) ?? [];
+        },
+        enabled: !!semesterId,
+        staleTime: 60_000,
+    });
+}
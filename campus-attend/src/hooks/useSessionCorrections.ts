@@ -0,0 +1,107 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { SessionCorrection } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface ProposeCorrectionInput {
+    class_session_id: string;
+    proposed_date?: string | null;
+    proposed_start_time?: string | null;
+    proposed_end_time?: string | null;
+    proposed_venue?: string | null;
+    proposed_cancel?: boolean;
+    note: string;
+}
+
+export interface CorrectionWithSession extends SessionCorrection {
+    session: {
+        id: string;
+        scheduled_date: string;
+        start_time: string;
+        end_time: string;
+        venue: string | null;
+        subject: { id: string; name: string; code: string; academic_semester_id: string | null } | null;
+    } | null;
+    proposer: { full_name: string; email: string } | null;
+}
+
+// ── Student: propose a correction ───────────────────────────
+
+export function useProposeCorrection() {
+    const qc = useQueryClient();
+    const { user } = useAuth();
+
+    return useMutation({
+        mutationFn: async (input: ProposeCorrectionInput) => {
+            const { error } = await supabase
+                .from('session_corrections')
+                .insert({
+                    class_session_id: input.class_session_id,
+                    proposed_by: user!.id,
+                    proposed_date: input.proposed_date ?? null,
+                    proposed_start_time: input.proposed_start_time ?? null,
+                    proposed_end_time: input.proposed_end_time ?? null,
+                    proposed_venue: input.proposed_venue ?? null,
+                    proposed_cancel: input.proposed_cancel ?? false,
+                    note: input.note,
+                });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['session-corrections'] });
+        },
+    });
+}
+
+// ── Faculty / admin: corrections to review ──────────────────
+
+/** RLS limits rows to subjects the signed-in user may edit */
+export function useSessionCorrections() {
+    const { user } = useAuth();
+    const { semesterId } = useSemester();
+
+    return useQuery({
+        queryKey: ['session-corrections', user?.id, semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('session_corrections')
+                .select(`
+          *,
+          session:class_sessions!class_session_id!inner (
+            id, scheduled_date, start_time, end_time, venue,
+            subject:subjects!subject_id!inner ( id, name, code, academic_semester_id )
+          ),
+          proposer:profiles!proposed_by ( full_name, email )
+        `)
+                .eq('session.subject.academic_semester_id', semesterId!)
+                .order('created_at', { ascending: false });
+            if (error) throw error;
+            return (data as unknown as CorrectionWithSession[]) ?? [];
+        },
+        enabled: !!user && !!semesterId,
+        staleTime: 30_000,
+    });
+}
+
+export function useReviewCorrection() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ id, accept, note }: { id: string; accept: boolean; note?: string }) => {
+            const { error } = await supabase.rpc('review_session_correction', {
+                p_correction_id: id,
+                p_accept: accept,
+                p_note: note ?? null,
+            });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            for (const queryKey of [['session-corrections'], ['subject-sessions'], ['faculty-sessions'], ['attendance-summary']]) {
+                qc.invalidateQueries({ queryKey });
+            }
+        },
+    });
+}
@@ -0,0 +1,194 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { SessionSubstitution } from '../types/database';
+import type { SessionWithSubject } from './useFacultyAttendance';
+import { withOfflineCache } from '../lib/offlineStore';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface FacultyMember {
+    id: string;
+    full_name: string;
+    department: string | null;
+}
+
+export interface SubstitutionWithNames extends SessionSubstitution {
+    substitute: { full_name: string } | null;
+}
+
+/** A session someone else's subject handed to the signed-in faculty */
+export interface CoveredSession extends SessionSubstitution {
+    session: SessionWithSubject;
+    original: { full_name: string } | null;
+}
+
+export interface SubstitutionHistoryRow extends SessionSubstitution {
+    session: {
+        scheduled_date: string;
+        start_time: string;
+        end_time: string;
+        subject: { code: string; name: string } | null;
+    } | null;
+    substitute: { full_name: string } | null;
+    original: { full_name: string } | null;
+    assigner: { full_name: string } | null;
+}
+
+export interface AssignSubstituteInput {
+    sessionId: string;
+    substituteId: string;
+    reason?: string;
+}
+
+const SUBSTITUTION_KEYS = [
+    ['subject-substitutions'],
+    ['covered-sessions'],
+    ['substitution-history'],
+];
+
+// ── Query: Faculty who can take a class ─────────────────────
+
+export function useFacultyDirectory() {
+    const { user } = useAuth();
+    return useQuery({
+        queryKey: ['faculty-directory'],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('profiles')
+                .select('id, full_name, department')
+                .eq('role', 'faculty')
+                .order('full_name');
+            if (error) throw error;
+            return ((data ?? []) as FacultyMember[]).filter((f) => f.id !== user?.id);
+        },
+        enabled: !!user,
+        staleTime: 5 * 60_000,
+    });
+}
+
+// ── Query: Active substitutes on a subject's sessions ───────
+
+export function useSubjectSubstitutions(subjectId: string | null) {
+    return useQuery({
+        queryKey: ['subject-substitutions', subjectId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('session_substitutions')
+                .select(`
+          *,
+          substitute:profiles!substitute_faculty_id ( full_name ),
+          session:class_sessions!class_session_id!inner ( subject_id )
+        `)
+                .eq('session.subject_id', subjectId!)
+                .is('revoked_at', null);
+            if (error) throw error;
+            const rows = (data as unknown as SubstitutionWithNames[]) ?? [];
+            return new Map(rows.map((r) => [r.class_session_id, r]));
+        },
+        enabled: !!subjectId,
+        staleTime: 60_000,
+    });
+}
+
+// ── Query: Sessions the signed-in faculty covers on a date ──
+
+export function useCoveredSessions(date?: string) {
+    const { user } = useAuth();
+    const day = date ?? format(new Date(), 'yyyy-MM-dd');
+
+    return useQuery({
+        queryKey: ['covered-sessions', user?.id, day],
+        queryFn: ({ queryKey }) => withOfflineCache(queryKey, async () => {
+            const { data, error } = await supabase
+                .from('session_substitutions')
+                .select(`
+          *,
+          session:class_sessions!class_session_id!inner (
+            *, session_weight,
+            subject:subjects!subject_id ( id, name, code )
+          ),
+          original:profiles!original_faculty_id ( full_name )
+        `)
+                .eq('substitute_faculty_id', user!.id)
+                .is('revoked_at', null)
+                .eq('session.scheduled_date', day)
+                .eq('session.is_cancelled', false);
+            if (error) throw error;
+            return ((data as unknown as CoveredSession[]) ?? [])
+                .sort((a, b) => a.session.start_time.localeCompare(b.session.start_time));
+        }),
+        enabled: !!user,
+        networkMode: 'always',
+        staleTime: 30_000,
+    });
+}
+
+// ── Mutations: Assign / revoke a substitute ─────────────────
+
+export function useAssignSubstitute() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ sessionId, substituteId, reason }: AssignSubstituteInput) => {
+            const { data, error } = await supabase.rpc('assign_session_substitute', {
+                p_session_id: sessionId,
+                p_substitute_id: substituteId,
+                p_reason: reason ?? null,
+            });
+            if (error) throw error;
+            return data as unknown as string;
+        },
+        onSuccess: () => {
+            for (const queryKey of SUBSTITUTION_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+export function useRevokeSubstitute() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (sessionId: string) => {
+            const { error } = await supabase.rpc('revoke_session_substitute', {
+                p_session_id: sessionId,
+            });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            for (const queryKey of SUBSTITUTION_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Query: Substitution history for the semester (admin) ────
+
+export function useSubstitutionHistory() {
+    const { semesterId } = useSemester();
+
+    return useQuery({
+        queryKey: ['substitution-history', semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('session_substitutions')
+                .select(`
+          *,
+          session:class_sessions!class_session_id!inner (
+            scheduled_date, start_time, end_time, academic_semester_id,
+            subject:subjects!subject_id ( code, name )
+          ),
+          substitute:profiles!substitute_faculty_id ( full_name ),
+          original:profiles!original_faculty_id ( full_name ),
+          assigner:profiles!assigned_by ( full_name )
+        `)
+                .eq('session.academic_semester_id', semesterId!)
+                .order('created_at', { ascending: false });
+            if (error) throw error;
+            return (data as unknown as SubstitutionHistoryRow[]) ?? [];
+        },
+        enabled: !!semesterId,
+        staleTime: 60_000,
+    });
+}
@@ -1,83 +1,94 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { supabase } from '../api/supabase';
 import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
 import type { Subject, ClassSession } from '../types/database';
 
 // ── Extended session type with joined subject data ──────────
 export interface TimetableSession extends ClassSession {
+    session_weight: number;     // computed field, see session_weight()
     subject: Pick<Subject, 'id' | 'name' | 'code' | 'department'> & {
         faculty: { full_name: string } | null;
     };
 }
 
-export interface AddSessionInput {
-    subject_id: string;
-    scheduled_date: string;     // YYYY-MM-DD
-    start_time: string;         // HH:MM
-    end_time: string;           // HH:MM
-    venue?: string;
-    session_type?: 'lecture' | 'lab' | 'tutorial';
-}
-
 export interface EnrolledSubject extends Subject {
     faculty: { full_name: string } | null;
 }
 
-export function useTimetable() {
-    const { user } = useAuth();
-    const [sessions, setSessions] = useState<TimetableSession[]>([]);
-    const [enrolledSubjects, setEnrolledSubjects] = useState<EnrolledSubject[]>([]);
-    const [allSubjects, setAllSubjects] = useState<Subject[]>([]);
-    const [loading, setLoading] = useState(true);
-
-    // ── Fetch timetable sessions ──────────────────────────────
-    const fetchTimetable = useCallback(async () => {
-        if (!user) return;
-        setLoading(true);
+/** Inclusive YYYY-MM-DD bounds */
+export interface DateRange {
+    from: string;
+    to: string;
+}
 
-        // Get student's enrolled subject IDs
-        const { data: enrollments } = await supabase
-            .from('student_subjects')
-            .select('subject_id')
-            .eq('student_id', user.id);
-
-        const subjectIds = (enrollments ?? [])
-            .map((e) => e.subject_id)
-            .filter(Boolean) as string[];
-
-        if (subjectIds.length === 0) {
-            setSessions([]);
-            setLoading(false);
-            return;
-        }
-
-        // Fetch class sessions for those subjects, with subject + faculty join
-        const { data, error } = await supabase
-            .from('class_sessions')
-            .select(`
-        *,
+// ── Helper: enrolled sessions in a date range ───────────────
+async function fetchEnrolledSessions(
+    userId: string,
+    semesterId: string,
+    range: DateRange,
+): Promise<TimetableSession[]> {
+    // Get student's enrolled subject IDs for the selected semester
+    const { data: enrollments } = await supabase
+        .from('student_subjects')
+        .select('subject_id')
+        .eq('student_id', userId)
+        .eq('academic_semester_id', semesterId);
+
+    const subjectIds = (enrollments ?? [])
+        .map((e) => e.subject_id)
+        .filter(Boolean) as string[];
+
+    if (subjectIds.length === 0) return [];
+
+    // Fetch class sessions for those subjects, with subject + faculty join
+    const { data, error } = await supabase
+        .from('class_sessions')
+        .select(`
+        *, session_weight,
         subject:subjects!subject_id (
           id, name, code, department,
           faculty:profiles!faculty_id ( full_name )
         )
       `)
-            .in('subject_id', subjectIds)
-            .eq('is_cancelled', false)
-            .order('scheduled_date')
-            .order('start_time');
+        .in('subject_id', subjectIds)
+        .eq('academic_semester_id', semesterId)
+        .eq('is_cancelled', false)
+        .gte('scheduled_date', range.from)
+        .lte('scheduled_date', range.to)
+        .order('scheduled_date')
+        .order('start_time');
+
+    if (error) throw error;
+
+    // Supabase returns the joined `subject` as an object (single FK)
+    return (data as unknown as TimetableSession[]) ?? [];
+}
+
+const NO_SESSIONS: TimetableSession[] = [];
 
-        if (error) {
-            console.error('fetchTimetable error:', error.message);
-        }
+export function useTimetable(range: DateRange) {
+    const { user } = useAuth();
+    const { semesterId } = useSemester();
+    const qc = useQueryClient();
+    const [enrolledSubjects, setEnrolledSubjects] = useState<EnrolledSubject[]>([]);
+    const [allSubjects, setAllSubjects] = useState<Subject[]>([]);
+    const { from, to } = range;
 
-        // Supabase returns the joined `subject` as an object (single FK)
-        setSessions((data as unknown as TimetableSession[]) ?? []);
-        setLoading(false);
-    }, [user]);
+    // ── Timetable sessions in the visible range ───────────────
+    // The previous range stays on screen while the next one loads
+    const { data: sessions = NO_SESSIONS, isLoading: loading, refetch } = useQuery({
+        queryKey: ['timetable-sessions', user?.id, semesterId, from, to],
+        queryFn: () => fetchEnrolledSessions(user!.id, semesterId!, { from, to }),
+        enabled: !!user && !!semesterId,
+        placeholderData: keepPreviousData,
+    });
 
     // ── Fetch enrolled subjects ───────────────────────────────
     const fetchEnrolledSubjects = useCallback(async () => {
-        if (!user) return;
+        if (!user || !semesterId) return;
 
         const { data } = await supabase
             .from('student_subjects')
@@ -87,52 +98,28 @@ export function useTimetable() {
           faculty:profiles!faculty_id ( full_name )
         )
       `)
-            .eq('student_id', user.id);
+            .eq('student_id', user.id)
+            .eq('academic_semester_id', semesterId);
 
         const subjects = (data ?? [])
             .map((d) => d.subject as unknown as EnrolledSubject)
             .filter(Boolean);
 
         setEnrolledSubjects(subjects);
-    }, [user]);
+    }, [user, semesterId]);
 
     // ── Fetch all subjects (for "Add Subject" modal) ──────────
     const fetchAllSubjects = useCallback(async () => {
+        if (!semesterId) return;
+
         const { data } = await supabase
             .from('subjects')
             .select('*')
+            .eq('academic_semester_id', semesterId)
             .order('name');
 
         setAllSubjects(data ?? []);
-    }, []);
-
-    // ── Add a new class session ───────────────────────────────
-    const addSession = useCallback(async (input: AddSessionInput) => {
-        const { error } = await supabase
-            .from('class_sessions')
-            .insert({
-                subject_id: input.subject_id,
-                scheduled_date: input.scheduled_date,
-                start_time: input.start_time,
-                end_time: input.end_time,
-                venue: input.venue ?? null,
-                session_type: input.session_type ?? 'lecture',
-            });
-
-        if (error) throw error;
-        await fetchTimetable();
-    }, [fetchTimetable]);
-
-    // ── Soft-delete a session ─────────────────────────────────
-    const deleteSession = useCallback(async (sessionId: string) => {
-        const { error } = await supabase
-            .from('class_sessions')
-            .update({ is_cancelled: true })
-            .eq('id', sessionId);
-
-        if (error) throw error;
-        await fetchTimetable();
-    }, [fetchTimetable]);
+    }, [semesterId]);
 
     // ── Enrol in a subject ────────────────────────────────────
     const enrollInSubject = useCallback(async (subjectId: string) => {
@@ -144,24 +131,43 @@ export function useTimetable() {
 
         if (error) throw error;
         await fetchEnrolledSubjects();
-        await fetchTimetable();
-    }, [user, fetchEnrolledSubjects, fetchTimetable]);
+        qc.invalidateQueries({ queryKey: ['timetable-sessions'] });
+        qc.invalidateQueries({ queryKey: ['remaining-sessions'] });
+        qc.invalidateQueries({ queryKey: ['upcoming-sessions'] });
+    }, [user, fetchEnrolledSubjects, qc]);
 
     // ── Bootstrap on mount ────────────────────────────────────
     useEffect(() => {
-        fetchTimetable();
         fetchEnrolledSubjects();
         fetchAllSubjects();
-    }, [fetchTimetable, fetchEnrolledSubjects, fetchAllSubjects]);
+    }, [fetchEnrolledSubjects, fetchAllSubjects]);
 
     return {
         sessions,
         enrolledSubjects,
         allSubjects,
         loading,
-        addSession,
-        deleteSession,
         enrollInSubject,
-        refetch: fetchTimetable,
+        refetch,
     };
 }
+
+// ── Query: Every remaining session of the semester ──────────
+// The skip planner looks past the visible range, so it loads the
+// rest of the semester separately and only while it is open.
+
+export function useRemainingSessions(enabled: boolean) {
+    const { user } = useAuth();
+    const { semesterId, selectedSemester } = useSemester();
+
+    return useQuery({
+        queryKey: ['remaining-sessions', user?.id, semesterId],
+        queryFn: () =>
+            fetchEnrolledSessions(user!.id, semesterId!, {
+                from: format(new Date(), 'yyyy-MM-dd'),
+                to: selectedSemester!.end_date,
+            }),
+        enabled: enabled && !!user && !!semesterId && !!selectedSemester,
+        staleTime: 60_000,
+    });
+}
@@ -0,0 +1,150 @@
+import { useMemo } from 'react';
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useSemester } from './useSemester';
+import { checkSessionClashes, describeClash } from './useSessionClashes';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+    buildImportPlan,
+    type ImportRow,
+    type ImportPlan,
+    type ImportSubject,
+    type ExistingSession,
+} from '../lib/timetableImport';
+
+// ── Query: Semester subjects + the ones this user may edit ──
+
+export function useImportSubjects() {
+    const { user, profile } = useAuth();
+    const { semesterId } = useSemester();
+
+    const query = useQuery({
+        queryKey: ['import-subjects', semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('subjects')
+                .select('id, code, name, faculty_id')
+                .eq('academic_semester_id', semesterId!)
+                .order('code');
+            if (error) throw error;
+            return (data as unknown as ImportSubject[]) ?? [];
+        },
+        enabled: !!semesterId,
+        staleTime: 120_000,
+    });
+
+    // Admins manage every subject; faculty only the ones they teach
+    const manageable = useMemo(
+        () => new Set(
+            (query.data ?? [])
+                .filter((s) => profile?.role === 'admin' || s.faculty_id === user?.id)
+                .map((s) => s.id),
+        ),
+        [query.data, profile?.role, user?.id],
+    );
+
+    return { ...query, manageable };
+}
+
+// ── Mutation: Build the diff preview ────────────────────────
+
+interface PreviewInput {
+    rows: ImportRow[];
+    subjects: ImportSubject[];
+    manageable: Set<string>;
+    cancelMissing: boolean;
+}
+
+export function usePreviewImport() {
+    const { semesterId } = useSemester();
+
+    return useMutation({
+        mutationFn: async ({ rows, subjects, manageable, cancelMissing }: PreviewInput): Promise<ImportPlan> => {
+            if (!semesterId) throw new Error('No semester selected');
+            if (rows.length === 0) return buildImportPlan([], subjects, manageable, []);
+
+            // Every session in the file's date range — imported subjects for
+            // the diff, all others as clash context
+            const dates = rows.map((r) => r.scheduled_date).sort();
+            const { data, error } = await supabase
+                .from('class_sessions')
+                .select('id, subject_id, scheduled_date, start_time, end_time, venue, session_type, is_cancelled')
+                .eq('academic_semester_id', semesterId)
+                .gte('scheduled_date', dates[0])
+                .lte('scheduled_date', dates[dates.length - 1]);
+            if (error) throw error;
+
+            const plan = buildImportPlan(rows, subjects, manageable, (data as unknown as ExistingSession[]) ?? [], cancelMissing);
+
+            // Venue / faculty clashes are found locally; shared students need the
+            // enrolment table, so ask the server about new and moved sessions
+            const placed = plan.entries.filter((e) => e.kind === 'create' || e.kind === 'change');
+            const moved = plan.entries
+                .filter((e) => e.existing && e.kind !== 'unchanged')
+                .map((e) => e.existing!.id);
+            const clashes = await checkSessionClashes(
+                placed.map((e) => ({
+                    subject_id: e.subject.id,
+                    scheduled_date: e.row!.scheduled_date,
+                    start_time: e.row!.start_time,
+                    end_time: e.row!.end_time,
+                    venue: e.row!.venue,
+                })),
+                moved,
+            );
+            for (const c of clashes) {
+                if (c.clash_type !== 'student') continue;
+                placed[c.idx].clashes.push(describeClash(c, placed[c.idx].subject.id));
+            }
+
+            return plan;
+        },
+    });
+}
+
+// ── Mutation: Commit the plan in one transaction ────────────
+
+export function useCommitImport() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (plan: ImportPlan) => {
+            const creates = plan.entries
+                .filter((e) => e.kind === 'create')
+                .map((e) => ({
+                    subject_id: e.subject.id,
+                    scheduled_date: e.row!.scheduled_date,
+                    start_time: e.row!.start_time,
+                    end_time: e.row!.end_time,
+                    venue: e.row!.venue,
+                    session_type: e.row!.session_type,
+                }));
+            const updates = plan.entries
+                .filter((e) => e.kind === 'change')
+                .map((e) => ({
+                    id: e.existing!.id,
+                    scheduled_date: e.row!.scheduled_date,
+                    start_time: e.row!.start_time,
+                    end_time: e.row!.end_time,
+                    venue: e.row!.venue,
+                    session_type: e.row!.session_type,
+                }));
+            const cancels = plan.entries
+                .filter((e) => e.kind === 'cancel')
+                .map((e) => e.existing!.id);
+
+            const { data, error } = await supabase.rpc('import_class_sessions', {
+                p_creates: creates,
+                p_updates: updates,
+                p_cancels: cancels,
+            });
+            if (error) throw error;
+            return data as unknown as { created: number; updated: number; cancelled: number };
+        },
+        onSuccess: () => {
+            for (const queryKey of [['subject-sessions'], ['faculty-sessions'], ['faculty-subjects'], ['attendance-summary']]) {
+                qc.invalidateQueries({ queryKey });
+            }
+        },
+    });
+}
@@ -0,0 +1,48 @@
+import { supabase } from '../api/supabase';
+import { useAuth } from './useAuth';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { TimetableNotification } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface TimetableNotificationWithSubject extends TimetableNotification {
+    subject: { id: string; name: string; code: string } | null;
+}
+
+// ── Student: cancellations, restorations, moves, make-ups ───
+
+export function useMyTimetableNotifications(limit = 20) {
+    const { user } = useAuth();
+    return useQuery({
+        queryKey: ['timetable-notifications', user?.id, limit],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('timetable_notifications')
+                .select(`*, subject:subjects!subject_id ( id, name, code )`)
+                .eq('student_id', user!.id)
+                .order('created_at', { ascending: false })
+                .limit(limit);
+            if (error) throw error;
+            return (data as unknown as TimetableNotificationWithSubject[]) ?? [];
+        },
+        enabled: !!user,
+        staleTime: 60_000,
+    });
+}
+
+export function useMarkTimetableNotificationsRead() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (ids: string[]) => {
+            const { error } = await supabase
+                .from('timetable_notifications')
+                .update({ read_at: new Date().toISOString() })
+                .in('id', ids);
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ['timetable-notifications'] });
+        },
+    });
+}
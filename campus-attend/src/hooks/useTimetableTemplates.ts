@@ -0,0 +1,217 @@
+import { supabase } from '../api/supabase';
+import { useSemester } from './useSemester';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ClassSession, TimetableTemplate } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type SessionType = 'lecture' | 'lab' | 'tutorial';
+
+export type EditScope = 'this' | 'following';
+
+export interface CreateTemplateInput {
+    subject_id: string;
+    weekday: number;            // 0 = Mon … 6 = Sun
+    start_time: string;         // HH:MM
+    end_time: string;           // HH:MM
+    venue?: string;
+    session_type?: SessionType;
+    valid_from?: string | null; // YYYY-MM-DD, defaults to semester start
+    valid_until?: string | null;
+}
+
+export interface EditSessionInput {
+    session_id: string;
+    scope: EditScope;
+    scheduled_date?: string;    // 'this' only
+    weekday?: number;           // 'following' only
+    start_time?: string;
+    end_time?: string;
+    venue?: string;
+    session_type?: SessionType;
+}
+
+export interface ScheduleMakeupInput {
+    cancelled_session_id: string;
+    scheduled_date: string;     // YYYY-MM-DD
+    start_time: string;         // HH:MM
+    end_time: string;           // HH:MM
+    venue?: string;             // defaults to the cancelled session's venue
+}
+
+export interface RescheduleSessionInput {
+    session_id: string;
+    scheduled_date: string;     // YYYY-MM-DD
+    start_time: string;         // HH:MM
+    end_time: string;           // HH:MM
+    venue?: string;             // defaults to the current venue
+    reason?: string;            // included in the student notification
+}
+
+// Everything that shows sessions or planned totals
+const TIMETABLE_KEYS = [
+    ['timetable-templates'],
+    ['subject-sessions'],
+    ['faculty-subjects'],
+    ['faculty-sessions'],
+    ['attendance-summary'],
+];
+
+// ── Query: Weekly slots of a subject ────────────────────────
+
+export function useSubjectTemplates(subjectId: string | null) {
+    return useQuery({
+        queryKey: ['timetable-templates', subjectId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('timetable_templates')
+                .select('*')
+                .eq('subject_id', subjectId!)
+                .order('weekday')
+                .order('start_time');
+            if (error) throw error;
+            return (data as unknown as TimetableTemplate[]) ?? [];
+        },
+        enabled: !!subjectId,
+        staleTime: 60_000,
+    });
+}
+
+// ── Query: All sessions of a subject in the semester ────────
+
+export function useSubjectSessions(subjectId: string | null) {
+    const { semesterId } = useSemester();
+    return useQuery({
+        queryKey: ['subject-sessions', subjectId, semesterId],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('class_sessions')
+                .select('*')
+                .eq('subject_id', subjectId!)
+                .eq('academic_semester_id', semesterId!)
+                .order('scheduled_date')
+                .order('start_time');
+            if (error) throw error;
+            return (data as unknown as ClassSession[]) ?? [];
+        },
+        enabled: !!subjectId && !!semesterId,
+        staleTime: 60_000,
+    });
+}
+
+// ── Mutation: Create a weekly slot (generates sessions) ─────
+
+export function useCreateTemplate() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (input: CreateTemplateInput) => {
+            const { data, error } = await supabase.rpc('create_timetable_template', {
+                p_subject_id: input.subject_id,
+                p_weekday: input.weekday,
+                p_start_time: input.start_time,
+                p_end_time: input.end_time,
+                p_venue: input.venue ?? null,
+                p_session_type: input.session_type ?? 'lecture',
+                p_valid_from: input.valid_from ?? null,
+                p_valid_until: input.valid_until ?? null,
+            });
+            if (error) throw error;
+            return data as unknown as string;
+        },
+        onSuccess: () => {
+            for (const queryKey of TIMETABLE_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Edit "this only" / "this and following" ───────
+
+export function useEditSession() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (input: EditSessionInput) => {
+            const { data, error } = await supabase.rpc('edit_class_session', {
+                p_session_id: input.session_id,
+                p_scope: input.scope,
+                p_scheduled_date: input.scope === 'this' ? input.scheduled_date ?? null : null,
+                p_start_time: input.start_time ?? null,
+                p_end_time: input.end_time ?? null,
+                p_venue: input.venue ?? null,
+                p_session_type: input.session_type ?? null,
+                p_weekday: input.scope === 'following' ? input.weekday ?? null : null,
+            });
+            if (error) throw error;
+            return (data as unknown as number) ?? 0;
+        },
+        onSuccess: () => {
+            for (const queryKey of TIMETABLE_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Remove a weekly slot ──────────────────────────
+
+export function useDeleteTemplate() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (templateId: string) => {
+            const { data, error } = await supabase.rpc('delete_timetable_template', {
+                p_template_id: templateId,
+            });
+            if (error) throw error;
+            return (data as unknown as number) ?? 0;
+        },
+        onSuccess: () => {
+            for (const queryKey of TIMETABLE_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Make up a cancelled session ───────────────────
+
+export function useScheduleMakeup() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (input: ScheduleMakeupInput) => {
+            const { data, error } = await supabase.rpc('schedule_makeup_session', {
+                p_cancelled_session_id: input.cancelled_session_id,
+                p_scheduled_date: input.scheduled_date,
+                p_start_time: input.start_time,
+                p_end_time: input.end_time,
+                p_venue: input.venue ?? null,
+            });
+            if (error) throw error;
+            return data as unknown as string;
+        },
+        onSuccess: () => {
+            for (const queryKey of TIMETABLE_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Mutation: Move one session, notifying its students ──────
+
+export function useRescheduleSession() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (input: RescheduleSessionInput) => {
+            const { error } = await supabase.rpc('reschedule_class_session', {
+                p_session_id: input.session_id,
+                p_scheduled_date: input.scheduled_date,
+                p_start_time: input.start_time,
+                p_end_time: input.end_time,
+                p_venue: input.venue ?? null,
+                p_reason: input.reason ?? null,
+            });
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            for (const queryKey of TIMETABLE_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
@@ -0,0 +1,94 @@
+import { supabase } from '../api/supabase';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Database, Venue } from '../types/database';
+import type { DateRange } from './useTimetable';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type VenueBooking = Database['public']['Functions']['get_venue_bookings']['Returns'][number];
+
+export interface SaveVenueInput {
+    id?: string;
+    name: string;
+    building?: string | null;
+    capacity?: number | null;
+    geofence_lat?: number | null;
+    geofence_lng?: number | null;
+    geofence_radius_m?: number;
+    aliases?: string[];
+    is_active?: boolean;
+}
+
+// Saving a venue can relink and rename sessions and events
+const VENUE_KEYS = [
+    ['venues'],
+    ['venue-bookings'],
+    ['subject-sessions'],
+    ['timetable-templates'],
+    ['faculty-sessions'],
+];
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const key = (s: string) => s.trim().toLowerCase();
+
+/** Registry entry for free text, by canonical name or alias (mirrors resolve_venue) */
+export function matchVenue(venues: Venue[] | undefined, text: string): Venue | null {
+    const k = key(text);
+    if (!k || !venues) return null;
+    return venues.find((v) => key(v.name) === k || v.aliases.some((a) => key(a) === k)) ?? null;
+}
+
+// ── Query: Venue registry ───────────────────────────────────
+
+export function useVenues({ includeInactive = false } = {}) {
+    return useQuery({
+        queryKey: ['venues', includeInactive],
+        queryFn: async () => {
+            let query = supabase.from('venues').select('*').order('name');
+            if (!includeInactive) query = query.eq('is_active', true);
+            const { data, error } = await query;
+            if (error) throw error;
+            return (data as unknown as Venue[]) ?? [];
+        },
+        staleTime: 5 * 60_000,
+    });
+}
+
+// ── Mutation: Create or update a venue (admin) ──────────────
+
+export function useSaveVenue() {
+    const qc = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ id, ...fields }: SaveVenueInput) => {
+            const { error } = id
+                ? await supabase.from('venues').update(fields).eq('id', id)
+                : await supabase.from('venues').insert(fields);
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            for (const queryKey of VENUE_KEYS) qc.invalidateQueries({ queryKey });
+        },
+    });
+}
+
+// ── Query: Sessions and events booked at a venue ───────────
+
+export function useVenueBookings(venueId: string | null, range: DateRange) {
+    return useQuery({
+        queryKey: ['venue-bookings', venueId, range.from, range.to],
+        queryFn: async () => {
+            const { data, error } = await supabase.rpc('get_venue_bookings', {
+                p_venue_id: venueId!,
+                p_from: range.from,
+                p_to: range.to,
+                p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            });
+            if (error) throw error;
+            return (data as unknown as VenueBooking[]) ?? [];
+        },
+        enabled: !!venueId,
+        staleTime: 30_000,
+    });
+}
@@ -0,0 +1,68 @@
+import type { AttendanceBuffer, Eligibility } from '../hooks/useAttendance';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type SimulatedMark = 'skipped' | 'attended' | 'on_duty';
+
+export interface WeightedMark {
+    mark: SimulatedMark;
+    weight: number;             // session_weight of the marked session
+}
+
+export interface SimulatedBuffer {
+    present_count: number;
+    held_count: number;
+    current_pct: number;        // 0–1
+    projected_pct: number;      // 0–1
+    eligibility: Eligibility;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+/** Same grading as calculate_attendance_buffer */
+export function getEligibility(
+    pct: number,
+    threshold: number,
+    condonation: number,
+): Eligibility {
+    if (pct >= threshold) return 'safe';
+    if (pct >= condonation) return 'condonable';
+    return 'detained';
+}
+
+/**
+ * Re-run the calculate_attendance_buffer formula with hypothetical marks
+ * for upcoming sessions. Each marked session adds its weight to held;
+ * attended and OD add it to present. Unmarked future sessions are assumed
+ * attended for the projection, exactly as the server does.
+ */
+export function simulateBuffer(
+    buffer: AttendanceBuffer,
+    marks: WeightedMark[],
+): SimulatedBuffer {
+    let held = buffer.held_count;
+    let present = buffer.present_count;
+    for (const m of marks) {
+        held += m.weight;
+        if (m.mark !== 'skipped') present += m.weight;
+    }
+
+    const current = held > 0 ? present / held : 1;
+    const remaining = Math.max(buffer.total_planned - held, 0);
+    const projected =
+        buffer.total_planned > 0
+            ? (present + remaining) / buffer.total_planned
+            : current;
+
+    return {
+        present_count: present,
+        held_count: held,
+        current_pct: current,
+        projected_pct: projected,
+        eligibility: getEligibility(
+            current,
+            buffer.attendance_threshold,
+            buffer.condonation_threshold,
+        ),
+    };
+}
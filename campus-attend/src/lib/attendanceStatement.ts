@@ -0,0 +1,62 @@
+import { format } from 'date-fns';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface StatementRecord {
+    status: string;
+    marked_at: string;
+    marked_by: string;
+    notes: string | null;
+    class_session: {
+        scheduled_date: string;
+        start_time: string;
+        end_time: string;
+        session_type: string;
+        subject: { name: string; code: string } | null;
+    } | null;
+}
+
+// ── CSV ─────────────────────────────────────────────────────
+
+function csvCell(value: string | number | null | undefined): string {
+    const s = String(value ?? '');
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One line per attendance record, oldest session first */
+export function buildStatementCsv(records: StatementRecord[]): string {
+    const header = ['Date', 'Start', 'End', 'Subject Code', 'Subject', 'Type', 'Status', 'Marked By', 'Marked At', 'Notes'];
+    const rows = [...records]
+        .sort((a, b) =>
+            (a.class_session?.scheduled_date ?? '').localeCompare(b.class_session?.scheduled_date ?? '') ||
+            (a.class_session?.start_time ?? '').localeCompare(b.class_session?.start_time ?? ''),
+        )
+        .map((r) => {
+            const cs = r.class_session;
+            return [
+                cs?.scheduled_date,
+                cs?.start_time.slice(0, 5),
+                cs?.end_time.slice(0, 5),
+                cs?.subject?.code,
+                cs?.subject?.name,
+                cs?.session_type,
+                r.status,
+                r.marked_by,
+                format(new Date(r.marked_at), 'yyyy-MM-dd HH:mm'),
+                r.notes,
+            ].map(csvCell).join(',');
+        });
+
+    return [header.join(','), ...rows].join('\n');
+}
+
+// ── Download ────────────────────────────────────────────────
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,166 @@
+import { format, getISOWeek, getISOWeekYear, parseISO, startOfISOWeek } from 'date-fns';
+import type { MedicalPolicy } from '../hooks/useAttendance';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface TrendRecord {
+    status: 'present' | 'absent' | 'on_duty' | 'medical';
+    subject_id: string | null;
+    scheduled_date: string;     // YYYY-MM-DD
+    session_weight: number;
+}
+
+export interface TrendSession {
+    subject_id: string | null;
+    scheduled_date: string;     // YYYY-MM-DD, strictly after today
+    session_weight: number;
+    medical: boolean;           // already marked medical by approved leave
+}
+
+export interface TrendPoint {
+    week: string;               // ISO week key, e.g. "2026-W07"
+    label: string;              // Monday of that week, e.g. "09 Feb"
+    pct?: number;               // actual cumulative %, past weeks only
+    best?: number;              // projected % attending every remaining session
+    trend?: number;             // projected % at the recent attendance rate
+    /** Per-subject actual cumulative %, keyed by subject_id */
+    subjects: Record<string, number>;
+}
+
+/** Weeks of actual data used for the "current rate" of the trend case */
+export const RECENT_WEEKS = 4;
+
+// ── Helpers ─────────────────────────────────────────────────
+
+export function isoWeekKey(date: string): string {
+    const d = parseISO(date);
+    return `${getISOWeekYear(d)}-W${String(getISOWeek(d)).padStart(2, '0')}`;
+}
+
+const round2 = (v: number) => Math.round(v * 10000) / 100;
+
+interface Tally {
+    present: number;
+    held: number;
+}
+
+/** Apply one record to a running tally under the semester's medical policy */
+function addRecord(t: Tally, r: TrendRecord, policy: MedicalPolicy) {
+    if (r.status === 'medical') {
+        if (policy === 'count_as_present') {
+            t.present += r.session_weight;
+            t.held += r.session_weight;
+        }
+        return;
+    }
+    t.held += r.session_weight;
+    if (r.status === 'present' || r.status === 'on_duty') t.present += r.session_weight;
+}
+
+// ── Series builder ──────────────────────────────────────────
+
+/**
+ * Weekly cumulative attendance bucketed by ISO week, followed by two
+ * projections over the remaining scheduled sessions:
+ *   best  — every remaining session attended
+ *   trend — remaining sessions attended at the rate of the last
+ *           RECENT_WEEKS weeks of actual data
+ * Remaining sessions already on medical leave follow the medical
+ * policy, as in calculate_attendance_buffer: left out entirely, or
+ * counted as present in both cases.
+ * The last actual week carries both projections so the lines join.
+ */
+export function buildTrendSeries(
+    records: TrendRecord[],
+    remaining: TrendSession[],
+    policy: MedicalPolicy,
+): TrendPoint[] {
+    const points: TrendPoint[] = [];
+    const overall: Tally = { present: 0, held: 0 };
+    const perSubject = new Map<string, Tally>();
+    const weekly: Tally[] = [];
+
+    const sorted = [...records].sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date));
+
+    for (const r of sorted) {
+        const key = isoWeekKey(r.scheduled_date);
+        let point = points[points.length - 1];
+        if (!point || point.week !== key) {
+            point = {
+                week: key,
+                label: format(startOfISOWeek(parseISO(r.scheduled_date)), 'dd MMM'),
+                subjects: {},
+            };
+            points.push(point);
+            weekly.push({ present: 0, held: 0 });
+        }
+
+        addRecord(overall, r, policy);
+        addRecord(weekly[weekly.length - 1], r, policy);
+
+        if (r.subject_id) {
+            const t = perSubject.get(r.subject_id) ?? { present: 0, held: 0 };
+            addRecord(t, r, policy);
+            perSubject.set(r.subject_id, t);
+        }
+
+        point.pct = overall.held > 0 ? round2(overall.present / overall.held) : 100;
+        for (const [id, t] of perSubject) {
+            if (t.held > 0) point.subjects[id] = round2(t.present / t.held);
+        }
+    }
+
+    if (remaining.length === 0) return points;
+
+    // Recent rate — falls back to the overall rate, then to 100%
+    const recent = weekly.slice(-RECENT_WEEKS).reduce(
+        (acc, t) => ({ present: acc.present + t.present, held: acc.held + t.held }),
+        { present: 0, held: 0 },
+    );
+    const rate =
+        recent.held > 0 ? recent.present / recent.held
+            : overall.held > 0 ? overall.present / overall.held
+                : 1;
+
+    const last = points[points.length - 1];
+    if (last) {
+        last.best = last.pct;
+        last.trend = last.pct;
+    }
+
+    // Remaining weight per future ISO week; medical weight is present either way
+    const futureWeeks = new Map<string, { label: string; weight: number; medical: number }>();
+    for (const s of [...remaining].sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date))) {
+        if (s.medical && policy !== 'count_as_present') continue;
+        const key = isoWeekKey(s.scheduled_date);
+        const w = futureWeeks.get(key) ?? {
+            label: format(startOfISOWeek(parseISO(s.scheduled_date)), 'dd MMM'),
+            weight: 0,
+            medical: 0,
+        };
+        if (s.medical) w.medical += s.session_weight;
+        else w.weight += s.session_weight;
+        futureWeeks.set(key, w);
+    }
+
+    let bestPresent = overall.present;
+    let trendPresent = overall.present;
+    let held = overall.held;
+
+    for (const [key, { label, weight, medical }] of futureWeeks) {
+        bestPresent += weight + medical;
+        trendPresent += weight * rate + medical;
+        held += weight + medical;
+
+        const proj = {
+            best: held > 0 ? round2(bestPresent / held) : 100,
+            trend: held > 0 ? round2(trendPresent / held) : 100,
+        };
+
+        // Sessions later this week extend the current point
+        if (last && last.week === key) Object.assign(last, proj);
+        else points.push({ week: key, label, subjects: {}, ...proj });
+    }
+
+    return points;
+}
@@ -0,0 +1,139 @@
+import type { AttendanceRecord } from '../types/database';
+
+// ── Types ───────────────────────────────────────────────────
+
+export type MarkStatus = AttendanceRecord['status'];
+
+/** An attendance submission made without a connection, waiting to be sent */
+export interface QueuedAttendance {
+    session_id: string;
+    subject_id: string | null;
+    records: { student_id: string; status: MarkStatus }[];
+    /** Server status per student when the roster was loaded (null = unmarked) */
+    base: Record<string, MarkStatus | null>;
+    queued_at: string;          // ISO timestamp
+    /** Set when the server rejected the submission; it stays queued until retried or discarded */
+    last_error: string | null;
+}
+
+interface CachedValue<T> {
+    value: T;
+    saved_at: string;
+}
+
+// ── IndexedDB plumbing ──────────────────────────────────────
+
+const DB_NAME = 'campus-attend';
+const DB_VERSION = 1;
+const CACHE_STORE = 'query-cache';
+const QUEUE_STORE = 'attendance-queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            req.result.createObjectStore(CACHE_STORE);
+            req.result.createObjectStore(QUEUE_STORE, { keyPath: 'session_id' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    }).catch((err) => {
+        dbPromise = null;
+        throw err;
+    });
+    return dbPromise;
+}
+
+async function run<T>(
+    store: string,
+    mode: IDBTransactionMode,
+    op: (s: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = op(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+// ── Connectivity ────────────────────────────────────────────
+
+/** True when a request failed for lack of a connection rather than being rejected */
+export function isNetworkError(err: unknown): boolean {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = err instanceof Error ? err.message : (err as { message?: string } | null)?.message;
+    return err instanceof TypeError || /failed to fetch|networkerror|load failed|network request failed/i.test(message ?? '');
+}
+
+// ── Read-through cache for query results ────────────────────
+
+/**
+ * Runs `fetcher` and keeps its result on the device. When the
+ * request fails for lack of a connection the last saved result is
+ * returned instead; other errors are rethrown.
+ */
+export async function withOfflineCache<T>(key: readonly unknown[], fetcher: () => Promise<T>): Promise<T> {
+    const id = JSON.stringify(key);
+    try {
+        const value = await fetcher();
+        run(CACHE_STORE, 'readwrite', (s) => s.put({ value, saved_at: new Date().toISOString() }, id))
+            .catch(console.error);
+        return value;
+    } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        const cached = await run<CachedValue<T> | undefined>(CACHE_STORE, 'readonly', (s) => s.get(id))
+            .catch(() => undefined);
+        if (!cached) throw err;
+        return cached.value;
+    }
+}
+
+// ── Attendance queue ────────────────────────────────────────
+
+/**
+ * Queues a submission. An earlier unsent one for the same session is
+ * merged per student: the newer mark wins, while the base stays the
+ * server status the first queued mark was made against. A rejected
+ * entry keeps its error, so it still waits for a retry.
+ */
+export async function enqueueAttendance(entry: Omit<QueuedAttendance, 'queued_at' | 'last_error'>) {
+    const db = await openDb();
+    return new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(QUEUE_STORE, 'readwrite');
+        const store = tx.objectStore(QUEUE_STORE);
+        const req = store.get(entry.session_id) as IDBRequest<QueuedAttendance | undefined>;
+        req.onsuccess = () => {
+            const prev = req.result;
+            const records = new Map(prev?.records.map((r) => [r.student_id, r]));
+            for (const r of entry.records) records.set(r.student_id, r);
+            const row: QueuedAttendance = {
+                ...entry,
+                records: [...records.values()],
+                base: { ...entry.base, ...prev?.base },
+                queued_at: new Date().toISOString(),
+                last_error: prev?.last_error ?? null,
+            };
+            store.put(row);
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export function getQueuedAttendance(): Promise<QueuedAttendance[]> {
+    return run<QueuedAttendance[]>(QUEUE_STORE, 'readonly', (s) => s.getAll());
+}
+
+export function updateQueuedAttendance(entry: QueuedAttendance) {
+    return run(QUEUE_STORE, 'readwrite', (s) => s.put(entry));
+}
+
+export function removeQueuedAttendance(sessionId: string) {
+    return run(QUEUE_STORE, 'readwrite', (s) => s.delete(sessionId));
+}
@@ -0,0 +1,179 @@
+import type { SubjectAttendance } from '../hooks/useAttendance';
+
+// ── Types ───────────────────────────────────────────────────
+
+export interface PlannableSession {
+    id: string;
+    subject_id: string | null;
+    scheduled_date: string;     // YYYY-MM-DD
+    start_time: string;         // HH:MM[:SS]
+    session_weight?: number;    // contact hours; defaults to 1
+}
+
+export interface SkipGoals {
+    /** Try to free up whole days (every class on that date skipped) */
+    freeDays: boolean;
+    /** Prefer skipping classes that start before `earlyCutoff` */
+    avoidEarly: boolean;
+    earlyCutoff: string;        // HH:MM
+    /** Skip everything in this inclusive date range first, if the budget allows */
+    range: { from: string; to: string } | null;
+}
+
+export const DEFAULT_SKIP_GOALS: SkipGoals = {
+    freeDays: true,
+    avoidEarly: false,
+    earlyCutoff: '09:30',
+    range: null,
+};
+
+export interface SubjectProjection {
+    subject_id: string;
+    subject_code: string;
+    subject_name: string;
+    budget: number;             // buffer_classes from calculate_attendance_buffer (weighted)
+    planned_skips: number;      // weighted, same unit as budget
+    current_pct: number;        // 0–1
+    projected_pct: number;      // 0–1, attending every class not in the plan
+    threshold: number;          // 0–1
+}
+
+export interface SkipPlan {
+    skipped: Set<string>;
+    freeDays: string[];
+    subjects: SubjectProjection[];
+    /** Sessions in the requested range that could not be skipped safely */
+    rangeConflicts: string[];
+}
+
+// ── Planner ─────────────────────────────────────────────────
+
+/**
+ * Greedy skip planner across all enrolled subjects.
+ *
+ * Each subject may lose at most `buffer_classes` weighted hours of future
+ * sessions, which keeps it at or above the attendance threshold by
+ * semester end; a session costs its `session_weight`. Goals are
+ * applied in priority order: requested date range → whole free days →
+ * early-morning classes. Only sessions strictly after `today` are
+ * considered, matching how the buffer function counts held classes.
+ */
+export function planSkips(
+    sessions: PlannableSession[],
+    summary: SubjectAttendance[],
+    goals: SkipGoals,
+    today: string,
+): SkipPlan {
+    const remaining = new Map<string, number>(
+        summary.map((s) => [s.subject_id, s.buffer.buffer_classes]),
+    );
+    const skipped = new Set<string>();
+    const rangeConflicts: string[] = [];
+
+    const future = sessions
+        .filter((s) => s.subject_id && s.scheduled_date > today)
+        .sort((a, b) =>
+            a.scheduled_date.localeCompare(b.scheduled_date) ||
+            a.start_time.localeCompare(b.start_time),
+        );
+
+    // Can every not-yet-skipped session in `list` fit within the budgets?
+    const fits = (list: PlannableSession[]) => {
+        const need = new Map<string, number>();
+        for (const s of list) {
+            if (skipped.has(s.id)) continue;
+            need.set(s.subject_id!, (need.get(s.subject_id!) ?? 0) + (s.session_weight ?? 1));
+        }
+        for (const [subjectId, n] of need) {
+            if ((remaining.get(subjectId) ?? 0) < n) return false;
+        }
+        return true;
+    };
+
+    const take = (list: PlannableSession[]) => {
+        for (const s of list) {
+            if (skipped.has(s.id)) continue;
+            skipped.add(s.id);
+            remaining.set(s.subject_id!, (remaining.get(s.subject_id!) ?? 0) - (s.session_weight ?? 1));
+        }
+    };
+
+    const byDate = new Map<string, PlannableSession[]>();
+    for (const s of future) {
+        const arr = byDate.get(s.scheduled_date) ?? [];
+        arr.push(s);
+        byDate.set(s.scheduled_date, arr);
+    }
+
+    // 1. Requested date range — whole days where possible, then single sessions
+    if (goals.range) {
+        const { from, to } = goals.range;
+        for (const [date, daySessions] of byDate) {
+            if (date < from || date > to) continue;
+            if (fits(daySessions)) {
+                take(daySessions);
+                continue;
+            }
+            for (const s of daySessions) {
+                if (fits([s])) take([s]);
+                else rangeConflicts.push(s.id);
+            }
+        }
+    }
+
+    // 2. Whole free days — cheapest days first so more of them fit
+    if (goals.freeDays) {
+        const candidates = [...byDate.entries()]
+            .map(([date, list]) => ({
+                date,
+                list,
+                cost: list
+                    .filter((s) => !skipped.has(s.id))
+                    .reduce((sum, s) => sum + (s.session_weight ?? 1), 0),
+            }))
+            .filter((d) => d.cost > 0)
+            .sort((a, b) => a.cost - b.cost || a.date.localeCompare(b.date));
+
+        for (const d of candidates) {
+            if (fits(d.list)) take(d.list);
+        }
+    }
+
+    // 3. Early-morning classes — earliest start first
+    if (goals.avoidEarly) {
+        const early = future
+            .filter((s) => !skipped.has(s.id) && s.start_time.slice(0, 5) < goals.earlyCutoff)
+            .sort((a, b) =>
+                a.start_time.localeCompare(b.start_time) ||
+                a.scheduled_date.localeCompare(b.scheduled_date),
+            );
+        for (const s of early) {
+            if (fits([s])) take([s]);
+        }
+    }
+
+    const freeDays = [...byDate.entries()]
+        .filter(([, list]) => list.every((s) => skipped.has(s.id)))
+        .map(([date]) => date);
+
+    const subjects: SubjectProjection[] = summary.map((s) => {
+        const b = s.buffer;
+        const used = b.buffer_classes - (remaining.get(s.subject_id) ?? 0);
+        const left = Math.max(b.total_planned - b.held_count, 0);
+        return {
+            subject_id: s.subject_id,
+            subject_code: s.subject_code,
+            subject_name: s.subject_name,
+            budget: b.buffer_classes,
+            planned_skips: used,
+            current_pct: b.current_pct,
+            projected_pct:
+                b.total_planned > 0
+                    ? (b.present_count + left - used) / b.total_planned
+                    : b.current_pct,
+            threshold: b.attendance_threshold,
+        };
+    });
+
+    return { skipped, freeDays, subjects, rangeConflicts };
+}
@@ -0,0 +1,528 @@
+/**
+ * Timetable import — parses CSV / iCalendar files into class sessions and
+ * diffs them against what is already scheduled.
+ *
+ * CSV layout (header row required, column order free, case-insensitive):
+ *   subject_code   required  e.g. CS101
+ *   date           required  YYYY-MM-DD or DD/MM/YYYY
+ *   start_time     required  HH:MM (24h) or h:mm AM/PM
+ *   end_time       required  same as start_time
+ *   venue          optional
+ *   session_type   optional  lecture | lab | tutorial (default lecture)
+ *   status         optional  "cancelled" cancels the matching session
+ *
+ * Scheduled sessions of a subject in the file, between its first and last
+ * date, that the file doesn't list are left alone unless the import is
+ * asked to cancel them.
+ */
+
+// ── Types ───────────────────────────────────────────────────
+
+export type SessionType = 'lecture' | 'lab' | 'tutorial';
+
+export interface ImportRow {
+    line: number;               // 1-based line (CSV) or event index (ICS)
+    subject_code: string;
+    scheduled_date: string;     // YYYY-MM-DD
+    start_time: string;         // HH:MM
+    end_time: string;           // HH:MM
+    venue: string | null;
+    session_type: SessionType;
+    cancelled: boolean;
+}
+
+export interface ParseError {
+    line: number;
+    message: string;
+}
+
+export interface ParseResult {
+    rows: ImportRow[];
+    errors: ParseError[];
+}
+
+export interface ImportSubject {
+    id: string;
+    code: string;
+    name: string;
+    faculty_id: string | null;
+}
+
+export interface ExistingSession {
+    id: string;
+    subject_id: string;
+    scheduled_date: string;
+    start_time: string;
+    end_time: string;
+    venue: string | null;
+    session_type: SessionType;
+    is_cancelled: boolean;
+}
+
+export type DiffKind = 'create' | 'change' | 'cancel' | 'unchanged';
+
+export interface DiffEntry {
+    kind: DiffKind;
+    subject: ImportSubject;
+    row: ImportRow | null;
+    existing: ExistingSession | null;
+    changes: string[];          // human-readable field changes for 'change'
+    clashes: string[];
+}
+
+export interface ImportPlan {
+    entries: DiffEntry[];
+    unknownCodes: { code: string; lines: number[] }[];
+    forbiddenCodes: { code: string; lines: number[] }[];
+    range: { from: string; to: string } | null;
+    missing: number;            // scheduled sessions in range the file leaves out
+}
+
+export const CSV_COLUMNS = [
+    'subject_code', 'date', 'start_time', 'end_time', 'venue', 'session_type', 'status',
+] as const;
+
+// ── Field normalisers ───────────────────────────────────────
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function normalizeDate(raw: string): string | null {
+    const s = raw.trim();
+    let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (m) return `${m[1]}-${pad(+m[2])}-${pad(+m[3])}`;
+    m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (m) return `${m[3]}-${pad(+m[2])}-${pad(+m[1])}`;
+    return null;
+}
+
+function normalizeTime(raw: string): string | null {
+    const m = raw.trim().match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+    if (!m) return null;
+    let h = +m[1];
+    const min = +m[2];
+    const ampm = m[3]?.toLowerCase().replace(/\./g, '');
+    if (ampm === 'pm' && h < 12) h += 12;
+    if (ampm === 'am' && h === 12) h = 0;
+    if (h > 23 || min > 59) return null;
+    return `${pad(h)}:${pad(min)}`;
+}
+
+function normalizeType(raw: string | undefined): SessionType | null {
+    const s = (raw ?? '').trim().toLowerCase();
+    if (!s || s.startsWith('lec')) return 'lecture';
+    if (s.startsWith('lab') || s.startsWith('prac')) return 'lab';
+    if (s.startsWith('tut')) return 'tutorial';
+    return null;
+}
+
+// ── CSV ─────────────────────────────────────────────────────
+
+function splitCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else cell += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell); cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell); rows.push(row);
+            row = []; cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell || row.length) { row.push(cell); rows.push(row); }
+    return rows;
+}
+
+export function parseTimetableCsv(text: string): ParseResult {
+    const [header, ...lines] = splitCsv(text.replace(/^\uFEFF/, ''));
+    const errors: ParseError[] = [];
+    const rows: ImportRow[] = [];
+
+    const cols = (header ?? []).map((h) => h.trim().toLowerCase().replace(/\s+/g, '_'));
+    const idx = (name: string) => cols.indexOf(name);
+    for (const required of ['subject_code', 'date', 'start_time', 'end_time']) {
+        if (idx(required) < 0) errors.push({ line: 1, message: `Missing column "${required}"` });
+    }
+    if (errors.length > 0) return { rows, errors };
+
+    for (const [i, cells] of lines.entries()) {
+        const line = i + 2;
+        if (cells.every((c) => !c.trim())) continue;
+        const get = (name: string) => (idx(name) >= 0 ? cells[idx(name)] ?? '' : '');
+
+        const code = get('subject_code').trim().toUpperCase();
+        const date = normalizeDate(get('date'));
+        const start = normalizeTime(get('start_time'));
+        const end = normalizeTime(get('end_time'));
+        const type = normalizeType(get('session_type'));
+
+        let message: string | null = null;
+        if (!code) message = 'Missing subject code';
+        else if (!date) message = `Invalid date "${get('date')}"`;
+        else if (!start || !end) message = 'Invalid start or end time';
+        else if (start >= end) message = 'End time must be after start time';
+        else if (!type) message = `Unknown session type "${get('session_type')}"`;
+        if (message) {
+            errors.push({ line, message });
+            continue;
+        }
+
+        rows.push({
+            line,
+            subject_code: code,
+            scheduled_date: date!,
+            start_time: start!,
+            end_time: end!,
+            venue: get('venue').trim() || null,
+            session_type: type!,
+            cancelled: /^cancel/i.test(get('status').trim()),
+        });
+    }
+
+    return { rows, errors };
+}
+
+// ── iCalendar ───────────────────────────────────────────────
+
+interface IcsProp {
+    params: Record<string, string>;
+    value: string;
+}
+
+type IcsEvent = Record<string, IcsProp[]>;
+
+const ICS_DAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+function unescapeIcs(s: string): string {
+    return s.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+function readEvents(text: string): IcsEvent[] {
+    // Unfold continuation lines (RFC 5545 §3.1)
+    const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+    const events: IcsEvent[] = [];
+    let current: IcsEvent | null = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') { current = {}; continue; }
+        if (line === 'END:VEVENT') { if (current) events.push(current); current = null; continue; }
+        if (!current) continue;
+
+        const colon = line.indexOf(':');
+        if (colon < 0) continue;
+        const [name, ...paramParts] = line.slice(0, colon).split(';');
+        const params: Record<string, string> = {};
+        for (const p of paramParts) {
+            const [k, v] = p.split('=');
+            if (k) params[k.toUpperCase()] = v ?? '';
+        }
+        const key = name.toUpperCase();
+        (current[key] ??= []).push({ params, value: line.slice(colon + 1) });
+    }
+    return events;
+}
+
+/** DTSTART-style value → local { date, time }; UTC values are converted */
+function readDateTime(prop: IcsProp | undefined): { date: string; time: string } | null {
+    if (!prop || prop.params.VALUE === 'DATE') return null;
+    const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/);
+    if (!m) return null;
+    if (m[7]) {
+        const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5]));
+        return {
+            date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+            time: `${pad(d.getHours())}:${pad(d.getMinutes())}`,
+        };
+    }
+    return { date: `${m[1]}-${m[2]}-${m[3]}`, time: `${m[4]}:${m[5]}` };
+}
+
+function addDaysIso(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00`);
+    d.setDate(d.getDate() + days);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+const weekdayOf = (date: string) => (new Date(`${date}T00:00:00`).getDay() + 6) % 7;
+
+/** Dates of a weekly RRULE (other frequencies are reported as errors) */
+function expandWeekly(start: string, rrule: string, until: string): string[] | null {
+    const parts = Object.fromEntries(rrule.split(';').map((p) => p.split('=') as [string, string]));
+    if (parts.FREQ !== 'WEEKLY') return null;
+
+    const interval = Math.max(parseInt(parts.INTERVAL ?? '1', 10) || 1, 1);
+    const count = parts.COUNT ? parseInt(parts.COUNT, 10) : Infinity;
+    const ruleUntil = parts.UNTIL ? readDateTime({ params: {}, value: parts.UNTIL.length === 8 ? `${parts.UNTIL}T235959` : parts.UNTIL })?.date : null;
+    const last = ruleUntil && ruleUntil < until ? ruleUntil : until;
+    const days = parts.BYDAY
+        ? parts.BYDAY.split(',').map((d) => ICS_DAYS.indexOf(d.slice(-2))).filter((d) => d >= 0)
+        : [weekdayOf(start)];
+
+    const weekStart = addDaysIso(start, -weekdayOf(start));
+    const dates: string[] = [];
+    for (let w = 0; dates.length < count; w += interval) {
+        const monday = addDaysIso(weekStart, w * 7);
+        if (monday > last) break;
+        for (const d of [...days].sort()) {
+            const date = addDaysIso(monday, d);
+            if (date < start || date > last || dates.length >= count) continue;
+            dates.push(date);
+        }
+    }
+    return dates;
+}
+
+/**
+ * Parses VEVENTs into rows. The subject code is the longest known code
+ * found in SUMMARY (or its first word); the session type is guessed from
+ * the summary. Weekly RRULEs are expanded up to `until`, honouring
+ * EXDATE and RECURRENCE-ID overrides.
+ */
+export function parseTimetableIcs(text: string, knownCodes: string[], until: string): ParseResult {
+    const errors: ParseError[] = [];
+    const codes = [...knownCodes].map((c) => c.toUpperCase()).sort((a, b) => b.length - a.length);
+    const events = readEvents(text);
+
+    // Instances replaced by a RECURRENCE-ID override: uid → dates
+    const overridden = new Map<string, Set<string>>();
+    for (const ev of events) {
+        const rid = readDateTime(ev['RECURRENCE-ID']?.[0]);
+        const uid = ev.UID?.[0]?.value;
+        if (rid && uid) {
+            if (!overridden.has(uid)) overridden.set(uid, new Set());
+            overridden.get(uid)!.add(rid.date);
+        }
+    }
+
+    const rows: ImportRow[] = [];
+    events.forEach((ev, i) => {
+        const line = i + 1;
+        const summary = unescapeIcs(ev.SUMMARY?.[0]?.value ?? '').trim();
+        const start = readDateTime(ev.DTSTART?.[0]);
+        const end = readDateTime(ev.DTEND?.[0]);
+        if (!start || !end) {
+            errors.push({ line, message: `"${summary || 'Untitled'}" has no start/end time (all-day events are skipped)` });
+            return;
+        }
+
+        const upper = summary.toUpperCase();
+        const code =
+            codes.find((c) => new RegExp(`(^|[^A-Z0-9])${c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^A-Z0-9]|$)`).test(upper)) ??
+            upper.split(/[\s:–-]+/)[0] ?? '';
+        const type: SessionType = /\blab|practical/i.test(summary) ? 'lab' : /\btut/i.test(summary) ? 'tutorial' : 'lecture';
+        const venue = ev.LOCATION?.[0] ? unescapeIcs(ev.LOCATION[0].value).trim() || null : null;
+        const cancelled = ev.STATUS?.[0]?.value.toUpperCase() === 'CANCELLED';
+
+        let dates = [start.date];
+        const rrule = ev.RRULE?.[0]?.value;
+        if (rrule && !ev['RECURRENCE-ID']) {
+            const expanded = expandWeekly(start.date, rrule, until);
+            if (!expanded) {
+                errors.push({ line, message: `"${summary}" repeats with an unsupported rule (${rrule})` });
+                return;
+            }
+            const exdates = new Set(
+                (ev.EXDATE ?? []).flatMap((p) => p.value.split(',').map((v) => readDateTime({ params: p.params, value: v })?.date)),
+            );
+            const skip = overridden.get(ev.UID?.[0]?.value ?? '') ?? new Set();
+            dates = expanded.filter((d) => !exdates.has(d) && !skip.has(d));
+        }
+
+        for (const date of dates) {
+            rows.push({
+                line,
+                subject_code: code,
+                scheduled_date: date,
+                start_time: start.time,
+                end_time: end.time,
+                venue,
+                session_type: type,
+                cancelled,
+            });
+        }
+    });
+
+    return { rows, errors };
+}
+
+// ── Diff ────────────────────────────────────────────────────
+
+const hhmm = (t: string) => t.slice(0, 5);
+
+interface Slot {
+    key: string;                // row line / session id, to skip self-matches
+    subject: ImportSubject;
+    date: string;
+    start: string;
+    end: string;
+    venue: string | null;
+}
+
+function findClashes(slot: Slot, others: Slot[]): string[] {
+    const out: string[] = [];
+    for (const o of others) {
+        if (o.key === slot.key || o.date !== slot.date) continue;
+        if (!(o.start < slot.end && slot.start < o.end)) continue;
+
+        const when = `${o.start}–${o.end}`;
+        if (o.subject.id === slot.subject.id) {
+            out.push(`Overlaps another ${o.subject.code} session at ${when}`);
+        } else if (slot.venue && o.venue && slot.venue.trim().toLowerCase() === o.venue.trim().toLowerCase()) {
+            out.push(`${slot.venue} is booked for ${o.subject.code} at ${when}`);
+        } else if (slot.subject.faculty_id && slot.subject.faculty_id === o.subject.faculty_id) {
+            out.push(`Same faculty teaches ${o.subject.code} at ${when}`);
+        }
+    }
+    return out;
+}
+
+/**
+ * Matches rows to existing sessions: exact (subject, date, start) first,
+ * then remaining ones on the same subject and date in start-time order.
+ * `subjects` is every subject of the semester (for clash context);
+ * `manageable` holds the ids the current user may edit. Sessions the file
+ * leaves out are only cancelled with `cancelMissing`.
+ */
+export function buildImportPlan(
+    rows: ImportRow[],
+    subjects: ImportSubject[],
+    manageable: Set<string>,
+    existing: ExistingSession[],
+    cancelMissing = false,
+): ImportPlan {
+    const byCode = new Map(subjects.map((s) => [s.code.toUpperCase(), s]));
+    const byId = new Map(subjects.map((s) => [s.id, s]));
+
+    // ── Resolve subject codes ──
+    const unknown = new Map<string, number[]>();
+    const forbidden = new Map<string, number[]>();
+    const mapped: { row: ImportRow; subject: ImportSubject }[] = [];
+    for (const row of rows) {
+        const subject = byCode.get(row.subject_code);
+        const bucket = !subject ? unknown : !manageable.has(subject.id) ? forbidden : null;
+        if (bucket) {
+            bucket.set(row.subject_code, [...(bucket.get(row.subject_code) ?? []), row.line]);
+            continue;
+        }
+        mapped.push({ row, subject: subject! });
+    }
+
+    const toList = (m: Map<string, number[]>) =>
+        [...m.entries()].map(([code, lines]) => ({ code, lines: [...new Set(lines)] }));
+
+    if (mapped.length === 0) {
+        return { entries: [], unknownCodes: toList(unknown), forbiddenCodes: toList(forbidden), range: null, missing: 0 };
+    }
+
+    const dates = mapped.map((m) => m.row.scheduled_date).sort();
+    const range = { from: dates[0], to: dates[dates.length - 1] };
+    const importedSubjects = new Set(mapped.map((m) => m.subject.id));
+
+    // Existing, still-scheduled sessions the file is authoritative for
+    const pool = existing.filter((e) =>
+        !e.is_cancelled &&
+        importedSubjects.has(e.subject_id) &&
+        e.scheduled_date >= range.from &&
+        e.scheduled_date <= range.to,
+    );
+    const used = new Set<string>();
+    const entries: DiffEntry[] = [];
+
+    const describe = (row: ImportRow, ex: ExistingSession) => {
+        const changes: string[] = [];
+        if (row.scheduled_date !== ex.scheduled_date) changes.push(`date ${ex.scheduled_date} → ${row.scheduled_date}`);
+        if (row.start_time !== hhmm(ex.start_time) || row.end_time !== hhmm(ex.end_time)) {
+            changes.push(`time ${hhmm(ex.start_time)}–${hhmm(ex.end_time)} → ${row.start_time}–${row.end_time}`);
+        }
+        if ((row.venue ?? '') !== (ex.venue ?? '')) changes.push(`venue ${ex.venue ?? '—'} → ${row.venue ?? '—'}`);
+        if (row.session_type !== ex.session_type) changes.push(`type ${ex.session_type} → ${row.session_type}`);
+        return changes;
+    };
+
+    const match = (row: ImportRow, subject: ImportSubject, exact: boolean) =>
+        pool
+            .filter((e) =>
+                !used.has(e.id) &&
+                e.subject_id === subject.id &&
+                e.scheduled_date === row.scheduled_date &&
+                (!exact || hhmm(e.start_time) === row.start_time),
+            )
+            .sort((a, b) => a.start_time.localeCompare(b.start_time))[0];
+
+    // Pass 1: exact matches; pass 2: same day, moved in time
+    const pending: typeof mapped = [];
+    for (const m of mapped) {
+        const ex = match(m.row, m.subject, true);
+        if (ex) {
+            used.add(ex.id);
+            const changes = describe(m.row, ex);
+            entries.push({
+                kind: m.row.cancelled ? 'cancel' : changes.length ? 'change' : 'unchanged',
+                subject: m.subject, row: m.row, existing: ex, changes, clashes: [],
+            });
+        } else {
+            pending.push(m);
+        }
+    }
+    for (const m of [...pending].sort((a, b) => a.row.start_time.localeCompare(b.row.start_time))) {
+        const ex = match(m.row, m.subject, false);
+        if (ex) used.add(ex.id);
+        if (m.row.cancelled && !ex) continue;     // cancelling something that isn't there
+        entries.push({
+            kind: m.row.cancelled ? 'cancel' : ex ? 'change' : 'create',
+            subject: m.subject, row: m.row, existing: ex ?? null,
+            changes: ex ? describe(m.row, ex) : [], clashes: [],
+        });
+    }
+
+    // Scheduled sessions the file leaves out are cancelled only on request
+    const missing = pool.filter((ex) => !used.has(ex.id));
+    for (const ex of cancelMissing ? missing : []) {
+        entries.push({
+            kind: 'cancel', subject: byId.get(ex.subject_id)!, row: null, existing: ex, changes: [], clashes: [],
+        });
+    }
+
+    // ── Clashes against the schedule as it will be after import ──
+    const removed = new Set(entries.filter((e) => e.existing && e.kind !== 'unchanged').map((e) => e.existing!.id));
+    const finalSlots: Slot[] = [
+        ...existing
+            .filter((e) => !e.is_cancelled && !removed.has(e.id) && byId.has(e.subject_id))
+            .map((e) => ({
+                key: e.id, subject: byId.get(e.subject_id)!, date: e.scheduled_date,
+                start: hhmm(e.start_time), end: hhmm(e.end_time), venue: e.venue,
+            })),
+        ...entries
+            .filter((e) => e.kind === 'create' || e.kind === 'change')
+            .map((e) => ({
+                key: e.existing?.id ?? `row-${e.row!.line}-${e.row!.scheduled_date}`, subject: e.subject,
+                date: e.row!.scheduled_date, start: e.row!.start_time, end: e.row!.end_time, venue: e.row!.venue,
+            })),
+    ];
+    for (const e of entries) {
+        if (e.kind !== 'create' && e.kind !== 'change') continue;
+        const slot = finalSlots.find((s) => s.key === (e.existing?.id ?? `row-${e.row!.line}-${e.row!.scheduled_date}`))!;
+        e.clashes = findClashes(slot, finalSlots);
+    }
+
+    const order: Record<DiffKind, number> = { create: 0, change: 1, cancel: 2, unchanged: 3 };
+    entries.sort((a, b) => {
+        const da = a.row?.scheduled_date ?? a.existing!.scheduled_date;
+        const db = b.row?.scheduled_date ?? b.existing!.scheduled_date;
+        return da.localeCompare(db) || order[a.kind] - order[b.kind];
+    });
+
+    return { entries, unknownCodes: toList(unknown), forbiddenCodes: toList(forbidden), range, missing: missing.length };
+}
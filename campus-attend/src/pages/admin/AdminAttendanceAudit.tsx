@@ -0,0 +1,189 @@
+import { useState, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import { Loader2, History, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+
+import {
+    useAttendanceAuditSearch,
+    SOURCE_LABELS,
+    AUDIT_PAGE_SIZE,
+    type AttendanceSource,
+    type AuditSearchFilters,
+} from '../../hooks/useAttendanceAudit';
+
+const STATUS_STYLES: Record<string, string> = {
+    present: 'bg-emerald-100 text-emerald-700',
+    absent: 'bg-red-100 text-red-600',
+    on_duty: 'bg-sky-100 text-sky-700',
+    medical: 'bg-violet-100 text-violet-700',
+};
+
+const ACTION_LABELS = { insert: 'Marked', update: 'Changed', delete: 'Removed' } as const;
+
+const hhmm = (t: string) => t.slice(0, 5);
+
+function StatusChip({ status }: { status: string | null }) {
+    if (!status) return <span className="text-gray-300">—</span>;
+    return (
+        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${STATUS_STYLES[status] ?? 'bg-gray-100 text-gray-600'}`}>
+            {status.replace('_', ' ')}
+        </span>
+    );
+}
+
+const EMPTY_FILTERS: AuditSearchFilters = { query: '', source: '', from: '', to: '', page: 0 };
+
+export default function AdminAttendanceAuditPage() {
+    const [draft, setDraft] = useState(EMPTY_FILTERS);
+    const [filters, setFilters] = useState(EMPTY_FILTERS);
+    const { data: rows, isLoading, isFetching } = useAttendanceAuditSearch(filters);
+
+    const handleSearch = (e: FormEvent) => {
+        e.preventDefault();
+        setFilters({ ...draft, page: 0 });
+    };
+
+    const goToPage = (page: number) => setFilters((f) => ({ ...f, page }));
+
+    const inputCls =
+        'block w-full rounded-lg border border-gray-300 py-2 px-3 text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">Attendance Audit</h1>
+                <p className="text-sm text-gray-500 mt-0.5">Every change to attendance records, with who made it and how.</p>
+            </div>
+
+            {/* ═══ FILTERS ═══ */}
+            <form onSubmit={handleSearch} className="bg-white rounded-xl border border-gray-200 p-4 grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+                <div className="sm:col-span-2">
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Student or subject</label>
+                    <input
+                        type="text"
+                        value={draft.query}
+                        onChange={(e) => setDraft({ ...draft, query: e.target.value })}
+                        placeholder="Name, email or subject code…"
+                        className={inputCls}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Source</label>
+                    <select
+                        value={draft.source}
+                        onChange={(e) => setDraft({ ...draft, source: e.target.value as AttendanceSource | '' })}
+                        className={inputCls}
+                    >
+                        <option value="">All sources</option>
+                        {(Object.keys(SOURCE_LABELS) as AttendanceSource[]).map((s) => (
+                            <option key={s} value={s}>{SOURCE_LABELS[s]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                        <input type="date" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} className={inputCls} />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                        <input type="date" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} className={inputCls} />
+                    </div>
+                </div>
+                <button
+                    type="submit"
+                    className="flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 transition"
+                >
+                    {isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                    Search
+                </button>
+            </form>
+
+            {/* ═══ RESULTS ═══ */}
+            <div className="bg-white rounded-xl border border-gray-200">
+                <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                    <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                        <History className="w-4 h-4 text-indigo-500" />
+                        Changes
+                    </h2>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => goToPage(filters.page - 1)}
+                            disabled={filters.page === 0 || isFetching}
+                            className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-40 transition"
+                            aria-label="Newer"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <span className="text-xs text-gray-500">Page {filters.page + 1}</span>
+                        <button
+                            onClick={() => goToPage(filters.page + 1)}
+                            disabled={(rows?.length ?? 0) < AUDIT_PAGE_SIZE || isFetching}
+                            className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-40 transition"
+                            aria-label="Older"
+                        >
+                            <ChevronRight className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-16">
+                        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+                    </div>
+                ) : !rows || rows.length === 0 ? (
+                    <p className="px-5 py-8 text-center text-sm text-gray-400">No attendance changes match these filters.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-gray-100 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                    <th className="px-5 py-3">When</th>
+                                    <th className="px-4 py-3">Student</th>
+                                    <th className="px-4 py-3">Session</th>
+                                    <th className="px-4 py-3">Change</th>
+                                    <th className="px-4 py-3">Source</th>
+                                    <th className="px-4 py-3">By</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-50">
+                                {rows.map((r) => (
+                                    <tr key={r.id}>
+                                        <td className="px-5 py-2.5 text-gray-600 whitespace-nowrap">
+                                            {format(new Date(r.changed_at), 'dd MMM yyyy, HH:mm:ss')}
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            <p className="font-medium text-gray-900">{r.student_name ?? 'Unknown'}</p>
+                                            <p className="text-xs text-gray-400">{r.student_email}</p>
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            <p className="text-gray-700">{r.subject_code ?? '—'}</p>
+                                            {r.scheduled_date && r.start_time && (
+                                                <p className="text-xs text-gray-400 whitespace-nowrap">
+                                                    {format(new Date(`${r.scheduled_date}T00:00:00`), 'EEE dd MMM')} · {hhmm(r.start_time)}
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            <div className="flex items-center gap-1.5 whitespace-nowrap">
+                                                <span className="text-xs text-gray-500">{ACTION_LABELS[r.action]}</span>
+                                                {r.action === 'update' && (
+                                                    <>
+                                                        <StatusChip status={r.old_status} />
+                                                        <span className="text-gray-400">→</span>
+                                                    </>
+                                                )}
+                                                <StatusChip status={r.action === 'delete' ? r.old_status : r.new_status} />
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-2.5 text-gray-600 whitespace-nowrap">{SOURCE_LABELS[r.source]}</td>
+                                        <td className="px-4 py-2.5 text-gray-700">{r.actor_name ?? 'System'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, AlertTriangle, Users, UserSquare, MapPin } from 'lucide-react';
+
+import { useSemesterClashes, type SemesterClash } from '../../hooks/useSessionClashes';
+import { useSemester } from '../../hooks/useSemester';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+type ClashType = SemesterClash['clash_types'][number];
+
+const TYPE_META: Record<ClashType, { label: string; cls: string; Icon: typeof Users }> = {
+    student: { label: 'Students', cls: 'bg-rose-100 text-rose-700', Icon: Users },
+    faculty: { label: 'Faculty', cls: 'bg-amber-100 text-amber-700', Icon: UserSquare },
+    venue: { label: 'Venue', cls: 'bg-sky-100 text-sky-700', Icon: MapPin },
+};
+
+const hhmm = (t: string) => t.slice(0, 5);
+
+export default function AdminClashesPage() {
+    const { selectedSemester } = useSemester();
+    const { data: clashes, isLoading } = useSemesterClashes();
+    const [filter, setFilter] = useState<ClashType | 'all'>('all');
+    const [showPast, setShowPast] = useState(false);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    const counts = useMemo(() => {
+        const c: Record<ClashType, number> = { student: 0, faculty: 0, venue: 0 };
+        for (const row of clashes ?? []) {
+            if (!showPast && row.scheduled_date < today) continue;
+            for (const t of row.clash_types) c[t]++;
+        }
+        return c;
+    }, [clashes, showPast, today]);
+
+    const visible = (clashes ?? []).filter((c) =>
+        (showPast || c.scheduled_date >= today) &&
+        (filter === 'all' || c.clash_types.includes(filter)),
+    );
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">Timetable Clashes</h1>
+                {selectedSemester && (
+                    <p className="text-sm text-gray-500 mt-0.5">{selectedSemester.name}</p>
+                )}
+            </div>
+
+            {/* ═══════════════════════════════════════════════════
+          1. SUMMARY
+         ═══════════════════════════════════════════════════ */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {(Object.keys(TYPE_META) as ClashType[]).map((t) => {
+                    const meta = TYPE_META[t];
+                    const active = filter === t;
+                    return (
+                        <button
+                            key={t}
+                            onClick={() => setFilter(active ? 'all' : t)}
+                            className={`flex items-center gap-3 rounded-xl border bg-white p-4 text-left transition ${active ? 'border-indigo-500 ring-2 ring-indigo-100' : 'border-gray-200 hover:border-gray-300'}`}
+                        >
+                            <span className={`rounded-lg p-2 ${meta.cls}`}>
+                                <meta.Icon className="w-4 h-4" />
+                            </span>
+                            <span>
+                                <span className="block text-xl font-bold text-gray-900">{counts[t]}</span>
+                                <span className="block text-xs text-gray-500">{meta.label} clashes</span>
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* ═══════════════════════════════════════════════════
+          2. CLASHES
+         ═══════════════════════════════════════════════════ */}
+            <div className="bg-white rounded-xl border border-gray-200">
+                <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                    <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 text-amber-500" />
+                        {filter === 'all' ? 'All clashes' : `${TYPE_META[filter].label} clashes`}
+                        <span className="text-xs text-gray-400 font-normal">({visible.length})</span>
+                    </h2>
+                    <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                        <input
+                            type="checkbox"
+                            checked={showPast}
+                            onChange={(e) => setShowPast(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Show past
+                    </label>
+                </div>
+
+                {visible.length === 0 ? (
+                    <p className="px-5 py-8 text-center text-sm text-gray-400">No clashes — the timetable is clean.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-gray-100 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                    <th className="px-5 py-3">Date</th>
+                                    <th className="px-4 py-3">Session</th>
+                                    <th className="px-4 py-3">Clashes with</th>
+                                    <th className="px-4 py-3">Type</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-50">
+                                {visible.map((c) => (
+                                    <tr key={`${c.session_a}-${c.session_b}`}>
+                                        <td className="px-5 py-2.5 text-gray-700 whitespace-nowrap">
+                                            {format(new Date(`${c.scheduled_date}T00:00:00`), 'EEE dd MMM')}
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            <p className="font-medium text-gray-900">{c.subject_a}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {hhmm(c.start_a)}–{hhmm(c.end_a)} · {c.venue_a ?? 'No venue'}
+                                            </p>
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            <p className="font-medium text-gray-900">{c.subject_b}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {hhmm(c.start_b)}–{hhmm(c.end_b)} · {c.venue_b ?? 'No venue'}
+                                            </p>
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            <div className="flex flex-wrap gap-1">
+                                                {c.clash_types.map((t) => (
+                                                    <span key={t} className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${TYPE_META[t].cls}`}>
+                                                        {t === 'student' ? `${c.shared_students} students` : TYPE_META[t].label}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+import { useState, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Plus, Trash2, CalendarOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useHolidays, useDeclareHoliday, useRemoveHoliday } from '../../hooks/useHolidays';
+import { useSemester } from '../../hooks/useSemester';
+
+export default function AdminHolidaysPage() {
+    const { selectedSemester, isReadOnly } = useSemester();
+    const { data: holidays, isLoading } = useHolidays();
+    const declareHoliday = useDeclareHoliday();
+    const removeHoliday = useRemoveHoliday();
+
+    const [date, setDate] = useState('');
+    const [name, setName] = useState('');
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    const handleDeclare = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!date || !name.trim()) { toast.error('Pick a date and give the holiday a name'); return; }
+        if (!confirm(`Declare ${format(new Date(`${date}T00:00:00`), 'EEE, dd MMM')} a holiday? Every class on that day will be cancelled and students notified.`)) return;
+
+        try {
+            const res = await declareHoliday.mutateAsync({ date, name: name.trim() });
+            toast.success(
+                `Holiday added — ${res.cancelled} session${res.cancelled === 1 ? '' : 's'} cancelled` +
+                (res.kept > 0 ? `, ${res.kept} kept because attendance was already taken` : ''),
+            );
+            setDate('');
+            setName('');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to declare holiday');
+        }
+    };
+
+    const handleRemove = async (holidayId: string) => {
+        if (!confirm('Remove this holiday? Sessions it cancelled are restored unless they were already made up.')) return;
+        try {
+            const restored = await removeHoliday.mutateAsync(holidayId);
+            toast.success(`Holiday removed (${restored} session${restored === 1 ? '' : 's'} restored)`);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to remove holiday');
+        }
+    };
+
+    // ── Shared input class ────────────────────────────────────
+    const inputCls =
+        'block w-full rounded-lg border border-gray-300 py-2 px-3 text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">Holiday Calendar</h1>
+                {selectedSemester && (
+                    <p className="text-sm text-gray-500 mt-0.5">
+                        {selectedSemester.name} ({format(new Date(`${selectedSemester.start_date}T00:00:00`), 'dd MMM')} – {format(new Date(`${selectedSemester.end_date}T00:00:00`), 'dd MMM yyyy')})
+                    </p>
+                )}
+            </div>
+
+            {/* ═══════════════════════════════════════════════════
+          1. DECLARE
+         ═══════════════════════════════════════════════════ */}
+            {!isReadOnly && (
+                <form
+                    onSubmit={handleDeclare}
+                    className="bg-white rounded-xl border border-gray-200 p-5 grid grid-cols-1 sm:grid-cols-4 gap-3 items-end"
+                >
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+                        <input
+                            type="date"
+                            value={date}
+                            min={selectedSemester?.start_date}
+                            max={selectedSemester?.end_date}
+                            onChange={(e) => setDate(e.target.value)}
+                            className={inputCls}
+                        />
+                    </div>
+                    <div className="sm:col-span-2">
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className={inputCls}
+                            placeholder="Diwali"
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={declareHoliday.isPending}
+                        className="flex items-center justify-center gap-1.5 rounded-lg bg-indigo-700 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                    >
+                        {declareHoliday.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                        Declare Holiday
+                    </button>
+                    <p className="sm:col-span-4 text-xs text-gray-400">
+                        All classes on the date are cancelled and enrolled students are notified. Faculty can then
+                        schedule make-up sessions from their subject timetable.
+                    </p>
+                </form>
+            )}
+
+            {/* ═══════════════════════════════════════════════════
+          2. HOLIDAYS
+         ═══════════════════════════════════════════════════ */}
+            <div className="bg-white rounded-xl border border-gray-200">
+                <div className="px-5 py-4 border-b border-gray-100">
+                    <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                        <CalendarOff className="w-4 h-4 text-indigo-500" />
+                        Holidays
+                        <span className="text-xs text-gray-400 font-normal">({holidays?.length ?? 0})</span>
+                    </h2>
+                </div>
+
+                {!holidays || holidays.length === 0 ? (
+                    <p className="px-5 py-6 text-center text-sm text-gray-400">No holidays declared.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-50">
+                        {holidays.map((h) => (
+                            <li
+                                key={h.id}
+                                className={`flex items-center justify-between gap-3 px-5 py-3 ${h.holiday_date < today ? 'opacity-60' : ''}`}
+                            >
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900">{h.name}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {format(new Date(`${h.holiday_date}T00:00:00`), 'EEEE, dd MMM yyyy')}
+                                    </p>
+                                </div>
+                                {!isReadOnly && (
+                                    <button
+                                        onClick={() => handleRemove(h.id)}
+                                        disabled={removeHoliday.isPending}
+                                        className="p-1.5 rounded-lg text-gray-400 hover:bg-red-100 hover:text-red-500 disabled:opacity-60 transition shrink-0"
+                                        aria-label="Remove holiday"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -4,14 +4,30 @@ import {
     LayoutDashboard,
     Users,
     GraduationCap,
+    CalendarOff,
+    AlertTriangle,
+    Building2,
+    Upload,
+    MessageSquareWarning,
+    Stethoscope,
+    UserCog,
+    History,
 } from 'lucide-react';
 
 const NAV_ITEMS: NavItem[] = [
     { label: 'Dashboard', to: '/admin/dashboard', icon: LayoutDashboard },
     { label: 'Users', to: '/admin/users', icon: Users },
     { label: 'Semester', to: '/admin/semester', icon: GraduationCap },
+    { label: 'Holidays', to: '/admin/holidays', icon: CalendarOff },
+    { label: 'Clashes', to: '/admin/clashes', icon: AlertTriangle },
+    { label: 'Venues', to: '/admin/venues', icon: Building2 },
+    { label: 'Substitutions', to: '/admin/substitutions', icon: UserCog },
+    { label: 'Attendance Audit', to: '/admin/attendance-audit', icon: History },
+    { label: 'Import Timetable', to: '/admin/timetable-import', icon: Upload },
+    { label: 'Corrections', to: '/admin/corrections', icon: MessageSquareWarning },
+    { label: 'Medical Leave', to: '/admin/medical-leave', icon: Stethoscope },
 ];
 
 export default function AdminLayout() {
-    return <DashboardLayout navItems={NAV_ITEMS} title="CampusAttend" />;
+    return <DashboardLayout navItems={NAV_ITEMS} title="CampusAttend" showSemesterSwitcher />;
 }
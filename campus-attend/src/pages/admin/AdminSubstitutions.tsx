@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, UserCog } from 'lucide-react';
+
+import { useSubstitutionHistory } from '../../hooks/useSubstitutions';
+import { useSemester } from '../../hooks/useSemester';
+
+const hhmm = (t: string) => t.slice(0, 5);
+
+export default function AdminSubstitutionsPage() {
+    const { selectedSemester } = useSemester();
+    const { data: history, isLoading } = useSubstitutionHistory();
+    const [activeOnly, setActiveOnly] = useState(false);
+
+    const visible = (history ?? []).filter((h) => !activeOnly || !h.revoked_at);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">Substitutions</h1>
+                {selectedSemester && (
+                    <p className="text-sm text-gray-500 mt-0.5">{selectedSemester.name}</p>
+                )}
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200">
+                <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                    <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                        <UserCog className="w-4 h-4 text-violet-500" />
+                        Substitute assignments
+                        <span className="text-xs text-gray-400 font-normal">({visible.length})</span>
+                    </h2>
+                    <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                        <input
+                            type="checkbox"
+                            checked={activeOnly}
+                            onChange={(e) => setActiveOnly(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Active only
+                    </label>
+                </div>
+
+                {visible.length === 0 ? (
+                    <p className="px-5 py-8 text-center text-sm text-gray-400">No sessions have been handed to a substitute.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-gray-100 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                    <th className="px-5 py-3">Session</th>
+                                    <th className="px-4 py-3">Faculty</th>
+                                    <th className="px-4 py-3">Substitute</th>
+                                    <th className="px-4 py-3">Reason</th>
+                                    <th className="px-4 py-3">Assigned</th>
+                                    <th className="px-4 py-3">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-50">
+                                {visible.map((h) => (
+                                    <tr key={h.id}>
+                                        <td className="px-5 py-2.5">
+                                            <p className="font-medium text-gray-900">
+                                                {h.session?.subject ? `${h.session.subject.code} — ${h.session.subject.name}` : 'Unknown subject'}
+                                            </p>
+                                            {h.session && (
+                                                <p className="text-xs text-gray-500 whitespace-nowrap">
+                                                    {format(new Date(`${h.session.scheduled_date}T00:00:00`), 'EEE dd MMM')} · {hhmm(h.session.start_time)}–{hhmm(h.session.end_time)}
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2.5 text-gray-700">{h.original?.full_name ?? '—'}</td>
+                                        <td className="px-4 py-2.5 font-medium text-gray-900">{h.substitute?.full_name ?? '—'}</td>
+                                        <td className="px-4 py-2.5 text-gray-500">{h.reason ?? '—'}</td>
+                                        <td className="px-4 py-2.5">
+                                            <p className="text-gray-700">{h.assigner?.full_name ?? '—'}</p>
+                                            {h.created_at && (
+                                                <p className="text-xs text-gray-400 whitespace-nowrap">
+                                                    {format(new Date(h.created_at), 'dd MMM, HH:mm')}
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2.5">
+                                            {h.revoked_at ? (
+                                                <span className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase bg-gray-100 text-gray-500">
+                                                    Revoked
+                                                </span>
+                                            ) : (
+                                                <span className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase bg-violet-100 text-violet-700">
+                                                    Active
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
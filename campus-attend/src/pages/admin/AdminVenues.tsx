@@ -0,0 +1,318 @@
+import { useMemo, useState, type FormEvent } from 'react';
+import { format, startOfWeek, addDays } from 'date-fns';
+import {
+    Loader2,
+    Plus,
+    Pencil,
+    X,
+    Building2,
+    Users,
+    MapPin,
+    AlertTriangle,
+    ChevronLeft,
+    ChevronRight,
+    BookOpen,
+    PartyPopper,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useVenues, useSaveVenue, useVenueBookings, type VenueBooking } from '../../hooks/useVenues';
+import type { Venue } from '../../types/database';
+
+const ymd = (d: Date) => format(d, 'yyyy-MM-dd');
+const hhmm = (ts: string) => format(new Date(ts), 'HH:mm');
+
+export default function AdminVenuesPage() {
+    const { data: venues, isLoading } = useVenues({ includeInactive: true });
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<Venue | 'new' | null>(null);
+    const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+
+    const selected = venues?.find((v) => v.id === selectedId) ?? null;
+
+    const weekKey = ymd(weekStart);
+    const range = useMemo(
+        () => ({ from: weekKey, to: ymd(addDays(new Date(`${weekKey}T00:00:00`), 6)) }),
+        [weekKey],
+    );
+    const { data: bookings, isLoading: bookingsLoading } = useVenueBookings(selectedId, range);
+
+    // Bookings grouped by local date
+    const byDay = useMemo(() => {
+        const map = new Map<string, VenueBooking[]>();
+        for (const b of bookings ?? []) {
+            const day = b.starts_at.slice(0, 10);
+            map.set(day, [...(map.get(day) ?? []), b]);
+        }
+        return map;
+    }, [bookings]);
+
+    const conflictCount = (bookings ?? []).filter((b) => b.conflicts.length > 0).length;
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Venues</h1>
+                    <p className="text-sm text-gray-500 mt-0.5">
+                        Sessions and events typed with a venue's name or alias are linked to it automatically.
+                    </p>
+                </div>
+                <button
+                    onClick={() => setEditing('new')}
+                    className="flex items-center gap-1.5 rounded-lg bg-indigo-700 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 transition shrink-0"
+                >
+                    <Plus className="w-4 h-4" /> Add Venue
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* ═══════════════════════════════════════════════════
+              1. REGISTRY
+             ═══════════════════════════════════════════════════ */}
+                <div className="bg-white rounded-xl border border-gray-200 lg:col-span-1">
+                    <div className="px-5 py-4 border-b border-gray-100">
+                        <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                            <Building2 className="w-4 h-4 text-indigo-500" />
+                            Registry
+                            <span className="text-xs text-gray-400 font-normal">({venues?.length ?? 0})</span>
+                        </h2>
+                    </div>
+
+                    {!venues || venues.length === 0 ? (
+                        <p className="px-5 py-6 text-center text-sm text-gray-400">No venues registered.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-50">
+                            {venues.map((v) => (
+                                <li
+                                    key={v.id}
+                                    className={`flex items-center justify-between gap-3 px-5 py-3 cursor-pointer transition ${selectedId === v.id ? 'bg-indigo-50' : 'hover:bg-gray-50'} ${v.is_active ? '' : 'opacity-50'}`}
+                                    onClick={() => setSelectedId(v.id)}
+                                >
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{v.name}</p>
+                                        <p className="text-xs text-gray-500 flex items-center gap-2">
+                                            {v.building ?? 'No building'}
+                                            {v.capacity && (
+                                                <span className="flex items-center gap-0.5"><Users className="w-3 h-3" /> {v.capacity}</span>
+                                            )}
+                                            {v.geofence_lat !== null && <MapPin className="w-3 h-3 text-emerald-500" />}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setEditing(v); }}
+                                        className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-600 transition shrink-0"
+                                        aria-label="Edit venue"
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* ═══════════════════════════════════════════════════
+              2. BOOKINGS
+             ═══════════════════════════════════════════════════ */}
+                <div className="bg-white rounded-xl border border-gray-200 lg:col-span-2">
+                    <div className="px-5 py-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-3">
+                        <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                            {selected ? selected.name : 'Bookings'}
+                            {conflictCount > 0 && (
+                                <span className="flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase bg-rose-100 text-rose-700">
+                                    <AlertTriangle className="w-3 h-3" /> {conflictCount} conflicting
+                                </span>
+                            )}
+                        </h2>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => setWeekStart((w) => addDays(w, -7))}
+                                className="p-1.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 transition"
+                                aria-label="Previous week"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </button>
+                            <span className="px-2 text-xs font-medium text-gray-600">
+                                {format(weekStart, 'dd MMM')} – {format(addDays(weekStart, 6), 'dd MMM')}
+                            </span>
+                            <button
+                                onClick={() => setWeekStart((w) => addDays(w, 7))}
+                                className="p-1.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 transition"
+                                aria-label="Next week"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+
+                    {!selected ? (
+                        <p className="px-5 py-10 text-center text-sm text-gray-400">Pick a venue to see what's booked there.</p>
+                    ) : bookingsLoading ? (
+                        <div className="flex justify-center py-10">
+                            <Loader2 className="w-6 h-6 animate-spin text-indigo-500" />
+                        </div>
+                    ) : byDay.size === 0 ? (
+                        <p className="px-5 py-10 text-center text-sm text-gray-400">Nothing booked this week.</p>
+                    ) : (
+                        <div className="divide-y divide-gray-100">
+                            {[...byDay.entries()].map(([day, items]) => (
+                                <div key={day} className="px-5 py-3 space-y-2">
+                                    <p className="text-xs font-semibold text-gray-500">
+                                        {format(new Date(`${day}T00:00:00`), 'EEEE, dd MMM')}
+                                    </p>
+                                    {items.map((b) => (
+                                        <div
+                                            key={b.booking_id}
+                                            className={`flex items-center gap-3 rounded-lg border px-3 py-2 ${b.conflicts.length > 0 ? 'border-rose-200 bg-rose-50' : 'border-gray-100'}`}
+                                        >
+                                            {b.kind === 'event'
+                                                ? <PartyPopper className="w-4 h-4 text-violet-500 shrink-0" />
+                                                : <BookOpen className="w-4 h-4 text-indigo-500 shrink-0" />}
+                                            <div className="min-w-0 flex-1">
+                                                <p className="text-sm font-medium text-gray-900 truncate">{b.title}</p>
+                                                <p className="text-xs text-gray-500">
+                                                    {hhmm(b.starts_at)}–{hhmm(b.ends_at)}
+                                                    {b.detail && <> · {b.detail}</>}
+                                                </p>
+                                            </div>
+                                            {b.conflicts.length > 0 && (
+                                                <span className="flex items-center gap-1 text-xs font-medium text-rose-600 shrink-0">
+                                                    <AlertTriangle className="w-3.5 h-3.5" />
+                                                    Overlaps {b.conflicts.length}
+                                                </span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {editing && (
+                <VenueModal
+                    venue={editing === 'new' ? null : editing}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+        </div>
+    );
+}
+
+// ── Add / edit venue modal ──────────────────────────────────
+
+function VenueModal({ venue, onClose }: { venue: Venue | null; onClose: () => void }) {
+    const saveVenue = useSaveVenue();
+    const [name, setName] = useState(venue?.name ?? '');
+    const [building, setBuilding] = useState(venue?.building ?? '');
+    const [capacity, setCapacity] = useState(venue?.capacity?.toString() ?? '');
+    const [aliases, setAliases] = useState(venue?.aliases.join(', ') ?? '');
+    const [lat, setLat] = useState(venue?.geofence_lat?.toString() ?? '');
+    const [lng, setLng] = useState(venue?.geofence_lng?.toString() ?? '');
+    const [radius, setRadius] = useState(venue?.geofence_radius_m.toString() ?? '100');
+    const [active, setActive] = useState(venue?.is_active ?? true);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) { toast.error('Give the venue a name'); return; }
+        if ((lat === '') !== (lng === '')) { toast.error('Enter both latitude and longitude, or neither'); return; }
+
+        try {
+            await saveVenue.mutateAsync({
+                id: venue?.id,
+                name: name.trim(),
+                building: building.trim() || null,
+                capacity: capacity ? Number(capacity) : null,
+                aliases: aliases.split(',').map((a) => a.trim()).filter(Boolean),
+                geofence_lat: lat !== '' ? Number(lat) : null,
+                geofence_lng: lng !== '' ? Number(lng) : null,
+                geofence_radius_m: Number(radius) || 100,
+                is_active: active,
+            });
+            toast.success(venue ? 'Venue updated' : 'Venue added');
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to save venue');
+        }
+    };
+
+    const inputCls =
+        'block w-full rounded-lg border border-gray-300 py-2 px-3 text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-900">{venue ? 'Edit Venue' : 'Add Venue'}</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputCls} placeholder="Lecture Hall 1" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Also known as</label>
+                        <input type="text" value={aliases} onChange={(e) => setAliases(e.target.value)} className={inputCls} placeholder="LH-1, LH1" />
+                        <p className="mt-1 text-[11px] text-gray-400">Comma-separated. Existing sessions and events using these are relinked.</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Building</label>
+                            <input type="text" value={building} onChange={(e) => setBuilding(e.target.value)} className={inputCls} placeholder="Main Block" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+                            <input type="number" min={1} value={capacity} onChange={(e) => setCapacity(e.target.value)} className={inputCls} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <label className="block text-[11px] text-gray-500 mb-0.5">Latitude</label>
+                            <input type="number" step="any" value={lat} onChange={(e) => setLat(e.target.value)} className={inputCls} placeholder="12.9716" />
+                        </div>
+                        <div>
+                            <label className="block text-[11px] text-gray-500 mb-0.5">Longitude</label>
+                            <input type="number" step="any" value={lng} onChange={(e) => setLng(e.target.value)} className={inputCls} placeholder="77.5946" />
+                        </div>
+                        <div>
+                            <label className="block text-[11px] text-gray-500 mb-0.5">Radius (m)</label>
+                            <input type="number" min={10} max={5000} value={radius} onChange={(e) => setRadius(e.target.value)} className={inputCls} />
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={active}
+                            onChange={(e) => setActive(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Offer in venue pickers
+                    </label>
+
+                    <button
+                        type="submit"
+                        disabled={saveVenue.isPending}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                    >
+                        {saveVenue.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {saveVenue.isPending ? 'Saving…' : 'Save Venue'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+import { useState, type FormEvent } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Loader2, ShieldCheck, ShieldX, Search } from 'lucide-react';
+
+import { useVerifyStatement } from '../../hooks/useAttendanceStatement';
+
+export default function VerifyStatementPage() {
+    const { code } = useParams<{ code: string }>();
+    const navigate = useNavigate();
+    const [input, setInput] = useState(code ?? '');
+
+    const { data: statement, isLoading, isError } = useVerifyStatement(code);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const next = input.trim().toUpperCase();
+        if (next) navigate(`/verify/${encodeURIComponent(next)}`);
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-teal-50 px-4 py-10">
+            <div className="w-full max-w-2xl bg-white shadow-xl rounded-2xl p-8 sm:p-10 space-y-6">
+                <div className="text-center space-y-2">
+                    <h1 className="text-2xl font-bold text-gray-900 tracking-tight">
+                        Verify Attendance Statement
+                    </h1>
+                    <p className="text-sm text-gray-500">
+                        Enter the verification code printed at the bottom of the statement.
+                    </p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="flex gap-2">
+                    <input
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="XXXX-XXXX-XXXX"
+                        className="flex-1 rounded-lg border border-gray-300 px-3 py-2.5 text-sm font-mono uppercase tracking-wider focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none"
+                    />
+                    <button
+                        type="submit"
+                        className="flex items-center gap-1.5 rounded-lg bg-indigo-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-indigo-700 transition"
+                    >
+                        <Search className="w-4 h-4" /> Verify
+                    </button>
+                </form>
+
+                {code && (
+                    isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                        </div>
+                    ) : isError || !statement ? (
+                        <div className="flex items-start gap-3 rounded-xl border border-red-200 bg-red-50 p-4">
+                            <ShieldX className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+                            <div>
+                                <p className="text-sm font-semibold text-red-800">Not a valid statement</p>
+                                <p className="text-xs text-red-700 mt-0.5">
+                                    No statement was issued with code <span className="font-mono">{code}</span>.
+                                </p>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <div className="flex items-start gap-3 rounded-xl border border-emerald-200 bg-emerald-50 p-4">
+                                <ShieldCheck className="w-5 h-5 text-emerald-600 shrink-0 mt-0.5" />
+                                <div>
+                                    <p className="text-sm font-semibold text-emerald-800">Genuine statement</p>
+                                    <p className="text-xs text-emerald-700 mt-0.5">
+                                        Issued to {statement.student_name}
+                                        {statement.department ? ` (${statement.department})` : ''} for{' '}
+                                        {statement.semester_name ?? 'the current semester'} on{' '}
+                                        {format(new Date(statement.issued_at), 'dd MMM yyyy, HH:mm')}.
+                                    </p>
+                                </div>
+                            </div>
+
+                            <div className="overflow-x-auto rounded-xl border border-gray-200">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b border-gray-100 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                            <th className="px-4 py-3">Subject</th>
+                                            <th className="px-3 py-3 text-center">Held</th>
+                                            <th className="px-3 py-3 text-center">Attended</th>
+                                            <th className="px-3 py-3 text-center">OD</th>
+                                            <th className="px-3 py-3 text-center">Medical</th>
+                                            <th className="px-3 py-3 text-right">%</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-50">
+                                        {statement.summary.map((s) => (
+                                            <tr key={s.subject_code}>
+                                                <td className="px-4 py-2.5">
+                                                    <p className="font-medium text-gray-900">{s.subject_name}</p>
+                                                    <p className="text-xs text-gray-400">{s.subject_code}</p>
+                                                </td>
+                                                <td className="px-3 py-2.5 text-center text-gray-700">{s.held}</td>
+                                                <td className="px-3 py-2.5 text-center text-gray-700">{s.attended}</td>
+                                                <td className="px-3 py-2.5 text-center text-gray-700">{s.on_duty}</td>
+                                                <td className="px-3 py-2.5 text-center text-gray-700">{s.medical}</td>
+                                                <td className="px-3 py-2.5 text-right font-semibold text-gray-900">
+                                                    {(s.pct * 100).toFixed(1)}%
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <p className="text-xs text-gray-400">
+                                Figures are as at the time of issue.
+                            </p>
+                        </div>
+                    )
+                )}
+            </div>
+        </div>
+    );
+}
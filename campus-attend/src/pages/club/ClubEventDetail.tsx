@@ -47,6 +47,7 @@ interface Attendee {
     check_in_lat: number | null;
     check_in_lng: number | null;
     geofence_verified: boolean;
+    geofence_override_reason: string | null;
     profile: {
         full_name: string;
         email: string;
@@ -90,6 +91,7 @@ export default function ClubEventDetail() {
                     check_in_lat,
                     check_in_lng,
                     geofence_verified,
+                    geofence_override_reason,
                     profile:profiles!event_registrations_student_id_fkey (
                         full_name,
                         email,
@@ -108,6 +110,7 @@ export default function ClubEventDetail() {
                 check_in_lat: r.check_in_lat as number | null,
                 check_in_lng: r.check_in_lng as number | null,
                 geofence_verified: r.geofence_verified as boolean,
+                geofence_override_reason: r.geofence_override_reason as string | null,
                 profile: r.profile as Attendee['profile'],
             }));
 
@@ -149,6 +152,7 @@ export default function ClubEventDetail() {
                             check_in_lat,
                             check_in_lng,
                             geofence_verified,
+                            geofence_override_reason,
                             profile:profiles!event_registrations_student_id_fkey (
                                 full_name,
                                 email,
@@ -166,6 +170,7 @@ export default function ClubEventDetail() {
                             check_in_lat: r.check_in_lat as number | null,
                             check_in_lng: r.check_in_lng as number | null,
                             geofence_verified: r.geofence_verified as boolean,
+                            geofence_override_reason: r.geofence_override_reason as string | null,
                             profile: r.profile as Attendee['profile'],
                         }));
                         setAttendees(mapped);
@@ -188,7 +193,7 @@ export default function ClubEventDetail() {
             return;
         }
 
-        const header = 'Name,Email,Department,Check-in Time,Geofence Verified,Latitude,Longitude';
+        const header = 'Name,Email,Department,Check-in Time,Geofence Verified,Override Reason,Latitude,Longitude';
         const rows = checkedIn.map((a) =>
             [
                 `"${a.profile?.full_name ?? 'Unknown'}"`,
@@ -196,6 +201,7 @@ export default function ClubEventDetail() {
                 `"${a.profile?.department ?? ''}"`,
                 `"${a.check_in_time ? format(new Date(a.check_in_time), 'yyyy-MM-dd HH:mm:ss') : ''}"`,
                 a.geofence_verified ? 'Yes' : 'No',
+                `"${(a.geofence_override_reason ?? '').replace(/"/g, '""')}"`,
                 a.check_in_lat ?? '',
                 a.check_in_lng ?? '',
             ].join(','),
@@ -422,6 +428,7 @@ export default function ClubEventDetail() {
                                                     <td className="px-5 py-3 text-center">
                                                         <GeoStatusBadge
                                                             verified={att.geofence_verified}
+                                                            reason={att.geofence_override_reason}
                                                         />
                                                     </td>
                                                 </tr>
@@ -445,7 +452,7 @@ export default function ClubEventDetail() {
                                                         {att.profile?.department ?? '—'}
                                                     </p>
                                                 </div>
-                                                <GeoStatusBadge verified={att.geofence_verified} />
+                                                <GeoStatusBadge verified={att.geofence_verified} reason={att.geofence_override_reason} />
                                             </div>
                                             <p className="text-xs text-gray-500 mt-1 tabular-nums">
                                                 {att.check_in_time &&
@@ -503,13 +510,16 @@ function StatCard({
     );
 }
 
-function GeoStatusBadge({ verified }: { verified: boolean }) {
+function GeoStatusBadge({ verified, reason }: { verified: boolean; reason: string | null }) {
     return verified ? (
         <span className="inline-flex items-center gap-1 bg-emerald-50 text-emerald-700 text-[11px] font-medium px-2 py-0.5 rounded-full">
             <CheckCircle2 className="w-3 h-3" /> Verified
         </span>
     ) : (
-        <span className="inline-flex items-center gap-1 bg-amber-50 text-amber-600 text-[11px] font-medium px-2 py-0.5 rounded-full">
+        <span
+            className="inline-flex items-center gap-1 bg-amber-50 text-amber-600 text-[11px] font-medium px-2 py-0.5 rounded-full"
+            title={reason ? `Override: ${reason}` : undefined}
+        >
             <XCircle className="w-3 h-3" /> Unverified
         </span>
     );
@@ -32,6 +32,7 @@ import {
     type EventCategory,
     type ScheduleDay,
 } from '../../hooks/useEventForm';
+import VenueInput from '../../components/VenueInput';
 
 // ── Constants ───────────────────────────────────────────────
 
@@ -68,6 +69,7 @@ export default function NewEventPage() {
         created,
         uploadAndParse,
         updateField,
+        updateVenue,
         createEvent,
         reset,
     } = useEventForm();
@@ -294,12 +296,12 @@ export default function NewEventPage() {
                             label="Venue"
                             confidence={parsed?.confidence?.venue}
                         >
-                            <input
-                                type="text"
+                            <VenueInput
                                 value={form.venue}
-                                onChange={(e) => updateField('venue', e.target.value)}
+                                onChange={updateVenue}
                                 className={inputCls}
                                 placeholder="Auditorium, Main Block"
+                                showDetails
                             />
                         </FieldWithConfidence>
 
@@ -399,6 +401,7 @@ export default function NewEventPage() {
                         </h3>
                         <p className="text-xs text-gray-400">
                             Click on the map to set the check-in location, or enter coordinates manually.
+                            Registered venues fill this in for you.
                         </p>
                         <LeafletMapPicker
                             lat={form.geofence_lat !== '' ? Number(form.geofence_lat) : null}
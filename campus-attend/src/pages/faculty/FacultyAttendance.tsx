@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { format } from 'date-fns';
 import {
     Loader2,
@@ -9,6 +9,13 @@ import {
     ChevronRight,
     CheckCheck,
     XOctagon,
+    CloudUpload,
+    WifiOff,
+    QrCode,
+    History,
+    Stethoscope,
+    RotateCcw,
+    Trash2,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -18,87 +25,235 @@ import {
     useEnrolledStudents,
     usePendingODsForSession,
     useBulkMarkAttendance,
+    useSessionAttendance,
     type StudentRow,
+    type StoredMark,
 } from '../../hooks/useFacultyAttendance';
+import { useSemester } from '../../hooks/useSemester';
+import { useCoveredSessions } from '../../hooks/useSubstitutions';
+import {
+    useAttendanceQueue,
+    useOnlineStatus,
+    useRetryQueuedAttendance,
+    useDiscardQueuedAttendance,
+} from '../../hooks/useOfflineAttendance';
+import { useLiveCheckIn, useOpenCheckIn } from '../../hooks/useClassCheckIn';
+import LiveCheckInModal from '../../components/LiveCheckInModal';
+import AttendanceHistoryDrawer from '../../components/attendance/AttendanceHistoryDrawer';
+import { SOURCE_LABELS } from '../../hooks/useAttendanceAudit';
+import type { MarkStatus, QueuedAttendance } from '../../lib/offlineStore';
 
 type AttendanceStatus = 'present' | 'absent' | 'on_duty';
 
+// Unmarked students start as present; marked ones show what's on record
+const STATUS_LABELS: Record<MarkStatus, string> = {
+    present: 'Present',
+    absent: 'Absent',
+    on_duty: 'OD',
+    medical: 'Medical',
+};
+
+// Records saved before sources were tracked only have marked_by
+const MARKED_BY_LABELS: Record<StoredMark['marked_by'], string> = {
+    faculty: 'Faculty',
+    student: 'Self check-in',
+    system: 'System',
+    ai_approved: 'OD approval',
+};
+
+const defaultStatus = (mark: StoredMark | null): MarkStatus => mark?.status ?? 'present';
+
+// Statuses that come from an approval, not from taking the roll
+const isProtected = (mark: StoredMark | null) => mark?.status === 'on_duty' || mark?.status === 'medical';
+
 export default function FacultyAttendancePage() {
     // ── Step state ────────────────────────────────────────────
     const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
     const [selectedSession, setSelectedSession] = useState<string | null>(null);
     const [students, setStudents] = useState<StudentRow[]>([]);
     const [submitted, setSubmitted] = useState(false);
+    const [showLive, setShowLive] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const rowsFor = useRef<string | null>(null);
 
     // ── Queries ───────────────────────────────────────────────
     const { data: subjects, isLoading: subjectsLoading } = useFacultySubjects();
     const { data: sessions, isLoading: sessionsLoading } = useFacultySessions(selectedSubject);
     const { data: enrolled, isLoading: enrolledLoading } = useEnrolledStudents(selectedSubject);
     const { data: pendingODs } = usePendingODsForSession(selectedSession);
+    const { data: covered } = useCoveredSessions();
+    const { data: stored, isLoading: storedLoading } = useSessionAttendance(selectedSession);
+    const { data: queue } = useAttendanceQueue();
+    const isOnline = useOnlineStatus();
+    const { data: live } = useLiveCheckIn(isOnline ? selectedSession : null);
+    const openCheckIn = useOpenCheckIn();
     const bulkMark = useBulkMarkAttendance();
+    const retryQueued = useRetryQueuedAttendance();
+    const discardQueued = useDiscardQueuedAttendance();
+    const { isReadOnly } = useSemester();
+
+    // ── Sessions handed to this faculty by a colleague ────────
+    const coveredSubjects = useMemo(() => {
+        const own = new Set((subjects ?? []).map((s) => s.id));
+        const bySubject = new Map<string, { code: string; name: string; original: string | null }>();
+        for (const c of covered ?? []) {
+            const subject = c.session.subject;
+            if (!subject || own.has(subject.id)) continue;
+            bySubject.set(subject.id, {
+                code: subject.code,
+                name: subject.name,
+                original: c.original?.full_name ?? null,
+            });
+        }
+        return bySubject;
+    }, [covered, subjects]);
+
+    const coveredById = useMemo(
+        () => new Map((covered ?? []).map((c) => [c.class_session_id, c])),
+        [covered],
+    );
 
-    // ── Build student rows when enrolled / ODs change ─────────
+    // A covering faculty only gets the sessions handed to them
+    const visibleSessions = useMemo(
+        () => selectedSubject && coveredSubjects.has(selectedSubject)
+            ? (sessions ?? []).filter((s) => coveredById.has(s.id))
+            : sessions,
+        [sessions, selectedSubject, coveredSubjects, coveredById],
+    );
+
+    // ── Build student rows when enrolled / ODs / stored marks change ──
     useEffect(() => {
         if (!enrolled) return;
         const odMap = new Map(
             (pendingODs ?? []).map((od) => [od.student_id, od.id]),
         );
+        const storedMap = new Map((stored ?? []).map((r) => [r.student_id, r]));
+        const sameSession = rowsFor.current === selectedSession;
+        rowsFor.current = selectedSession;
 
-        const rows: StudentRow[] = enrolled.map((e) => ({
-            ...e,
-            status: 'present' as AttendanceStatus,
-            hasPendingOD: odMap.has(e.student_id),
-            odRequestId: odMap.get(e.student_id) ?? null,
-        }));
-
-        // Sort: pending OD first, then alphabetical
-        rows.sort((a, b) => {
-            if (a.hasPendingOD !== b.hasPendingOD) return a.hasPendingOD ? -1 : 1;
-            return (a.profile.full_name ?? '').localeCompare(b.profile.full_name ?? '');
+        setStudents((prev) => {
+            // Edits not submitted yet survive a refetch; everything else follows the server
+            const edited = new Map(
+                sameSession
+                    ? prev.filter((r) => r.status !== defaultStatus(r.stored)).map((r) => [r.student_id, r.status])
+                    : [],
+            );
+
+            const rows: StudentRow[] = enrolled.map((e) => {
+                const mark = storedMap.get(e.student_id) ?? null;
+                return {
+                    ...e,
+                    status: edited.get(e.student_id) ?? defaultStatus(mark),
+                    stored: mark,
+                    hasPendingOD: odMap.has(e.student_id),
+                    odRequestId: odMap.get(e.student_id) ?? null,
+                };
+            });
+
+            // Sort: pending OD first, then alphabetical
+            rows.sort((a, b) => {
+                if (a.hasPendingOD !== b.hasPendingOD) return a.hasPendingOD ? -1 : 1;
+                return (a.profile.full_name ?? '').localeCompare(b.profile.full_name ?? '');
+            });
+            return rows;
         });
+    }, [enrolled, pendingODs, stored, selectedSession]);
 
-        setStudents(rows);
-        setSubmitted(false);
-    }, [enrolled, pendingODs]);
+    // Students not on record yet, or whose status was changed here
+    const changed = useMemo(
+        () => students.filter((s) => s.status !== s.stored?.status),
+        [students],
+    );
 
     // ── Handlers ──────────────────────────────────────────────
-    const setStatus = (idx: number, status: AttendanceStatus) => {
+    const setStatus = (idx: number, status: MarkStatus) => {
         setStudents((prev) => {
             const next = [...prev];
             next[idx] = { ...next[idx], status };
             return next;
         });
+        setSubmitted(false);
     };
 
+    // Approved OD / medical marks are left alone; change them one by one
     const markAll = (status: AttendanceStatus) => {
-        setStudents((prev) => prev.map((s) => ({ ...s, status })));
+        setStudents((prev) => prev.map((s) => (isProtected(s.stored) ? s : { ...s, status })));
+        setSubmitted(false);
     };
 
     const handleSubmit = async () => {
-        if (!selectedSession || students.length === 0) return;
+        if (!selectedSession || changed.length === 0 || isReadOnly) return;
+
+        const overwrites = changed.filter((s) => isProtected(s.stored));
+        if (overwrites.length > 0) {
+            const names = overwrites.map((s) => `• ${s.profile.full_name} (${STATUS_LABELS[s.stored!.status]})`).join('\n');
+            if (!confirm(`This overwrites ${overwrites.length} OD / medical record${overwrites.length === 1 ? '' : 's'}:\n${names}\n\nSave anyway?`)) return;
+        }
 
         try {
-            await bulkMark.mutateAsync({
+            const { queued } = await bulkMark.mutateAsync({
                 session_id: selectedSession,
-                records: students.map((s) => ({
+                subject_id: selectedSubject,
+                records: changed.map((s) => ({
                     student_id: s.student_id,
                     status: s.status,
                 })),
+                base: Object.fromEntries(
+                    changed.map((s) => [s.student_id, s.stored?.status ?? null]),
+                ),
             });
             setSubmitted(true);
-            toast.success('Attendance submitted successfully');
+            if (queued) toast.success('Saved on this device — it will sync when you are back online');
+            else toast.success('Attendance submitted successfully');
         } catch (err: unknown) {
             toast.error(err instanceof Error ? err.message : 'Failed to submit');
         }
     };
 
+    // An offline submission the server rejected waits here for the user
+    const rejectedEntry = selectedSession ? queue?.get(selectedSession) : undefined;
+
+    const handleRetry = async (entry: QueuedAttendance) => {
+        try {
+            await retryQueued.mutateAsync(entry);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to retry');
+        }
+    };
+
+    const handleDiscard = async (sessionId: string) => {
+        if (!confirm('Discard the marks saved on this device for this session?')) return;
+        try {
+            await discardQueued.mutateAsync(sessionId);
+            toast.success('Offline submission discarded');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to discard');
+        }
+    };
+
+    const currentSession = visibleSessions?.find((s) => s.id === selectedSession);
+    const sessionTitle = currentSession
+        ? `${currentSession.subject?.code ?? ''} · ${currentSession.start_time.slice(0, 5)}–${currentSession.end_time.slice(0, 5)}`
+        : '';
+
+    const handleGoLive = async () => {
+        if (!selectedSession) return;
+        try {
+            if (!live?.is_open) await openCheckIn.mutateAsync(selectedSession);
+            setShowLive(true);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to start check-in');
+        }
+    };
+
     // ── Summary counts ────────────────────────────────────────
     const summary = useMemo(() => {
-        const counts = { present: 0, absent: 0, on_duty: 0, total: students.length };
+        const counts = { present: 0, absent: 0, on_duty: 0, medical: 0, total: students.length };
         for (const s of students) {
             if (s.status === 'present') counts.present++;
             else if (s.status === 'absent') counts.absent++;
             else if (s.status === 'on_duty') counts.on_duty++;
+            else if (s.status === 'medical') counts.medical++;
         }
         return counts;
     }, [students]);
@@ -119,6 +274,13 @@ export default function FacultyAttendancePage() {
         <div className="space-y-6">
             <h1 className="text-2xl font-bold text-gray-900">Mark Attendance</h1>
 
+            {!isOnline && (
+                <div className="flex items-center gap-2 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                    <WifiOff className="w-4 h-4 shrink-0" />
+                    You&apos;re offline. Rosters and sessions come from this device, and submissions are kept here until the connection returns.
+                </div>
+            )}
+
             {/* ═══════════════════════════════════════════════════
           STEP 1: Select Subject
          ═══════════════════════════════════════════════════ */}
@@ -144,6 +306,15 @@ export default function FacultyAttendancePage() {
                             {s.code} — {s.name}
                         </option>
                     ))}
+                    {coveredSubjects.size > 0 && (
+                        <optgroup label="Covering today">
+                            {[...coveredSubjects].map(([id, s]) => (
+                                <option key={id} value={id}>
+                                    {s.code} — {s.name}{s.original ? ` (for ${s.original})` : ''}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
                 </select>
             </div>
 
@@ -159,14 +330,16 @@ export default function FacultyAttendancePage() {
 
                     {sessionsLoading ? (
                         <Loader2 className="w-5 h-5 animate-spin text-gray-400 mx-auto" />
-                    ) : !sessions || sessions.length === 0 ? (
+                    ) : !visibleSessions || visibleSessions.length === 0 ? (
                         <p className="text-sm text-gray-400 text-center py-4">
                             No sessions scheduled today for this subject.
                         </p>
                     ) : (
                         <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
-                            {sessions.map((s) => {
+                            {visibleSessions.map((s) => {
                                 const isSelected = selectedSession === s.id;
+                                const cover = coveredById.get(s.id);
+                                const queuedEntry = queue?.get(s.id);
                                 const fmtTime = (t: string) => {
                                     const [h, m] = t.split(':');
                                     const hr = parseInt(h, 10);
@@ -187,8 +360,22 @@ export default function FacultyAttendancePage() {
                                                 {fmtTime(s.start_time)} – {fmtTime(s.end_time)}
                                             </p>
                                             <p className="text-xs text-gray-500">
-                                                {s.venue ?? 'No venue'} · {s.session_type}
+                                                {s.venue ?? 'No venue'} · {s.session_type} · {s.session_weight} contact hr{s.session_weight === 1 ? '' : 's'}
                                             </p>
+                                            {cover && (
+                                                <p className="text-[11px] font-medium text-violet-600">
+                                                    Covering for {cover.original?.full_name ?? 'a colleague'}
+                                                </p>
+                                            )}
+                                            {queuedEntry && (
+                                                <p
+                                                    className={`flex items-center gap-1 text-[11px] font-medium ${queuedEntry.last_error ? 'text-red-600' : 'text-amber-600'}`}
+                                                    title={queuedEntry.last_error ?? undefined}
+                                                >
+                                                    <CloudUpload className="w-3 h-3" />
+                                                    {queuedEntry.last_error ? 'Sync failed' : 'Pending sync'}
+                                                </p>
+                                            )}
                                         </div>
                                         <ChevronRight className={`w-4 h-4 ${isSelected ? 'text-indigo-500' : 'text-gray-300'}`} />
                                     </button>
@@ -213,7 +400,27 @@ export default function FacultyAttendancePage() {
                         </h2>
 
                         {/* Quick buttons */}
-                        <div className="flex gap-2">
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={handleGoLive}
+                                disabled={!isOnline || isReadOnly || openCheckIn.isPending}
+                                title={!isOnline ? 'Live check-in needs a connection' : undefined}
+                                className={`flex items-center gap-1 rounded-lg border px-3 py-1.5 text-xs font-semibold transition disabled:opacity-60 ${live?.is_open
+                                    ? 'bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700'
+                                    : 'bg-indigo-50 border-indigo-200 text-indigo-700 hover:bg-indigo-100'
+                                    }`}
+                            >
+                                {openCheckIn.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <QrCode className="w-3.5 h-3.5" />}
+                                {live?.is_open ? `Live · ${live.checked_in} in` : 'Live Check-in'}
+                            </button>
+                            <button
+                                onClick={() => setShowHistory(true)}
+                                disabled={!isOnline}
+                                title={!isOnline ? 'History needs a connection' : undefined}
+                                className="flex items-center gap-1 rounded-lg bg-white border border-gray-200 px-3 py-1.5 text-xs font-semibold text-gray-600 hover:bg-gray-50 disabled:opacity-60 transition"
+                            >
+                                <History className="w-3.5 h-3.5" /> History
+                            </button>
                             <button
                                 onClick={() => markAll('present')}
                                 className="flex items-center gap-1 rounded-lg bg-emerald-50 border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 hover:bg-emerald-100 transition"
@@ -229,7 +436,32 @@ export default function FacultyAttendancePage() {
                         </div>
                     </div>
 
-                    {enrolledLoading ? (
+                    {rejectedEntry?.last_error && (
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-3 border-b border-red-100 bg-red-50 px-5 py-3 text-sm text-red-700">
+                            <p className="flex-1">
+                                The marks saved offline for this session were rejected: {rejectedEntry.last_error}
+                            </p>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => handleRetry(rejectedEntry)}
+                                    disabled={!isOnline || retryQueued.isPending}
+                                    className="flex items-center gap-1 rounded-lg bg-white border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-100 disabled:opacity-60 transition"
+                                >
+                                    {retryQueued.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                                    Retry
+                                </button>
+                                <button
+                                    onClick={() => handleDiscard(rejectedEntry.session_id)}
+                                    disabled={discardQueued.isPending}
+                                    className="flex items-center gap-1 rounded-lg bg-white border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-100 disabled:opacity-60 transition"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" /> Discard
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {enrolledLoading || storedLoading ? (
                         <div className="flex justify-center py-10">
                             <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
                         </div>
@@ -266,6 +498,7 @@ export default function FacultyAttendancePage() {
                                                         )}
                                                     </div>
                                                     <p className="text-xs text-gray-400">{s.profile.email}</p>
+                                                    <StoredMarkNote row={s} onUndo={() => setStatus(i, defaultStatus(s.stored))} />
                                                 </td>
                                                 <td className="px-4 py-3">
                                                     <StatusToggle status={s.status} onChange={(v) => setStatus(i, v)} />
@@ -292,6 +525,7 @@ export default function FacultyAttendancePage() {
                                                 )}
                                             </div>
                                         </div>
+                                        <StoredMarkNote row={s} onUndo={() => setStatus(i, defaultStatus(s.stored))} />
                                         <StatusToggle status={s.status} onChange={(v) => setStatus(i, v)} />
                                     </div>
                                 ))}
@@ -307,37 +541,94 @@ export default function FacultyAttendancePage() {
                                 <span className="text-emerald-600">✓ {summary.present} Present</span>
                                 <span className="text-red-500">✗ {summary.absent} Absent</span>
                                 <span className="text-sky-600">◎ {summary.on_duty} OD</span>
+                                {summary.medical > 0 && (
+                                    <span className="text-violet-600">✚ {summary.medical} Medical</span>
+                                )}
                             </div>
 
-                            {submitted ? (
+                            {submitted && queue?.has(selectedSession) ? (
+                                <div className="flex items-center gap-1.5 text-sm font-semibold text-amber-600">
+                                    <CloudUpload className="w-5 h-5" /> Saved offline · pending sync
+                                </div>
+                            ) : submitted ? (
                                 <div className="flex items-center gap-1.5 text-sm font-semibold text-emerald-600">
                                     <CheckCircle2 className="w-5 h-5" /> Submitted
                                 </div>
+                            ) : changed.length === 0 ? (
+                                <div className="flex items-center gap-1.5 text-sm font-semibold text-gray-500">
+                                    <CheckCircle2 className="w-5 h-5" /> All marked · no changes
+                                </div>
                             ) : (
                                 <button
                                     onClick={handleSubmit}
-                                    disabled={bulkMark.isPending}
+                                    disabled={bulkMark.isPending || isReadOnly}
+                                    title={isReadOnly ? 'Past semesters are read-only' : undefined}
                                     className="flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-5 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
                                 >
                                     {bulkMark.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
-                                    {bulkMark.isPending ? 'Submitting…' : 'Submit Attendance'}
+                                    {bulkMark.isPending
+                                        ? 'Submitting…'
+                                        : changed.length < students.length
+                                            ? `Save ${changed.length} Change${changed.length === 1 ? '' : 's'}`
+                                            : 'Submit Attendance'}
                                 </button>
                             )}
                         </div>
                     )}
                 </div>
             )}
+
+            {showLive && selectedSession && (
+                <LiveCheckInModal
+                    sessionId={selectedSession}
+                    title={sessionTitle}
+                    onClose={() => setShowLive(false)}
+                    onEnded={(finalised) => finalised && setSubmitted(true)}
+                />
+            )}
+
+            {showHistory && selectedSession && (
+                <AttendanceHistoryDrawer
+                    sessionId={selectedSession}
+                    title={sessionTitle}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
         </div>
     );
 }
 
 // ── Status toggle sub-component ─────────────────────────────
 
+function StoredMarkNote({ row, onUndo }: { row: StudentRow; onUndo: () => void }) {
+    const mark = row.stored;
+    if (!mark) return null;
+    const by = mark.source ? SOURCE_LABELS[mark.source] : MARKED_BY_LABELS[mark.marked_by];
+
+    return (
+        <p className="text-[11px] text-gray-500 mt-0.5">
+            {row.status !== mark.status ? (
+                <>
+                    <span className={isProtected(mark) ? 'text-red-600 font-medium' : 'text-amber-600 font-medium'}>
+                        Was {STATUS_LABELS[mark.status]} · {by}
+                    </span>
+                    {' · '}
+                    <button onClick={onUndo} className="text-indigo-600 hover:text-indigo-700 font-medium">
+                        Undo
+                    </button>
+                </>
+            ) : (
+                <>Marked {STATUS_LABELS[mark.status]} · {by} · {format(new Date(mark.marked_at), 'dd MMM, HH:mm')}</>
+            )}
+        </p>
+    );
+}
+
 function StatusToggle({
     status,
     onChange,
 }: {
-    status: AttendanceStatus;
+    status: MarkStatus;
     onChange: (v: AttendanceStatus) => void;
 }) {
     const options: { value: AttendanceStatus; label: string; active: string; icon: typeof CheckCircle2 }[] = [
@@ -348,6 +639,12 @@ function StatusToggle({
 
     return (
         <div className="flex gap-1 justify-center">
+            {status === 'medical' && (
+                <span className="flex items-center gap-1 rounded-lg px-2.5 py-1.5 text-xs font-semibold bg-violet-500 text-white">
+                    <Stethoscope className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">Medical</span>
+                </span>
+            )}
             {options.map((o) => {
                 const Icon = o.icon;
                 const isActive = status === o.value;
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+    Loader2,
+    CheckCircle2,
+    XCircle,
+    MessageSquareWarning,
+    ArrowRight,
+    Filter,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import {
+    useSessionCorrections,
+    useReviewCorrection,
+    type CorrectionWithSession,
+} from '../../hooks/useSessionCorrections';
+import { useSemester } from '../../hooks/useSemester';
+
+type TabFilter = 'all' | 'pending' | 'accepted' | 'rejected';
+
+const STATUS_BADGE: Record<CorrectionWithSession['status'], string> = {
+    pending: 'bg-amber-100 text-amber-700',
+    accepted: 'bg-emerald-100 text-emerald-700',
+    rejected: 'bg-red-100 text-red-600',
+};
+
+const hhmm = (t: string) => t.slice(0, 5);
+const day = (d: string) => format(new Date(`${d}T00:00:00`), 'EEE, dd MMM');
+
+export default function FacultyCorrectionsPage() {
+    const { data: corrections, isLoading } = useSessionCorrections();
+    const review = useReviewCorrection();
+    const { isReadOnly } = useSemester();
+    const [tab, setTab] = useState<TabFilter>('pending');
+    const [notes, setNotes] = useState<Record<string, string>>({});
+
+    const filtered = (corrections ?? []).filter((c) => tab === 'all' || c.status === tab);
+
+    const counts = {
+        all: (corrections ?? []).length,
+        pending: (corrections ?? []).filter((c) => c.status === 'pending').length,
+        accepted: (corrections ?? []).filter((c) => c.status === 'accepted').length,
+        rejected: (corrections ?? []).filter((c) => c.status === 'rejected').length,
+    };
+
+    const handleReview = async (c: CorrectionWithSession, accept: boolean) => {
+        if (accept && c.proposed_cancel && !confirm('Cancel this session for every enrolled student?')) return;
+        try {
+            await review.mutateAsync({ id: c.id, accept, note: notes[c.id] });
+            toast.success(accept ? 'Correction applied to the timetable' : 'Correction rejected');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Action failed');
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">Timetable Corrections</h1>
+                <p className="text-sm text-gray-500 mt-0.5">
+                    Fixes students have suggested for your sessions. Accepting updates the session for everyone.
+                </p>
+            </div>
+
+            {/* ── Filter tabs ──────────────────────────────────── */}
+            <div className="flex items-center gap-1 border border-gray-200 rounded-xl bg-white p-1 w-fit">
+                {(['pending', 'accepted', 'rejected', 'all'] as TabFilter[]).map((t) => (
+                    <button
+                        key={t}
+                        onClick={() => setTab(t)}
+                        className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-semibold capitalize transition ${tab === t
+                            ? 'bg-indigo-100 text-indigo-700'
+                            : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+                            }`}
+                    >
+                        <Filter className="w-3 h-3" />
+                        {t}
+                        <span className={`ml-0.5 text-[10px] px-1.5 py-0.5 rounded-full ${tab === t ? 'bg-indigo-200 text-indigo-800' : 'bg-gray-100 text-gray-400'}`}>
+                            {counts[t]}
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {/* ── Corrections list ─────────────────────────────── */}
+            {filtered.length === 0 ? (
+                <div className="bg-white rounded-xl border border-gray-200 px-5 py-12 text-center">
+                    <MessageSquareWarning className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-sm text-gray-400">No {tab === 'all' ? '' : tab} corrections.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {filtered.map((c) => {
+                        const s = c.session;
+                        return (
+                            <div key={c.id} className="bg-white rounded-xl border border-gray-200 px-5 py-4 space-y-3">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <p className="font-medium text-gray-900 text-sm">
+                                                {s?.subject?.code} · {s ? `${day(s.scheduled_date)} ${hhmm(s.start_time)}–${hhmm(s.end_time)}` : '—'}
+                                            </p>
+                                            <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${STATUS_BADGE[c.status]}`}>
+                                                {c.status}
+                                            </span>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-0.5">
+                                            {c.proposer?.full_name ?? 'A student'} · {format(new Date(c.created_at), 'dd MMM, h:mm a')}
+                                        </p>
+                                    </div>
+                                </div>
+
+                                {/* Proposed change */}
+                                <div className="flex flex-wrap items-center gap-2 text-xs">
+                                    {c.proposed_cancel ? (
+                                        <span className="rounded-lg bg-red-50 px-2.5 py-1.5 font-medium text-red-600">Class isn't happening</span>
+                                    ) : (
+                                        <>
+                                            {c.proposed_date && s && <Change from={day(s.scheduled_date)} to={day(c.proposed_date)} />}
+                                            {(c.proposed_start_time || c.proposed_end_time) && s && (
+                                                <Change
+                                                    from={`${hhmm(s.start_time)}–${hhmm(s.end_time)}`}
+                                                    to={`${hhmm(c.proposed_start_time ?? s.start_time)}–${hhmm(c.proposed_end_time ?? s.end_time)}`}
+                                                />
+                                            )}
+                                            {c.proposed_venue && <Change from={s?.venue ?? 'No venue'} to={c.proposed_venue} />}
+                                        </>
+                                    )}
+                                </div>
+
+                                <p className="text-xs text-gray-600 bg-gray-50 rounded-lg p-3">{c.note}</p>
+
+                                {c.review_note && (
+                                    <p className="text-xs text-gray-600">
+                                        <span className="font-medium">Review note:</span> {c.review_note}
+                                    </p>
+                                )}
+
+                                {/* Actions — only for pending */}
+                                {c.status === 'pending' && !isReadOnly && (
+                                    <div className="flex flex-col sm:flex-row gap-2 pt-1">
+                                        <input
+                                            type="text"
+                                            value={notes[c.id] ?? ''}
+                                            onChange={(e) => setNotes((n) => ({ ...n, [c.id]: e.target.value }))}
+                                            placeholder="Note for the student (optional)"
+                                            className="block w-full sm:flex-1 rounded-lg border border-gray-300 py-2 px-3 text-xs text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                                        />
+                                        <button
+                                            onClick={() => handleReview(c, true)}
+                                            disabled={review.isPending}
+                                            className="flex items-center justify-center gap-1.5 rounded-lg bg-emerald-600 px-4 py-2 text-xs font-semibold text-white hover:bg-emerald-700 disabled:opacity-60 transition"
+                                        >
+                                            {review.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+                                            Accept
+                                        </button>
+                                        <button
+                                            onClick={() => handleReview(c, false)}
+                                            disabled={review.isPending}
+                                            className="flex items-center justify-center gap-1.5 rounded-lg bg-red-50 border border-red-200 px-4 py-2 text-xs font-semibold text-red-600 hover:bg-red-100 disabled:opacity-60 transition"
+                                        >
+                                            {review.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <XCircle className="w-3.5 h-3.5" />}
+                                            Reject
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ── Before → after chip ─────────────────────────────────────
+
+function Change({ from, to }: { from: string; to: string }) {
+    return (
+        <span className="flex items-center gap-1.5 rounded-lg bg-indigo-50 px-2.5 py-1.5 text-indigo-700">
+            <span className="line-through opacity-60">{from}</span>
+            <ArrowRight className="w-3 h-3" />
+            <span className="font-medium">{to}</span>
+        </span>
+    );
+}
@@ -3,17 +3,28 @@ import type { NavItem } from '../../components/DashboardLayout';
 import {
     LayoutDashboard,
     BookOpen,
+    Upload,
     CalendarCheck,
     MessageSquare,
+    MessageSquareWarning,
+    Stethoscope,
+    ShieldAlert,
 } from 'lucide-react';
+import { useAttendanceSync } from '../../hooks/useOfflineAttendance';
 
 const NAV_ITEMS: NavItem[] = [
     { label: 'Dashboard', to: '/faculty/dashboard', icon: LayoutDashboard },
     { label: 'Subjects', to: '/faculty/subjects', icon: BookOpen },
+    { label: 'Import Timetable', to: '/faculty/timetable-import', icon: Upload },
     { label: 'Attendance', to: '/faculty/attendance', icon: CalendarCheck },
     { label: 'Requests', to: '/faculty/requests', icon: MessageSquare },
+    { label: 'Corrections', to: '/faculty/corrections', icon: MessageSquareWarning },
+    { label: 'Watchlist', to: '/faculty/watchlist', icon: ShieldAlert },
+    { label: 'Medical Leave', to: '/faculty/medical-leave', icon: Stethoscope },
 ];
 
 export default function FacultyLayout() {
-    return <DashboardLayout navItems={NAV_ITEMS} title="CampusAttend" />;
+    // Offline attendance is sent from any faculty page once the connection is back
+    useAttendanceSync();
+    return <DashboardLayout navItems={NAV_ITEMS} title="CampusAttend" showSemesterSwitcher />;
 }
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+    Loader2,
+    CheckCircle2,
+    XCircle,
+    Stethoscope,
+    Calendar,
+    FileText,
+    Filter,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import {
+    useMedicalLeaveQueue,
+    useResolveMedicalLeave,
+    getCertificateUrl,
+    type MedicalLeaveWithStudent,
+} from '../../hooks/useMedicalLeave';
+
+type TabFilter = 'all' | 'pending' | 'approved' | 'rejected';
+
+const STATUS_BADGE: Record<MedicalLeaveWithStudent['status'], string> = {
+    pending: 'bg-amber-100 text-amber-700',
+    approved: 'bg-emerald-100 text-emerald-700',
+    rejected: 'bg-red-100 text-red-600',
+};
+
+// Shared by the faculty (mentor) and admin routes
+export default function FacultyMedicalLeavePage() {
+    const { data: requests, isLoading } = useMedicalLeaveQueue();
+    const resolve = useResolveMedicalLeave();
+    const [tab, setTab] = useState<TabFilter>('pending');
+    const [responses, setResponses] = useState<Record<string, string>>({});
+
+    const filtered = (requests ?? []).filter(
+        (r) => tab === 'all' || r.status === tab,
+    );
+
+    const counts = {
+        all: (requests ?? []).length,
+        pending: (requests ?? []).filter((r) => r.status === 'pending').length,
+        approved: (requests ?? []).filter((r) => r.status === 'approved').length,
+        rejected: (requests ?? []).filter((r) => r.status === 'rejected').length,
+    };
+
+    const handleAction = async (req: MedicalLeaveWithStudent, action: 'approved' | 'rejected') => {
+        try {
+            const marked = await resolve.mutateAsync({
+                requestId: req.id,
+                action,
+                response: responses[req.id]?.trim() || undefined,
+            });
+            toast.success(
+                action === 'approved'
+                    ? `Approved — ${marked} session${marked === 1 ? '' : 's'} marked medical`
+                    : 'Request rejected',
+            );
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Action failed');
+        }
+    };
+
+    const openCertificate = async (path: string) => {
+        try {
+            window.open(await getCertificateUrl(path), '_blank', 'noopener');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Could not open certificate');
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Medical Leave</h1>
+
+            {/* ── Filter tabs ──────────────────────────────────── */}
+            <div className="flex items-center gap-1 border border-gray-200 rounded-xl bg-white p-1 w-fit">
+                {(['pending', 'approved', 'rejected', 'all'] as TabFilter[]).map((t) => (
+                    <button
+                        key={t}
+                        onClick={() => setTab(t)}
+                        className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-semibold capitalize transition ${tab === t
+                                ? 'bg-indigo-100 text-indigo-700'
+                                : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+                            }`}
+                    >
+                        <Filter className="w-3 h-3" />
+                        {t}
+                        <span className={`ml-0.5 text-[10px] px-1.5 py-0.5 rounded-full ${tab === t ? 'bg-indigo-200 text-indigo-800' : 'bg-gray-100 text-gray-400'
+                            }`}>
+                            {counts[t]}
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {/* ── Requests list ────────────────────────────────── */}
+            {filtered.length === 0 ? (
+                <div className="bg-white rounded-xl border border-gray-200 px-5 py-12 text-center">
+                    <Stethoscope className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-sm text-gray-400">No {tab === 'all' ? '' : tab} medical leave requests.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {filtered.map((req) => (
+                        <div key={req.id} className="bg-white rounded-xl border border-gray-200 p-5 space-y-3">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2 flex-wrap">
+                                        <p className="font-medium text-gray-900 text-sm">
+                                            {req.student?.full_name ?? 'Unknown'}
+                                        </p>
+                                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${STATUS_BADGE[req.status]}`}>
+                                            {req.status}
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-0.5">
+                                        {req.student?.department ?? '—'} · submitted {format(new Date(req.created_at), 'dd MMM, h:mm a')}
+                                    </p>
+                                </div>
+                                <span className="flex items-center gap-1.5 text-xs font-medium text-gray-600 shrink-0">
+                                    <Calendar className="w-3.5 h-3.5 text-gray-400" />
+                                    {format(new Date(`${req.from_date}T00:00:00`), 'dd MMM')} – {format(new Date(`${req.to_date}T00:00:00`), 'dd MMM yyyy')}
+                                </span>
+                            </div>
+
+                            <p className="text-sm text-gray-700">{req.reason}</p>
+
+                            {req.certificate_path ? (
+                                <button
+                                    onClick={() => openCertificate(req.certificate_path!)}
+                                    className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                                >
+                                    <FileText className="w-3.5 h-3.5" /> View certificate
+                                </button>
+                            ) : (
+                                <p className="text-xs text-amber-600">No certificate attached</p>
+                            )}
+
+                            {req.status === 'approved' && (
+                                <p className="text-xs text-emerald-700">
+                                    {req.sessions_marked} session{req.sessions_marked === 1 ? '' : 's'} marked medical
+                                </p>
+                            )}
+                            {req.reviewer_response && (
+                                <p className="text-xs text-gray-600">
+                                    <span className="font-medium">Response:</span> {req.reviewer_response}
+                                </p>
+                            )}
+
+                            {/* Action buttons — only for pending */}
+                            {req.status === 'pending' && (
+                                <div className="flex flex-col sm:flex-row gap-2 pt-1">
+                                    <input
+                                        value={responses[req.id] ?? ''}
+                                        onChange={(e) => setResponses((prev) => ({ ...prev, [req.id]: e.target.value }))}
+                                        placeholder="Optional note to student"
+                                        className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-xs focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none"
+                                    />
+                                    <button
+                                        onClick={() => handleAction(req, 'approved')}
+                                        disabled={resolve.isPending}
+                                        className="flex items-center justify-center gap-1.5 rounded-lg bg-emerald-600 px-4 py-2 text-xs font-semibold text-white hover:bg-emerald-700 disabled:opacity-60 transition"
+                                    >
+                                        {resolve.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+                                        Approve
+                                    </button>
+                                    <button
+                                        onClick={() => handleAction(req, 'rejected')}
+                                        disabled={resolve.isPending}
+                                        className="flex items-center justify-center gap-1.5 rounded-lg bg-red-50 border border-red-200 px-4 py-2 text-xs font-semibold text-red-600 hover:bg-red-100 disabled:opacity-60 transition"
+                                    >
+                                        {resolve.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <XCircle className="w-3.5 h-3.5" />}
+                                        Reject
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,4 +1,956 @@
-import PlaceholderPage from '../../components/PlaceholderPage';
-export default function FacultySubjects() {
-    return <PlaceholderPage title="My Subjects" icon="📚" description="Manage your subjects and class sessions." />;
+import { useMemo, useState, type FormEvent } from 'react';
+import { format, addDays } from 'date-fns';
+import { Loader2, Plus, Trash2, Pencil, X, CalendarRange, Repeat, CalendarPlus, History, AlertTriangle, UserCog, CalendarClock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useFacultySubjects } from '../../hooks/useFacultyAttendance';
+import {
+    useSubjectTemplates,
+    useSubjectSessions,
+    useCreateTemplate,
+    useEditSession,
+    useDeleteTemplate,
+    useScheduleMakeup,
+    useRescheduleSession,
+    type EditScope,
+    type SessionType,
+} from '../../hooks/useTimetableTemplates';
+import { useSemester } from '../../hooks/useSemester';
+import { useSessionClashes, describeClash, type ProposedSession } from '../../hooks/useSessionClashes';
+import CalendarSubscribeModal from '../../components/CalendarSubscribeModal';
+import VenueInput from '../../components/VenueInput';
+import {
+    useSubjectSubstitutions,
+    useFacultyDirectory,
+    useAssignSubstitute,
+    useRevokeSubstitute,
+    type SubstitutionWithNames,
+} from '../../hooks/useSubstitutions';
+import type { ClassSession } from '../../types/database';
+
+// ── Constants ───────────────────────────────────────────────
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+const SESSION_TYPES = ['lecture', 'lab', 'tutorial'] as const;
+
+const fmtTime = (t: string) => {
+    const [h, m] = t.split(':');
+    const hr = parseInt(h, 10);
+    return `${hr % 12 || 12}:${m} ${hr >= 12 ? 'PM' : 'AM'}`;
+};
+
+// Monday-based weekday of a YYYY-MM-DD date
+const weekdayOf = (date: string) => (new Date(`${date}T00:00:00`).getDay() + 6) % 7;
+
+export default function FacultySubjectsPage() {
+    const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
+    const [showPast, setShowPast] = useState(false);
+    const [showSubscribe, setShowSubscribe] = useState(false);
+
+    const { data: subjects, isLoading: subjectsLoading } = useFacultySubjects();
+    const { data: templates, isLoading: templatesLoading } = useSubjectTemplates(selectedSubject);
+    const { data: sessions, isLoading: sessionsLoading } = useSubjectSessions(selectedSubject);
+    const { data: substitutions } = useSubjectSubstitutions(selectedSubject);
+    const createTemplate = useCreateTemplate();
+    const deleteTemplate = useDeleteTemplate();
+    const { selectedSemester, isReadOnly } = useSemester();
+
+    const subject = subjects?.find((s) => s.id === selectedSubject) ?? null;
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    const visibleSessions = useMemo(
+        () => (sessions ?? []).filter((s) => showPast || s.scheduled_date >= today),
+        [sessions, showPast, today],
+    );
+
+    // Cancelled session id → its make-up, and session id → session
+    const { makeupOf, byId } = useMemo(() => {
+        const all = sessions ?? [];
+        return {
+            makeupOf: new Map(all.filter((s) => s.makeup_for).map((s) => [s.makeup_for!, s])),
+            byId: new Map(all.map((s) => [s.id, s])),
+        };
+    }, [sessions]);
+
+    // ── Add weekly slot form ──────────────────────────────────
+    const [formDay, setFormDay] = useState('0');
+    const [formStart, setFormStart] = useState('09:00');
+    const [formEnd, setFormEnd] = useState('10:00');
+    const [formVenue, setFormVenue] = useState('');
+    const [formType, setFormType] = useState<SessionType>('lecture');
+
+    // ── Clash check for the remaining weeks of the new slot ───
+    const proposed = useMemo<ProposedSession[] | null>(() => {
+        if (!selectedSubject || !selectedSemester || formStart >= formEnd) return null;
+
+        const from = today > selectedSemester.start_date ? today : selectedSemester.start_date;
+        let d = new Date(`${from}T00:00:00`);
+        d = addDays(d, (parseInt(formDay, 10) - weekdayOf(from) + 7) % 7);
+        const out: ProposedSession[] = [];
+        for (; format(d, 'yyyy-MM-dd') <= selectedSemester.end_date; d = addDays(d, 7)) {
+            out.push({
+                subject_id: selectedSubject,
+                scheduled_date: format(d, 'yyyy-MM-dd'),
+                start_time: formStart,
+                end_time: formEnd,
+                venue: formVenue.trim() || null,
+            });
+        }
+        return out;
+    }, [selectedSubject, selectedSemester, formDay, formStart, formEnd, formVenue, today]);
+
+    const { data: clashes, isFetching: checkingClashes } = useSessionClashes(isReadOnly ? null : proposed);
+    const visibleClashes = proposed ? (clashes ?? []) : [];
+
+    const handleAddSlot = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!selectedSubject) return;
+        if (formStart >= formEnd) { toast.error('End time must be after start time'); return; }
+
+        try {
+            await createTemplate.mutateAsync({
+                subject_id: selectedSubject,
+                weekday: parseInt(formDay, 10),
+                start_time: formStart,
+                end_time: formEnd,
+                venue: formVenue || undefined,
+                session_type: formType,
+            });
+            toast.success(`Weekly ${WEEKDAYS[parseInt(formDay, 10)]} slot added`);
+            setFormVenue('');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to add slot');
+        }
+    };
+
+    const handleDeleteSlot = async (templateId: string) => {
+        if (!confirm('Remove this weekly slot? Sessions that already have attendance are kept.')) return;
+        try {
+            const removed = await deleteTemplate.mutateAsync(templateId);
+            toast.success(`Slot removed (${removed} session${removed === 1 ? '' : 's'} deleted)`);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to remove slot');
+        }
+    };
+
+    // ── Edit session modal ────────────────────────────────────
+    const [editing, setEditing] = useState<ClassSession | null>(null);
+    const [makingUp, setMakingUp] = useState<ClassSession | null>(null);
+    const [substituting, setSubstituting] = useState<ClassSession | null>(null);
+    const [rescheduling, setRescheduling] = useState<ClassSession | null>(null);
+
+    // ── Shared input class ────────────────────────────────────
+    const inputCls =
+        'block w-full rounded-lg border border-gray-300 py-2 px-3 text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+    if (subjectsLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between gap-3">
+                <h1 className="text-2xl font-bold text-gray-900">My Subjects</h1>
+                <button
+                    onClick={() => setShowSubscribe(true)}
+                    className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition"
+                >
+                    <CalendarPlus className="w-4 h-4" /> Subscribe
+                </button>
+            </div>
+
+            {/* ═══════════════════════════════════════════════════
+          1. SUBJECT
+         ═══════════════════════════════════════════════════ */}
+            <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-3">
+                <select
+                    value={selectedSubject ?? ''}
+                    onChange={(e) => setSelectedSubject(e.target.value || null)}
+                    className={inputCls}
+                >
+                    <option value="">Choose a subject…</option>
+                    {(subjects ?? []).map((s) => (
+                        <option key={s.id} value={s.id}>
+                            {s.code} — {s.name}
+                        </option>
+                    ))}
+                </select>
+                {subject && (
+                    <p className="text-xs text-gray-500">
+                        {subject.total_classes_planned} classes planned
+                        {selectedSemester && (
+                            <> · {selectedSemester.name} ({format(new Date(`${selectedSemester.start_date}T00:00:00`), 'dd MMM')} – {format(new Date(`${selectedSemester.end_date}T00:00:00`), 'dd MMM yyyy')})</>
+                        )}
+                    </p>
+                )}
+            </div>
+
+            {/* ═══════════════════════════════════════════════════
+          2. WEEKLY SLOTS
+         ═══════════════════════════════════════════════════ */}
+            {selectedSubject && (
+                <div className="bg-white rounded-xl border border-gray-200">
+                    <div className="px-5 py-4 border-b border-gray-100">
+                        <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                            <Repeat className="w-4 h-4 text-indigo-500" />
+                            Weekly Slots
+                        </h2>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                            Each slot creates a session every week of the semester, skipping holidays.
+                        </p>
+                    </div>
+
+                    {templatesLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                        </div>
+                    ) : !templates || templates.length === 0 ? (
+                        <p className="px-5 py-6 text-center text-sm text-gray-400">No weekly slots yet.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-50">
+                            {templates.map((t) => (
+                                <li key={t.id} className="flex items-center justify-between gap-3 px-5 py-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900">
+                                            {WEEKDAYS[t.weekday]} · {fmtTime(t.start_time)} – {fmtTime(t.end_time)}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {t.venue ?? 'No venue'} · {t.session_type}
+                                            {(t.valid_from || t.valid_until) && (
+                                                <>
+                                                    {' '}· {t.valid_from ? format(new Date(`${t.valid_from}T00:00:00`), 'dd MMM') : 'start'} –{' '}
+                                                    {t.valid_until ? format(new Date(`${t.valid_until}T00:00:00`), 'dd MMM') : 'end'}
+                                                </>
+                                            )}
+                                        </p>
+                                    </div>
+                                    {!isReadOnly && (
+                                        <button
+                                            onClick={() => handleDeleteSlot(t.id)}
+                                            disabled={deleteTemplate.isPending}
+                                            className="p-1.5 rounded-lg text-gray-400 hover:bg-red-100 hover:text-red-500 disabled:opacity-60 transition shrink-0"
+                                            aria-label="Remove slot"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {!isReadOnly && (
+                        <form
+                            onSubmit={handleAddSlot}
+                            className="grid grid-cols-2 sm:grid-cols-6 gap-2 px-5 py-4 border-t border-gray-100 items-end"
+                        >
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Day</label>
+                                <select value={formDay} onChange={(e) => setFormDay(e.target.value)} className={inputCls}>
+                                    {WEEKDAYS.map((d, i) => (
+                                        <option key={d} value={i}>{d}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Start</label>
+                                <input type="time" value={formStart} onChange={(e) => setFormStart(e.target.value)} className={inputCls} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">End</label>
+                                <input type="time" value={formEnd} onChange={(e) => setFormEnd(e.target.value)} className={inputCls} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Venue</label>
+                                <VenueInput value={formVenue} onChange={(v) => setFormVenue(v)} className={inputCls} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+                                <select value={formType} onChange={(e) => setFormType(e.target.value as SessionType)} className={inputCls}>
+                                    {SESSION_TYPES.map((t) => (
+                                        <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={createTemplate.isPending}
+                                className={`flex items-center justify-center gap-1.5 rounded-lg px-3 py-2 text-sm font-semibold text-white shadow-sm disabled:opacity-60 transition ${visibleClashes.length > 0 ? 'bg-amber-600 hover:bg-amber-700' : 'bg-indigo-700 hover:bg-indigo-800'}`}
+                            >
+                                {createTemplate.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                                {visibleClashes.length > 0 ? 'Add Anyway' : 'Add Slot'}
+                            </button>
+
+                            {/* Clashes */}
+                            {visibleClashes.length > 0 && (
+                                <div className="col-span-2 sm:col-span-6 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+                                    <p className="font-semibold flex items-center gap-1.5">
+                                        <AlertTriangle className="w-3.5 h-3.5" />
+                                        {visibleClashes.length} clash{visibleClashes.length === 1 ? '' : 'es'} this semester
+                                        {checkingClashes && <Loader2 className="w-3 h-3 animate-spin" />}
+                                    </p>
+                                    <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+                                        {visibleClashes.map((c, i) => (
+                                            <li key={i}>
+                                                {format(new Date(`${c.scheduled_date}T00:00:00`), 'dd MMM')}: {describeClash(c, selectedSubject!)}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </form>
+                    )}
+                </div>
+            )}
+
+            {/* ═══════════════════════════════════════════════════
+          3. SESSIONS
+         ═══════════════════════════════════════════════════ */}
+            {selectedSubject && (
+                <div className="bg-white rounded-xl border border-gray-200">
+                    <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                        <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                            <CalendarRange className="w-4 h-4 text-indigo-500" />
+                            Sessions
+                            <span className="text-xs text-gray-400 font-normal">({visibleSessions.length})</span>
+                        </h2>
+                        <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                            <input
+                                type="checkbox"
+                                checked={showPast}
+                                onChange={(e) => setShowPast(e.target.checked)}
+                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Show past
+                        </label>
+                    </div>
+
+                    {sessionsLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                        </div>
+                    ) : visibleSessions.length === 0 ? (
+                        <p className="px-5 py-6 text-center text-sm text-gray-400">No sessions scheduled.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-50 max-h-[480px] overflow-y-auto">
+                            {visibleSessions.map((s) => {
+                                const makeup = makeupOf.get(s.id);
+                                const original = s.makeup_for ? byId.get(s.makeup_for) : undefined;
+                                const cover = substitutions?.get(s.id);
+                                return (
+                                    <li
+                                        key={s.id}
+                                        className={`flex items-center justify-between gap-3 px-5 py-2.5 ${s.is_cancelled ? 'opacity-50' : ''}`}
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium text-gray-900">
+                                                {format(new Date(`${s.scheduled_date}T00:00:00`), 'EEE, dd MMM')}
+                                                <span className="font-normal text-gray-500">
+                                                    {' '}· {fmtTime(s.start_time)} – {fmtTime(s.end_time)}
+                                                </span>
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                {s.venue ?? 'No venue'} · {s.session_type}
+                                                {s.is_cancelled ? (
+                                                    <>
+                                                        <span className="ml-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-gray-200 text-gray-600">CANCELLED</span>
+                                                        {s.cancel_reason && <> · {s.cancel_reason}</>}
+                                                        {makeup && (
+                                                            <> · made up {format(new Date(`${makeup.scheduled_date}T00:00:00`), 'dd MMM')}</>
+                                                        )}
+                                                    </>
+                                                ) : s.makeup_for ? (
+                                                    <span className="ml-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-indigo-100 text-indigo-700">
+                                                        MAKE-UP{original && <> FOR {format(new Date(`${original.scheduled_date}T00:00:00`), 'dd MMM').toUpperCase()}</>}
+                                                    </span>
+                                                ) : s.rescheduled_from_date ? (
+                                                    <span className="ml-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-orange-100 text-orange-700">
+                                                        MOVED FROM {format(new Date(`${s.rescheduled_from_date}T00:00:00`), 'dd MMM').toUpperCase()}
+                                                    </span>
+                                                ) : s.is_detached ? (
+                                                    <span className="ml-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700">EDITED</span>
+                                                ) : !s.template_id ? (
+                                                    <span className="ml-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-sky-100 text-sky-700">ONE-OFF</span>
+                                                ) : null}
+                                                {cover && !s.is_cancelled && (
+                                                    <span className="ml-1.5 text-[10px] font-bold px-1.5 py-0.5 rounded-full bg-violet-100 text-violet-700">
+                                                        COVER: {cover.substitute?.full_name.toUpperCase() ?? 'SUBSTITUTE'}
+                                                    </span>
+                                                )}
+                                            </p>
+                                        </div>
+                                        {!isReadOnly && !s.is_cancelled && s.scheduled_date >= today && (
+                                            <button
+                                                onClick={() => setRescheduling(s)}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:bg-indigo-50 hover:text-indigo-600 transition shrink-0"
+                                                aria-label="Reschedule session"
+                                                title="Reschedule and notify students"
+                                            >
+                                                <CalendarClock className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {!isReadOnly && !s.is_cancelled && s.scheduled_date >= today && (
+                                            <button
+                                                onClick={() => setSubstituting(s)}
+                                                className={`p-1.5 rounded-lg transition shrink-0 ${cover ? 'text-violet-500 hover:bg-violet-50' : 'text-gray-400 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                                                aria-label="Substitute faculty"
+                                                title="Substitute faculty"
+                                            >
+                                                <UserCog className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {!isReadOnly && !s.is_cancelled && (
+                                            <button
+                                                onClick={() => setEditing(s)}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:bg-indigo-50 hover:text-indigo-600 transition shrink-0"
+                                                aria-label="Edit session"
+                                            >
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {!isReadOnly && s.is_cancelled && !makeup && (
+                                            <button
+                                                onClick={() => setMakingUp(s)}
+                                                className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-indigo-600 hover:bg-indigo-50 transition shrink-0"
+                                            >
+                                                <History className="w-3.5 h-3.5" /> Make up
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {showSubscribe && <CalendarSubscribeModal onClose={() => setShowSubscribe(false)} />}
+
+            {editing && (
+                <EditSessionModal
+                    key={editing.id}
+                    session={editing}
+                    inputCls={inputCls}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+
+            {makingUp && (
+                <MakeupSessionModal
+                    key={makingUp.id}
+                    session={makingUp}
+                    inputCls={inputCls}
+                    onClose={() => setMakingUp(null)}
+                />
+            )}
+
+            {rescheduling && (
+                <RescheduleModal
+                    key={rescheduling.id}
+                    session={rescheduling}
+                    inputCls={inputCls}
+                    onClose={() => setRescheduling(null)}
+                />
+            )}
+
+            {substituting && (
+                <SubstituteModal
+                    key={substituting.id}
+                    session={substituting}
+                    current={substitutions?.get(substituting.id) ?? null}
+                    inputCls={inputCls}
+                    onClose={() => setSubstituting(null)}
+                />
+            )}
+        </div>
+    );
+}
+
+// ── Edit session modal ──────────────────────────────────────
+
+function EditSessionModal({
+    session,
+    inputCls,
+    onClose,
+}: {
+    session: ClassSession;
+    inputCls: string;
+    onClose: () => void;
+}) {
+    const editSession = useEditSession();
+    const isRecurring = !!session.template_id;
+
+    const [scope, setScope] = useState<EditScope>(isRecurring ? 'following' : 'this');
+    const [date, setDate] = useState(session.scheduled_date);
+    const [day, setDay] = useState(String(weekdayOf(session.scheduled_date)));
+    const [start, setStart] = useState(session.start_time.slice(0, 5));
+    const [end, setEnd] = useState(session.end_time.slice(0, 5));
+    const [venue, setVenue] = useState(session.venue ?? '');
+    const [type, setType] = useState<SessionType>(session.session_type);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (start >= end) { toast.error('End time must be after start time'); return; }
+
+        try {
+            await editSession.mutateAsync({
+                session_id: session.id,
+                scope,
+                scheduled_date: date,
+                weekday: parseInt(day, 10),
+                start_time: start,
+                end_time: end,
+                venue: venue || undefined,
+                session_type: type,
+            });
+            toast.success(scope === 'following' ? 'This and following sessions updated' : 'Session updated');
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to update session');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-900">Edit Session</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {/* Scope */}
+                    {isRecurring && (
+                        <div className="grid grid-cols-2 gap-2">
+                            {([
+                                ['this', 'This session only'],
+                                ['following', 'This and following'],
+                            ] as const).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    onClick={() => setScope(value)}
+                                    className={`rounded-lg border px-3 py-2 text-sm font-medium transition ${scope === value
+                                        ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                                        : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                                        }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Date (this only) or weekday (following) */}
+                    {scope === 'this' ? (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputCls} />
+                        </div>
+                    ) : (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Day</label>
+                            <select value={day} onChange={(e) => setDay(e.target.value)} className={inputCls}>
+                                {WEEKDAYS.map((d, i) => (
+                                    <option key={d} value={i}>{d}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-400 mt-1">
+                                Applies from {format(new Date(`${session.scheduled_date}T00:00:00`), 'dd MMM')} to the end of the semester.
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                            <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={inputCls} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                            <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={inputCls} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Venue</label>
+                        <VenueInput value={venue} onChange={(v) => setVenue(v)} className={inputCls} showDetails />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Session Type</label>
+                        <select value={type} onChange={(e) => setType(e.target.value as SessionType)} className={inputCls}>
+                            {SESSION_TYPES.map((t) => (
+                                <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={editSession.isPending}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                    >
+                        {editSession.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {editSession.isPending ? 'Saving…' : 'Save Changes'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+// ── Make-up session modal ───────────────────────────────────
+
+function MakeupSessionModal({
+    session,
+    inputCls,
+    onClose,
+}: {
+    session: ClassSession;
+    inputCls: string;
+    onClose: () => void;
+}) {
+    const scheduleMakeup = useScheduleMakeup();
+
+    const [date, setDate] = useState('');
+    const [start, setStart] = useState(session.start_time.slice(0, 5));
+    const [end, setEnd] = useState(session.end_time.slice(0, 5));
+    const [venue, setVenue] = useState(session.venue ?? '');
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!date) { toast.error('Pick a date for the make-up session'); return; }
+        if (start >= end) { toast.error('End time must be after start time'); return; }
+
+        try {
+            await scheduleMakeup.mutateAsync({
+                cancelled_session_id: session.id,
+                scheduled_date: date,
+                start_time: start,
+                end_time: end,
+                venue: venue || undefined,
+            });
+            toast.success('Make-up session scheduled — students have been notified');
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to schedule make-up');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Schedule Make-up</h2>
+                        <p className="text-xs text-gray-500">
+                            Replaces {format(new Date(`${session.scheduled_date}T00:00:00`), 'EEE, dd MMM')} · {fmtTime(session.start_time)}
+                            {session.cancel_reason && <> ({session.cancel_reason})</>}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputCls} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                            <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={inputCls} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                            <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={inputCls} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Venue</label>
+                        <VenueInput value={venue} onChange={(v) => setVenue(v)} className={inputCls} showDetails />
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={scheduleMakeup.isPending}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                    >
+                        {scheduleMakeup.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {scheduleMakeup.isPending ? 'Scheduling…' : 'Schedule Make-up'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+// ── Reschedule modal ────────────────────────────────────────
+
+function RescheduleModal({
+    session,
+    inputCls,
+    onClose,
+}: {
+    session: ClassSession;
+    inputCls: string;
+    onClose: () => void;
+}) {
+    const reschedule = useRescheduleSession();
+
+    const [date, setDate] = useState(session.scheduled_date);
+    const [start, setStart] = useState(session.start_time.slice(0, 5));
+    const [end, setEnd] = useState(session.end_time.slice(0, 5));
+    const [venue, setVenue] = useState(session.venue ?? '');
+    const [reason, setReason] = useState('');
+
+    const proposed = useMemo<ProposedSession[] | null>(
+        () => session.subject_id && date && start < end
+            ? [{ subject_id: session.subject_id, scheduled_date: date, start_time: start, end_time: end, venue: venue.trim() || null }]
+            : null,
+        [session.subject_id, date, start, end, venue],
+    );
+    const exclude = useMemo(() => [session.id], [session.id]);
+    const { data: clashes } = useSessionClashes(proposed, exclude);
+    const visibleClashes = proposed ? (clashes ?? []) : [];
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!date) { toast.error('Pick the new date'); return; }
+        if (start >= end) { toast.error('End time must be after start time'); return; }
+
+        try {
+            await reschedule.mutateAsync({
+                session_id: session.id,
+                scheduled_date: date,
+                start_time: start,
+                end_time: end,
+                venue: venue || undefined,
+                reason: reason.trim() || undefined,
+            });
+            toast.success('Session moved — students have been notified');
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to reschedule session');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Reschedule Session</h2>
+                        <p className="text-xs text-gray-500">
+                            Now {format(new Date(`${session.scheduled_date}T00:00:00`), 'EEE, dd MMM')} · {fmtTime(session.start_time)} – {fmtTime(session.end_time)}
+                            {session.rescheduled_from_date && (
+                                <> (originally {format(new Date(`${session.rescheduled_from_date}T00:00:00`), 'dd MMM')})</>
+                            )}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">New Date</label>
+                        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputCls} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                            <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={inputCls} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                            <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className={inputCls} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Venue</label>
+                        <VenueInput value={venue} onChange={(v) => setVenue(v)} className={inputCls} showDetails />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                        <input
+                            type="text"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            className={inputCls}
+                            placeholder="Department meeting"
+                        />
+                        <p className="text-xs text-gray-400 mt-1">Sent to every enrolled student with the new slot.</p>
+                    </div>
+
+                    {visibleClashes.length > 0 && (
+                        <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+                            <p className="font-semibold flex items-center gap-1.5">
+                                <AlertTriangle className="w-3.5 h-3.5" />
+                                {visibleClashes.length} clash{visibleClashes.length === 1 ? '' : 'es'} in the new slot
+                            </p>
+                            <ul className="space-y-0.5">
+                                {visibleClashes.map((c, i) => (
+                                    <li key={i}>{describeClash(c, session.subject_id ?? '')}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={reschedule.isPending}
+                        className={`w-full flex items-center justify-center gap-2 rounded-lg px-4 py-2.5 text-sm font-semibold text-white shadow-sm disabled:opacity-60 transition ${visibleClashes.length > 0 ? 'bg-amber-600 hover:bg-amber-700' : 'bg-indigo-700 hover:bg-indigo-800'}`}
+                    >
+                        {reschedule.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {reschedule.isPending ? 'Moving…' : visibleClashes.length > 0 ? 'Move Anyway' : 'Move & Notify'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+// ── Substitute faculty modal ────────────────────────────────
+
+function SubstituteModal({
+    session,
+    current,
+    inputCls,
+    onClose,
+}: {
+    session: ClassSession;
+    current: SubstitutionWithNames | null;
+    inputCls: string;
+    onClose: () => void;
+}) {
+    const { data: faculty, isLoading } = useFacultyDirectory();
+    const assign = useAssignSubstitute();
+    const revoke = useRevokeSubstitute();
+    const [substituteId, setSubstituteId] = useState(current?.substitute_faculty_id ?? '');
+    const [reason, setReason] = useState(current?.reason ?? '');
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!substituteId) { toast.error('Pick who takes the class'); return; }
+
+        try {
+            await assign.mutateAsync({ sessionId: session.id, substituteId, reason: reason.trim() || undefined });
+            toast.success('Substitute assigned — they can now mark this session');
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to assign substitute');
+        }
+    };
+
+    const handleRevoke = async () => {
+        try {
+            await revoke.mutateAsync(session.id);
+            toast.success('Session handed back to you');
+            onClose();
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to remove substitute');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">Substitute Faculty</h2>
+                        <p className="text-xs text-gray-500">
+                            {format(new Date(`${session.scheduled_date}T00:00:00`), 'EEE, dd MMM')} · {fmtTime(session.start_time)} – {fmtTime(session.end_time)}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {current && (
+                    <div className="flex items-center justify-between gap-3 rounded-lg bg-violet-50 px-3 py-2 text-xs text-violet-800">
+                        <span>Covered by <span className="font-semibold">{current.substitute?.full_name ?? 'a substitute'}</span></span>
+                        <button
+                            type="button"
+                            onClick={handleRevoke}
+                            disabled={revoke.isPending}
+                            className="font-semibold text-violet-700 hover:underline disabled:opacity-60"
+                        >
+                            Take it back
+                        </button>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Substitute</label>
+                        <select
+                            value={substituteId}
+                            onChange={(e) => setSubstituteId(e.target.value)}
+                            className={inputCls}
+                            disabled={isLoading}
+                        >
+                            <option value="">Choose a faculty member…</option>
+                            {(faculty ?? []).map((f) => (
+                                <option key={f.id} value={f.id}>
+                                    {f.full_name}{f.department ? ` (${f.department})` : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                        <input
+                            type="text"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            className={inputCls}
+                            placeholder="On leave"
+                        />
+                    </div>
+
+                    <p className="text-xs text-gray-400">
+                        The substitute can mark attendance for this session only. You keep full access to its records.
+                    </p>
+
+                    <button
+                        type="submit"
+                        disabled={assign.isPending}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                    >
+                        {assign.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {assign.isPending ? 'Assigning…' : current ? 'Change Substitute' : 'Assign Substitute'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
 }
@@ -0,0 +1,318 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Upload, FileText, AlertTriangle, XCircle, CheckCircle2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useImportSubjects, usePreviewImport, useCommitImport } from '../../hooks/useTimetableImport';
+import { useSemester } from '../../hooks/useSemester';
+import {
+    parseTimetableCsv,
+    parseTimetableIcs,
+    CSV_COLUMNS,
+    type DiffKind,
+    type ImportPlan,
+    type ImportRow,
+    type ParseError,
+} from '../../lib/timetableImport';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const KIND_BADGE: Record<DiffKind, { label: string; cls: string }> = {
+    create: { label: 'New', cls: 'bg-emerald-100 text-emerald-700' },
+    change: { label: 'Changed', cls: 'bg-amber-100 text-amber-700' },
+    cancel: { label: 'Cancelled', cls: 'bg-red-100 text-red-600' },
+    unchanged: { label: 'Same', cls: 'bg-gray-100 text-gray-500' },
+};
+
+const SAMPLE_CSV = `subject_code,date,start_time,end_time,venue,session_type,status
+CS101,2026-01-05,09:00,10:00,Room 301,lecture,
+CS101,2026-01-07,14:00,16:00,Lab 2,lab,
+MA201,2026-01-06,11:00,12:00,Room 105,tutorial,cancelled`;
+
+// Shared by the faculty and admin routes
+export default function FacultyTimetableImportPage() {
+    const { data: subjects, manageable, isLoading: subjectsLoading } = useImportSubjects();
+    const { selectedSemester, isReadOnly } = useSemester();
+    const preview = usePreviewImport();
+    const commit = useCommitImport();
+
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+    const [rows, setRows] = useState<ImportRow[]>([]);
+    const [plan, setPlan] = useState<ImportPlan | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [cancelMissing, setCancelMissing] = useState(false);
+
+    const counts = useMemo(() => {
+        const c = { create: 0, change: 0, cancel: 0, unchanged: 0, clashes: 0 };
+        for (const e of plan?.entries ?? []) {
+            c[e.kind]++;
+            if (e.clashes.length > 0) c.clashes++;
+        }
+        return c;
+    }, [plan]);
+
+    const visibleEntries = (plan?.entries ?? []).filter((e) => showUnchanged || e.kind !== 'unchanged');
+    const pendingChanges = counts.create + counts.change + counts.cancel;
+
+    // ── File → rows → preview ─────────────────────────────────
+    const buildPreview = async (importRows: ImportRow[], cancel: boolean) => {
+        if (!subjects) return;
+        try {
+            setPlan(await preview.mutateAsync({ rows: importRows, subjects, manageable, cancelMissing: cancel }));
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to build preview');
+        }
+    };
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !subjects) return;
+
+        setFileName(file.name);
+        setPlan(null);
+
+        const text = await file.text();
+        const isIcs = /\.ics$/i.test(file.name) || text.includes('BEGIN:VCALENDAR');
+        const result = isIcs
+            ? parseTimetableIcs(text, subjects.map((s) => s.code), selectedSemester?.end_date ?? format(new Date(), 'yyyy-12-31'))
+            : parseTimetableCsv(text);
+        setParseErrors(result.errors);
+        setRows(result.rows);
+        setCancelMissing(false);
+        await buildPreview(result.rows, false);
+    };
+
+    // Cancelling what the file leaves out is opt-in; it changes the clashes too
+    const handleCancelMissing = (checked: boolean) => {
+        setCancelMissing(checked);
+        buildPreview(rows, checked);
+    };
+
+    const handleCommit = async () => {
+        if (!plan) return;
+        if (counts.clashes > 0 && !confirm(`${counts.clashes} session(s) clash with the timetable. Import anyway?`)) return;
+
+        try {
+            const res = await commit.mutateAsync(plan);
+            toast.success(`Imported — ${res.created} created, ${res.updated} changed, ${res.cancelled} cancelled`);
+            setPlan(null);
+            setRows([]);
+            setCancelMissing(false);
+            setFileName(null);
+            setParseErrors([]);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Import failed — nothing was changed');
+        }
+    };
+
+    if (subjectsLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Import Timetable</h1>
+
+            {/* ═══════════════════════════════════════════════════
+          1. FILE
+         ═══════════════════════════════════════════════════ */}
+            <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+                <label
+                    className={`flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed px-4 py-8 text-center transition ${isReadOnly
+                        ? 'border-gray-200 bg-gray-50 cursor-not-allowed'
+                        : 'border-indigo-200 hover:border-indigo-400 hover:bg-indigo-50/40 cursor-pointer'
+                        }`}
+                >
+                    {preview.isPending ? (
+                        <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
+                    ) : (
+                        <Upload className="w-8 h-8 text-indigo-400" />
+                    )}
+                    <span className="text-sm font-medium text-gray-700">
+                        {fileName ?? 'Choose a .csv or .ics file'}
+                    </span>
+                    <span className="text-xs text-gray-400">
+                        {isReadOnly
+                            ? 'Past semesters are read-only'
+                            : `Sessions are imported into ${selectedSemester?.name ?? 'the current semester'}`}
+                    </span>
+                    <input
+                        type="file"
+                        accept=".csv,.ics,text/csv,text/calendar"
+                        onChange={handleFile}
+                        disabled={isReadOnly || preview.isPending}
+                        className="hidden"
+                    />
+                </label>
+
+                <details className="text-sm text-gray-600">
+                    <summary className="cursor-pointer font-medium text-gray-700 flex items-center gap-1.5">
+                        <FileText className="w-4 h-4 text-gray-400" /> File format
+                    </summary>
+                    <div className="mt-3 space-y-3 text-xs">
+                        <p>
+                            <strong>CSV</strong> — header row with these columns, in any order:{' '}
+                            {CSV_COLUMNS.map((c) => (
+                                <code key={c} className="mx-0.5 rounded bg-gray-100 px-1 py-0.5">{c}</code>
+                            ))}
+                            . <code>venue</code>, <code>session_type</code> (lecture / lab / tutorial) and{' '}
+                            <code>status</code> (<code>cancelled</code>) are optional. Dates are YYYY-MM-DD or
+                            DD/MM/YYYY; times are 24-hour or with AM/PM.
+                        </p>
+                        <pre className="rounded-lg bg-gray-50 border border-gray-100 p-3 overflow-x-auto">{SAMPLE_CSV}</pre>
+                        <p>
+                            <strong>ICS</strong> — each event&apos;s title must contain the subject code (e.g.
+                            &quot;CS101 Data Structures Lab&quot;). Weekly repeating events are expanded to the
+                            end of the semester.
+                        </p>
+                        <p>
+                            For every subject in the file, sessions between its first and last date that the
+                            file doesn&apos;t list are kept unless you choose to cancel them in the preview.
+                        </p>
+                    </div>
+                </details>
+            </div>
+
+            {/* ═══════════════════════════════════════════════════
+          2. PROBLEMS
+         ═══════════════════════════════════════════════════ */}
+            {(parseErrors.length > 0 || (plan && (plan.unknownCodes.length > 0 || plan.forbiddenCodes.length > 0))) && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 space-y-2 text-sm">
+                    <p className="font-semibold text-amber-800 flex items-center gap-1.5">
+                        <AlertTriangle className="w-4 h-4" /> Some rows will be skipped
+                    </p>
+                    <ul className="space-y-1 text-xs text-amber-800">
+                        {plan?.unknownCodes.map((u) => (
+                            <li key={`u-${u.code}`}>
+                                Unknown subject code <strong>{u.code}</strong> (line{u.lines.length === 1 ? '' : 's'} {u.lines.slice(0, 8).join(', ')}
+                                {u.lines.length > 8 ? '…' : ''})
+                            </li>
+                        ))}
+                        {plan?.forbiddenCodes.map((u) => (
+                            <li key={`f-${u.code}`}>
+                                <strong>{u.code}</strong> isn&apos;t one of your subjects ({u.lines.length} row{u.lines.length === 1 ? '' : 's'})
+                            </li>
+                        ))}
+                        {parseErrors.slice(0, 20).map((e, i) => (
+                            <li key={`e-${i}`}>Line {e.line}: {e.message}</li>
+                        ))}
+                        {parseErrors.length > 20 && <li>…and {parseErrors.length - 20} more</li>}
+                    </ul>
+                </div>
+            )}
+
+            {/* ═══════════════════════════════════════════════════
+          3. PREVIEW
+         ═══════════════════════════════════════════════════ */}
+            {plan && (
+                <div className="bg-white rounded-xl border border-gray-200">
+                    <div className="px-5 py-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+                            <span className="px-2 py-1 rounded-full bg-emerald-100 text-emerald-700">{counts.create} new</span>
+                            <span className="px-2 py-1 rounded-full bg-amber-100 text-amber-700">{counts.change} changed</span>
+                            <span className="px-2 py-1 rounded-full bg-red-100 text-red-600">{counts.cancel} cancelled</span>
+                            <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-500">{counts.unchanged} unchanged</span>
+                            {counts.clashes > 0 && (
+                                <span className="px-2 py-1 rounded-full bg-rose-600 text-white">{counts.clashes} clash{counts.clashes === 1 ? '' : 'es'}</span>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                                <input
+                                    type="checkbox"
+                                    checked={showUnchanged}
+                                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                Show unchanged
+                            </label>
+                            <button
+                                onClick={handleCommit}
+                                disabled={pendingChanges === 0 || commit.isPending || isReadOnly}
+                                className="flex items-center gap-1.5 rounded-lg bg-indigo-700 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                            >
+                                {commit.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                                Apply {pendingChanges} change{pendingChanges === 1 ? '' : 's'}
+                            </button>
+                        </div>
+                    </div>
+
+                    {plan.missing > 0 && (
+                        <label className="px-5 py-3 border-b border-gray-100 flex items-center gap-2 text-xs text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={cancelMissing}
+                                onChange={(e) => handleCancelMissing(e.target.checked)}
+                                disabled={preview.isPending || commit.isPending}
+                                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                            />
+                            Also cancel {plan.missing} scheduled session{plan.missing === 1 ? '' : 's'} this file doesn&apos;t list
+                        </label>
+                    )}
+
+                    {visibleEntries.length === 0 ? (
+                        <p className="px-5 py-8 text-center text-sm text-gray-400">
+                            {plan.entries.length === 0 ? 'No importable rows in this file.' : 'The timetable already matches this file.'}
+                        </p>
+                    ) : (
+                        <div className="overflow-x-auto max-h-[560px] overflow-y-auto">
+                            <table className="w-full text-sm">
+                                <thead className="sticky top-0 bg-white">
+                                    <tr className="border-b border-gray-100 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                        <th className="px-5 py-3"></th>
+                                        <th className="px-4 py-3">Date</th>
+                                        <th className="px-4 py-3">Subject</th>
+                                        <th className="px-4 py-3">Time</th>
+                                        <th className="px-4 py-3">Venue</th>
+                                        <th className="px-4 py-3">Details</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-50">
+                                    {visibleEntries.map((e, i) => {
+                                        const src = e.row ?? e.existing!;
+                                        const start = e.row?.start_time ?? e.existing!.start_time.slice(0, 5);
+                                        const end = e.row?.end_time ?? e.existing!.end_time.slice(0, 5);
+                                        return (
+                                            <tr key={i} className={e.clashes.length > 0 ? 'bg-rose-50/60' : ''}>
+                                                <td className="px-5 py-2.5">
+                                                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${KIND_BADGE[e.kind].cls}`}>
+                                                        {KIND_BADGE[e.kind].label}
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 py-2.5 text-gray-700 whitespace-nowrap">
+                                                    {format(new Date(`${src.scheduled_date}T00:00:00`), 'EEE dd MMM')}
+                                                </td>
+                                                <td className="px-4 py-2.5 font-medium text-gray-900">{e.subject.code}</td>
+                                                <td className="px-4 py-2.5 text-gray-700 whitespace-nowrap">{start}–{end}</td>
+                                                <td className="px-4 py-2.5 text-gray-500">{src.venue ?? '—'}</td>
+                                                <td className="px-4 py-2.5 text-xs">
+                                                    {e.changes.map((c) => (
+                                                        <p key={c} className="text-gray-500">{c}</p>
+                                                    ))}
+                                                    {e.kind === 'cancel' && !e.row && (
+                                                        <p className="text-gray-400">Not in file</p>
+                                                    )}
+                                                    {e.clashes.map((c) => (
+                                                        <p key={c} className="text-rose-600 flex items-center gap-1">
+                                                            <XCircle className="w-3 h-3 shrink-0" /> {c}
+                                                        </p>
+                                                    ))}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
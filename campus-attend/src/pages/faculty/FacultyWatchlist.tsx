@@ -0,0 +1,127 @@
+import { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, ShieldAlert, Search } from 'lucide-react';
+
+import { useAlertWatchlist, type WatchlistAlert } from '../../hooks/useAttendanceAlerts';
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const TYPE_LABEL: Record<WatchlistAlert['alert_type'], string> = {
+    below_threshold: 'Below threshold',
+    below_condonation: 'Below condonation',
+    rapid_drop: 'Rapid drop',
+    zero_buffer: 'Zero buffer',
+};
+
+const SEVERITY_BADGE: Record<WatchlistAlert['severity'], string> = {
+    warning: 'bg-amber-100 text-amber-700',
+    critical: 'bg-red-100 text-red-700',
+};
+
+interface WatchlistRow {
+    key: string;
+    latest: WatchlistAlert;
+    count: number;
+}
+
+// ── Page ────────────────────────────────────────────────────
+
+export default function FacultyWatchlistPage() {
+    const { data: alerts, isLoading } = useAlertWatchlist();
+    const [search, setSearch] = useState('');
+
+    // Latest alert per student + subject; critical first, then lowest %
+    const rows = useMemo(() => {
+        const map = new Map<string, WatchlistRow>();
+        for (const a of alerts ?? []) {
+            const key = `${a.student_id}:${a.subject_id}`;
+            const row = map.get(key);
+            if (row) row.count++;
+            else map.set(key, { key, latest: a, count: 1 });
+        }
+        const q = search.trim().toLowerCase();
+        return [...map.values()]
+            .filter(({ latest: a }) =>
+                !q ||
+                (a.student?.full_name ?? '').toLowerCase().includes(q) ||
+                (a.subject?.code ?? '').toLowerCase().includes(q),
+            )
+            .sort((x, y) =>
+                (x.latest.severity === 'critical' ? 0 : 1) - (y.latest.severity === 'critical' ? 0 : 1) ||
+                x.latest.current_pct - y.latest.current_pct,
+            );
+    }, [alerts, search]);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <h1 className="text-2xl font-bold text-gray-900">Watchlist</h1>
+                <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search student or subject"
+                        className="rounded-lg border border-gray-300 py-2 pl-9 pr-3 text-sm focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 outline-none"
+                    />
+                </div>
+            </div>
+
+            {rows.length === 0 ? (
+                <div className="bg-white rounded-xl border border-gray-200 px-5 py-12 text-center">
+                    <ShieldAlert className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-sm text-gray-400">No students on the watchlist.</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b border-gray-100 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                                <th className="px-5 py-3">Student</th>
+                                <th className="px-4 py-3">Subject</th>
+                                <th className="px-4 py-3">Latest alert</th>
+                                <th className="px-4 py-3 text-center">%</th>
+                                <th className="px-4 py-3 text-center">Buffer</th>
+                                <th className="px-4 py-3 text-right">When</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50">
+                            {rows.map(({ key, latest: a, count }) => (
+                                <tr key={key} className="hover:bg-gray-50/50">
+                                    <td className="px-5 py-3">
+                                        <p className="font-medium text-gray-900">{a.student?.full_name ?? 'Unknown'}</p>
+                                        <p className="text-xs text-gray-400">{a.student?.department ?? a.student?.email}</p>
+                                    </td>
+                                    <td className="px-4 py-3 text-gray-700">{a.subject?.code}</td>
+                                    <td className="px-4 py-3">
+                                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${SEVERITY_BADGE[a.severity]}`}>
+                                            {TYPE_LABEL[a.alert_type]}
+                                        </span>
+                                        {count > 1 && (
+                                            <span className="ml-1.5 text-[11px] text-gray-400">+{count - 1} earlier</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-center font-semibold text-gray-900">
+                                        {Math.round(a.current_pct * 100)}%
+                                    </td>
+                                    <td className="px-4 py-3 text-center text-gray-700">{a.buffer_classes}</td>
+                                    <td className="px-4 py-3 text-right text-xs text-gray-400">
+                                        {formatDistanceToNow(new Date(a.created_at), { addSuffix: true })}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { format } from 'date-fns';
 import {
     Loader2,
@@ -8,6 +8,8 @@ import {
     Shield,
     FileCheck,
     RefreshCw,
+    FileDown,
+    Sheet,
 } from 'lucide-react';
 import {
     ResponsiveContainer,
@@ -18,17 +20,29 @@ import {
     CartesianGrid,
     Tooltip,
     ReferenceLine,
+    Legend,
 } from 'recharts';
+import toast from 'react-hot-toast';
 
 import {
     useAttendanceSummary,
     useRecentRecords,
     useAttendanceTrend,
     type SubjectAttendance,
+    type Eligibility,
+    type WeightingMode,
 } from '../../hooks/useAttendance';
+import { useSemester } from '../../hooks/useSemester';
+import { useDownloadStatementPdf, useDownloadStatementCsv } from '../../hooks/useAttendanceStatement';
+import type { TrendPoint } from '../../lib/attendanceTrend';
+import WhatIfSimulator from '../../components/attendance/WhatIfSimulator';
+import MedicalLeavePanel from '../../components/attendance/MedicalLeavePanel';
 
 // ── Status helpers ──────────────────────────────────────────
 
+// Line colours for per-subject trend series
+const SUBJECT_LINE_COLORS = ['#f59e0b', '#ec4899', '#10b981', '#8b5cf6', '#0ea5e9', '#f97316', '#84cc16', '#ef4444'];
+
 function getOverallColor(pct: number) {
     if (pct >= 75) return 'text-emerald-600';
     if (pct >= 65) return 'text-amber-500';
@@ -41,16 +55,36 @@ function getOverallBg(pct: number) {
     return 'bg-red-50 border-red-200';
 }
 
-function getStatusBadge(pct: number) {
-    if (pct >= 75)
+// Badge follows the server-computed eligibility (institute thresholds)
+function getStatusBadge(eligibility: Eligibility) {
+    if (eligibility === 'safe')
         return { label: 'SAFE', cls: 'bg-emerald-100 text-emerald-700' };
-    if (pct >= 65)
-        return { label: 'BORDERLINE', cls: 'bg-amber-100 text-amber-700' };
-    if (pct >= 50)
-        return { label: 'DANGER', cls: 'bg-red-100 text-red-600' };
+    if (eligibility === 'condonable')
+        return { label: 'CONDONABLE', cls: 'bg-amber-100 text-amber-700' };
     return { label: 'DETAINED', cls: 'bg-red-200 text-red-800' };
 }
 
+// Buffer counts are weighted contact hours unless the semester uses 'unit'
+function getUnitLabel(mode: WeightingMode) {
+    return mode === 'unit' ? 'classes' : 'hours';
+}
+
+// Recovery hint for subjects below the attendance threshold
+function getRecoveryHint(b: SubjectAttendance['buffer']) {
+    if (b.eligibility === 'safe') return null;
+    const target = Math.round(b.attendance_threshold * 100);
+    const unit = getUnitLabel(b.weighting_mode);
+    if (b.classes_to_threshold != null) return `Attend ${b.classes_to_threshold} more ${unit} to reach ${target}%`;
+
+    // Not enough classes left this semester to reach the threshold
+    const condonation = Math.round(b.condonation_threshold * 100);
+    if (b.eligibility === 'detained' && b.classes_to_condonation != null)
+        return `Cannot reach ${target}% this semester · attend ${b.classes_to_condonation} more ${unit} to reach ${condonation}% for condonation`;
+    if (b.eligibility === 'detained')
+        return `Cannot reach ${target}% or ${condonation}% this semester`;
+    return `Cannot reach ${target}% this semester`;
+}
+
 function getMarkedByLabel(mb: string) {
     const map: Record<string, string> = {
         student: 'Self',
@@ -85,6 +119,40 @@ export default function AttendancePage() {
 
     const { data: trendData, isLoading: trendLoading } = useAttendanceTrend();
 
+    const { isReadOnly } = useSemester();
+
+    const downloadPdf = useDownloadStatementPdf();
+    const downloadCsv = useDownloadStatementCsv();
+
+    const handleExportPdf = async () => {
+        try {
+            await downloadPdf.mutateAsync();
+            toast.success('Statement downloaded');
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to generate statement');
+        }
+    };
+
+    const handleExportCsv = async () => {
+        try {
+            const count = await downloadCsv.mutateAsync();
+            toast.success(`Exported ${count} records`);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to export records');
+        }
+    };
+
+    // Subjects whose own trend line is shown on the chart
+    const [trendSubjects, setTrendSubjects] = useState<Set<string>>(new Set());
+    const toggleTrendSubject = (id: string) => {
+        setTrendSubjects((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
     // ── Aggregated stats ────────────────────────────────────
     const stats = useMemo(() => {
         if (!subjectData || subjectData.length === 0)
@@ -94,6 +162,7 @@ export default function AttendancePage() {
                 held: 0,
                 buffer: 0,
                 odApproved: 0,
+                unit: 'classes',
             };
 
         let totalPresent = 0;
@@ -115,6 +184,7 @@ export default function AttendancePage() {
             held: totalHeld,
             buffer: totalBuffer,
             odApproved: totalOd,
+            unit: getUnitLabel(subjectData[0].buffer.weighting_mode),
         };
     }, [subjectData]);
 
@@ -140,12 +210,38 @@ export default function AttendancePage() {
             {/* ── Header ─────────────────────────────────────── */}
             <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold text-gray-900">Attendance</h1>
-                <button
-                    onClick={() => refetchSummary()}
-                    className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50 transition"
-                >
-                    <RefreshCw className="w-4 h-4" /> Refresh
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleExportCsv}
+                        disabled={downloadCsv.isPending}
+                        className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-60 transition"
+                    >
+                        {downloadCsv.isPending ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                            <Sheet className="w-4 h-4" />
+                        )}
+                        CSV
+                    </button>
+                    <button
+                        onClick={handleExportPdf}
+                        disabled={downloadPdf.isPending}
+                        className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-60 transition"
+                    >
+                        {downloadPdf.isPending ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                            <FileDown className="w-4 h-4" />
+                        )}
+                        Statement
+                    </button>
+                    <button
+                        onClick={() => refetchSummary()}
+                        className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50 transition"
+                    >
+                        <RefreshCw className="w-4 h-4" /> Refresh
+                    </button>
+                </div>
             </div>
 
             {/* ═══════════════════════════════════════════════════
@@ -173,7 +269,7 @@ export default function AttendancePage() {
                 <div className="rounded-xl border border-gray-200 bg-white p-5">
                     <div className="flex items-center gap-2 text-sm font-medium text-gray-600 mb-2">
                         <CalendarCheck className="w-4 h-4 text-indigo-500" />
-                        Classes
+                        {stats.unit === 'hours' ? 'Contact Hours' : 'Classes'}
                     </div>
                     <p className="text-3xl font-extrabold text-gray-900">
                         {stats.attended}
@@ -188,7 +284,7 @@ export default function AttendancePage() {
                         Safe-to-Miss
                     </div>
                     <p className="text-3xl font-extrabold text-gray-900">{stats.buffer}</p>
-                    <p className="text-xs text-gray-400 mt-0.5">classes remaining</p>
+                    <p className="text-xs text-gray-400 mt-0.5">{stats.unit} remaining</p>
                 </div>
 
                 {/* OD Approved */}
@@ -207,6 +303,18 @@ export default function AttendancePage() {
             <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
                 <div className="px-5 py-4 border-b border-gray-100">
                     <h2 className="font-semibold text-gray-900">Subject Breakdown</h2>
+                    {stats.unit === 'hours' && (
+                        <p className="text-xs text-gray-400 mt-0.5">
+                            Counts are weighted contact hours (labs and tutorials weighted per institute rules).
+                        </p>
+                    )}
+                    {sortedSubjects.some((s) => s.buffer.medical_count > 0) && (
+                        <p className="text-xs text-violet-500 mt-0.5">
+                            {sortedSubjects[0].buffer.medical_policy === 'count_as_present'
+                                ? 'Approved medical leave is counted as attended.'
+                                : 'Approved medical leave is excluded from classes held.'}
+                        </p>
+                    )}
                 </div>
 
                 {/* Desktop table */}
@@ -226,7 +334,7 @@ export default function AttendancePage() {
                         <tbody className="divide-y divide-gray-50">
                             {sortedSubjects.map((s) => {
                                 const pct = Math.round((s.buffer.current_pct ?? 0) * 100);
-                                const badge = getStatusBadge(pct);
+                                const badge = getStatusBadge(s.buffer.eligibility);
                                 return (
                                     <SubjectRow key={s.subject_id} s={s} pct={pct} badge={badge} />
                                 );
@@ -246,7 +354,8 @@ export default function AttendancePage() {
                 <div className="sm:hidden divide-y divide-gray-100">
                     {sortedSubjects.map((s) => {
                         const pct = Math.round((s.buffer.current_pct ?? 0) * 100);
-                        const badge = getStatusBadge(pct);
+                        const badge = getStatusBadge(s.buffer.eligibility);
+                        const hint = getRecoveryHint(s.buffer);
                         return (
                             <div key={s.subject_id} className="px-4 py-3 space-y-1">
                                 <div className="flex items-center justify-between">
@@ -264,6 +373,7 @@ export default function AttendancePage() {
                                     <span className={`font-semibold ${getOverallColor(pct)}`}>{pct}%</span>
                                     <span>Buffer {s.buffer.buffer_classes}</span>
                                 </div>
+                                {hint && <p className="text-[11px] text-amber-600">{hint}</p>}
                                 {/* Mini progress bar */}
                                 <div className="w-full bg-gray-100 rounded-full h-1.5">
                                     <div
@@ -279,10 +389,36 @@ export default function AttendancePage() {
             </div>
 
             {/* ═══════════════════════════════════════════════════
-          3. ATTENDANCE TREND CHART
+          3. WHAT-IF SIMULATOR
+         ═══════════════════════════════════════════════════ */}
+            {sortedSubjects.length > 0 && !isReadOnly && <WhatIfSimulator subjects={sortedSubjects} />}
+
+            {/* ═══════════════════════════════════════════════════
+          4. ATTENDANCE TREND CHART
          ═══════════════════════════════════════════════════ */}
             <div className="bg-white rounded-xl border border-gray-200 p-5">
-                <h2 className="font-semibold text-gray-900 mb-4">Attendance Trend</h2>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <h2 className="font-semibold text-gray-900">Attendance Trend</h2>
+                    {sortedSubjects.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                            {sortedSubjects.map((s, i) => {
+                                const active = trendSubjects.has(s.subject_id);
+                                const color = SUBJECT_LINE_COLORS[i % SUBJECT_LINE_COLORS.length];
+                                return (
+                                    <button
+                                        key={s.subject_id}
+                                        onClick={() => toggleTrendSubject(s.subject_id)}
+                                        className={`rounded-full border px-2.5 py-0.5 text-[11px] font-semibold transition ${active ? 'text-white' : 'border-gray-200 bg-white text-gray-500 hover:bg-gray-50'
+                                            }`}
+                                        style={active ? { backgroundColor: color, borderColor: color } : undefined}
+                                    >
+                                        {s.subject_code}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
 
                 {trendLoading ? (
                     <div className="flex items-center justify-center h-52">
@@ -297,7 +433,7 @@ export default function AttendancePage() {
                         <LineChart data={trendData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
                             <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
                             <XAxis
-                                dataKey="week"
+                                dataKey="label"
                                 tick={{ fontSize: 11, fill: '#9ca3af' }}
                                 tickLine={false}
                                 axisLine={false}
@@ -310,7 +446,7 @@ export default function AttendancePage() {
                                 tickFormatter={(v) => `${v}%`}
                             />
                             <Tooltip
-                                formatter={(val: number | string | undefined) => [`${val ?? 0}%`, '']}
+                                formatter={(val: number | string | undefined, name: string | undefined) => [`${val ?? 0}%`, name ?? '']}
                                 contentStyle={{
                                     borderRadius: '12px',
                                     border: '1px solid #e5e7eb',
@@ -339,23 +475,49 @@ export default function AttendancePage() {
                                 activeDot={{ r: 5 }}
                                 name="Attendance"
                             />
-                            {/* Projected % */}
+                            {/* Best case: attend every remaining session */}
                             <Line
                                 type="monotone"
-                                dataKey="projected"
+                                dataKey="best"
                                 stroke="#14b8a6"
                                 strokeWidth={1.5}
                                 strokeDasharray="4 4"
                                 dot={false}
-                                name="Projected"
+                                name="Best case"
                             />
+                            {/* Trend case: keep the recent attendance rate */}
+                            <Line
+                                type="monotone"
+                                dataKey="trend"
+                                stroke="#94a3b8"
+                                strokeWidth={1.5}
+                                strokeDasharray="2 4"
+                                dot={false}
+                                name="At current rate"
+                            />
+                            {/* Per-subject actual % */}
+                            {sortedSubjects.map((sub, i) =>
+                                trendSubjects.has(sub.subject_id) ? (
+                                    <Line
+                                        key={sub.subject_id}
+                                        type="monotone"
+                                        dataKey={(p: TrendPoint) => p.subjects[sub.subject_id]}
+                                        stroke={SUBJECT_LINE_COLORS[i % SUBJECT_LINE_COLORS.length]}
+                                        strokeWidth={1.5}
+                                        dot={false}
+                                        connectNulls
+                                        name={sub.subject_code}
+                                    />
+                                ) : null,
+                            )}
+                            <Legend iconType="plainline" wrapperStyle={{ fontSize: '11px' }} />
                         </LineChart>
                     </ResponsiveContainer>
                 )}
             </div>
 
             {/* ═══════════════════════════════════════════════════
-          4. RECENT ACTIVITY FEED
+          5. RECENT ACTIVITY FEED
          ═══════════════════════════════════════════════════ */}
             <div className="bg-white rounded-xl border border-gray-200">
                 <div className="px-5 py-4 border-b border-gray-100">
@@ -414,6 +576,11 @@ export default function AttendancePage() {
                     </ul>
                 )}
             </div>
+
+            {/* ═══════════════════════════════════════════════════
+          6. MEDICAL LEAVE
+         ═══════════════════════════════════════════════════ */}
+            <MedicalLeavePanel readOnly={isReadOnly} />
         </div>
     );
 }
@@ -429,6 +596,7 @@ function SubjectRow({
     pct: number;
     badge: { label: string; cls: string };
 }) {
+    const hint = getRecoveryHint(s.buffer);
     return (
         <tr className="hover:bg-gray-50/60 transition">
             <td className="px-5 py-3">
@@ -448,6 +616,7 @@ function SubjectRow({
                 <span className={`text-[10px] font-bold px-2.5 py-1 rounded-full ${badge.cls}`}>
                     {badge.label}
                 </span>
+                {hint && <p className="text-[10px] text-amber-600 mt-1">{hint}</p>}
             </td>
         </tr>
     );
@@ -41,8 +41,16 @@ type Step = 'validating' | 'geo' | 'confirming' | 'done' | 'error';
 interface GeoResult {
     lat: number;
     lng: number;
+    accuracy: number; // metres, as reported by the device
     distance: number; // metres
+    verified: boolean; // preview only — check_in_to_event() decides
+}
+
+interface CheckInResult {
+    registration_id: string;
+    event_id: string;
     verified: boolean;
+    distance_m: number | null;
 }
 
 // ── Haversine distance ──────────────────────────────────────
@@ -172,6 +180,7 @@ export default function CheckInPage() {
             (pos) => {
                 const studentLat = pos.coords.latitude;
                 const studentLng = pos.coords.longitude;
+                const accuracy = Math.round(pos.coords.accuracy);
 
                 if (event.geofence_lat != null && event.geofence_lng != null) {
                     const dist = haversineM(
@@ -181,17 +190,20 @@ export default function CheckInPage() {
                         event.geofence_lng,
                     );
 
+                    // Same rule as the server: inside the fence, with a fix no wider than it
                     setGeo({
                         lat: studentLat,
                         lng: studentLng,
+                        accuracy,
                         distance: Math.round(dist),
-                        verified: dist <= event.geofence_radius_m,
+                        verified: dist <= event.geofence_radius_m && accuracy <= event.geofence_radius_m,
                     });
                 } else {
                     // No geofence set — auto-verify
                     setGeo({
                         lat: studentLat,
                         lng: studentLng,
+                        accuracy,
                         distance: 0,
                         verified: true,
                     });
@@ -223,22 +235,17 @@ export default function CheckInPage() {
         setConfirming(true);
 
         try {
-            // Upsert registration + check-in
-            const { error: regError } = await supabase
-                .from('event_registrations')
-                .upsert(
-                    {
-                        event_id: event.id,
-                        student_id: user.id,
-                        check_in_time: new Date().toISOString(),
-                        check_in_lat: geo.lat,
-                        check_in_lng: geo.lng,
-                        geofence_verified: geo.verified,
-                    },
-                    { onConflict: 'event_id,student_id' },
-                );
+            // The server re-checks the token, window and geofence
+            const { data, error: checkInError } = await supabase.rpc('check_in_to_event', {
+                p_token: token!,
+                p_lat: geo.lat,
+                p_lng: geo.lng,
+                p_accuracy_m: geo.accuracy,
+                p_override_reason: geo.verified ? null : overrideReason.trim(),
+            });
 
-            if (regError) throw regError;
+            if (checkInError) throw checkInError;
+            const checkIn = data as unknown as CheckInResult;
 
             // 🎉 Fire confetti
             confetti({
@@ -294,19 +301,6 @@ export default function CheckInPage() {
                     return;
                 }
 
-                // Get event registration ID
-                const { data: regRow } = await supabase
-                    .from('event_registrations')
-                    .select('id')
-                    .eq('event_id', event.id)
-                    .eq('student_id', user.id)
-                    .single();
-
-                if (!regRow) {
-                    setConfirming(false);
-                    return;
-                }
-
                 // Get subject details with faculty
                 const { data: subjects } = await supabase
                     .from('subjects')
@@ -345,7 +339,7 @@ export default function CheckInPage() {
                         .from('on_duty_requests')
                         .insert({
                             student_id: user.id,
-                            event_registration_id: regRow.id,
+                            event_registration_id: checkIn.registration_id,
                             faculty_id: subj.faculty_id,
                             subject_id: subj.id,
                             class_session_id: session.id,
@@ -385,11 +379,12 @@ export default function CheckInPage() {
                 console.error('Failed to auto-create OD requests');
             }
         } catch (err) {
-            toast.error(err instanceof Error ? err.message : 'Check-in failed');
+            const message = err instanceof Error ? err.message : (err as { message?: string }).message;
+            toast.error(message ?? 'Check-in failed');
         } finally {
             setConfirming(false);
         }
-    }, [event, user, geo]);
+    }, [event, user, geo, token, overrideReason]);
 
     // ── Render ──────────────────────────────────────────
     return (
@@ -510,12 +505,24 @@ export default function CheckInPage() {
                                                 <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
                                                 <div>
                                                     <p className="text-sm font-semibold text-amber-800">
-                                                        Outside the event zone
+                                                        {geo.distance <= event.geofence_radius_m
+                                                            ? 'Location not precise enough'
+                                                            : 'Outside the event zone'}
                                                     </p>
                                                     <p className="text-xs text-amber-600 mt-0.5">
-                                                        You are <strong>{geo.distance}m</strong>{' '}
-                                                        away — need to be within{' '}
-                                                        <strong>{event.geofence_radius_m}m</strong>
+                                                        {geo.distance <= event.geofence_radius_m ? (
+                                                            <>
+                                                                Your location is only accurate to{' '}
+                                                                <strong>±{geo.accuracy}m</strong> — need{' '}
+                                                                <strong>±{event.geofence_radius_m}m</strong> or better
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                You are <strong>{geo.distance}m</strong>{' '}
+                                                                away — need to be within{' '}
+                                                                <strong>{event.geofence_radius_m}m</strong>
+                                                            </>
+                                                        )}
                                                     </p>
                                                 </div>
                                             </div>
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState, type FormEvent } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Loader2, QrCode, CheckCircle2, Info } from 'lucide-react';
+import toast from 'react-hot-toast';
+import confetti from 'canvas-confetti';
+
+import { useClassCheckIn, type ClassCheckInResult } from '../../hooks/useClassCheckIn';
+
+const STATUS_LABEL: Record<string, string> = {
+    present: 'present',
+    absent: 'absent',
+    on_duty: 'on duty',
+    medical: 'on medical leave',
+};
+
+const onError = (err: unknown) => {
+    toast.error(err instanceof Error ? err.message : 'Check-in failed');
+};
+
+export default function ClassCheckInPage() {
+    const [params] = useSearchParams();
+    const checkIn = useClassCheckIn();
+    const { mutateAsync } = checkIn;
+    const [code, setCode] = useState(params.get('c') ?? '');
+    const [result, setResult] = useState<ClassCheckInResult | null>(null);
+    const autoSubmitted = useRef(false);
+
+    const onResult = useCallback((res: ClassCheckInResult) => {
+        if (res.result === 'invalid_code') {
+            toast.error('That code is wrong or has expired — enter the one on screen now');
+            return;
+        }
+        setResult(res);
+        if (res.result === 'checked_in') {
+            confetti({ particleCount: 120, spread: 70, origin: { y: 0.6 } });
+        }
+    }, []);
+
+    // Scanned QR: the code and session come in the URL
+    useEffect(() => {
+        const scanned = params.get('c');
+        if (!scanned || autoSubmitted.current) return;
+        autoSubmitted.current = true;
+        mutateAsync({ code: scanned, sessionId: params.get('s') }).then(onResult, onError);
+    }, [params, mutateAsync, onResult]);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!/^\d{6}$/.test(code.trim())) { toast.error('Enter the 6-digit code'); return; }
+        mutateAsync({ code: code.trim() }).then(onResult, onError);
+    };
+
+    return (
+        <div className="max-w-md mx-auto space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Class Check-in</h1>
+
+            {result ? (
+                <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 text-center space-y-4">
+                    <div className={`w-14 h-14 mx-auto rounded-full flex items-center justify-center ${result.result === 'checked_in' ? 'bg-emerald-50' : 'bg-sky-50'}`}>
+                        {result.result === 'checked_in'
+                            ? <CheckCircle2 className="w-7 h-7 text-emerald-500" />
+                            : <Info className="w-7 h-7 text-sky-500" />}
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900">
+                            {result.result === 'checked_in' ? "You're marked present" : 'Already marked'}
+                        </h2>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {result.subject_code} — {result.subject_name}
+                            {result.result === 'already_marked' && result.status && (
+                                <> · you are {STATUS_LABEL[result.status] ?? result.status} for this class</>
+                            )}
+                        </p>
+                    </div>
+                    <Link
+                        to="/student/attendance"
+                        className="inline-block text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+                    >
+                        View my attendance →
+                    </Link>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-gray-200 p-6 space-y-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-indigo-50">
+                            <QrCode className="w-5 h-5 text-indigo-600" />
+                        </div>
+                        <p className="text-sm text-gray-600">
+                            Scan the QR on the projector, or type the code shown under it.
+                        </p>
+                    </div>
+
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                        placeholder="000000"
+                        className="block w-full rounded-lg border border-gray-300 py-3 px-3 text-center font-mono text-3xl tracking-[0.4em] text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                        autoFocus
+                    />
+
+                    <button
+                        type="submit"
+                        disabled={checkIn.isPending}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                    >
+                        {checkIn.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {checkIn.isPending ? 'Checking in…' : 'Check In'}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+}
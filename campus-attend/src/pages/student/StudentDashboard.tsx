@@ -1,4 +1,12 @@
-import PlaceholderPage from '../../components/PlaceholderPage';
+import AttendanceAlertsCard from '../../components/attendance/AttendanceAlertsCard';
+import TimetableUpdatesCard from '../../components/TimetableUpdatesCard';
+
 export default function StudentDashboard() {
-    return <PlaceholderPage title="Student Dashboard" icon="🎓" description="Your attendance overview, upcoming classes, and alerts will appear here." />;
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
+            <AttendanceAlertsCard />
+            <TimetableUpdatesCard />
+        </div>
+    );
 }
@@ -13,6 +13,7 @@ const NAV_ITEMS: NavItem[] = [
     { label: 'Dashboard', to: '/student/dashboard', icon: LayoutDashboard },
     { label: 'Timetable', to: '/student/timetable', icon: Calendar },
     { label: 'Attendance', to: '/student/attendance', icon: CalendarCheck },
+    { label: 'Check In', to: '/student/class-check-in', icon: QrCode },
     { label: 'Events', to: '/student/events', icon: PartyPopper },
     { label: 'Roadmap', to: '/student/roadmap', icon: Map },
 ];
@@ -23,5 +24,5 @@ const NAV_ITEMS: NavItem[] = [
 export { QrCode }; // re-export for reference
 
 export default function StudentLayout() {
-    return <DashboardLayout navItems={NAV_ITEMS} title="CampusAttend" />;
+    return <DashboardLayout navItems={NAV_ITEMS} title="CampusAttend" showSemesterSwitcher />;
 }
@@ -1,113 +1,273 @@
 import { useState, useMemo, type FormEvent } from 'react';
-import { format, startOfWeek, addDays, isToday as checkIsToday } from 'date-fns';
-import { Plus, Search, X, Loader2, BookOpen } from 'lucide-react';
+import {
+    format,
+    startOfWeek,
+    endOfWeek,
+    startOfMonth,
+    endOfMonth,
+    addDays,
+    addMonths,
+    isToday as checkIsToday,
+} from 'date-fns';
+import {
+    Plus,
+    Search,
+    X,
+    Loader2,
+    BookOpen,
+    Sparkles,
+    CalendarPlus,
+    ChevronLeft,
+    ChevronRight,
+} from 'lucide-react';
 import toast from 'react-hot-toast';
 
-import { useTimetable, type AddSessionInput } from '../../hooks/useTimetable';
+import {
+    useTimetable,
+    useRemainingSessions,
+    type DateRange,
+    type TimetableSession,
+} from '../../hooks/useTimetable';
+import {
+    usePersonalEntries,
+    useAddPersonalEntry,
+    useDeletePersonalEntry,
+    type PersonalEntryKind,
+    type TimetableItem,
+} from '../../hooks/usePersonalEntries';
+import { useProposeCorrection } from '../../hooks/useSessionCorrections';
+import { useAttendanceSummary } from '../../hooks/useAttendance';
+import { useSemester } from '../../hooks/useSemester';
+import { planSkips, DEFAULT_SKIP_GOALS, type SkipGoals } from '../../lib/skipOptimizer';
 import TimetableCard from '../../components/TimetableCard';
+import TimetableMonthGrid from '../../components/TimetableMonthGrid';
+import SkipPlannerPanel from '../../components/SkipPlannerPanel';
+import CalendarSubscribeModal from '../../components/CalendarSubscribeModal';
 
 // ── Constants ───────────────────────────────────────────────
 const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
 const HOURS = Array.from({ length: 13 }, (_, i) => i + 8); // 8 AM → 8 PM
-const SESSION_TYPES = ['lecture', 'lab', 'tutorial'] as const;
+const PERSONAL_KINDS: { value: PersonalEntryKind; label: string }[] = [
+    { value: 'study', label: 'Study block' },
+    { value: 'class', label: 'Extra class' },
+    { value: 'reminder', label: 'Reminder' },
+];
+
+type View = 'week' | 'month' | 'day';
+const VIEWS: { value: View; label: string }[] = [
+    { value: 'day', label: 'Day' },
+    { value: 'week', label: 'Week' },
+    { value: 'month', label: 'Month' },
+];
+
+const ymd = (d: Date) => format(d, 'yyyy-MM-dd');
+
+// Phones open on the day agenda, wider screens on the week grid
+const initialView = (): View =>
+    window.matchMedia('(min-width: 768px)').matches ? 'week' : 'day';
 
 export default function TimetablePage() {
+    const [view, setView] = useState<View>(initialView);
+    const [cursor, setCursor] = useState(() => new Date());
+
+    // ── Visible range ─────────────────────────────────────────
+    const cursorKey = ymd(cursor);
+    const weekStart = startOfWeek(cursor, { weekStartsOn: 1 });
+    const weekKey = ymd(weekStart);
+
+    const range = useMemo<DateRange>(() => {
+        const c = new Date(`${cursorKey}T00:00:00`);
+        if (view === 'day') return { from: cursorKey, to: cursorKey };
+        if (view === 'week') {
+            const ws = startOfWeek(c, { weekStartsOn: 1 });
+            return { from: ymd(ws), to: ymd(addDays(ws, 6)) };
+        }
+        return {
+            from: ymd(startOfWeek(startOfMonth(c), { weekStartsOn: 1 })),
+            to: ymd(endOfWeek(endOfMonth(c), { weekStartsOn: 1 })),
+        };
+    }, [view, cursorKey]);
+
+    const shift = (dir: 1 | -1) =>
+        setCursor((c) => (view === 'month' ? addMonths(c, dir) : addDays(c, view === 'week' ? 7 * dir : dir)));
+
+    const openDay = (d: Date) => {
+        setCursor(d);
+        setView('day');
+    };
+
+    const rangeLabel =
+        view === 'day'
+            ? format(cursor, 'EEEE, dd MMM yyyy')
+            : view === 'week'
+                ? `${format(weekStart, 'dd MMM')} – ${format(addDays(weekStart, 6), 'dd MMM yyyy')}`
+                : format(cursor, 'MMMM yyyy');
+
     const {
         sessions,
         enrolledSubjects,
         allSubjects,
         loading,
-        addSession,
-        deleteSession,
         enrollInSubject,
-    } = useTimetable();
+    } = useTimetable(range);
+    const { data: personalItems } = usePersonalEntries(range);
+    const addPersonalEntry = useAddPersonalEntry();
+    const deletePersonalEntry = useDeletePersonalEntry();
+    const proposeCorrection = useProposeCorrection();
+    const { data: attendanceSummary } = useAttendanceSummary();
+    const { isReadOnly, selectedSemester } = useSemester();
 
     // ── Derived data ──────────────────────────────────────────
-    const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
 
-    // Map day name → date for current week
+    // Dates of the visible week
     const dayDates = useMemo(
-        () => DAYS.map((_, i) => addDays(weekStart, i)),
-        [weekStart],
+        () => DAYS.map((_, i) => addDays(new Date(`${weekKey}T00:00:00`), i)),
+        [weekKey],
     );
 
-    // Unique subject IDs for colour assignment
+    // Enrolled subject IDs for colour assignment (stable across weeks)
     const subjectIds = useMemo(
-        () => [...new Set(sessions.map((s) => s.subject?.id).filter(Boolean))] as string[],
-        [sessions],
+        () => enrolledSubjects.map((s) => s.id),
+        [enrolledSubjects],
     );
 
-    // Group sessions by day-of-week (0=Mon)
-    const sessionsByDay = useMemo(() => {
-        const map = new Map<number, typeof sessions>();
-        for (const s of sessions) {
-            const d = new Date(s.scheduled_date);
-            const dow = (d.getDay() + 6) % 7; // JS Sun=0 → Mon=0
-            const arr = map.get(dow) ?? [];
+    // Group official sessions and personal entries by date (YYYY-MM-DD)
+    const sessionsByDate = useMemo(() => {
+        const map = new Map<string, TimetableItem[]>();
+        for (const s of [...sessions, ...(personalItems ?? [])]) {
+            const arr = map.get(s.scheduled_date) ?? [];
             arr.push(s);
-            map.set(dow, arr);
+            map.set(s.scheduled_date, arr);
         }
+        for (const arr of map.values()) arr.sort((a, b) => a.start_time.localeCompare(b.start_time));
         return map;
-    }, [sessions]);
+    }, [sessions, personalItems]);
+
+    // ── Skip planner overlay ──────────────────────────────────
+    const [showPlanner, setShowPlanner] = useState(false);
+    const [skipGoals, setSkipGoals] = useState<SkipGoals>(DEFAULT_SKIP_GOALS);
+    const { data: remainingSessions } = useRemainingSessions(showPlanner && !isReadOnly);
+
+    const skipPlan = useMemo(() => {
+        if (!showPlanner || !attendanceSummary || !remainingSessions) return null;
+        return planSkips(remainingSessions, attendanceSummary, skipGoals, format(new Date(), 'yyyy-MM-dd'));
+    }, [showPlanner, attendanceSummary, remainingSessions, skipGoals]);
 
     // ── Modals state ──────────────────────────────────────────
-    const [showAddSession, setShowAddSession] = useState(false);
+    const [showAddEntry, setShowAddEntry] = useState(false);
     const [showAddSubject, setShowAddSubject] = useState(false);
+    const [showSubscribe, setShowSubscribe] = useState(false);
+    const [correcting, setCorrecting] = useState<TimetableSession | null>(null);
     const [subjectSearch, setSubjectSearch] = useState('');
     const [saving, setSaving] = useState(false);
 
-    // Add session form
-    const [formSubject, setFormSubject] = useState('');
-    const [formDay, setFormDay] = useState('0');
+    // Personal entry form
+    const [formKind, setFormKind] = useState<PersonalEntryKind>('study');
+    const [formTitle, setFormTitle] = useState('');
+    const [formDate, setFormDate] = useState('');
     const [formStart, setFormStart] = useState('09:00');
     const [formEnd, setFormEnd] = useState('10:00');
     const [formVenue, setFormVenue] = useState('');
-    const [formType, setFormType] = useState<'lecture' | 'lab' | 'tutorial'>('lecture');
+    const [formNotes, setFormNotes] = useState('');
+    const [formRepeat, setFormRepeat] = useState(false);
+
+    // Correction form (pre-filled from the session being corrected)
+    const [fixDate, setFixDate] = useState('');
+    const [fixStart, setFixStart] = useState('');
+    const [fixEnd, setFixEnd] = useState('');
+    const [fixVenue, setFixVenue] = useState('');
+    const [fixCancel, setFixCancel] = useState(false);
+    const [fixNote, setFixNote] = useState('');
+
+    const openAddEntry = () => {
+        setFormDate(cursorKey);
+        setShowAddEntry(true);
+    };
 
-    const handleAddSession = async (e: FormEvent) => {
+    const handleAddEntry = async (e: FormEvent) => {
         e.preventDefault();
-        if (!formSubject) { toast.error('Select a subject'); return; }
+        if (!formTitle.trim()) { toast.error('Give the entry a title'); return; }
+        if (!formDate) { toast.error('Pick a date'); return; }
         if (formStart >= formEnd) { toast.error('End time must be after start time'); return; }
 
-        const date = addDays(weekStart, parseInt(formDay, 10));
-
-        const input: AddSessionInput = {
-            subject_id: formSubject,
-            scheduled_date: format(date, 'yyyy-MM-dd'),
-            start_time: formStart,
-            end_time: formEnd,
-            venue: formVenue || undefined,
-            session_type: formType,
-        };
-
-        setSaving(true);
         try {
-            await addSession(input);
-            toast.success('Session added');
-            setShowAddSession(false);
+            await addPersonalEntry.mutateAsync({
+                kind: formKind,
+                title: formTitle.trim(),
+                entry_date: formDate,
+                start_time: formStart,
+                end_time: formEnd,
+                venue: formVenue.trim() || undefined,
+                notes: formNotes.trim() || undefined,
+                repeat_until: formRepeat && selectedSemester ? selectedSemester.end_date : null,
+            });
+            toast.success(formRepeat ? 'Weekly entry added for the semester' : 'Entry added');
+            setShowAddEntry(false);
             resetForm();
         } catch (err: unknown) {
-            toast.error(err instanceof Error ? err.message : 'Failed to add session');
-        } finally {
-            setSaving(false);
+            toast.error(err instanceof Error ? err.message : 'Failed to add entry');
         }
     };
 
     const resetForm = () => {
-        setFormSubject('');
-        setFormDay('0');
+        setFormKind('study');
+        setFormTitle('');
         setFormStart('09:00');
         setFormEnd('10:00');
         setFormVenue('');
-        setFormType('lecture');
+        setFormNotes('');
+        setFormRepeat(false);
     };
 
-    const handleDelete = async (id: string) => {
+    const handleDelete = async (entryId: string) => {
+        if (!confirm('Remove this entry? Weekly entries are removed for every week.')) return;
         try {
-            await deleteSession(id);
-            toast.success('Session removed');
+            await deletePersonalEntry.mutateAsync(entryId);
+            toast.success('Entry removed');
         } catch {
-            toast.error('Failed to remove session');
+            toast.error('Failed to remove entry');
+        }
+    };
+
+    const openCorrection = (session: TimetableSession) => {
+        setCorrecting(session);
+        setFixDate(session.scheduled_date);
+        setFixStart(session.start_time.slice(0, 5));
+        setFixEnd(session.end_time.slice(0, 5));
+        setFixVenue(session.venue ?? '');
+        setFixCancel(false);
+        setFixNote('');
+    };
+
+    const handleProposeCorrection = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!correcting) return;
+        if (!fixNote.trim()) { toast.error('Explain what is wrong'); return; }
+
+        // Only send what actually differs from the official session
+        const changed = {
+            proposed_date: fixDate !== correcting.scheduled_date ? fixDate : null,
+            proposed_start_time: fixStart !== correcting.start_time.slice(0, 5) ? fixStart : null,
+            proposed_end_time: fixEnd !== correcting.end_time.slice(0, 5) ? fixEnd : null,
+            proposed_venue: fixVenue.trim() && fixVenue.trim() !== (correcting.venue ?? '') ? fixVenue.trim() : null,
+        };
+        if (!fixCancel && Object.values(changed).every((v) => v === null)) {
+            toast.error('Change at least one detail, or mark the class as not happening');
+            return;
+        }
+        if (!fixCancel && fixStart >= fixEnd) { toast.error('End time must be after start time'); return; }
+
+        try {
+            await proposeCorrection.mutateAsync({
+                class_session_id: correcting.id,
+                ...(fixCancel ? {} : changed),
+                proposed_cancel: fixCancel,
+                note: fixNote.trim(),
+            });
+            toast.success('Correction sent to the faculty');
+            setCorrecting(null);
+        } catch (err: unknown) {
+            toast.error(err instanceof Error ? err.message : 'Failed to send correction');
         }
     };
 
@@ -131,7 +291,7 @@ export default function TimetablePage() {
     );
 
     // ── Loading state ─────────────────────────────────────────
-    if (loading) {
+    if (loading && enrolledSubjects.length === 0) {
         return (
             <div className="flex items-center justify-center min-h-[50vh]">
                 <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
@@ -149,170 +309,301 @@ export default function TimetablePage() {
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                 <div>
                     <h1 className="text-2xl font-bold text-gray-900">Timetable</h1>
-                    <p className="text-sm text-gray-500">
-                        Week of {format(weekStart, 'dd MMM yyyy')}
-                    </p>
+                    <p className="text-sm text-gray-500">{rangeLabel}</p>
                 </div>
                 <div className="flex gap-2">
                     <button
-                        onClick={() => setShowAddSubject(true)}
+                        onClick={() => setShowSubscribe(true)}
                         className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition"
                     >
-                        <BookOpen className="w-4 h-4" /> Add Subject
+                        <CalendarPlus className="w-4 h-4" /> Subscribe
+                    </button>
+                    {!isReadOnly && (
+                        <>
+                            <button
+                                onClick={() => setShowPlanner((v) => !v)}
+                                className={`flex items-center gap-1.5 rounded-lg border px-3 py-2 text-sm font-medium shadow-sm transition ${showPlanner
+                                    ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                                    : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                                    }`}
+                            >
+                                <Sparkles className="w-4 h-4" /> Plan Skips
+                            </button>
+                            <button
+                                onClick={() => setShowAddSubject(true)}
+                                className="flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition"
+                            >
+                                <BookOpen className="w-4 h-4" /> Add Subject
+                            </button>
+                            <button
+                                onClick={openAddEntry}
+                                className="flex items-center gap-1.5 rounded-lg bg-indigo-700 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 transition"
+                            >
+                                <Plus className="w-4 h-4" /> Add Personal Entry
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* ── Skip planner overlay ──────────────────────────── */}
+            {showPlanner && !isReadOnly && (
+                <SkipPlannerPanel
+                    goals={skipGoals}
+                    onChange={setSkipGoals}
+                    plan={skipPlan}
+                    onClose={() => setShowPlanner(false)}
+                />
+            )}
+
+            {/* ── View switcher + navigation ────────────────────── */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => shift(-1)}
+                        className="p-2 rounded-lg border border-gray-300 bg-white text-gray-600 hover:bg-gray-50 transition"
+                        aria-label="Previous"
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setCursor(new Date())}
+                        className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition"
+                    >
+                        Today
                     </button>
                     <button
-                        onClick={() => setShowAddSession(true)}
-                        className="flex items-center gap-1.5 rounded-lg bg-indigo-700 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 transition"
+                        onClick={() => shift(1)}
+                        className="p-2 rounded-lg border border-gray-300 bg-white text-gray-600 hover:bg-gray-50 transition"
+                        aria-label="Next"
                     >
-                        <Plus className="w-4 h-4" /> Add Session
+                        <ChevronRight className="w-4 h-4" />
                     </button>
+                    {loading && <Loader2 className="w-4 h-4 ml-2 animate-spin text-indigo-500" />}
+                </div>
+                <div className="inline-flex rounded-lg border border-gray-300 bg-white p-0.5">
+                    {VIEWS.map((v) => (
+                        <button
+                            key={v.value}
+                            onClick={() => setView(v.value)}
+                            className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${view === v.value
+                                ? 'bg-indigo-600 text-white'
+                                : 'text-gray-600 hover:bg-gray-50'
+                                }`}
+                        >
+                            {v.label}
+                        </button>
+                    ))}
                 </div>
             </div>
 
+            {/* ── Month grid ────────────────────────────────────── */}
+            {view === 'month' && (
+                <TimetableMonthGrid
+                    month={cursor}
+                    sessionsByDate={sessionsByDate}
+                    subjectIds={subjectIds}
+                    skipped={skipPlan?.skipped}
+                    onSelectDay={openDay}
+                />
+            )}
+
+            {/* ── Day agenda ────────────────────────────────────── */}
+            {view === 'day' && (
+                <div className="space-y-2">
+                    {(sessionsByDate.get(cursorKey) ?? []).length === 0 ? (
+                        <div className="rounded-xl border border-dashed border-gray-200 py-10 text-center text-sm text-gray-400">
+                            Nothing on {format(cursor, 'EEEE')}
+                        </div>
+                    ) : (
+                        (sessionsByDate.get(cursorKey) ?? []).map((s) => (
+                            <TimetableCard
+                                key={s.id}
+                                session={s}
+                                subjectIds={subjectIds}
+                                isToday={checkIsToday(cursor)}
+                                onDelete={isReadOnly ? undefined : handleDelete}
+                                onSuggest={isReadOnly ? undefined : openCorrection}
+                                skipPlanned={skipPlan?.skipped.has(s.id)}
+                            />
+                        ))
+                    )}
+                </div>
+            )}
+
             {/* ── Desktop weekly grid ───────────────────────────── */}
-            <div className="hidden md:block overflow-x-auto">
-                <div className="min-w-[900px]">
-                    {/* Day headers */}
-                    <div className="grid grid-cols-[60px_repeat(7,1fr)] gap-1 mb-1">
-                        <div /> {/* spacer for time col */}
-                        {DAYS.map((day, i) => {
-                            const dt = dayDates[i];
-                            const today = checkIsToday(dt);
-                            return (
-                                <div
-                                    key={day}
-                                    className={`text-center text-xs font-semibold py-2 rounded-lg ${today ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500'
-                                        }`}
-                                >
-                                    {day}
-                                    <span className="block text-[10px] font-normal">
-                                        {format(dt, 'dd/MM')}
-                                    </span>
+            {view === 'week' && (
+                <div className="hidden md:block overflow-x-auto">
+                    <div className="min-w-[900px]">
+                        {/* Day headers */}
+                        <div className="grid grid-cols-[60px_repeat(7,1fr)] gap-1 mb-1">
+                            <div /> {/* spacer for time col */}
+                            {DAYS.map((day, i) => {
+                                const dt = dayDates[i];
+                                const today = checkIsToday(dt);
+                                return (
+                                    <div
+                                        key={day}
+                                        className={`text-center text-xs font-semibold py-2 rounded-lg ${today ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500'
+                                            }`}
+                                    >
+                                        {day}
+                                        <span className="block text-[10px] font-normal">
+                                            {format(dt, 'dd/MM')}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {/* Time rows */}
+                        {HOURS.map((hour) => (
+                            <div
+                                key={hour}
+                                className="grid grid-cols-[60px_repeat(7,1fr)] gap-1 min-h-[72px]"
+                            >
+                                {/* Time label */}
+                                <div className="text-[11px] text-gray-400 pt-1 text-right pr-2">
+                                    {hour > 12 ? hour - 12 : hour} {hour >= 12 ? 'PM' : 'AM'}
                                 </div>
-                            );
-                        })}
-                    </div>
 
-                    {/* Time rows */}
-                    {HOURS.map((hour) => (
-                        <div
-                            key={hour}
-                            className="grid grid-cols-[60px_repeat(7,1fr)] gap-1 min-h-[72px]"
-                        >
-                            {/* Time label */}
-                            <div className="text-[11px] text-gray-400 pt-1 text-right pr-2">
-                                {hour > 12 ? hour - 12 : hour} {hour >= 12 ? 'PM' : 'AM'}
+                                {/* Day cells */}
+                                {DAYS.map((_, dayIdx) => {
+                                    const daySessions = (sessionsByDate.get(ymd(dayDates[dayIdx])) ?? []).filter((s) => {
+                                        const h = parseInt(s.start_time.split(':')[0], 10);
+                                        return h === hour;
+                                    });
+
+                                    return (
+                                        <div
+                                            key={dayIdx}
+                                            className="border border-gray-100 rounded-lg p-0.5 space-y-1"
+                                        >
+                                            {daySessions.map((s) => (
+                                                <TimetableCard
+                                                    key={s.id}
+                                                    session={s}
+                                                    subjectIds={subjectIds}
+                                                    isToday={checkIsToday(dayDates[dayIdx])}
+                                                    onDelete={isReadOnly ? undefined : handleDelete}
+                                                    onSuggest={isReadOnly ? undefined : openCorrection}
+                                                    skipPlanned={skipPlan?.skipped.has(s.id)}
+                                                    compact
+                                                />
+                                            ))}
+                                        </div>
+                                    );
+                                })}
                             </div>
+                        ))}
+                    </div>
+                </div>
 
-                            {/* Day cells */}
-                            {DAYS.map((_, dayIdx) => {
-                                const daySessions = (sessionsByDay.get(dayIdx) ?? []).filter((s) => {
-                                    const h = parseInt(s.start_time.split(':')[0], 10);
-                                    return h === hour;
-                                });
+            )}
 
-                                return (
-                                    <div
-                                        key={dayIdx}
-                                        className="border border-gray-100 rounded-lg p-0.5 space-y-1"
-                                    >
+            {/* ── Mobile day-by-day view ────────────────────────── */}
+            {view === 'week' && (
+                <div className="md:hidden space-y-6">
+                    {DAYS.map((day, i) => {
+                        const dt = dayDates[i];
+                        const today = checkIsToday(dt);
+                        const daySessions = sessionsByDate.get(ymd(dt)) ?? [];
+
+                        return (
+                            <div key={day}>
+                                <h3
+                                    className={`text-sm font-semibold mb-2 px-1 ${today ? 'text-indigo-700' : 'text-gray-700'
+                                        }`}
+                                >
+                                    {today && (
+                                        <span className="inline-block w-2 h-2 rounded-full bg-indigo-500 mr-1.5 align-middle" />
+                                    )}
+                                    {day}, {format(dt, 'dd MMM')}
+                                </h3>
+
+                                {daySessions.length === 0 ? (
+                                    <p className="text-xs text-gray-400 px-1">Nothing scheduled</p>
+                                ) : (
+                                    <div className="space-y-2">
                                         {daySessions.map((s) => (
                                             <TimetableCard
                                                 key={s.id}
                                                 session={s}
                                                 subjectIds={subjectIds}
-                                                isToday={checkIsToday(dayDates[dayIdx])}
-                                                onDelete={handleDelete}
-                                                compact
+                                                isToday={today}
+                                                onDelete={isReadOnly ? undefined : handleDelete}
+                                                onSuggest={isReadOnly ? undefined : openCorrection}
+                                                skipPlanned={skipPlan?.skipped.has(s.id)}
                                             />
                                         ))}
                                     </div>
-                                );
-                            })}
-                        </div>
-                    ))}
-                </div>
-            </div>
-
-            {/* ── Mobile day-by-day view ────────────────────────── */}
-            <div className="md:hidden space-y-6">
-                {DAYS.map((day, i) => {
-                    const dt = dayDates[i];
-                    const today = checkIsToday(dt);
-                    const daySessions = (sessionsByDay.get(i) ?? []).sort((a, b) =>
-                        a.start_time.localeCompare(b.start_time),
-                    );
-
-                    return (
-                        <div key={day}>
-                            <h3
-                                className={`text-sm font-semibold mb-2 px-1 ${today ? 'text-indigo-700' : 'text-gray-700'
-                                    }`}
-                            >
-                                {today && (
-                                    <span className="inline-block w-2 h-2 rounded-full bg-indigo-500 mr-1.5 align-middle" />
                                 )}
-                                {day}, {format(dt, 'dd MMM')}
-                            </h3>
-
-                            {daySessions.length === 0 ? (
-                                <p className="text-xs text-gray-400 px-1">No classes</p>
-                            ) : (
-                                <div className="space-y-2">
-                                    {daySessions.map((s) => (
-                                        <TimetableCard
-                                            key={s.id}
-                                            session={s}
-                                            subjectIds={subjectIds}
-                                            isToday={today}
-                                            onDelete={handleDelete}
-                                        />
-                                    ))}
-                                </div>
-                            )}
-                        </div>
-                    );
-                })}
-            </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
 
             {/* ══════════════════════════════════════════════════════
-          MODAL: Add Session
+          MODAL: Add Personal Entry
          ══════════════════════════════════════════════════════ */}
-            {showAddSession && (
+            {showAddEntry && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
                     <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
                         <div className="flex items-center justify-between">
-                            <h2 className="text-lg font-bold text-gray-900">Add Class Session</h2>
+                            <div>
+                                <h2 className="text-lg font-bold text-gray-900">Add Personal Entry</h2>
+                                <p className="text-xs text-gray-500">Only you see this. It never counts towards attendance.</p>
+                            </div>
                             <button
-                                onClick={() => setShowAddSession(false)}
+                                onClick={() => setShowAddEntry(false)}
                                 className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
                             >
                                 <X className="w-5 h-5" />
                             </button>
                         </div>
 
-                        <form onSubmit={handleAddSession} className="space-y-4">
-                            {/* Subject */}
+                        <form onSubmit={handleAddEntry} className="space-y-4">
+                            {/* Kind */}
+                            <div className="grid grid-cols-3 gap-2">
+                                {PERSONAL_KINDS.map((k) => (
+                                    <button
+                                        key={k.value}
+                                        type="button"
+                                        onClick={() => setFormKind(k.value)}
+                                        className={`rounded-lg border px-2 py-1.5 text-xs font-medium transition ${formKind === k.value
+                                            ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                                            : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        {k.label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {/* Title */}
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
-                                <select value={formSubject} onChange={(e) => setFormSubject(e.target.value)} className={inputCls}>
-                                    <option value="">Select subject…</option>
-                                    {enrolledSubjects.map((s) => (
-                                        <option key={s.id} value={s.id}>
-                                            {s.code} — {s.name}
-                                        </option>
-                                    ))}
-                                </select>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                                <input
+                                    type="text"
+                                    value={formTitle}
+                                    onChange={(e) => setFormTitle(e.target.value)}
+                                    className={inputCls}
+                                    placeholder="Revise DBMS normal forms"
+                                />
                             </div>
 
-                            {/* Day */}
+                            {/* Date */}
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Day</label>
-                                <select value={formDay} onChange={(e) => setFormDay(e.target.value)} className={inputCls}>
-                                    {DAYS.map((d, i) => (
-                                        <option key={d} value={i}>{d}</option>
-                                    ))}
-                                </select>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                                <input
+                                    type="date"
+                                    value={formDate}
+                                    min={selectedSemester?.start_date}
+                                    max={selectedSemester?.end_date}
+                                    onChange={(e) => setFormDate(e.target.value)}
+                                    className={inputCls}
+                                />
                             </div>
 
                             {/* Time range */}
@@ -329,39 +620,145 @@ export default function TimetablePage() {
 
                             {/* Venue */}
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Venue</label>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Place</label>
                                 <input
                                     type="text"
                                     value={formVenue}
                                     onChange={(e) => setFormVenue(e.target.value)}
                                     className={inputCls}
-                                    placeholder="Room 301"
+                                    placeholder="Library, 2nd floor"
+                                />
+                            </div>
+
+                            {/* Notes */}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                                <textarea
+                                    value={formNotes}
+                                    onChange={(e) => setFormNotes(e.target.value)}
+                                    rows={2}
+                                    className={inputCls}
+                                />
+                            </div>
+
+                            {/* Repeat */}
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={formRepeat}
+                                    onChange={(e) => setFormRepeat(e.target.checked)}
+                                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
                                 />
+                                Repeat every week until the end of the semester
+                            </label>
+
+                            <button
+                                type="submit"
+                                disabled={addPersonalEntry.isPending}
+                                className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
+                            >
+                                {addPersonalEntry.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                                {addPersonalEntry.isPending ? 'Adding…' : 'Add Entry'}
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* ══════════════════════════════════════════════════════
+          MODAL: Suggest Correction
+         ══════════════════════════════════════════════════════ */}
+            {correcting && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+                    <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 space-y-5 animate-in fade-in zoom-in-95">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <h2 className="text-lg font-bold text-gray-900">Suggest a Correction</h2>
+                                <p className="text-xs text-gray-500">
+                                    {correcting.subject?.code} · {format(new Date(`${correcting.scheduled_date}T00:00:00`), 'EEE, dd MMM')}{' '}
+                                    {correcting.start_time.slice(0, 5)}–{correcting.end_time.slice(0, 5)}
+                                </p>
                             </div>
+                            <button
+                                onClick={() => setCorrecting(null)}
+                                className="p-1 rounded-lg text-gray-400 hover:bg-gray-100 transition"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleProposeCorrection} className="space-y-4">
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={fixCancel}
+                                    onChange={(e) => setFixCancel(e.target.checked)}
+                                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                This class isn't happening
+                            </label>
+
+                            {!fixCancel && (
+                                <>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                                        <input
+                                            type="date"
+                                            value={fixDate}
+                                            min={selectedSemester?.start_date}
+                                            max={selectedSemester?.end_date}
+                                            onChange={(e) => setFixDate(e.target.value)}
+                                            className={inputCls}
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                                            <input type="time" value={fixStart} onChange={(e) => setFixStart(e.target.value)} className={inputCls} />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                                            <input type="time" value={fixEnd} onChange={(e) => setFixEnd(e.target.value)} className={inputCls} />
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Venue</label>
+                                        <input
+                                            type="text"
+                                            value={fixVenue}
+                                            onChange={(e) => setFixVenue(e.target.value)}
+                                            className={inputCls}
+                                        />
+                                    </div>
+                                </>
+                            )}
 
-                            {/* Session type */}
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Session Type</label>
-                                <select value={formType} onChange={(e) => setFormType(e.target.value as typeof formType)} className={inputCls}>
-                                    {SESSION_TYPES.map((t) => (
-                                        <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</option>
-                                    ))}
-                                </select>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">What's wrong?</label>
+                                <textarea
+                                    value={fixNote}
+                                    onChange={(e) => setFixNote(e.target.value)}
+                                    rows={3}
+                                    className={inputCls}
+                                    placeholder="Sir moved this lab to Room 204 from this week"
+                                />
                             </div>
 
                             <button
                                 type="submit"
-                                disabled={saving}
+                                disabled={proposeCorrection.isPending}
                                 className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-700 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-800 disabled:opacity-60 transition"
                             >
-                                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
-                                {saving ? 'Adding…' : 'Add Session'}
+                                {proposeCorrection.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                                {proposeCorrection.isPending ? 'Sending…' : 'Send to Faculty'}
                             </button>
                         </form>
                     </div>
                 </div>
             )}
 
+            {showSubscribe && <CalendarSubscribeModal onClose={() => setShowSubscribe(false)} />}
+
             {/* ══════════════════════════════════════════════════════
           MODAL: Add Subject (Enroll)
          ══════════════════════════════════════════════════════ */}
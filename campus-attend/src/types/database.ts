@@ -16,6 +16,7 @@ export interface Database {
                     semester: number | null;
                     created_at: string;
                     avatar_url: string | null;
+                    mentor_id: string | null;
                 };
                 Insert: {
                     id: string;
@@ -27,6 +28,7 @@ export interface Database {
                     semester?: number | null;
                     created_at?: string;
                     avatar_url?: string | null;
+                    mentor_id?: string | null;
                 };
                 Update: {
                     id?: string;
@@ -38,6 +40,7 @@ export interface Database {
                     semester?: number | null;
                     created_at?: string;
                     avatar_url?: string | null;
+                    mentor_id?: string | null;
                 };
             };
 
@@ -52,6 +55,7 @@ export interface Database {
                     credits: number;
                     total_classes_planned: number;
                     created_at: string;
+                    academic_semester_id: string | null;
                 };
                 Insert: {
                     id?: string;
@@ -63,6 +67,7 @@ export interface Database {
                     credits?: number;
                     total_classes_planned?: number;
                     created_at?: string;
+                    academic_semester_id?: string | null;
                 };
                 Update: {
                     id?: string;
@@ -74,6 +79,7 @@ export interface Database {
                     credits?: number;
                     total_classes_planned?: number;
                     created_at?: string;
+                    academic_semester_id?: string | null;
                 };
             };
 
@@ -99,6 +105,9 @@ export interface Database {
                     difficulty_level: number;
                     whatsapp_notification_sent: boolean;
                     created_at: string;
+                    venue_id: string | null;
+                    revision: number;
+                    updated_at: string;
                 };
                 Insert: {
                     id?: string;
@@ -121,6 +130,9 @@ export interface Database {
                     difficulty_level?: number;
                     whatsapp_notification_sent?: boolean;
                     created_at?: string;
+                    venue_id?: string | null;
+                    revision?: number;
+                    updated_at?: string;
                 };
                 Update: {
                     id?: string;
@@ -143,6 +155,9 @@ export interface Database {
                     difficulty_level?: number;
                     whatsapp_notification_sent?: boolean;
                     created_at?: string;
+                    venue_id?: string | null;
+                    revision?: number;
+                    updated_at?: string;
                 };
             };
 
@@ -156,6 +171,7 @@ export interface Database {
                     marked_by: 'student' | 'faculty' | 'system' | 'ai_approved';
                     on_duty_event_id: string | null;
                     notes: string | null;
+                    source: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system' | null;
                 };
                 Insert: {
                     id?: string;
@@ -166,6 +182,7 @@ export interface Database {
                     marked_by?: 'student' | 'faculty' | 'system' | 'ai_approved';
                     on_duty_event_id?: string | null;
                     notes?: string | null;
+                    source?: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system' | null;
                 };
                 Update: {
                     id?: string;
@@ -176,6 +193,7 @@ export interface Database {
                     marked_by?: 'student' | 'faculty' | 'system' | 'ai_approved';
                     on_duty_event_id?: string | null;
                     notes?: string | null;
+                    source?: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system' | null;
                 };
             };
 
@@ -191,6 +209,9 @@ export interface Database {
                     certificate_issued: boolean;
                     certificate_url: string | null;
                     on_duty_status: 'pending' | 'approved' | 'rejected';
+                    check_in_accuracy_m: number | null;
+                    check_in_distance_m: number | null;
+                    geofence_override_reason: string | null;
                 };
                 Insert: {
                     id?: string;
@@ -203,6 +224,9 @@ export interface Database {
                     certificate_issued?: boolean;
                     certificate_url?: string | null;
                     on_duty_status?: 'pending' | 'approved' | 'rejected';
+                    check_in_accuracy_m?: number | null;
+                    check_in_distance_m?: number | null;
+                    geofence_override_reason?: string | null;
                 };
                 Update: {
                     id?: string;
@@ -215,6 +239,9 @@ export interface Database {
                     certificate_issued?: boolean;
                     certificate_url?: string | null;
                     on_duty_status?: 'pending' | 'approved' | 'rejected';
+                    check_in_accuracy_m?: number | null;
+                    check_in_distance_m?: number | null;
+                    geofence_override_reason?: string | null;
                 };
             };
 
@@ -271,6 +298,22 @@ export interface Database {
                     session_type: 'lecture' | 'lab' | 'tutorial';
                     is_cancelled: boolean;
                     created_at: string;
+                    academic_semester_id: string | null;
+                    template_id: string | null;
+                    template_date: string | null;
+                    is_detached: boolean;
+                    holiday_id: string | null;
+                    cancel_reason: string | null;
+                    makeup_for: string | null;
+                    venue_id: string | null;
+                    rescheduled_from_date: string | null;
+                    rescheduled_from_start: string | null;
+                    rescheduled_from_end: string | null;
+                    rescheduled_from_venue: string | null;
+                    rescheduled_at: string | null;
+                    reschedule_reason: string | null;
+                    revision: number;
+                    updated_at: string;
                 };
                 Insert: {
                     id?: string;
@@ -282,6 +325,22 @@ export interface Database {
                     session_type?: 'lecture' | 'lab' | 'tutorial';
                     is_cancelled?: boolean;
                     created_at?: string;
+                    academic_semester_id?: string | null;
+                    template_id?: string | null;
+                    template_date?: string | null;
+                    is_detached?: boolean;
+                    holiday_id?: string | null;
+                    cancel_reason?: string | null;
+                    makeup_for?: string | null;
+                    venue_id?: string | null;
+                    rescheduled_from_date?: string | null;
+                    rescheduled_from_start?: string | null;
+                    rescheduled_from_end?: string | null;
+                    rescheduled_from_venue?: string | null;
+                    rescheduled_at?: string | null;
+                    reschedule_reason?: string | null;
+                    revision?: number;
+                    updated_at?: string;
                 };
                 Update: {
                     id?: string;
@@ -293,6 +352,22 @@ export interface Database {
                     session_type?: 'lecture' | 'lab' | 'tutorial';
                     is_cancelled?: boolean;
                     created_at?: string;
+                    academic_semester_id?: string | null;
+                    template_id?: string | null;
+                    template_date?: string | null;
+                    is_detached?: boolean;
+                    holiday_id?: string | null;
+                    cancel_reason?: string | null;
+                    makeup_for?: string | null;
+                    venue_id?: string | null;
+                    rescheduled_from_date?: string | null;
+                    rescheduled_from_start?: string | null;
+                    rescheduled_from_end?: string | null;
+                    rescheduled_from_venue?: string | null;
+                    rescheduled_at?: string | null;
+                    reschedule_reason?: string | null;
+                    revision?: number;
+                    updated_at?: string;
                 };
             };
 
@@ -302,18 +377,21 @@ export interface Database {
                     student_id: string | null;
                     subject_id: string | null;
                     enrolled_at: string;
+                    academic_semester_id: string | null;
                 };
                 Insert: {
                     id?: string;
                     student_id?: string | null;
                     subject_id?: string | null;
                     enrolled_at?: string;
+                    academic_semester_id?: string | null;
                 };
                 Update: {
                     id?: string;
                     student_id?: string | null;
                     subject_id?: string | null;
                     enrolled_at?: string;
+                    academic_semester_id?: string | null;
                 };
             };
 
@@ -327,6 +405,9 @@ export interface Database {
                     attendance_threshold: number;
                     condonation_threshold: number;
                     is_current: boolean;
+                    weighting_mode: 'unit' | 'session_type' | 'duration';
+                    medical_policy: 'exclude_from_held' | 'count_as_present';
+                    reschedule_badge_days: number;
                 };
                 Insert: {
                     id?: string;
@@ -337,6 +418,9 @@ export interface Database {
                     attendance_threshold?: number;
                     condonation_threshold?: number;
                     is_current?: boolean;
+                    weighting_mode?: 'unit' | 'session_type' | 'duration';
+                    medical_policy?: 'exclude_from_held' | 'count_as_present';
+                    reschedule_badge_days?: number;
                 };
                 Update: {
                     id?: string;
@@ -347,6 +431,525 @@ export interface Database {
                     attendance_threshold?: number;
                     condonation_threshold?: number;
                     is_current?: boolean;
+                    weighting_mode?: 'unit' | 'session_type' | 'duration';
+                    medical_policy?: 'exclude_from_held' | 'count_as_present';
+                    reschedule_badge_days?: number;
+                };
+            };
+
+            session_type_weights: {
+                Row: {
+                    id: string;
+                    subject_id: string | null;
+                    session_type: 'lecture' | 'lab' | 'tutorial';
+                    weight: number;
+                };
+                Insert: {
+                    id?: string;
+                    subject_id?: string | null;
+                    session_type: 'lecture' | 'lab' | 'tutorial';
+                    weight?: number;
+                };
+                Update: {
+                    id?: string;
+                    subject_id?: string | null;
+                    session_type?: 'lecture' | 'lab' | 'tutorial';
+                    weight?: number;
+                };
+            };
+
+            medical_leave_requests: {
+                Row: {
+                    id: string;
+                    student_id: string;
+                    reviewer_id: string | null;
+                    from_date: string;
+                    to_date: string;
+                    reason: string;
+                    certificate_path: string | null;
+                    status: 'pending' | 'approved' | 'rejected';
+                    reviewer_response: string | null;
+                    sessions_marked: number;
+                    created_at: string;
+                    resolved_at: string | null;
+                };
+                Insert: {
+                    id?: string;
+                    student_id: string;
+                    reviewer_id?: string | null;
+                    from_date: string;
+                    to_date: string;
+                    reason: string;
+                    certificate_path?: string | null;
+                    status?: 'pending' | 'approved' | 'rejected';
+                    reviewer_response?: string | null;
+                    sessions_marked?: number;
+                    created_at?: string;
+                    resolved_at?: string | null;
+                };
+                Update: {
+                    id?: string;
+                    student_id?: string;
+                    reviewer_id?: string | null;
+                    from_date?: string;
+                    to_date?: string;
+                    reason?: string;
+                    certificate_path?: string | null;
+                    status?: 'pending' | 'approved' | 'rejected';
+                    reviewer_response?: string | null;
+                    sessions_marked?: number;
+                    created_at?: string;
+                    resolved_at?: string | null;
+                };
+            };
+
+            attendance_alerts: {
+                Row: {
+                    id: string;
+                    student_id: string;
+                    subject_id: string;
+                    alert_type: 'below_threshold' | 'below_condonation' | 'rapid_drop' | 'zero_buffer';
+                    severity: 'warning' | 'critical';
+                    current_pct: number;
+                    previous_pct: number | null;
+                    buffer_classes: number;
+                    message: string;
+                    read_at: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    student_id: string;
+                    subject_id: string;
+                    alert_type: 'below_threshold' | 'below_condonation' | 'rapid_drop' | 'zero_buffer';
+                    severity?: 'warning' | 'critical';
+                    current_pct: number;
+                    previous_pct?: number | null;
+                    buffer_classes: number;
+                    message: string;
+                    read_at?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    student_id?: string;
+                    subject_id?: string;
+                    alert_type?: 'below_threshold' | 'below_condonation' | 'rapid_drop' | 'zero_buffer';
+                    severity?: 'warning' | 'critical';
+                    current_pct?: number;
+                    previous_pct?: number | null;
+                    buffer_classes?: number;
+                    message?: string;
+                    read_at?: string | null;
+                    created_at?: string;
+                };
+            };
+            attendance_statements: {
+                Row: {
+                    id: string;
+                    verification_code: string;
+                    student_id: string;
+                    academic_semester_id: string | null;
+                    summary: StatementSubjectLine[];
+                    issued_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    verification_code: string;
+                    student_id: string;
+                    academic_semester_id?: string | null;
+                    summary: StatementSubjectLine[];
+                    issued_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    verification_code?: string;
+                    student_id?: string;
+                    academic_semester_id?: string | null;
+                    summary?: StatementSubjectLine[];
+                    issued_at?: string;
+                };
+            };
+
+            academic_holidays: {
+                Row: {
+                    id: string;
+                    academic_semester_id: string;
+                    holiday_date: string;
+                    name: string;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    academic_semester_id: string;
+                    holiday_date: string;
+                    name: string;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    academic_semester_id?: string;
+                    holiday_date?: string;
+                    name?: string;
+                    created_at?: string;
+                };
+            };
+
+            timetable_templates: {
+                Row: {
+                    id: string;
+                    subject_id: string;
+                    academic_semester_id: string | null;
+                    weekday: number;
+                    start_time: string;
+                    end_time: string;
+                    venue: string | null;
+                    session_type: 'lecture' | 'lab' | 'tutorial';
+                    valid_from: string | null;
+                    valid_until: string | null;
+                    created_by: string | null;
+                    created_at: string;
+                    venue_id: string | null;
+                };
+                Insert: {
+                    id?: string;
+                    subject_id: string;
+                    academic_semester_id?: string | null;
+                    weekday: number;
+                    start_time: string;
+                    end_time: string;
+                    venue?: string | null;
+                    session_type?: 'lecture' | 'lab' | 'tutorial';
+                    valid_from?: string | null;
+                    valid_until?: string | null;
+                    created_by?: string | null;
+                    created_at?: string;
+                    venue_id?: string | null;
+                };
+                Update: {
+                    id?: string;
+                    subject_id?: string;
+                    academic_semester_id?: string | null;
+                    weekday?: number;
+                    start_time?: string;
+                    end_time?: string;
+                    venue?: string | null;
+                    session_type?: 'lecture' | 'lab' | 'tutorial';
+                    valid_from?: string | null;
+                    valid_until?: string | null;
+                    created_by?: string | null;
+                    created_at?: string;
+                    venue_id?: string | null;
+                };
+            };
+
+            calendar_feed_tokens: {
+                Row: {
+                    user_id: string;
+                    token: string;
+                    created_at: string;
+                    rotated_at: string;
+                };
+                Insert: {
+                    user_id: string;
+                    token?: string;
+                    created_at?: string;
+                    rotated_at?: string;
+                };
+                Update: {
+                    user_id?: string;
+                    token?: string;
+                    created_at?: string;
+                    rotated_at?: string;
+                };
+            };
+
+            timetable_notifications: {
+                Row: {
+                    id: string;
+                    student_id: string;
+                    subject_id: string;
+                    class_session_id: string | null;
+                    kind: 'cancelled' | 'restored' | 'makeup' | 'rescheduled';
+                    message: string;
+                    read_at: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    student_id: string;
+                    subject_id: string;
+                    class_session_id?: string | null;
+                    kind: 'cancelled' | 'restored' | 'makeup' | 'rescheduled';
+                    message: string;
+                    read_at?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    student_id?: string;
+                    subject_id?: string;
+                    class_session_id?: string | null;
+                    kind?: 'cancelled' | 'restored' | 'makeup' | 'rescheduled';
+                    message?: string;
+                    read_at?: string | null;
+                    created_at?: string;
+                };
+            };
+
+            personal_timetable_entries: {
+                Row: {
+                    id: string;
+                    student_id: string;
+                    academic_semester_id: string | null;
+                    kind: 'study' | 'class' | 'reminder';
+                    title: string;
+                    entry_date: string;
+                    start_time: string;
+                    end_time: string;
+                    venue: string | null;
+                    notes: string | null;
+                    repeat_until: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    student_id: string;
+                    academic_semester_id?: string | null;
+                    kind?: 'study' | 'class' | 'reminder';
+                    title: string;
+                    entry_date: string;
+                    start_time: string;
+                    end_time: string;
+                    venue?: string | null;
+                    notes?: string | null;
+                    repeat_until?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    student_id?: string;
+                    academic_semester_id?: string | null;
+                    kind?: 'study' | 'class' | 'reminder';
+                    title?: string;
+                    entry_date?: string;
+                    start_time?: string;
+                    end_time?: string;
+                    venue?: string | null;
+                    notes?: string | null;
+                    repeat_until?: string | null;
+                    created_at?: string;
+                };
+            };
+
+            session_corrections: {
+                Row: {
+                    id: string;
+                    class_session_id: string;
+                    proposed_by: string;
+                    proposed_date: string | null;
+                    proposed_start_time: string | null;
+                    proposed_end_time: string | null;
+                    proposed_venue: string | null;
+                    proposed_cancel: boolean;
+                    note: string;
+                    status: 'pending' | 'accepted' | 'rejected';
+                    reviewed_by: string | null;
+                    reviewed_at: string | null;
+                    review_note: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    class_session_id: string;
+                    proposed_by: string;
+                    proposed_date?: string | null;
+                    proposed_start_time?: string | null;
+                    proposed_end_time?: string | null;
+                    proposed_venue?: string | null;
+                    proposed_cancel?: boolean;
+                    note: string;
+                    status?: 'pending' | 'accepted' | 'rejected';
+                    reviewed_by?: string | null;
+                    reviewed_at?: string | null;
+                    review_note?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    class_session_id?: string;
+                    proposed_by?: string;
+                    proposed_date?: string | null;
+                    proposed_start_time?: string | null;
+                    proposed_end_time?: string | null;
+                    proposed_venue?: string | null;
+                    proposed_cancel?: boolean;
+                    note?: string;
+                    status?: 'pending' | 'accepted' | 'rejected';
+                    reviewed_by?: string | null;
+                    reviewed_at?: string | null;
+                    review_note?: string | null;
+                    created_at?: string;
+                };
+            };
+            venues: {
+                Row: {
+                    id: string;
+                    name: string;
+                    building: string | null;
+                    capacity: number | null;
+                    geofence_lat: number | null;
+                    geofence_lng: number | null;
+                    geofence_radius_m: number;
+                    aliases: string[];
+                    is_active: boolean;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    name: string;
+                    building?: string | null;
+                    capacity?: number | null;
+                    geofence_lat?: number | null;
+                    geofence_lng?: number | null;
+                    geofence_radius_m?: number;
+                    aliases?: string[];
+                    is_active?: boolean;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    name?: string;
+                    building?: string | null;
+                    capacity?: number | null;
+                    geofence_lat?: number | null;
+                    geofence_lng?: number | null;
+                    geofence_radius_m?: number;
+                    aliases?: string[];
+                    is_active?: boolean;
+                    created_at?: string;
+                };
+            };
+            session_substitutions: {
+                Row: {
+                    id: string;
+                    class_session_id: string;
+                    original_faculty_id: string | null;
+                    substitute_faculty_id: string;
+                    reason: string | null;
+                    assigned_by: string | null;
+                    created_at: string;
+                    revoked_at: string | null;
+                    revoked_by: string | null;
+                };
+                Insert: {
+                    id?: string;
+                    class_session_id: string;
+                    original_faculty_id?: string | null;
+                    substitute_faculty_id: string;
+                    reason?: string | null;
+                    assigned_by?: string | null;
+                    created_at?: string;
+                    revoked_at?: string | null;
+                    revoked_by?: string | null;
+                };
+                Update: {
+                    id?: string;
+                    class_session_id?: string;
+                    original_faculty_id?: string | null;
+                    substitute_faculty_id?: string;
+                    reason?: string | null;
+                    assigned_by?: string | null;
+                    created_at?: string;
+                    revoked_at?: string | null;
+                    revoked_by?: string | null;
+                };
+            };
+
+            class_check_in_windows: {
+                Row: {
+                    class_session_id: string;
+                    secret: string;
+                    rotate_seconds: number;
+                    opened_by: string | null;
+                    opened_at: string;
+                    closed_at: string | null;
+                    closed_by: string | null;
+                };
+                Insert: {
+                    class_session_id: string;
+                    secret?: string;
+                    rotate_seconds?: number;
+                    opened_by?: string | null;
+                    opened_at?: string;
+                    closed_at?: string | null;
+                    closed_by?: string | null;
+                };
+                Update: {
+                    class_session_id?: string;
+                    secret?: string;
+                    rotate_seconds?: number;
+                    opened_by?: string | null;
+                    opened_at?: string;
+                    closed_at?: string | null;
+                    closed_by?: string | null;
+                };
+            };
+
+            class_check_in_attempts: {
+                Row: {
+                    id: string;
+                    student_id: string;
+                    attempted_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    student_id: string;
+                    attempted_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    student_id?: string;
+                    attempted_at?: string;
+                };
+            };
+
+            attendance_audit: {
+                Row: {
+                    id: string;
+                    attendance_record_id: string;
+                    student_id: string | null;
+                    class_session_id: string | null;
+                    action: 'insert' | 'update' | 'delete';
+                    old_status: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    new_status: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    source: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system';
+                    actor_id: string | null;
+                    changed_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    attendance_record_id: string;
+                    student_id?: string | null;
+                    class_session_id?: string | null;
+                    action: 'insert' | 'update' | 'delete';
+                    old_status?: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    new_status?: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    source: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system';
+                    actor_id?: string | null;
+                    changed_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    attendance_record_id?: string;
+                    student_id?: string | null;
+                    class_session_id?: string | null;
+                    action?: 'insert' | 'update' | 'delete';
+                    old_status?: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    new_status?: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    source?: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system';
+                    actor_id?: string | null;
+                    changed_at?: string;
                 };
             };
         };
@@ -365,7 +968,320 @@ export interface Database {
                     buffer_classes: number;
                     projected_pct: number;
                     is_safe: boolean;
+                    attendance_threshold: number;
+                    condonation_threshold: number;
+                    eligibility: 'safe' | 'condonable' | 'detained';
+                    classes_to_threshold: number | null;
+                    classes_to_condonation: number | null;
+                    weighting_mode: 'unit' | 'session_type' | 'duration';
+                    medical_count: number;
+                    medical_policy: 'exclude_from_held' | 'count_as_present';
+                };
+            };
+            get_student_attendance_summary: {
+                Args: {
+                    p_student_id: string;
+                    p_semester_id?: string | null;
+                };
+                Returns: {
+                    subject_id: string;
+                    subject_name: string;
+                    subject_code: string;
+                    buffer: Database['public']['Functions']['calculate_attendance_buffer']['Returns'];
+                    on_duty_count: number;
+                    medical_count: number;
+                }[];
+            };
+            resolve_medical_leave: {
+                Args: {
+                    p_request_id: string;
+                    p_action: 'approved' | 'rejected';
+                    p_response?: string | null;
                 };
+                Returns: number;
+            };
+            verify_attendance_statement: {
+                Args: {
+                    p_code: string;
+                };
+                Returns: {
+                    verification_code: string;
+                    student_name: string;
+                    department: string | null;
+                    semester_name: string | null;
+                    summary: StatementSubjectLine[];
+                    issued_at: string;
+                }[];
+            };
+            create_timetable_template: {
+                Args: {
+                    p_subject_id: string;
+                    p_weekday: number;
+                    p_start_time: string;
+                    p_end_time: string;
+                    p_venue?: string | null;
+                    p_session_type?: 'lecture' | 'lab' | 'tutorial';
+                    p_valid_from?: string | null;
+                    p_valid_until?: string | null;
+                };
+                Returns: string;
+            };
+            edit_class_session: {
+                Args: {
+                    p_session_id: string;
+                    p_scope: 'this' | 'following';
+                    p_scheduled_date?: string | null;
+                    p_start_time?: string | null;
+                    p_end_time?: string | null;
+                    p_venue?: string | null;
+                    p_session_type?: 'lecture' | 'lab' | 'tutorial' | null;
+                    p_weekday?: number | null;
+                };
+                Returns: number;
+            };
+            delete_timetable_template: {
+                Args: {
+                    p_template_id: string;
+                };
+                Returns: number;
+            };
+            rotate_calendar_feed_token: {
+                Args: Record<string, never>;
+                Returns: string;
+            };
+            import_class_sessions: {
+                Args: {
+                    p_creates?: {
+                        subject_id: string;
+                        scheduled_date: string;
+                        start_time: string;
+                        end_time: string;
+                        venue: string | null;
+                        session_type: 'lecture' | 'lab' | 'tutorial';
+                    }[];
+                    p_updates?: {
+                        id: string;
+                        scheduled_date: string;
+                        start_time: string;
+                        end_time: string;
+                        venue: string | null;
+                        session_type: 'lecture' | 'lab' | 'tutorial';
+                    }[];
+                    p_cancels?: string[];
+                };
+                Returns: { created: number; updated: number; cancelled: number };
+            };
+            declare_holiday: {
+                Args: {
+                    p_semester_id: string;
+                    p_date: string;
+                    p_name: string;
+                };
+                Returns: { holiday_id: string; cancelled: number; kept: number };
+            };
+            remove_holiday: {
+                Args: {
+                    p_holiday_id: string;
+                };
+                Returns: number;
+            };
+            schedule_makeup_session: {
+                Args: {
+                    p_cancelled_session_id: string;
+                    p_scheduled_date: string;
+                    p_start_time: string;
+                    p_end_time: string;
+                    p_venue?: string | null;
+                };
+                Returns: string;
+            };
+            reschedule_class_session: {
+                Args: {
+                    p_session_id: string;
+                    p_scheduled_date: string;
+                    p_start_time: string;
+                    p_end_time: string;
+                    p_venue?: string | null;
+                    p_reason?: string | null;
+                };
+                Returns: undefined;
+            };
+            check_session_clashes: {
+                Args: {
+                    p_sessions: {
+                        subject_id: string;
+                        scheduled_date: string;
+                        start_time: string;
+                        end_time: string;
+                        venue: string | null;
+                    }[];
+                    p_exclude?: string[];
+                };
+                Returns: {
+                    idx: number;
+                    clash_type: 'student' | 'faculty' | 'venue';
+                    session_id: string;
+                    subject_id: string;
+                    subject_code: string;
+                    subject_name: string;
+                    scheduled_date: string;
+                    start_time: string;
+                    end_time: string;
+                    venue: string | null;
+                    shared_students: number | null;
+                }[];
+            };
+            get_semester_clashes: {
+                Args: {
+                    p_semester_id?: string | null;
+                };
+                Returns: {
+                    scheduled_date: string;
+                    session_a: string;
+                    subject_a: string;
+                    start_a: string;
+                    end_a: string;
+                    venue_a: string | null;
+                    session_b: string;
+                    subject_b: string;
+                    start_b: string;
+                    end_b: string;
+                    venue_b: string | null;
+                    clash_types: ('student' | 'faculty' | 'venue')[];
+                    shared_students: number;
+                }[];
+            };
+            review_session_correction: {
+                Args: {
+                    p_correction_id: string;
+                    p_accept: boolean;
+                    p_note?: string | null;
+                };
+                Returns: undefined;
+            };
+            resolve_venue: {
+                Args: {
+                    p_text: string;
+                };
+                Returns: string | null;
+            };
+            get_venue_bookings: {
+                Args: {
+                    p_venue_id: string;
+                    p_from: string;
+                    p_to: string;
+                    p_timezone?: string;
+                };
+                Returns: {
+                    kind: 'session' | 'event';
+                    booking_id: string;
+                    title: string;
+                    detail: string | null;
+                    starts_at: string;
+                    ends_at: string;
+                    conflicts: string[];
+                }[];
+            };
+            can_mark_session: {
+                Args: {
+                    p_session_id: string;
+                };
+                Returns: boolean;
+            };
+            assign_session_substitute: {
+                Args: {
+                    p_session_id: string;
+                    p_substitute_id: string;
+                    p_reason?: string | null;
+                };
+                Returns: string;
+            };
+            revoke_session_substitute: {
+                Args: {
+                    p_session_id: string;
+                };
+                Returns: undefined;
+            };
+            open_class_check_in: {
+                Args: {
+                    p_session_id: string;
+                    p_rotate_seconds?: number;
+                };
+                Returns: undefined;
+            };
+            get_class_check_in: {
+                Args: {
+                    p_session_id: string;
+                };
+                Returns: {
+                    is_open: boolean;
+                    code: string | null;
+                    seconds_left: number | null;
+                    rotate_seconds: number | null;
+                    checked_in: number;
+                    marked: number;
+                    enrolled: number;
+                };
+            };
+            class_check_in: {
+                Args: {
+                    p_code: string;
+                    p_session_id?: string | null;
+                };
+                Returns: {
+                    result: 'checked_in' | 'already_marked' | 'invalid_code';
+                    session_id?: string;
+                    subject_code?: string;
+                    subject_name?: string;
+                    status?: 'present' | 'absent' | 'on_duty' | 'medical';
+                };
+            };
+            close_class_check_in: {
+                Args: {
+                    p_session_id: string;
+                    p_mark_absent?: boolean;
+                };
+                Returns: number;
+            };
+            check_in_to_event: {
+                Args: {
+                    p_token: string;
+                    p_lat: number;
+                    p_lng: number;
+                    p_accuracy_m: number;
+                    p_override_reason?: string | null;
+                };
+                Returns: {
+                    registration_id: string;
+                    event_id: string;
+                    verified: boolean;
+                    distance_m: number | null;
+                };
+            };
+            search_attendance_audit: {
+                Args: {
+                    p_query?: string | null;
+                    p_source?: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system' | null;
+                    p_from?: string | null;
+                    p_to?: string | null;
+                    p_limit?: number;
+                    p_offset?: number;
+                };
+                Returns: {
+                    id: string;
+                    changed_at: string;
+                    action: 'insert' | 'update' | 'delete';
+                    old_status: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    new_status: 'present' | 'absent' | 'on_duty' | 'medical' | null;
+                    source: 'faculty_ui' | 'od_approval' | 'medical_leave' | 'import' | 'self_check_in' | 'system';
+                    actor_name: string | null;
+                    student_name: string | null;
+                    student_email: string | null;
+                    subject_code: string | null;
+                    subject_name: string | null;
+                    scheduled_date: string | null;
+                    start_time: string | null;
+                }[];
             };
         };
     };
@@ -391,3 +1307,29 @@ export type AttendanceRecord = Tables<'attendance_records'>;
 export type EventRegistration = Tables<'event_registrations'>;
 export type OnDutyRequest = Tables<'on_duty_requests'>;
 export type AcademicSemester = Tables<'academic_semesters'>;
+export type SessionTypeWeight = Tables<'session_type_weights'>;
+export type MedicalLeaveRequest = Tables<'medical_leave_requests'>;
+export type AttendanceAlert = Tables<'attendance_alerts'>;
+export type AttendanceStatement = Tables<'attendance_statements'>;
+export type AcademicHoliday = Tables<'academic_holidays'>;
+export type TimetableTemplate = Tables<'timetable_templates'>;
+export type CalendarFeedToken = Tables<'calendar_feed_tokens'>;
+export type TimetableNotification = Tables<'timetable_notifications'>;
+export type PersonalTimetableEntry = Tables<'personal_timetable_entries'>;
+export type SessionCorrection = Tables<'session_corrections'>;
+export type Venue = Tables<'venues'>;
+export type SessionSubstitution = Tables<'session_substitutions'>;
+export type AttendanceAudit = Tables<'attendance_audit'>;
+
+// ── JSON column shapes ──────────────────────────────────────
+
+// One subject row frozen into attendance_statements.summary
+export interface StatementSubjectLine {
+    subject_code: string;
+    subject_name: string;
+    held: number;
+    attended: number;
+    on_duty: number;
+    medical: number;
+    pct: number;
+}
@@ -0,0 +1,343 @@
+// supabase/functions/attendance-statement/index.ts
+// Deno Edge Function — issues a signed-off attendance statement PDF for the calling student
+// Records the statement (with a verification code) so it can be checked on /verify/:code
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+
+// ── CORS ────────────────────────────────────────────────────
+
+const CORS_HEADERS: Record<string, string> = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers":
+        "Authorization, Content-Type, x-client-info, apikey",
+};
+
+function corsResponse(body: string, status = 200) {
+    return new Response(body, {
+        status,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+    });
+}
+
+// ── Constants ───────────────────────────────────────────────
+
+const PAGE_W = 595; // A4 portrait, points
+const PAGE_H = 842;
+const MARGIN = 48;
+// No 0/O/1/I to keep codes readable when typed back in
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// ── Types ───────────────────────────────────────────────────
+
+interface RequestBody {
+    semester_id?: string | null;
+}
+
+interface SubjectSummary {
+    subject_id: string;
+    subject_name: string;
+    subject_code: string;
+    buffer: {
+        present_count: number;
+        held_count: number;
+        current_pct: number;
+        attendance_threshold: number;
+        medical_policy: "exclude_from_held" | "count_as_present";
+    };
+    on_duty_count: number;
+    medical_count: number;
+}
+
+// ── Helpers ─────────────────────────────────────────────────
+
+function generateCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    const chars = [...bytes].map((b) => CODE_ALPHABET[b % CODE_ALPHABET.length]);
+    return [0, 4, 8].map((i) => chars.slice(i, i + 4).join("")).join("-");
+}
+
+/** Standard PDF fonts only cover WinAnsi; replace anything else */
+function safe(text: string | null | undefined): string {
+    return (text ?? "").replace(/[^\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2022]/g, "?");
+}
+
+function fmtNum(n: number): string {
+    return Number.isInteger(n) ? String(n) : n.toFixed(1);
+}
+
+function fmtDate(d: string | Date): string {
+    return new Date(d).toLocaleDateString("en-GB", {
+        day: "2-digit",
+        month: "short",
+        year: "numeric",
+    });
+}
+
+function truncate(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+    let t = text;
+    while (t.length > 1 && font.widthOfTextAtSize(`${t}...`, size) > maxWidth) t = t.slice(0, -1);
+    return `${t}...`;
+}
+
+// ── PDF builder ─────────────────────────────────────────────
+
+async function buildStatementPdf(opts: {
+    institute: string;
+    student: { full_name: string; email: string; department: string | null };
+    semester: { name: string; start_date: string; end_date: string } | null;
+    subjects: SubjectSummary[];
+    code: string;
+    verifyUrl: string | null;
+    issuedAt: Date;
+}): Promise<Uint8Array> {
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const page: PDFPage = pdf.addPage([PAGE_W, PAGE_H]);
+    const ink = rgb(0.12, 0.14, 0.2);
+    const muted = rgb(0.45, 0.47, 0.52);
+    const accent = rgb(0.26, 0.22, 0.79);
+
+    let y = PAGE_H - MARGIN;
+    const text = (s: string, x: number, size = 10, f: PDFFont = font, color = ink) =>
+        page.drawText(safe(s), { x, y, size, font: f, color });
+
+    // Institute header
+    text(opts.institute, MARGIN, 18, bold, accent);
+    y -= 22;
+    text("Attendance Statement", MARGIN, 13, bold);
+    y -= 10;
+    page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: PAGE_W - MARGIN, y },
+        thickness: 1,
+        color: accent,
+    });
+    y -= 24;
+
+    // Student + semester block
+    const rows: [string, string][] = [
+        ["Student", opts.student.full_name],
+        ["Email", opts.student.email],
+        ["Department", opts.student.department ?? "-"],
+        [
+            "Semester",
+            opts.semester
+                ? `${opts.semester.name} (${fmtDate(opts.semester.start_date)} - ${fmtDate(opts.semester.end_date)})`
+                : "-",
+        ],
+        ["Issued", fmtDate(opts.issuedAt)],
+    ];
+    for (const [label, value] of rows) {
+        text(label, MARGIN, 10, bold, muted);
+        text(value, MARGIN + 90, 10);
+        y -= 16;
+    }
+    y -= 14;
+
+    // Subject table
+    const cols = [
+        { label: "Code", x: MARGIN, w: 60 },
+        { label: "Subject", x: MARGIN + 62, w: 190 },
+        { label: "Held", x: MARGIN + 262, w: 45 },
+        { label: "Attended", x: MARGIN + 312, w: 55 },
+        { label: "OD", x: MARGIN + 372, w: 35 },
+        { label: "Medical", x: MARGIN + 412, w: 45 },
+        { label: "%", x: MARGIN + 462, w: 37 },
+    ];
+
+    page.drawRectangle({
+        x: MARGIN - 4,
+        y: y - 5,
+        width: PAGE_W - 2 * MARGIN + 8,
+        height: 18,
+        color: rgb(0.94, 0.94, 0.98),
+    });
+    for (const c of cols) text(c.label, c.x, 9, bold, muted);
+    y -= 20;
+
+    for (const s of opts.subjects) {
+        const b = s.buffer;
+        const cells = [
+            s.subject_code,
+            truncate(safe(s.subject_name), font, 9, cols[1].w),
+            fmtNum(b.held_count),
+            fmtNum(b.present_count),
+            fmtNum(s.on_duty_count),
+            fmtNum(s.medical_count),
+            `${(b.current_pct * 100).toFixed(1)}%`,
+        ];
+        cells.forEach((v, i) => {
+            const low = i === 6 && b.current_pct < b.attendance_threshold;
+            text(v, cols[i].x, 9, low ? bold : font, low ? rgb(0.8, 0.1, 0.1) : ink);
+        });
+        y -= 16;
+        if (y < MARGIN + 120) break; // one page is plenty for a semester
+    }
+
+    if (opts.subjects.length === 0) {
+        text("No enrolled subjects for this semester.", MARGIN, 10, font, muted);
+        y -= 16;
+    }
+
+    // Notes
+    y -= 12;
+    const policy = opts.subjects[0]?.buffer.medical_policy ?? "exclude_from_held";
+    const notes = [
+        "Attended includes approved on-duty (OD) sessions.",
+        policy === "count_as_present"
+            ? "Approved medical leave is counted as attended."
+            : "Approved medical leave is excluded from classes held.",
+        `Minimum attendance requirement: ${Math.round((opts.subjects[0]?.buffer.attendance_threshold ?? 0.75) * 100)}%.`,
+    ];
+    for (const n of notes) {
+        text(`- ${n}`, MARGIN, 8.5, font, muted);
+        y -= 12;
+    }
+
+    // Verification footer
+    y = MARGIN + 40;
+    page.drawLine({
+        start: { x: MARGIN, y: y + 16 },
+        end: { x: PAGE_W - MARGIN, y: y + 16 },
+        thickness: 0.5,
+        color: muted,
+    });
+    text("Verification code", MARGIN, 9, bold, muted);
+    text(opts.code, MARGIN + 100, 12, bold, accent);
+    y -= 16;
+    text(
+        opts.verifyUrl
+            ? `Verify this statement at ${opts.verifyUrl}/${opts.code}`
+            : "Verify this statement on the CampusAttend verification page.",
+        MARGIN,
+        8.5,
+        font,
+        muted,
+    );
+
+    return await pdf.save();
+}
+
+// ── Main handler ────────────────────────────────────────────
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: CORS_HEADERS });
+    }
+
+    if (req.method !== "POST") {
+        return corsResponse(JSON.stringify({ error: "Method not allowed" }), 405);
+    }
+
+    try {
+        const body: RequestBody = await req.json().catch(() => ({}));
+        const authHeader = req.headers.get("Authorization");
+        if (!authHeader) {
+            return corsResponse(JSON.stringify({ error: "Missing Authorization header" }), 401);
+        }
+
+        const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+        const ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+        const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+        if (!SUPABASE_URL || !ANON_KEY || !SERVICE_ROLE_KEY) {
+            return corsResponse(
+                JSON.stringify({ error: "Supabase credentials are not configured" }),
+                500,
+            );
+        }
+
+        // Read as the caller so RLS / RPC guards apply
+        const userClient = createClient(SUPABASE_URL, ANON_KEY, {
+            global: { headers: { Authorization: authHeader } },
+            auth: { persistSession: false },
+        });
+
+        const { data: { user }, error: userErr } = await userClient.auth.getUser();
+        if (userErr || !user) {
+            return corsResponse(JSON.stringify({ error: "Not authenticated" }), 401);
+        }
+
+        const { data: profile, error: profileErr } = await userClient
+            .from("profiles")
+            .select("full_name, email, department")
+            .eq("id", user.id)
+            .single();
+        if (profileErr) throw profileErr;
+
+        let semesterQuery = userClient
+            .from("academic_semesters")
+            .select("id, name, start_date, end_date");
+        semesterQuery = body.semester_id
+            ? semesterQuery.eq("id", body.semester_id)
+            : semesterQuery.eq("is_current", true);
+        const { data: semester } = await semesterQuery.limit(1).maybeSingle();
+
+        const { data: summary, error: summaryErr } = await userClient.rpc(
+            "get_student_attendance_summary",
+            { p_student_id: user.id, p_semester_id: semester?.id ?? null },
+        );
+        if (summaryErr) throw summaryErr;
+        const subjects = (summary ?? []) as SubjectSummary[];
+
+        // Record the statement with a fresh code (retry on the rare collision)
+        const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+            auth: { persistSession: false },
+        });
+        const issuedAt = new Date();
+        let code = "";
+        for (let attempt = 0; attempt < 3; attempt++) {
+            code = generateCode();
+            const { error } = await admin.from("attendance_statements").insert({
+                verification_code: code,
+                student_id: user.id,
+                academic_semester_id: semester?.id ?? null,
+                summary: subjects.map((s) => ({
+                    subject_code: s.subject_code,
+                    subject_name: s.subject_name,
+                    held: s.buffer.held_count,
+                    attended: s.buffer.present_count,
+                    on_duty: s.on_duty_count,
+                    medical: s.medical_count,
+                    pct: s.buffer.current_pct,
+                })),
+                issued_at: issuedAt.toISOString(),
+            });
+            if (!error) break;
+            if (error.code !== "23505" || attempt === 2) throw error;
+        }
+
+        const pdfBytes = await buildStatementPdf({
+            institute: Deno.env.get("INSTITUTE_NAME") ?? "CampusAttend",
+            student: profile,
+            semester,
+            subjects,
+            code,
+            // Base URL of the verification page, e.g. https://app.example.edu/verify
+            verifyUrl: Deno.env.get("STATEMENT_VERIFY_URL")?.replace(/\/+$/, "") || null,
+            issuedAt,
+        });
+
+        // octet-stream so supabase-js hands the client a Blob
+        return new Response(pdfBytes, {
+            headers: {
+                ...CORS_HEADERS,
+                "Content-Type": "application/octet-stream",
+                "Content-Disposition": `attachment; filename="attendance-statement-${code}.pdf"`,
+            },
+        });
+    } catch (err) {
+        console.error("attendance-statement error:", err);
+        return corsResponse(
+            JSON.stringify({
+                error: "Internal server error",
+                message: err instanceof Error ? err.message : String(err),
+            }),
+            500,
+        );
+    }
+});
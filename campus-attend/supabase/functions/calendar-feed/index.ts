@@ -0,0 +1,333 @@
+// supabase/functions/calendar-feed/index.ts
+// Deno Edge Function — per-user iCalendar (.ics) subscription feed
+// GET ?token=<calendar_feed_tokens.token>; no JWT since calendar apps can't send one
+// Emits class sessions (enrolled, taught or covered as a substitute) and registered events
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ── CORS ────────────────────────────────────────────────────
+
+const CORS_HEADERS: Record<string, string> = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Allow-Headers":
+        "Authorization, Content-Type, x-client-info, apikey",
+};
+
+function corsResponse(body: string, status = 200) {
+    return new Response(body, {
+        status,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+    });
+}
+
+// ── Constants ───────────────────────────────────────────────
+
+// Class sessions are stored as local date + time in this zone; the feed
+// converts them to UTC so no VTIMEZONE definition is needed
+const TIMEZONE = Deno.env.get("CALENDAR_TIMEZONE") ?? "Asia/Kolkata";
+// How far back the feed reaches; everything upcoming is included
+const HISTORY_DAYS = 30;
+
+const TYPE_LABEL: Record<string, string> = {
+    lecture: "Lecture",
+    lab: "Lab",
+    tutorial: "Tutorial",
+};
+
+// ── Types ───────────────────────────────────────────────────
+
+interface SessionRow {
+    id: string;
+    scheduled_date: string;
+    start_time: string;
+    end_time: string;
+    venue: string | null;
+    session_type: string;
+    is_cancelled: boolean;
+    revision: number;
+    updated_at: string;
+    subject: { name: string; code: string } | null;
+}
+
+interface RegistrationRow {
+    check_in_time: string | null;
+    event: {
+        id: string;
+        name: string;
+        description: string | null;
+        venue: string | null;
+        start_datetime: string;
+        end_datetime: string;
+        status: string;
+        revision: number;
+        updated_at: string;
+    } | null;
+}
+
+// ── iCalendar helpers ───────────────────────────────────────
+
+function escapeText(s: string): string {
+    return s
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines at 75 octets as RFC 5545 requires */
+function fold(line: string): string {
+    const bytes = new TextEncoder().encode(line);
+    if (bytes.length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let size = 0;
+    for (const ch of line) {
+        const len = new TextEncoder().encode(ch).length;
+        if (size + len > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = "";
+            size = 0;
+        }
+        current += ch;
+        size += len;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+/** ISO timestamp → 20260105T040000Z */
+function utcStamp(iso: string | Date): string {
+    return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Offset of TIMEZONE from UTC at the given instant, in ms */
+function zoneOffset(at: number): number {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat("en-US", {
+            timeZone: TIMEZONE,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+        })
+            .formatToParts(at)
+            .map((p) => [p.type, p.value]),
+    );
+    const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return wall - Math.floor(at / 1000) * 1000;
+}
+
+/** 2026-01-05 + 09:30:00 in TIMEZONE → 20260105T040000Z */
+function sessionStamp(date: string, time: string): string {
+    const [y, m, d] = date.split("-").map(Number);
+    const [hh, mm, ss] = time.split(":").map(Number);
+    const wall = Date.UTC(y, m - 1, d, hh, mm, ss || 0);
+    // Second pass puts times next to a DST change on the right side
+    const first = wall - zoneOffset(wall);
+    return utcStamp(new Date(wall - zoneOffset(first)));
+}
+
+function sessionEvent(s: SessionRow, dtstamp: string): string[] {
+    const title = s.subject
+        ? `${s.subject.code} ${s.subject.name} (${TYPE_LABEL[s.session_type] ?? s.session_type})`
+        : "Class";
+    return [
+        "BEGIN:VEVENT",
+        `UID:session-${s.id}@campusattend`,
+        `DTSTAMP:${dtstamp}`,
+        `SEQUENCE:${s.revision}`,
+        `LAST-MODIFIED:${utcStamp(s.updated_at)}`,
+        `DTSTART:${sessionStamp(s.scheduled_date, s.start_time)}`,
+        `DTEND:${sessionStamp(s.scheduled_date, s.end_time)}`,
+        `SUMMARY:${escapeText(title)}`,
+        ...(s.venue ? [`LOCATION:${escapeText(s.venue)}`] : []),
+        `STATUS:${s.is_cancelled ? "CANCELLED" : "CONFIRMED"}`,
+        "CATEGORIES:Class",
+        "END:VEVENT",
+    ];
+}
+
+function registrationEvent(r: RegistrationRow, dtstamp: string): string[] {
+    const e = r.event!;
+    return [
+        "BEGIN:VEVENT",
+        `UID:event-${e.id}@campusattend`,
+        `DTSTAMP:${dtstamp}`,
+        `SEQUENCE:${e.revision}`,
+        `LAST-MODIFIED:${utcStamp(e.updated_at)}`,
+        `DTSTART:${utcStamp(e.start_datetime)}`,
+        `DTEND:${utcStamp(e.end_datetime)}`,
+        `SUMMARY:${escapeText(e.name)}`,
+        ...(e.venue ? [`LOCATION:${escapeText(e.venue)}`] : []),
+        ...(e.description ? [`DESCRIPTION:${escapeText(e.description)}`] : []),
+        `STATUS:${e.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+        `CATEGORIES:${r.check_in_time ? "Event (checked in)" : "Event"}`,
+        "END:VEVENT",
+    ];
+}
+
+// ── Main handler ────────────────────────────────────────────
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: CORS_HEADERS });
+    }
+
+    if (req.method !== "GET") {
+        return corsResponse(JSON.stringify({ error: "Method not allowed" }), 405);
+    }
+
+    try {
+        const token = new URL(req.url).searchParams.get("token");
+        if (!token) {
+            return corsResponse(JSON.stringify({ error: "Missing token" }), 401);
+        }
+
+        const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+        const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+        if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+            return corsResponse(
+                JSON.stringify({ error: "Supabase service credentials are not configured" }),
+                500,
+            );
+        }
+
+        const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+            auth: { persistSession: false },
+        });
+
+        // ── 1. Resolve the token to a user ──
+        const { data: feed } = await supabase
+            .from("calendar_feed_tokens")
+            .select("user_id, profile:profiles!user_id ( role, full_name )")
+            .eq("token", token)
+            .maybeSingle();
+
+        if (!feed) {
+            return corsResponse(JSON.stringify({ error: "Invalid or rotated token" }), 404);
+        }
+
+        const userId = feed.user_id as string;
+        const profile = feed.profile as unknown as { role: string; full_name: string } | null;
+
+        // ── 2. Subjects: taught (faculty) or enrolled (everyone else) ──
+        let subjectIds: string[];
+        if (profile?.role === "faculty") {
+            const { data, error } = await supabase
+                .from("subjects")
+                .select("id")
+                .eq("faculty_id", userId);
+            if (error) throw error;
+            subjectIds = (data ?? []).map((s) => s.id as string);
+        } else {
+            const { data, error } = await supabase
+                .from("student_subjects")
+                .select("subject_id")
+                .eq("student_id", userId);
+            if (error) throw error;
+            subjectIds = (data ?? []).map((e) => e.subject_id as string).filter(Boolean);
+        }
+
+        const since = new Date(Date.now() - HISTORY_DAYS * 86_400_000);
+        const sinceDate = since.toISOString().slice(0, 10);
+
+        // ── 3. Class sessions, cancelled ones included ──
+        const SESSION_COLUMNS = `
+          id, scheduled_date, start_time, end_time, venue, session_type, is_cancelled,
+          revision, updated_at,
+          subject:subjects!subject_id ( name, code )
+        `;
+        let sessions: SessionRow[] = [];
+        if (subjectIds.length > 0) {
+            const { data, error } = await supabase
+                .from("class_sessions")
+                .select(SESSION_COLUMNS)
+                .in("subject_id", subjectIds)
+                .gte("scheduled_date", sinceDate)
+                .order("scheduled_date");
+            if (error) throw error;
+            sessions = (data as unknown as SessionRow[]) ?? [];
+        }
+
+        // Faculty also get the sessions they cover for a colleague
+        if (profile?.role === "faculty") {
+            const { data: subs, error: subErr } = await supabase
+                .from("session_substitutions")
+                .select("class_session_id")
+                .eq("substitute_faculty_id", userId)
+                .is("revoked_at", null);
+            if (subErr) throw subErr;
+
+            const known = new Set(sessions.map((s) => s.id));
+            const coveredIds = (subs ?? [])
+                .map((r) => r.class_session_id as string)
+                .filter((id) => !known.has(id));
+            if (coveredIds.length > 0) {
+                const { data, error } = await supabase
+                    .from("class_sessions")
+                    .select(SESSION_COLUMNS)
+                    .in("id", coveredIds)
+                    .gte("scheduled_date", sinceDate);
+                if (error) throw error;
+                sessions = [...sessions, ...((data as unknown as SessionRow[]) ?? [])]
+                    .sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date));
+            }
+        }
+
+        // ── 4. Registered / checked-in events ──
+        const { data: regs, error: regErr } = await supabase
+            .from("event_registrations")
+            .select(`
+        check_in_time,
+        event:events!event_id (
+          id, name, description, venue, start_datetime, end_datetime, status,
+          revision, updated_at
+        )
+      `)
+            .eq("student_id", userId);
+        if (regErr) throw regErr;
+        const registrations = ((regs as unknown as RegistrationRow[]) ?? [])
+            .filter((r) => r.event && new Date(r.event.end_datetime) >= since);
+
+        // ── 5. Build the calendar ──
+        const dtstamp = utcStamp(new Date());
+        const lines = [
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//CampusAttend//Timetable Feed//EN",
+            "CALSCALE:GREGORIAN",
+            "METHOD:PUBLISH",
+            `X-WR-CALNAME:${escapeText(`CampusAttend${profile?.full_name ? ` – ${profile.full_name}` : ""}`)}`,
+            `X-WR-TIMEZONE:${TIMEZONE}`,
+            "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+            "X-PUBLISHED-TTL:PT1H",
+            ...sessions.flatMap((s) => sessionEvent(s, dtstamp)),
+            ...registrations.flatMap((r) => registrationEvent(r, dtstamp)),
+            "END:VCALENDAR",
+        ];
+
+        return new Response(lines.map(fold).join("\r\n") + "\r\n", {
+            headers: {
+                ...CORS_HEADERS,
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": 'inline; filename="campusattend.ics"',
+                "Cache-Control": "no-cache",
+            },
+        });
+    } catch (err) {
+        console.error("calendar-feed error:", err);
+        return corsResponse(
+            JSON.stringify({
+                error: "Internal server error",
+                message: err instanceof Error ? err.message : String(err),
+            }),
+            500,
+        );
+    }
+});
@@ -0,0 +1,138 @@
+// supabase/functions/evaluate-attendance/index.ts
+// Deno Edge Function — runs the early-warning evaluation (evaluate_attendance_alerts)
+// Called by faculty clients right after attendance is marked for a subject
+// (the subject's faculty, a substitute or an admin; only admins may evaluate
+// every subject). The nightly full run is scheduled with pg_cron (see 008_attendance_alerts.sql)
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ── CORS ────────────────────────────────────────────────────
+
+const CORS_HEADERS: Record<string, string> = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers":
+        "Authorization, Content-Type, x-client-info, apikey",
+};
+
+function corsResponse(body: string, status = 200) {
+    return new Response(body, {
+        status,
+        headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+    });
+}
+
+// ── Types ───────────────────────────────────────────────────
+
+interface RequestBody {
+    /** Limit the evaluation to one subject; omit for every enrolment */
+    subject_id?: string;
+}
+
+// ── Main handler ────────────────────────────────────────────
+
+serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: CORS_HEADERS });
+    }
+
+    if (req.method !== "POST") {
+        return corsResponse(JSON.stringify({ error: "Method not allowed" }), 405);
+    }
+
+    try {
+        const body: RequestBody = await req.json().catch(() => ({}));
+        const authHeader = req.headers.get("Authorization");
+        if (!authHeader) {
+            return corsResponse(JSON.stringify({ error: "Missing Authorization header" }), 401);
+        }
+
+        const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+        const ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+        const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+        if (!SUPABASE_URL || !ANON_KEY || !SERVICE_ROLE_KEY) {
+            return corsResponse(
+                JSON.stringify({ error: "Supabase credentials are not configured" }),
+                500,
+            );
+        }
+
+        const userClient = createClient(SUPABASE_URL, ANON_KEY, {
+            global: { headers: { Authorization: authHeader } },
+            auth: { persistSession: false },
+        });
+
+        const { data: { user }, error: userErr } = await userClient.auth.getUser();
+        if (userErr || !user) {
+            return corsResponse(JSON.stringify({ error: "Not authenticated" }), 401);
+        }
+
+        // Evaluation itself is service-role only, so check the caller here
+        const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+            auth: { persistSession: false },
+        });
+
+        const { data: profile, error: profileErr } = await admin
+            .from("profiles")
+            .select("role")
+            .eq("id", user.id)
+            .maybeSingle();
+        if (profileErr) throw profileErr;
+        const isAdmin = profile?.role === "admin";
+
+        if (!body.subject_id) {
+            if (!isAdmin) {
+                return corsResponse(
+                    JSON.stringify({ error: "Only admins can evaluate every subject" }),
+                    403,
+                );
+            }
+        } else if (!isAdmin) {
+            const { data: subject, error: subjectErr } = await admin
+                .from("subjects")
+                .select("faculty_id")
+                .eq("id", body.subject_id)
+                .maybeSingle();
+            if (subjectErr) throw subjectErr;
+            if (!subject) {
+                return corsResponse(JSON.stringify({ error: "Subject not found" }), 404);
+            }
+
+            // The subject's faculty, or a substitute covering one of its sessions
+            let allowed = subject.faculty_id === user.id;
+            if (!allowed) {
+                const { count, error: subErr } = await admin
+                    .from("session_substitutions")
+                    .select("id, class_sessions!inner ( subject_id )", { count: "exact", head: true })
+                    .eq("substitute_faculty_id", user.id)
+                    .is("revoked_at", null)
+                    .eq("class_sessions.subject_id", body.subject_id);
+                if (subErr) throw subErr;
+                allowed = (count ?? 0) > 0;
+            }
+            if (!allowed) {
+                return corsResponse(
+                    JSON.stringify({ error: "Only the subject's faculty or an admin can evaluate it" }),
+                    403,
+                );
+            }
+        }
+
+        const { data, error } = await admin.rpc("evaluate_attendance_alerts", {
+            p_subject_id: body.subject_id ?? null,
+        });
+        if (error) throw error;
+
+        return corsResponse(JSON.stringify({ alerts_created: data ?? 0 }));
+    } catch (err) {
+        console.error("evaluate-attendance error:", err);
+        return corsResponse(
+            JSON.stringify({
+                error: "Internal server error",
+                message: err instanceof Error ? err.message : String(err),
+            }),
+            500,
+        );
+    }
+});
@@ -0,0 +1,54 @@
+-- ============================================================
+-- 003_attendance_summary.sql  –  Batched per-student attendance summary
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: get_student_attendance_summary
+-- ============================================================
+-- Returns one row per enrolled subject:
+--   { subject_id, subject_name, subject_code, buffer (JSONB from
+--     calculate_attendance_buffer), on_duty_count, medical_count }
+-- Replaces the per-subject RPC + count round trips on the client.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_student_attendance_summary(
+    p_student_id UUID
+)
+RETURNS TABLE (
+    subject_id     UUID,
+    subject_name   TEXT,
+    subject_code   TEXT,
+    buffer         JSONB,
+    on_duty_count  INT,
+    medical_count  INT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        s.id,
+        s.name,
+        s.code,
+        calculate_attendance_buffer(p_student_id, s.id),
+        COUNT(ar.id) FILTER (WHERE ar.status = 'on_duty')::INT,
+        COUNT(ar.id) FILTER (WHERE ar.status = 'medical')::INT
+    FROM student_subjects ss
+    JOIN subjects s ON s.id = ss.subject_id
+    LEFT JOIN class_sessions cs ON cs.subject_id = s.id
+    LEFT JOIN attendance_records ar
+           ON ar.class_session_id = cs.id
+          AND ar.student_id = p_student_id
+    WHERE ss.student_id = p_student_id
+      -- Students may only read their own summary; faculty / admin can read any
+      AND (
+          p_student_id = auth.uid()
+          OR EXISTS (
+              SELECT 1 FROM profiles AS p
+              WHERE p.id = auth.uid() AND p.role IN ('faculty', 'admin')
+          )
+      )
+    GROUP BY s.id, s.name, s.code
+    ORDER BY s.code;
+$$;
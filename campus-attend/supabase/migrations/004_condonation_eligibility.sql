@@ -0,0 +1,143 @@
+-- ============================================================
+-- 004_condonation_eligibility.sql  –  Graded eligibility in calculate_attendance_buffer
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: calculate_attendance_buffer  (replaces 002 version)
+-- ============================================================
+-- Returns JSONB: { present_count, held_count, total_planned,
+--                  current_pct, buffer_classes, projected_pct, is_safe,
+--                  attendance_threshold, condonation_threshold,
+--                  eligibility, classes_to_threshold, classes_to_condonation }
+--
+-- eligibility:
+--   'safe'        current_pct >= attendance_threshold
+--   'condonable'  condonation_threshold <= current_pct < attendance_threshold
+--   'detained'    current_pct < condonation_threshold
+--
+-- classes_to_*: consecutive classes the student must attend to climb
+-- back to that threshold (0 when already there).
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_attendance_buffer(
+    p_student_id UUID,
+    p_subject_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_present_count          INT;
+    v_held_count             INT;
+    v_total_planned          INT;
+    v_current_pct            NUMERIC(5,4);
+    v_threshold              NUMERIC(4,2);
+    v_condonation            NUMERIC(4,2);
+    v_remaining              INT;
+    v_buffer_classes         INT;
+    v_projected_pct          NUMERIC(5,4);
+    v_is_safe                BOOLEAN;
+    v_eligibility            TEXT;
+    v_to_threshold           INT;
+    v_to_condonation         INT;
+BEGIN
+    -- Get both thresholds from the current semester
+    SELECT attendance_threshold, condonation_threshold
+    INTO v_threshold, v_condonation
+    FROM academic_semesters
+    WHERE is_current = true
+    LIMIT 1;
+
+    -- Fallbacks if no current semester is configured
+    IF v_threshold IS NULL THEN
+        v_threshold := 0.75;
+    END IF;
+    IF v_condonation IS NULL THEN
+        v_condonation := 0.65;
+    END IF;
+
+    -- Total classes planned for this subject
+    SELECT COALESCE(total_classes_planned, 0) INTO v_total_planned
+    FROM subjects
+    WHERE id = p_subject_id;
+
+    -- Classes actually held (not cancelled) so far
+    SELECT COUNT(*) INTO v_held_count
+    FROM class_sessions
+    WHERE subject_id = p_subject_id
+      AND is_cancelled = false
+      AND scheduled_date <= CURRENT_DATE;
+
+    -- Classes the student attended
+    SELECT COUNT(*) INTO v_present_count
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND ar.status IN ('present', 'on_duty');
+
+    -- Current attendance percentage
+    IF v_held_count > 0 THEN
+        v_current_pct := v_present_count::NUMERIC / v_held_count;
+    ELSE
+        v_current_pct := 1.0;
+    END IF;
+
+    -- Remaining classes = planned - held
+    v_remaining := GREATEST(v_total_planned - v_held_count, 0);
+
+    -- Buffer: how many remaining classes the student can skip and stay >= threshold
+    v_buffer_classes := GREATEST(
+        (v_present_count + v_remaining) - CEIL(v_threshold * v_total_planned)::INT,
+        0
+    );
+
+    -- Projected percentage if student attends all remaining classes
+    IF v_total_planned > 0 THEN
+        v_projected_pct := (v_present_count + v_remaining)::NUMERIC / v_total_planned;
+    ELSE
+        v_projected_pct := v_current_pct;
+    END IF;
+
+    -- Is the student currently safe?
+    v_is_safe := v_current_pct >= v_threshold;
+
+    -- Graded eligibility against institute rules
+    IF v_current_pct >= v_threshold THEN
+        v_eligibility := 'safe';
+    ELSIF v_current_pct >= v_condonation THEN
+        v_eligibility := 'condonable';
+    ELSE
+        v_eligibility := 'detained';
+    END IF;
+
+    -- Classes needed: (present + x) / (held + x) >= t  =>  x >= (t*held - present) / (1 - t)
+    -- NULL when the threshold is 100% and already missed (unreachable)
+    v_to_threshold := CASE
+        WHEN v_current_pct >= v_threshold THEN 0
+        ELSE CEIL((v_threshold * v_held_count - v_present_count) / NULLIF(1 - v_threshold, 0))::INT
+    END;
+    v_to_condonation := CASE
+        WHEN v_current_pct >= v_condonation THEN 0
+        ELSE CEIL((v_condonation * v_held_count - v_present_count) / NULLIF(1 - v_condonation, 0))::INT
+    END;
+
+    RETURN jsonb_build_object(
+        'present_count',          v_present_count,
+        'held_count',             v_held_count,
+        'total_planned',          v_total_planned,
+        'current_pct',            ROUND(v_current_pct, 4),
+        'buffer_classes',         v_buffer_classes,
+        'projected_pct',          ROUND(v_projected_pct, 4),
+        'is_safe',                v_is_safe,
+        'attendance_threshold',   v_threshold,
+        'condonation_threshold',  v_condonation,
+        'eligibility',            v_eligibility,
+        'classes_to_threshold',   v_to_threshold,
+        'classes_to_condonation', v_to_condonation
+    );
+END;
+$$;
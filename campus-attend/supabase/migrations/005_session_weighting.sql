@@ -0,0 +1,288 @@
+-- ============================================================
+-- 005_session_weighting.sql  –  Weighted contact hours for labs / tutorials
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. WEIGHTING MODE  (per semester)
+-- ────────────────────────────────────────────────────────────
+--   'unit'          every session counts as 1 (legacy behaviour)
+--   'session_type'  weight looked up in session_type_weights
+--   'duration'      weight = (end_time - start_time) in hours
+ALTER TABLE academic_semesters
+    ADD COLUMN weighting_mode TEXT NOT NULL DEFAULT 'unit'
+        CHECK (weighting_mode IN ('unit', 'session_type', 'duration'));
+
+-- ────────────────────────────────────────────────────────────
+-- 2. SESSION_TYPE_WEIGHTS
+-- ────────────────────────────────────────────────────────────
+-- subject_id NULL = institute-wide default for that session type;
+-- a row with subject_id set overrides the default for one subject.
+CREATE TABLE session_type_weights (
+    id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subject_id    UUID REFERENCES subjects(id) ON DELETE CASCADE,
+    session_type  TEXT NOT NULL CHECK (session_type IN ('lecture', 'lab', 'tutorial')),
+    weight        NUMERIC(4,2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+    UNIQUE NULLS NOT DISTINCT (subject_id, session_type)
+);
+
+INSERT INTO session_type_weights (subject_id, session_type, weight) VALUES
+    (NULL, 'lecture',  1),
+    (NULL, 'lab',      3),
+    (NULL, 'tutorial', 1);
+
+ALTER TABLE session_type_weights ENABLE ROW LEVEL SECURITY;
+
+-- All authenticated users can read weights
+CREATE POLICY "Authenticated users can view session weights"
+    ON session_type_weights FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- Only admins can manage weights
+CREATE POLICY "Admins can manage session weights"
+    ON session_type_weights FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+
+-- ============================================================
+-- FUNCTION: session_weight  (PostgREST computed field)
+-- ============================================================
+-- Contact-hour weight of one class session under the current
+-- semester's weighting mode. Selectable from the client as
+--   .select('*, session_weight')
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.session_weight(cs class_sessions)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE (
+        SELECT weighting_mode FROM academic_semesters
+        WHERE is_current = true
+        LIMIT 1
+    )
+        WHEN 'duration' THEN
+            ROUND(EXTRACT(EPOCH FROM (cs.end_time - cs.start_time)) / 3600.0, 2)
+        WHEN 'session_type' THEN
+            COALESCE(
+                (SELECT w.weight FROM session_type_weights w
+                 WHERE w.subject_id = cs.subject_id AND w.session_type = cs.session_type),
+                (SELECT w.weight FROM session_type_weights w
+                 WHERE w.subject_id IS NULL AND w.session_type = cs.session_type),
+                1
+            )
+        ELSE 1
+    END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: calculate_attendance_buffer  (replaces 004 version)
+-- ============================================================
+-- Same keys as before, but every count is now in weighted units
+-- (contact hours, or plain classes when weighting_mode = 'unit'):
+--   present_count, held_count, total_planned, buffer_classes,
+--   classes_to_threshold, classes_to_condonation
+-- plus 'weighting_mode' so the UI can label the unit.
+--
+-- total_planned = held + scheduled future sessions
+--               + unscheduled remainder of subjects.total_classes_planned
+--                 at the subject's average session weight
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_attendance_buffer(
+    p_student_id UUID,
+    p_subject_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_present_count          NUMERIC;
+    v_held_count             NUMERIC;
+    v_future_weight          NUMERIC;
+    v_scheduled_sessions     INT;
+    v_avg_weight             NUMERIC;
+    v_classes_planned        INT;
+    v_total_planned          NUMERIC;
+    v_current_pct            NUMERIC(5,4);
+    v_threshold              NUMERIC(4,2);
+    v_condonation            NUMERIC(4,2);
+    v_weighting_mode         TEXT;
+    v_remaining              NUMERIC;
+    v_buffer_classes         NUMERIC;
+    v_projected_pct          NUMERIC(5,4);
+    v_is_safe                BOOLEAN;
+    v_eligibility            TEXT;
+    v_to_threshold           NUMERIC;
+    v_to_condonation         NUMERIC;
+BEGIN
+    -- Thresholds + weighting mode from the current semester
+    SELECT attendance_threshold, condonation_threshold, weighting_mode
+    INTO v_threshold, v_condonation, v_weighting_mode
+    FROM academic_semesters
+    WHERE is_current = true
+    LIMIT 1;
+
+    -- Fallbacks if no current semester is configured
+    IF v_threshold IS NULL THEN
+        v_threshold := 0.75;
+    END IF;
+    IF v_condonation IS NULL THEN
+        v_condonation := 0.65;
+    END IF;
+    IF v_weighting_mode IS NULL THEN
+        v_weighting_mode := 'unit';
+    END IF;
+
+    -- Total classes planned for this subject (a plain count)
+    SELECT COALESCE(total_classes_planned, 0) INTO v_classes_planned
+    FROM subjects
+    WHERE id = p_subject_id;
+
+    -- Weighted hours held (not cancelled) so far, scheduled future hours,
+    -- number of scheduled sessions and their average weight
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date > CURRENT_DATE), 0),
+        COUNT(*),
+        COALESCE(AVG(session_weight(cs)), 1)
+    INTO v_held_count, v_future_weight, v_scheduled_sessions, v_avg_weight
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false;
+
+    -- Weighted hours the student attended
+    SELECT COALESCE(SUM(session_weight(cs)), 0) INTO v_present_count
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND ar.status IN ('present', 'on_duty');
+
+    v_total_planned := v_held_count + v_future_weight
+        + GREATEST(v_classes_planned - v_scheduled_sessions, 0) * v_avg_weight;
+
+    -- Current attendance percentage
+    IF v_held_count > 0 THEN
+        v_current_pct := v_present_count / v_held_count;
+    ELSE
+        v_current_pct := 1.0;
+    END IF;
+
+    -- Remaining weighted hours = planned - held
+    v_remaining := GREATEST(v_total_planned - v_held_count, 0);
+
+    -- Buffer: how many remaining hours the student can skip and stay >= threshold
+    v_buffer_classes := GREATEST(
+        (v_present_count + v_remaining) - CEIL(v_threshold * v_total_planned),
+        0
+    );
+
+    -- Projected percentage if student attends all remaining classes
+    IF v_total_planned > 0 THEN
+        v_projected_pct := (v_present_count + v_remaining) / v_total_planned;
+    ELSE
+        v_projected_pct := v_current_pct;
+    END IF;
+
+    -- Is the student currently safe?
+    v_is_safe := v_current_pct >= v_threshold;
+
+    -- Graded eligibility against institute rules
+    IF v_current_pct >= v_threshold THEN
+        v_eligibility := 'safe';
+    ELSIF v_current_pct >= v_condonation THEN
+        v_eligibility := 'condonable';
+    ELSE
+        v_eligibility := 'detained';
+    END IF;
+
+    -- Hours needed: (present + x) / (held + x) >= t  =>  x >= (t*held - present) / (1 - t)
+    -- NULL when the threshold is 100% and already missed (unreachable)
+    v_to_threshold := CASE
+        WHEN v_current_pct >= v_threshold THEN 0
+        ELSE CEIL((v_threshold * v_held_count - v_present_count) / NULLIF(1 - v_threshold, 0))
+    END;
+    v_to_condonation := CASE
+        WHEN v_current_pct >= v_condonation THEN 0
+        ELSE CEIL((v_condonation * v_held_count - v_present_count) / NULLIF(1 - v_condonation, 0))
+    END;
+
+    RETURN jsonb_build_object(
+        'present_count',          v_present_count,
+        'held_count',             v_held_count,
+        'total_planned',          ROUND(v_total_planned, 2),
+        'current_pct',            ROUND(v_current_pct, 4),
+        'buffer_classes',         v_buffer_classes,
+        'projected_pct',          ROUND(v_projected_pct, 4),
+        'is_safe',                v_is_safe,
+        'attendance_threshold',   v_threshold,
+        'condonation_threshold',  v_condonation,
+        'eligibility',            v_eligibility,
+        'classes_to_threshold',   v_to_threshold,
+        'classes_to_condonation', v_to_condonation,
+        'weighting_mode',         v_weighting_mode
+    );
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: get_student_attendance_summary  (replaces 003 version)
+-- ============================================================
+-- OD / medical totals are now weighted too, so the return type changes.
+-- ============================================================
+
+DROP FUNCTION IF EXISTS public.get_student_attendance_summary(UUID);
+
+CREATE FUNCTION public.get_student_attendance_summary(
+    p_student_id UUID
+)
+RETURNS TABLE (
+    subject_id     UUID,
+    subject_name   TEXT,
+    subject_code   TEXT,
+    buffer         JSONB,
+    on_duty_count  NUMERIC,
+    medical_count  NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        s.id,
+        s.name,
+        s.code,
+        calculate_attendance_buffer(p_student_id, s.id),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE ar.status = 'on_duty'), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE ar.status = 'medical'), 0)
+    FROM student_subjects ss
+    JOIN subjects s ON s.id = ss.subject_id
+    LEFT JOIN class_sessions cs ON cs.subject_id = s.id
+    LEFT JOIN attendance_records ar
+           ON ar.class_session_id = cs.id
+          AND ar.student_id = p_student_id
+    WHERE ss.student_id = p_student_id
+      -- Students may only read their own summary; faculty / admin can read any
+      AND (
+          p_student_id = auth.uid()
+          OR EXISTS (
+              SELECT 1 FROM profiles AS p
+              WHERE p.id = auth.uid() AND p.role IN ('faculty', 'admin')
+          )
+      )
+    GROUP BY s.id, s.name, s.code
+    ORDER BY s.code;
+$$;
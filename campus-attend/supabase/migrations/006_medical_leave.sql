@@ -0,0 +1,387 @@
+-- ============================================================
+-- 006_medical_leave.sql  –  Medical leave requests, certificates & policy
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. MENTOR LINK + SEMESTER POLICY
+-- ────────────────────────────────────────────────────────────
+
+-- Faculty mentor who reviews a student's medical leave (admins otherwise)
+ALTER TABLE profiles
+    ADD COLUMN mentor_id UUID REFERENCES profiles(id);
+
+-- How approved medical leave affects attendance:
+--   'exclude_from_held'  medical sessions drop out of the denominator
+--   'count_as_present'   medical sessions count as attended
+ALTER TABLE academic_semesters
+    ADD COLUMN medical_policy TEXT NOT NULL DEFAULT 'exclude_from_held'
+        CHECK (medical_policy IN ('exclude_from_held', 'count_as_present'));
+
+-- ────────────────────────────────────────────────────────────
+-- 2. MEDICAL_LEAVE_REQUESTS
+-- ────────────────────────────────────────────────────────────
+CREATE TABLE medical_leave_requests (
+    id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id        UUID NOT NULL REFERENCES profiles(id),
+    reviewer_id       UUID REFERENCES profiles(id),     -- mentor; NULL = any admin
+    from_date         DATE NOT NULL,
+    to_date           DATE NOT NULL,
+    reason            TEXT NOT NULL,
+    certificate_path  TEXT,                             -- object path in 'medical-certificates'
+    status            TEXT DEFAULT 'pending' CHECK (status IN ('pending','approved','rejected')),
+    reviewer_response TEXT,
+    sessions_marked   INT DEFAULT 0,
+    created_at        TIMESTAMPTZ DEFAULT now(),
+    resolved_at       TIMESTAMPTZ,
+    CHECK (to_date >= from_date)
+);
+
+-- Route new requests to the student's mentor
+CREATE OR REPLACE FUNCTION public.assign_medical_leave_reviewer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    SELECT mentor_id INTO NEW.reviewer_id
+    FROM profiles
+    WHERE id = NEW.student_id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_medical_leave_created
+    BEFORE INSERT ON medical_leave_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.assign_medical_leave_reviewer();
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE medical_leave_requests ENABLE ROW LEVEL SECURITY;
+
+-- Students can see their own medical leave requests
+CREATE POLICY "Students can view own medical leave"
+    ON medical_leave_requests FOR SELECT
+    USING (auth.uid() = student_id);
+
+-- Students can submit medical leave for themselves
+CREATE POLICY "Students can create medical leave"
+    ON medical_leave_requests FOR INSERT
+    WITH CHECK (auth.uid() = student_id AND status = 'pending');
+
+-- Mentors can see requests routed to them
+CREATE POLICY "Reviewers can view assigned medical leave"
+    ON medical_leave_requests FOR SELECT
+    USING (auth.uid() = reviewer_id);
+
+-- Admins can see all requests
+CREATE POLICY "Admins can view all medical leave"
+    ON medical_leave_requests FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+-- Approval / rejection goes through resolve_medical_leave() only
+
+
+-- ============================================================
+-- STORAGE: medical-certificates bucket (private)
+-- ============================================================
+-- Objects live under "<student_id>/<file>".
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('medical-certificates', 'medical-certificates', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Students can upload into their own folder
+CREATE POLICY "Students can upload own certificates"
+    ON storage.objects FOR INSERT
+    WITH CHECK (
+        bucket_id = 'medical-certificates'
+        AND (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+-- Students, their mentor and admins can read certificates
+CREATE POLICY "Owners and reviewers can read certificates"
+    ON storage.objects FOR SELECT
+    USING (
+        bucket_id = 'medical-certificates'
+        AND (
+            (storage.foldername(name))[1] = auth.uid()::TEXT
+            OR EXISTS (
+                SELECT 1 FROM medical_leave_requests mlr
+                WHERE mlr.certificate_path = storage.objects.name
+                  AND mlr.reviewer_id = auth.uid()
+            )
+            OR EXISTS (
+                SELECT 1 FROM profiles AS p
+                WHERE p.id = auth.uid() AND p.role = 'admin'
+            )
+        )
+    );
+
+
+-- ============================================================
+-- FUNCTION: resolve_medical_leave
+-- ============================================================
+-- Approve or reject a pending request. On approval every
+-- non-cancelled session of the student's enrolled subjects in
+-- [from_date, to_date] is marked 'medical' (existing 'absent'
+-- marks are overwritten; present / OD marks are kept).
+-- Returns the number of sessions marked.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.resolve_medical_leave(
+    p_request_id UUID,
+    p_action     TEXT,
+    p_response   TEXT DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_req     medical_leave_requests%ROWTYPE;
+    v_marked  INT := 0;
+BEGIN
+    IF p_action NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Invalid action: %', p_action;
+    END IF;
+
+    SELECT * INTO v_req
+    FROM medical_leave_requests
+    WHERE id = p_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Medical leave request not found';
+    END IF;
+
+    -- Only the assigned mentor or an admin may resolve
+    IF v_req.reviewer_id IS DISTINCT FROM auth.uid()
+       AND NOT EXISTS (
+           SELECT 1 FROM profiles AS p
+           WHERE p.id = auth.uid() AND p.role = 'admin'
+       ) THEN
+        RAISE EXCEPTION 'Not allowed to review this request';
+    END IF;
+
+    IF v_req.status <> 'pending' THEN
+        RAISE EXCEPTION 'Request has already been %', v_req.status;
+    END IF;
+
+    IF p_action = 'approved' THEN
+        INSERT INTO attendance_records (student_id, class_session_id, status, marked_by, notes)
+        SELECT v_req.student_id, cs.id, 'medical', 'system', 'Medical leave approved'
+        FROM class_sessions cs
+        JOIN student_subjects ss
+          ON ss.subject_id = cs.subject_id
+         AND ss.student_id = v_req.student_id
+        WHERE cs.is_cancelled = false
+          AND cs.scheduled_date BETWEEN v_req.from_date AND v_req.to_date
+        ON CONFLICT (student_id, class_session_id) DO UPDATE
+            SET status    = 'medical',
+                marked_by = 'system',
+                marked_at = now(),
+                notes     = EXCLUDED.notes
+            WHERE attendance_records.status = 'absent';
+
+        GET DIAGNOSTICS v_marked = ROW_COUNT;
+    END IF;
+
+    UPDATE medical_leave_requests
+    SET status            = p_action,
+        reviewer_response = p_response,
+        sessions_marked   = v_marked,
+        resolved_at       = now()
+    WHERE id = p_request_id;
+
+    RETURN v_marked;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: calculate_attendance_buffer  (replaces 005 version)
+-- ============================================================
+-- Applies the semester's medical_policy:
+--   'exclude_from_held'  medical hours are removed from held_count
+--                        and total_planned
+--   'count_as_present'   medical hours count toward present_count
+-- Adds 'medical_count' and 'medical_policy' to the returned JSONB.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_attendance_buffer(
+    p_student_id UUID,
+    p_subject_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_present_count          NUMERIC;
+    v_held_count             NUMERIC;
+    v_medical_held           NUMERIC;
+    v_medical_total          NUMERIC;
+    v_future_weight          NUMERIC;
+    v_scheduled_sessions     INT;
+    v_avg_weight             NUMERIC;
+    v_classes_planned        INT;
+    v_total_planned          NUMERIC;
+    v_current_pct            NUMERIC(5,4);
+    v_threshold              NUMERIC(4,2);
+    v_condonation            NUMERIC(4,2);
+    v_weighting_mode         TEXT;
+    v_medical_policy         TEXT;
+    v_remaining              NUMERIC;
+    v_buffer_classes         NUMERIC;
+    v_projected_pct          NUMERIC(5,4);
+    v_is_safe                BOOLEAN;
+    v_eligibility            TEXT;
+    v_to_threshold           NUMERIC;
+    v_to_condonation         NUMERIC;
+BEGIN
+    -- Thresholds, weighting mode and medical policy from the current semester
+    SELECT attendance_threshold, condonation_threshold, weighting_mode, medical_policy
+    INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+    FROM academic_semesters
+    WHERE is_current = true
+    LIMIT 1;
+
+    -- Fallbacks if no current semester is configured
+    IF v_threshold IS NULL THEN
+        v_threshold := 0.75;
+    END IF;
+    IF v_condonation IS NULL THEN
+        v_condonation := 0.65;
+    END IF;
+    IF v_weighting_mode IS NULL THEN
+        v_weighting_mode := 'unit';
+    END IF;
+    IF v_medical_policy IS NULL THEN
+        v_medical_policy := 'exclude_from_held';
+    END IF;
+
+    -- Total classes planned for this subject (a plain count)
+    SELECT COALESCE(total_classes_planned, 0) INTO v_classes_planned
+    FROM subjects
+    WHERE id = p_subject_id;
+
+    -- Weighted hours held (not cancelled) so far, scheduled future hours,
+    -- number of scheduled sessions and their average weight
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date > CURRENT_DATE), 0),
+        COUNT(*),
+        COALESCE(AVG(session_weight(cs)), 1)
+    INTO v_held_count, v_future_weight, v_scheduled_sessions, v_avg_weight
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false;
+
+    -- Weighted hours the student attended
+    SELECT COALESCE(SUM(session_weight(cs)), 0) INTO v_present_count
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND ar.status IN ('present', 'on_duty');
+
+    -- Weighted medical hours (held so far / whole semester)
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)), 0)
+    INTO v_medical_held, v_medical_total
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false
+      AND ar.status = 'medical';
+
+    v_total_planned := v_held_count + v_future_weight
+        + GREATEST(v_classes_planned - v_scheduled_sessions, 0) * v_avg_weight;
+
+    IF v_medical_policy = 'count_as_present' THEN
+        v_present_count := v_present_count + v_medical_held;
+    ELSE
+        v_held_count    := v_held_count - v_medical_held;
+        v_total_planned := v_total_planned - v_medical_total;
+    END IF;
+
+    -- Current attendance percentage
+    IF v_held_count > 0 THEN
+        v_current_pct := v_present_count / v_held_count;
+    ELSE
+        v_current_pct := 1.0;
+    END IF;
+
+    -- Remaining weighted hours = planned - held
+    v_remaining := GREATEST(v_total_planned - v_held_count, 0);
+
+    -- Buffer: how many remaining hours the student can skip and stay >= threshold
+    v_buffer_classes := GREATEST(
+        (v_present_count + v_remaining) - CEIL(v_threshold * v_total_planned),
+        0
+    );
+
+    -- Projected percentage if student attends all remaining classes
+    IF v_total_planned > 0 THEN
+        v_projected_pct := (v_present_count + v_remaining) / v_total_planned;
+    ELSE
+        v_projected_pct := v_current_pct;
+    END IF;
+
+    -- Is the student currently safe?
+    v_is_safe := v_current_pct >= v_threshold;
+
+    -- Graded eligibility against institute rules
+    IF v_current_pct >= v_threshold THEN
+        v_eligibility := 'safe';
+    ELSIF v_current_pct >= v_condonation THEN
+        v_eligibility := 'condonable';
+    ELSE
+        v_eligibility := 'detained';
+    END IF;
+
+    -- Hours needed: (present + x) / (held + x) >= t  =>  x >= (t*held - present) / (1 - t)
+    -- NULL when the threshold is 100% and already missed (unreachable)
+    v_to_threshold := CASE
+        WHEN v_current_pct >= v_threshold THEN 0
+        ELSE CEIL((v_threshold * v_held_count - v_present_count) / NULLIF(1 - v_threshold, 0))
+    END;
+    v_to_condonation := CASE
+        WHEN v_current_pct >= v_condonation THEN 0
+        ELSE CEIL((v_condonation * v_held_count - v_present_count) / NULLIF(1 - v_condonation, 0))
+    END;
+
+    RETURN jsonb_build_object(
+        'present_count',          v_present_count,
+        'held_count',             v_held_count,
+        'total_planned',          ROUND(v_total_planned, 2),
+        'current_pct',            ROUND(v_current_pct, 4),
+        'buffer_classes',         v_buffer_classes,
+        'projected_pct',          ROUND(v_projected_pct, 4),
+        'is_safe',                v_is_safe,
+        'attendance_threshold',   v_threshold,
+        'condonation_threshold',  v_condonation,
+        'eligibility',            v_eligibility,
+        'classes_to_threshold',   v_to_threshold,
+        'classes_to_condonation', v_to_condonation,
+        'weighting_mode',         v_weighting_mode,
+        'medical_count',          v_medical_held,
+        'medical_policy',         v_medical_policy
+    );
+END;
+$$;
@@ -0,0 +1,372 @@
+-- ============================================================
+-- 007_semester_scoping.sql  –  Link subjects, enrolments & sessions to semesters
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. SEMESTER FOREIGN KEYS
+-- ────────────────────────────────────────────────────────────
+ALTER TABLE subjects
+    ADD COLUMN academic_semester_id UUID REFERENCES academic_semesters(id);
+ALTER TABLE student_subjects
+    ADD COLUMN academic_semester_id UUID REFERENCES academic_semesters(id);
+ALTER TABLE class_sessions
+    ADD COLUMN academic_semester_id UUID REFERENCES academic_semesters(id);
+
+CREATE INDEX idx_subjects_semester         ON subjects (academic_semester_id);
+CREATE INDEX idx_student_subjects_semester ON student_subjects (academic_semester_id, student_id);
+CREATE INDEX idx_class_sessions_semester   ON class_sessions (academic_semester_id, scheduled_date);
+
+-- ────────────────────────────────────────────────────────────
+-- 2. BACKFILL
+-- ────────────────────────────────────────────────────────────
+-- Existing subjects belong to the current semester; sessions go to the
+-- semester whose date range contains them, else their subject's;
+-- enrolments follow their subject.
+UPDATE subjects
+SET academic_semester_id = (
+    SELECT id FROM academic_semesters WHERE is_current = true LIMIT 1
+)
+WHERE academic_semester_id IS NULL;
+
+UPDATE class_sessions cs
+SET academic_semester_id = COALESCE(
+    (SELECT sem.id FROM academic_semesters sem
+     WHERE cs.scheduled_date BETWEEN sem.start_date AND sem.end_date
+     LIMIT 1),
+    (SELECT s.academic_semester_id FROM subjects s WHERE s.id = cs.subject_id)
+)
+WHERE cs.academic_semester_id IS NULL;
+
+UPDATE student_subjects ss
+SET academic_semester_id = s.academic_semester_id
+FROM subjects s
+WHERE s.id = ss.subject_id
+  AND ss.academic_semester_id IS NULL;
+
+-- ────────────────────────────────────────────────────────────
+-- 3. DEFAULTS ON INSERT
+-- ────────────────────────────────────────────────────────────
+
+-- New subjects default to the current semester
+CREATE OR REPLACE FUNCTION public.default_subject_semester()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.academic_semester_id IS NULL THEN
+        SELECT id INTO NEW.academic_semester_id
+        FROM academic_semesters
+        WHERE is_current = true
+        LIMIT 1;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_subject_created
+    BEFORE INSERT ON subjects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.default_subject_semester();
+
+-- Sessions and enrolments inherit their subject's semester
+CREATE OR REPLACE FUNCTION public.inherit_subject_semester()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.academic_semester_id IS NULL THEN
+        SELECT academic_semester_id INTO NEW.academic_semester_id
+        FROM subjects
+        WHERE id = NEW.subject_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_class_session_semester
+    BEFORE INSERT ON class_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.inherit_subject_semester();
+
+CREATE TRIGGER on_student_subject_semester
+    BEFORE INSERT ON student_subjects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.inherit_subject_semester();
+
+
+-- ============================================================
+-- FUNCTION: session_weight  (replaces 005 version)
+-- ============================================================
+-- Weighting mode now comes from the session's own semester, so
+-- changing the current semester's rules never rewrites old ones.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.session_weight(cs class_sessions)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE COALESCE(
+        (SELECT weighting_mode FROM academic_semesters
+         WHERE id = cs.academic_semester_id),
+        (SELECT weighting_mode FROM academic_semesters
+         WHERE is_current = true
+         LIMIT 1)
+    )
+        WHEN 'duration' THEN
+            ROUND(EXTRACT(EPOCH FROM (cs.end_time - cs.start_time)) / 3600.0, 2)
+        WHEN 'session_type' THEN
+            COALESCE(
+                (SELECT w.weight FROM session_type_weights w
+                 WHERE w.subject_id = cs.subject_id AND w.session_type = cs.session_type),
+                (SELECT w.weight FROM session_type_weights w
+                 WHERE w.subject_id IS NULL AND w.session_type = cs.session_type),
+                1
+            )
+        ELSE 1
+    END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: calculate_attendance_buffer  (replaces 006 version)
+-- ============================================================
+-- Thresholds, weighting and medical policy are read from the
+-- subject's own semester instead of whichever row is current.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_attendance_buffer(
+    p_student_id UUID,
+    p_subject_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_present_count          NUMERIC;
+    v_held_count             NUMERIC;
+    v_medical_held           NUMERIC;
+    v_medical_total          NUMERIC;
+    v_future_weight          NUMERIC;
+    v_scheduled_sessions     INT;
+    v_avg_weight             NUMERIC;
+    v_classes_planned        INT;
+    v_total_planned          NUMERIC;
+    v_current_pct            NUMERIC(5,4);
+    v_threshold              NUMERIC(4,2);
+    v_condonation            NUMERIC(4,2);
+    v_weighting_mode         TEXT;
+    v_medical_policy         TEXT;
+    v_remaining              NUMERIC;
+    v_buffer_classes         NUMERIC;
+    v_projected_pct          NUMERIC(5,4);
+    v_is_safe                BOOLEAN;
+    v_eligibility            TEXT;
+    v_to_threshold           NUMERIC;
+    v_to_condonation         NUMERIC;
+BEGIN
+    -- Thresholds, weighting mode and medical policy from the subject's semester
+    SELECT sem.attendance_threshold, sem.condonation_threshold, sem.weighting_mode, sem.medical_policy
+    INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+    FROM subjects s
+    JOIN academic_semesters sem ON sem.id = s.academic_semester_id
+    WHERE s.id = p_subject_id;
+
+    -- Subjects not yet linked to a semester use the current one
+    IF NOT FOUND THEN
+        SELECT attendance_threshold, condonation_threshold, weighting_mode, medical_policy
+        INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+        FROM academic_semesters
+        WHERE is_current = true
+        LIMIT 1;
+    END IF;
+
+    -- Fallbacks if no semester is configured
+    IF v_threshold IS NULL THEN
+        v_threshold := 0.75;
+    END IF;
+    IF v_condonation IS NULL THEN
+        v_condonation := 0.65;
+    END IF;
+    IF v_weighting_mode IS NULL THEN
+        v_weighting_mode := 'unit';
+    END IF;
+    IF v_medical_policy IS NULL THEN
+        v_medical_policy := 'exclude_from_held';
+    END IF;
+
+    -- Total classes planned for this subject (a plain count)
+    SELECT COALESCE(total_classes_planned, 0) INTO v_classes_planned
+    FROM subjects
+    WHERE id = p_subject_id;
+
+    -- Weighted hours held (not cancelled) so far, scheduled future hours,
+    -- number of scheduled sessions and their average weight
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date > CURRENT_DATE), 0),
+        COUNT(*),
+        COALESCE(AVG(session_weight(cs)), 1)
+    INTO v_held_count, v_future_weight, v_scheduled_sessions, v_avg_weight
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false;
+
+    -- Weighted hours the student attended
+    SELECT COALESCE(SUM(session_weight(cs)), 0) INTO v_present_count
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND ar.status IN ('present', 'on_duty');
+
+    -- Weighted medical hours (held so far / whole semester)
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)), 0)
+    INTO v_medical_held, v_medical_total
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false
+      AND ar.status = 'medical';
+
+    v_total_planned := v_held_count + v_future_weight
+        + GREATEST(v_classes_planned - v_scheduled_sessions, 0) * v_avg_weight;
+
+    IF v_medical_policy = 'count_as_present' THEN
+        v_present_count := v_present_count + v_medical_held;
+    ELSE
+        v_held_count    := v_held_count - v_medical_held;
+        v_total_planned := v_total_planned - v_medical_total;
+    END IF;
+
+    -- Current attendance percentage
+    IF v_held_count > 0 THEN
+        v_current_pct := v_present_count / v_held_count;
+    ELSE
+        v_current_pct := 1.0;
+    END IF;
+
+    -- Remaining weighted hours = planned - held
+    v_remaining := GREATEST(v_total_planned - v_held_count, 0);
+
+    -- Buffer: how many remaining hours the student can skip and stay >= threshold
+    v_buffer_classes := GREATEST(
+        (v_present_count + v_remaining) - CEIL(v_threshold * v_total_planned),
+        0
+    );
+
+    -- Projected percentage if student attends all remaining classes
+    IF v_total_planned > 0 THEN
+        v_projected_pct := (v_present_count + v_remaining) / v_total_planned;
+    ELSE
+        v_projected_pct := v_current_pct;
+    END IF;
+
+    -- Is the student currently safe?
+    v_is_safe := v_current_pct >= v_threshold;
+
+    -- Graded eligibility against institute rules
+    IF v_current_pct >= v_threshold THEN
+        v_eligibility := 'safe';
+    ELSIF v_current_pct >= v_condonation THEN
+        v_eligibility := 'condonable';
+    ELSE
+        v_eligibility := 'detained';
+    END IF;
+
+    -- Hours needed: (present + x) / (held + x) >= t  =>  x >= (t*held - present) / (1 - t)
+    -- NULL when the threshold is 100% and already missed (unreachable)
+    v_to_threshold := CASE
+        WHEN v_current_pct >= v_threshold THEN 0
+        ELSE CEIL((v_threshold * v_held_count - v_present_count) / NULLIF(1 - v_threshold, 0))
+    END;
+    v_to_condonation := CASE
+        WHEN v_current_pct >= v_condonation THEN 0
+        ELSE CEIL((v_condonation * v_held_count - v_present_count) / NULLIF(1 - v_condonation, 0))
+    END;
+
+    RETURN jsonb_build_object(
+        'present_count',          v_present_count,
+        'held_count',             v_held_count,
+        'total_planned',          ROUND(v_total_planned, 2),
+        'current_pct',            ROUND(v_current_pct, 4),
+        'buffer_classes',         v_buffer_classes,
+        'projected_pct',          ROUND(v_projected_pct, 4),
+        'is_safe',                v_is_safe,
+        'attendance_threshold',   v_threshold,
+        'condonation_threshold',  v_condonation,
+        'eligibility',            v_eligibility,
+        'classes_to_threshold',   v_to_threshold,
+        'classes_to_condonation', v_to_condonation,
+        'weighting_mode',         v_weighting_mode,
+        'medical_count',          v_medical_held,
+        'medical_policy',         v_medical_policy
+    );
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: get_student_attendance_summary  (replaces 005 version)
+-- ============================================================
+-- Scoped to one semester: p_semester_id, or the current semester
+-- when omitted.
+-- ============================================================
+
+DROP FUNCTION IF EXISTS public.get_student_attendance_summary(UUID);
+
+CREATE FUNCTION public.get_student_attendance_summary(
+    p_student_id  UUID,
+    p_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    subject_id     UUID,
+    subject_name   TEXT,
+    subject_code   TEXT,
+    buffer         JSONB,
+    on_duty_count  NUMERIC,
+    medical_count  NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        s.id,
+        s.name,
+        s.code,
+        calculate_attendance_buffer(p_student_id, s.id),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE ar.status = 'on_duty'), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE ar.status = 'medical'), 0)
+    FROM student_subjects ss
+    JOIN subjects s ON s.id = ss.subject_id
+    LEFT JOIN class_sessions cs ON cs.subject_id = s.id
+    LEFT JOIN attendance_records ar
+           ON ar.class_session_id = cs.id
+          AND ar.student_id = p_student_id
+    WHERE ss.student_id = p_student_id
+      AND s.academic_semester_id = COALESCE(
+          p_semester_id,
+          (SELECT id FROM academic_semesters WHERE is_current = true LIMIT 1)
+      )
+      -- Students may only read their own summary; faculty / admin can read any
+      AND (
+          p_student_id = auth.uid()
+          OR EXISTS (
+              SELECT 1 FROM profiles AS p
+              WHERE p.id = auth.uid() AND p.role IN ('faculty', 'admin')
+          )
+      )
+    GROUP BY s.id, s.name, s.code
+    ORDER BY s.code;
+$$;
@@ -0,0 +1,256 @@
+-- ============================================================
+-- 008_attendance_alerts.sql  –  Early-warning alerts for falling attendance
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. ATTENDANCE_SNAPSHOTS  (one row per student / subject / day)
+-- ────────────────────────────────────────────────────────────
+-- Last evaluated state, used to detect crossings and rapid drops.
+CREATE TABLE attendance_snapshots (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id      UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    subject_id      UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    snapshot_date   DATE NOT NULL DEFAULT CURRENT_DATE,
+    current_pct     NUMERIC(5,4) NOT NULL,
+    buffer_classes  NUMERIC NOT NULL,
+    eligibility     TEXT NOT NULL CHECK (eligibility IN ('safe', 'condonable', 'detained')),
+    UNIQUE (student_id, subject_id, snapshot_date)
+);
+
+-- ────────────────────────────────────────────────────────────
+-- 2. ATTENDANCE_ALERTS
+-- ────────────────────────────────────────────────────────────
+--   below_threshold    dropped from safe to condonable
+--   below_condonation  dropped into detained
+--   rapid_drop         fell by >= 5 points against a week ago
+--   zero_buffer        no more classes can be missed
+CREATE TABLE attendance_alerts (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id      UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    subject_id      UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    alert_type      TEXT NOT NULL CHECK (alert_type IN ('below_threshold', 'below_condonation', 'rapid_drop', 'zero_buffer')),
+    severity        TEXT NOT NULL DEFAULT 'warning' CHECK (severity IN ('warning', 'critical')),
+    current_pct     NUMERIC(5,4) NOT NULL,
+    previous_pct    NUMERIC(5,4),
+    buffer_classes  NUMERIC NOT NULL,
+    message         TEXT NOT NULL,
+    read_at         TIMESTAMPTZ,
+    created_at      TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_attendance_alerts_student ON attendance_alerts (student_id, created_at DESC);
+CREATE INDEX idx_attendance_alerts_subject ON attendance_alerts (subject_id, created_at DESC);
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE attendance_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attendance_alerts    ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are written by evaluate_attendance_alerts() only;
+-- no client policies.
+
+-- Students can see their own alerts
+CREATE POLICY "Students can view own alerts"
+    ON attendance_alerts FOR SELECT
+    USING (auth.uid() = student_id);
+
+-- Students can mark their own alerts as read
+CREATE POLICY "Students can mark own alerts read"
+    ON attendance_alerts FOR UPDATE
+    USING (auth.uid() = student_id)
+    WITH CHECK (auth.uid() = student_id);
+
+-- ...and nothing else on the row
+REVOKE UPDATE ON attendance_alerts FROM authenticated;
+GRANT  UPDATE (read_at) ON attendance_alerts TO authenticated;
+
+-- Faculty can see alerts for subjects they teach
+CREATE POLICY "Faculty can view alerts for own subjects"
+    ON attendance_alerts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM subjects AS s
+            WHERE s.id = attendance_alerts.subject_id
+              AND s.faculty_id = auth.uid()
+        )
+    );
+
+-- Mentors can see alerts for their mentees
+CREATE POLICY "Mentors can view mentee alerts"
+    ON attendance_alerts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = attendance_alerts.student_id
+              AND p.mentor_id = auth.uid()
+        )
+    );
+
+-- Admins can see all alerts
+CREATE POLICY "Admins can view all alerts"
+    ON attendance_alerts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+
+-- ============================================================
+-- FUNCTION: evaluate_attendance_alerts
+-- ============================================================
+-- Evaluates every enrolment in the current semester (or one
+-- subject when p_subject_id is given) with
+-- calculate_attendance_buffer, compares against the previous
+-- snapshot and the snapshot from a week ago, writes alerts and
+-- records today's snapshot. Returns the number of alerts written.
+--
+-- Alerts fire on transitions only, so a student who stays
+-- condonable is not re-alerted on every run. Rapid drops are
+-- rate-limited to one per subject per week.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.evaluate_attendance_alerts(
+    p_subject_id UUID DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    c_rapid_drop  CONSTANT NUMERIC := 0.05;
+    v_enrol       RECORD;
+    v_buffer      JSONB;
+    v_pct         NUMERIC(5,4);
+    v_buf         NUMERIC;
+    v_elig        TEXT;
+    v_threshold   NUMERIC;
+    v_condonation NUMERIC;
+    v_prev        attendance_snapshots%ROWTYPE;
+    v_week_ago    attendance_snapshots%ROWTYPE;
+    v_count       INT := 0;
+BEGIN
+    FOR v_enrol IN
+        SELECT ss.student_id, s.id AS subject_id, s.code
+        FROM student_subjects ss
+        JOIN subjects s ON s.id = ss.subject_id
+        JOIN academic_semesters sem ON sem.id = s.academic_semester_id
+        WHERE sem.is_current = true
+          AND (p_subject_id IS NULL OR s.id = p_subject_id)
+    LOOP
+        v_buffer      := calculate_attendance_buffer(v_enrol.student_id, v_enrol.subject_id);
+        v_pct         := (v_buffer ->> 'current_pct')::NUMERIC;
+        v_buf         := (v_buffer ->> 'buffer_classes')::NUMERIC;
+        v_elig        := v_buffer ->> 'eligibility';
+        v_threshold   := (v_buffer ->> 'attendance_threshold')::NUMERIC;
+        v_condonation := (v_buffer ->> 'condonation_threshold')::NUMERIC;
+
+        -- Most recent earlier snapshot
+        v_prev := NULL;
+        SELECT * INTO v_prev
+        FROM attendance_snapshots
+        WHERE student_id = v_enrol.student_id
+          AND subject_id = v_enrol.subject_id
+          AND snapshot_date < CURRENT_DATE
+        ORDER BY snapshot_date DESC
+        LIMIT 1;
+
+        -- Latest snapshot at least a week old
+        v_week_ago := NULL;
+        SELECT * INTO v_week_ago
+        FROM attendance_snapshots
+        WHERE student_id = v_enrol.student_id
+          AND subject_id = v_enrol.subject_id
+          AND snapshot_date <= CURRENT_DATE - 7
+        ORDER BY snapshot_date DESC
+        LIMIT 1;
+
+        -- Threshold crossings (no previous snapshot = treated as safe)
+        IF v_elig = 'detained' AND COALESCE(v_prev.eligibility, 'safe') <> 'detained' THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'below_condonation', 'critical', v_pct, v_prev.current_pct, v_buf,
+                 format('%s attendance is %s%% — below the %s%% condonation limit. You are at risk of detention.',
+                        v_enrol.code, ROUND(v_pct * 100), ROUND(v_condonation * 100)));
+            v_count := v_count + 1;
+        ELSIF v_elig = 'condonable' AND COALESCE(v_prev.eligibility, 'safe') = 'safe' THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'below_threshold', 'warning', v_pct, v_prev.current_pct, v_buf,
+                 format('%s attendance dropped to %s%%, below the %s%% requirement. Condonation may be needed.',
+                        v_enrol.code, ROUND(v_pct * 100), ROUND(v_threshold * 100)));
+            v_count := v_count + 1;
+        END IF;
+
+        -- Buffer just ran out
+        IF v_buf = 0 AND COALESCE(v_prev.buffer_classes, 1) > 0 THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'zero_buffer',
+                 CASE WHEN v_elig = 'safe' THEN 'warning' ELSE 'critical' END,
+                 v_pct, v_prev.current_pct, v_buf,
+                 format('%s: no classes left to miss — every remaining class must be attended to stay at %s%%.',
+                        v_enrol.code, ROUND(v_threshold * 100)));
+            v_count := v_count + 1;
+        END IF;
+
+        -- Rapid drop against a week ago, at most once a week
+        IF v_week_ago.current_pct IS NOT NULL
+           AND v_week_ago.current_pct - v_pct >= c_rapid_drop
+           AND NOT EXISTS (
+               SELECT 1 FROM attendance_alerts a
+               WHERE a.student_id = v_enrol.student_id
+                 AND a.subject_id = v_enrol.subject_id
+                 AND a.alert_type = 'rapid_drop'
+                 AND a.created_at > now() - INTERVAL '7 days'
+           ) THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'rapid_drop', 'warning', v_pct, v_week_ago.current_pct, v_buf,
+                 format('%s attendance fell from %s%% to %s%% in the last week.',
+                        v_enrol.code, ROUND(v_week_ago.current_pct * 100), ROUND(v_pct * 100)));
+            v_count := v_count + 1;
+        END IF;
+
+        -- Today's snapshot (re-runs on the same day overwrite it)
+        INSERT INTO attendance_snapshots
+            (student_id, subject_id, snapshot_date, current_pct, buffer_classes, eligibility)
+        VALUES
+            (v_enrol.student_id, v_enrol.subject_id, CURRENT_DATE, v_pct, v_buf, v_elig)
+        ON CONFLICT (student_id, subject_id, snapshot_date) DO UPDATE
+            SET current_pct    = EXCLUDED.current_pct,
+                buffer_classes = EXCLUDED.buffer_classes,
+                eligibility    = EXCLUDED.eligibility;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- Only the service role (Edge Function / cron) may run the evaluation
+REVOKE EXECUTE ON FUNCTION public.evaluate_attendance_alerts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT  EXECUTE ON FUNCTION public.evaluate_attendance_alerts(UUID) TO service_role;
+
+
+-- ============================================================
+-- SCHEDULE: nightly full evaluation via pg_cron
+-- ============================================================
+-- The evaluate-attendance Edge Function covers the "right after
+-- marking" path for a single subject.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'evaluate-attendance-alerts',
+    '30 18 * * *',      -- 00:00 IST
+    $$ SELECT public.evaluate_attendance_alerts(); $$
+);
@@ -0,0 +1,77 @@
+-- ============================================================
+-- 009_attendance_statements.sql  –  Issued attendance statements + public verification
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. ATTENDANCE_STATEMENTS
+-- ────────────────────────────────────────────────────────────
+-- One row per PDF issued by the attendance-statement Edge Function.
+-- `summary` freezes the per-subject figures printed on the PDF so a
+-- verifier sees exactly what was issued, even if attendance changes later.
+CREATE TABLE attendance_statements (
+    id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    verification_code    TEXT UNIQUE NOT NULL,
+    student_id           UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    academic_semester_id UUID REFERENCES academic_semesters(id),
+    summary              JSONB NOT NULL,
+    issued_at            TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE attendance_statements ENABLE ROW LEVEL SECURITY;
+
+-- Students can see statements issued to them
+CREATE POLICY "Students can view own statements"
+    ON attendance_statements FOR SELECT
+    USING (auth.uid() = student_id);
+
+-- Admins can see all statements
+CREATE POLICY "Admins can view all statements"
+    ON attendance_statements FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+-- Inserts happen through the Edge Function (service role) only
+
+
+-- ============================================================
+-- FUNCTION: verify_attendance_statement
+-- ============================================================
+-- Public lookup by verification code (callable without login).
+-- Returns only what is printed on the statement, or no row when
+-- the code is unknown.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.verify_attendance_statement(
+    p_code TEXT
+)
+RETURNS TABLE (
+    verification_code TEXT,
+    student_name      TEXT,
+    department        TEXT,
+    semester_name     TEXT,
+    summary           JSONB,
+    issued_at         TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        st.verification_code,
+        p.full_name,
+        p.department,
+        sem.name,
+        st.summary,
+        st.issued_at
+    FROM attendance_statements st
+    JOIN profiles p ON p.id = st.student_id
+    LEFT JOIN academic_semesters sem ON sem.id = st.academic_semester_id
+    WHERE st.verification_code = upper(trim(p_code));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_attendance_statement(TEXT) TO anon, authenticated;
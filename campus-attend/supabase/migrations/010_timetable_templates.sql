@@ -0,0 +1,480 @@
+-- ============================================================
+-- 010_timetable_templates.sql  –  Recurring weekly slots that generate class sessions
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. ACADEMIC_HOLIDAYS
+-- ────────────────────────────────────────────────────────────
+-- Dates on which no class sessions are generated.
+CREATE TABLE academic_holidays (
+    id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    academic_semester_id UUID NOT NULL REFERENCES academic_semesters(id) ON DELETE CASCADE,
+    holiday_date         DATE NOT NULL,
+    name                 TEXT NOT NULL,
+    created_at           TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (academic_semester_id, holiday_date)
+);
+
+-- ────────────────────────────────────────────────────────────
+-- 2. TIMETABLE_TEMPLATES
+-- ────────────────────────────────────────────────────────────
+-- One weekly slot of a subject. weekday: 0 = Monday … 6 = Sunday.
+-- valid_from / valid_until narrow the slot inside its semester; NULL
+-- means the semester's start / end date. "Edit this and following"
+-- closes a template and continues it as a new one.
+CREATE TABLE timetable_templates (
+    id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subject_id           UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    academic_semester_id UUID REFERENCES academic_semesters(id),
+    weekday              SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+    start_time           TIME NOT NULL,
+    end_time             TIME NOT NULL,
+    venue                TEXT,
+    session_type         TEXT DEFAULT 'lecture' CHECK (session_type IN ('lecture', 'lab', 'tutorial')),
+    valid_from           DATE,
+    valid_until          DATE,
+    created_by           UUID REFERENCES profiles(id),
+    created_at           TIMESTAMPTZ DEFAULT now(),
+    CHECK (end_time > start_time),
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+CREATE INDEX idx_timetable_templates_subject ON timetable_templates (subject_id);
+
+CREATE TRIGGER on_timetable_template_semester
+    BEFORE INSERT ON timetable_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.inherit_subject_semester();
+
+-- ────────────────────────────────────────────────────────────
+-- 3. CLASS_SESSIONS  –  link back to the generating template
+-- ────────────────────────────────────────────────────────────
+-- is_detached: edited with "this only", so later template edits
+-- leave the session alone.
+ALTER TABLE class_sessions
+    ADD COLUMN template_id UUID REFERENCES timetable_templates(id) ON DELETE SET NULL,
+    ADD COLUMN is_detached BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_class_sessions_template ON class_sessions (template_id, scheduled_date);
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE academic_holidays   ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timetable_templates ENABLE ROW LEVEL SECURITY;
+
+-- ── academic_holidays ───────────────────────────────────────
+
+CREATE POLICY "Authenticated users can view holidays"
+    ON academic_holidays FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage holidays"
+    ON academic_holidays FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+-- ── timetable_templates ─────────────────────────────────────
+-- Writes go through the RPCs below, which also (re)generate sessions.
+
+CREATE POLICY "Authenticated users can view timetable templates"
+    ON timetable_templates FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- ── class_sessions ──────────────────────────────────────────
+
+-- Subject faculty / admin can edit or cancel sessions
+CREATE POLICY "Faculty and admins can update class sessions"
+    ON class_sessions FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM subjects AS s
+            WHERE s.id = class_sessions.subject_id
+              AND s.faculty_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+
+-- ============================================================
+-- FUNCTION: can_manage_subject_timetable
+-- ============================================================
+-- True for the subject's faculty and for admins.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.can_manage_subject_timetable(
+    p_subject_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM subjects
+        WHERE id = p_subject_id AND faculty_id = auth.uid()
+    ) OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND role = 'admin'
+    );
+$$;
+
+
+-- ============================================================
+-- FUNCTION: generate_template_sessions
+-- ============================================================
+-- Inserts a class session for every matching weekday between the
+-- template's effective start and end, skipping holidays and dates
+-- that already have a session from this template.
+-- Returns the number of sessions created.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.generate_template_sessions(
+    p_template_id UUID
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tpl   timetable_templates%ROWTYPE;
+    v_from  DATE;
+    v_until DATE;
+    v_count INT;
+BEGIN
+    SELECT * INTO v_tpl FROM timetable_templates WHERE id = p_template_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    SELECT
+        GREATEST(COALESCE(v_tpl.valid_from, sem.start_date), sem.start_date),
+        LEAST(COALESCE(v_tpl.valid_until, sem.end_date), sem.end_date)
+    INTO v_from, v_until
+    FROM academic_semesters sem
+    WHERE sem.id = v_tpl.academic_semester_id;
+
+    IF v_from IS NULL OR v_until IS NULL THEN
+        RAISE EXCEPTION 'Subject is not linked to a semester with start and end dates';
+    END IF;
+
+    INSERT INTO class_sessions (
+        subject_id, academic_semester_id, template_id,
+        scheduled_date, start_time, end_time, venue, session_type
+    )
+    SELECT
+        v_tpl.subject_id, v_tpl.academic_semester_id, v_tpl.id,
+        d::DATE, v_tpl.start_time, v_tpl.end_time, v_tpl.venue, v_tpl.session_type
+    FROM generate_series(v_from, v_until, INTERVAL '1 day') AS d
+    -- ISODOW: Monday = 1 … Sunday = 7
+    WHERE EXTRACT(ISODOW FROM d) - 1 = v_tpl.weekday
+      AND NOT EXISTS (
+          SELECT 1 FROM academic_holidays h
+          WHERE h.academic_semester_id = v_tpl.academic_semester_id
+            AND h.holiday_date = d::DATE
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM class_sessions cs
+          WHERE cs.template_id = v_tpl.id
+            AND cs.scheduled_date = d::DATE
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_template_sessions(UUID) FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- FUNCTION: create_timetable_template
+-- ============================================================
+-- Creates a weekly slot and generates its sessions for the
+-- semester. Returns the new template id.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_timetable_template(
+    p_subject_id   UUID,
+    p_weekday      SMALLINT,
+    p_start_time   TIME,
+    p_end_time     TIME,
+    p_venue        TEXT DEFAULT NULL,
+    p_session_type TEXT DEFAULT 'lecture',
+    p_valid_from   DATE DEFAULT NULL,
+    p_valid_until  DATE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    IF NOT can_manage_subject_timetable(p_subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    INSERT INTO timetable_templates (
+        subject_id, weekday, start_time, end_time, venue,
+        session_type, valid_from, valid_until, created_by
+    )
+    VALUES (
+        p_subject_id, p_weekday, p_start_time, p_end_time, NULLIF(trim(p_venue), ''),
+        COALESCE(p_session_type, 'lecture'), p_valid_from, p_valid_until, auth.uid()
+    )
+    RETURNING id INTO v_id;
+
+    PERFORM generate_template_sessions(v_id);
+    RETURN v_id;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: edit_class_session
+-- ============================================================
+-- p_scope = 'this'      → change only this session and detach it
+--                          from its template.
+-- p_scope = 'following' → end the template the day before this
+--                          session and continue it from this date as a
+--                          new template with the new slot. Future
+--                          sessions without attendance are regenerated;
+--                          sessions that already have attendance keep
+--                          their date and are only moved in time/venue.
+-- NULL arguments keep the current value. p_scheduled_date is only
+-- honoured for 'this'. Returns the number of sessions affected.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.edit_class_session(
+    p_session_id     UUID,
+    p_scope          TEXT,
+    p_scheduled_date DATE DEFAULT NULL,
+    p_start_time     TIME DEFAULT NULL,
+    p_end_time       TIME DEFAULT NULL,
+    p_venue          TEXT DEFAULT NULL,
+    p_session_type   TEXT DEFAULT NULL,
+    p_weekday        SMALLINT DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session class_sessions%ROWTYPE;
+    v_tpl     timetable_templates%ROWTYPE;
+    v_new_id  UUID;
+    v_count   INT;
+BEGIN
+    IF p_scope NOT IN ('this', 'following') THEN
+        RAISE EXCEPTION 'Invalid scope: %', p_scope;
+    END IF;
+
+    SELECT * INTO v_session FROM class_sessions WHERE id = p_session_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    -- ── This session only ──
+    IF p_scope = 'this' OR v_session.template_id IS NULL THEN
+        UPDATE class_sessions
+        SET scheduled_date = COALESCE(p_scheduled_date, scheduled_date),
+            start_time     = COALESCE(p_start_time, start_time),
+            end_time       = COALESCE(p_end_time, end_time),
+            venue          = COALESCE(NULLIF(trim(p_venue), ''), venue),
+            session_type   = COALESCE(p_session_type, session_type),
+            is_detached    = template_id IS NOT NULL
+        WHERE id = p_session_id;
+        RETURN 1;
+    END IF;
+
+    -- ── This and following ──
+    SELECT * INTO v_tpl FROM timetable_templates WHERE id = v_session.template_id;
+
+    INSERT INTO timetable_templates (
+        subject_id, academic_semester_id, weekday, start_time, end_time,
+        venue, session_type, valid_from, valid_until, created_by
+    )
+    VALUES (
+        v_tpl.subject_id, v_tpl.academic_semester_id,
+        COALESCE(p_weekday, v_tpl.weekday),
+        COALESCE(p_start_time, v_tpl.start_time),
+        COALESCE(p_end_time, v_tpl.end_time),
+        COALESCE(NULLIF(trim(p_venue), ''), v_tpl.venue),
+        COALESCE(p_session_type, v_tpl.session_type),
+        v_session.scheduled_date, v_tpl.valid_until, auth.uid()
+    )
+    RETURNING id INTO v_new_id;
+
+    UPDATE timetable_templates
+    SET valid_until = v_session.scheduled_date - 1
+    WHERE id = v_tpl.id;
+
+    -- Sessions with attendance keep their date: move them to the new
+    -- slot's time/venue and hand them to the new template so the
+    -- generator doesn't add a second session on the same day.
+    UPDATE class_sessions cs
+    SET template_id  = v_new_id,
+        start_time   = COALESCE(p_start_time, cs.start_time),
+        end_time     = COALESCE(p_end_time, cs.end_time),
+        venue        = COALESCE(NULLIF(trim(p_venue), ''), cs.venue),
+        session_type = COALESCE(p_session_type, cs.session_type)
+    WHERE cs.template_id = v_tpl.id
+      AND cs.scheduled_date >= v_session.scheduled_date
+      AND cs.is_detached = false
+      AND EXISTS (SELECT 1 FROM attendance_records ar WHERE ar.class_session_id = cs.id);
+
+    -- The rest are regenerated from the new template
+    DELETE FROM class_sessions cs
+    WHERE cs.template_id = v_tpl.id
+      AND cs.scheduled_date >= v_session.scheduled_date
+      AND cs.is_detached = false;
+
+    -- Detached ones stay as they are but belong to the new template
+    UPDATE class_sessions
+    SET template_id = v_new_id
+    WHERE template_id = v_tpl.id
+      AND scheduled_date >= v_session.scheduled_date;
+
+    v_count := generate_template_sessions(v_new_id);
+
+    -- A template that no longer covers any date is dropped
+    DELETE FROM timetable_templates
+    WHERE id = v_tpl.id
+      AND valid_until < COALESCE(valid_from, (
+          SELECT start_date FROM academic_semesters WHERE id = v_tpl.academic_semester_id
+      ));
+
+    RETURN v_count;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: delete_timetable_template
+-- ============================================================
+-- Removes a weekly slot together with its sessions that have no
+-- attendance yet. Sessions with attendance are kept as one-offs.
+-- Returns the number of sessions removed.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.delete_timetable_template(
+    p_template_id UUID
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_subject_id UUID;
+    v_count      INT;
+BEGIN
+    SELECT subject_id INTO v_subject_id FROM timetable_templates WHERE id = p_template_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    DELETE FROM class_sessions cs
+    WHERE cs.template_id = p_template_id
+      AND NOT EXISTS (SELECT 1 FROM attendance_records ar WHERE ar.class_session_id = cs.id);
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    -- ON DELETE SET NULL turns the remaining sessions into one-offs
+    DELETE FROM timetable_templates WHERE id = p_template_id;
+
+    RETURN v_count;
+END;
+$$;
+
+
+-- ============================================================
+-- TRIGGER: derive subjects.total_classes_planned
+-- ============================================================
+-- Once a subject has a template its sessions cover the whole
+-- semester, so the planned total is simply the number of
+-- non-cancelled sessions. Subjects without templates keep their
+-- manually entered total.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.refresh_subject_planned_classes(
+    p_subject_id UUID
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE subjects s
+    SET total_classes_planned = (
+        SELECT COUNT(*) FROM class_sessions cs
+        WHERE cs.subject_id = s.id AND cs.is_cancelled = false
+    )
+    WHERE s.id = p_subject_id
+      AND EXISTS (SELECT 1 FROM timetable_templates t WHERE t.subject_id = s.id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.on_class_sessions_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_subject_planned_classes(OLD.subject_id);
+        RETURN NULL;
+    END IF;
+
+    PERFORM refresh_subject_planned_classes(NEW.subject_id);
+    IF TG_OP = 'UPDATE' AND OLD.subject_id IS DISTINCT FROM NEW.subject_id THEN
+        PERFORM refresh_subject_planned_classes(OLD.subject_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_session_planned_count
+    AFTER INSERT OR DELETE OR UPDATE OF subject_id, is_cancelled ON class_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.on_class_sessions_changed();
+
+CREATE OR REPLACE FUNCTION public.on_timetable_templates_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM refresh_subject_planned_classes(
+        CASE WHEN TG_OP = 'DELETE' THEN OLD.subject_id ELSE NEW.subject_id END
+    );
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_timetable_template_planned_count
+    AFTER INSERT OR DELETE ON timetable_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.on_timetable_templates_changed();
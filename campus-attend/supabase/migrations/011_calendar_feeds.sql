@@ -0,0 +1,54 @@
+-- ============================================================
+-- 011_calendar_feeds.sql  –  Per-user tokens for the ICS calendar feed
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CALENDAR_FEED_TOKENS
+-- ────────────────────────────────────────────────────────────
+-- Calendar apps can't send a JWT, so the calendar-feed Edge Function
+-- authenticates by this secret token in the URL instead. Rotating the
+-- token invalidates every existing subscription.
+CREATE TABLE calendar_feed_tokens (
+    user_id    UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+    token      TEXT UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex'),
+    created_at TIMESTAMPTZ DEFAULT now(),
+    rotated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own token; writes go through rotate_calendar_feed_token
+CREATE POLICY "Users can view own feed token"
+    ON calendar_feed_tokens FOR SELECT
+    USING (auth.uid() = user_id);
+
+
+-- ============================================================
+-- FUNCTION: rotate_calendar_feed_token
+-- ============================================================
+-- Creates the caller's feed token, or replaces it with a new one.
+-- Returns the new token.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_token TEXT := encode(gen_random_bytes(24), 'hex');
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO calendar_feed_tokens (user_id, token)
+    VALUES (auth.uid(), v_token)
+    ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token,
+        rotated_at = now();
+
+    RETURN v_token;
+END;
+$$;
@@ -0,0 +1,93 @@
+-- ============================================================
+-- 012_timetable_import.sql  –  Atomic commit for CSV / ICS timetable imports
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: import_class_sessions
+-- ============================================================
+-- Applies a previewed import in one transaction: any failure (e.g.
+-- a subject the caller doesn't manage) rolls back everything.
+--
+-- p_creates : [{ subject_id, scheduled_date, start_time, end_time,
+--               venue, session_type }]
+-- p_updates : [{ id, scheduled_date, start_time, end_time, venue,
+--               session_type }]   — template sessions become detached
+-- p_cancels : session ids to cancel
+--
+-- Returns { created, updated, cancelled }.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.import_class_sessions(
+    p_creates JSONB DEFAULT '[]',
+    p_updates JSONB DEFAULT '[]',
+    p_cancels UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_subject UUID;
+    v_created INT;
+    v_updated INT;
+    v_cancelled INT;
+BEGIN
+    -- ── Permission: every touched subject must be manageable ──
+    FOR v_subject IN
+        SELECT DISTINCT (c->>'subject_id')::UUID FROM jsonb_array_elements(p_creates) AS c
+        UNION
+        SELECT DISTINCT cs.subject_id
+        FROM class_sessions cs
+        WHERE cs.id IN (
+            SELECT (u->>'id')::UUID FROM jsonb_array_elements(p_updates) AS u
+            UNION
+            SELECT unnest(p_cancels)
+        )
+    LOOP
+        IF NOT can_manage_subject_timetable(v_subject) THEN
+            RAISE EXCEPTION 'You cannot edit the timetable of subject %', v_subject;
+        END IF;
+    END LOOP;
+
+    -- ── Creates ──
+    INSERT INTO class_sessions (
+        subject_id, scheduled_date, start_time, end_time, venue, session_type
+    )
+    SELECT
+        (c->>'subject_id')::UUID,
+        (c->>'scheduled_date')::DATE,
+        (c->>'start_time')::TIME,
+        (c->>'end_time')::TIME,
+        NULLIF(trim(c->>'venue'), ''),
+        COALESCE(c->>'session_type', 'lecture')
+    FROM jsonb_array_elements(p_creates) AS c;
+    GET DIAGNOSTICS v_created = ROW_COUNT;
+
+    -- ── Updates ──
+    UPDATE class_sessions cs
+    SET scheduled_date = (u->>'scheduled_date')::DATE,
+        start_time     = (u->>'start_time')::TIME,
+        end_time       = (u->>'end_time')::TIME,
+        venue          = NULLIF(trim(u->>'venue'), ''),
+        session_type   = COALESCE(u->>'session_type', cs.session_type),
+        is_detached    = cs.template_id IS NOT NULL
+    FROM jsonb_array_elements(p_updates) AS u
+    WHERE cs.id = (u->>'id')::UUID;
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    -- ── Cancels ──
+    UPDATE class_sessions
+    SET is_cancelled = true
+    WHERE id = ANY (p_cancels)
+      AND is_cancelled = false;
+    GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'created',   v_created,
+        'updated',   v_updated,
+        'cancelled', v_cancelled
+    );
+END;
+$$;
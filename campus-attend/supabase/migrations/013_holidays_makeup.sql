@@ -0,0 +1,554 @@
+-- ============================================================
+-- 013_holidays_makeup.sql  –  Holiday bulk cancellation, make-up sessions and timetable notifications
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CLASS_SESSIONS: cancellation context and make-up link
+-- ────────────────────────────────────────────────────────────
+-- holiday_id    set when the session was cancelled by declare_holiday,
+--               so removing the holiday can restore it
+-- cancel_reason shown to students ("Diwali", "Faculty on leave" …)
+-- makeup_for    on a make-up session: the cancelled session it replaces
+ALTER TABLE class_sessions
+    ADD COLUMN holiday_id    UUID REFERENCES academic_holidays(id) ON DELETE SET NULL,
+    ADD COLUMN cancel_reason TEXT,
+    ADD COLUMN makeup_for    UUID REFERENCES class_sessions(id) ON DELETE SET NULL;
+
+-- One make-up per cancelled session
+CREATE UNIQUE INDEX idx_class_sessions_makeup_for ON class_sessions (makeup_for) WHERE makeup_for IS NOT NULL;
+CREATE INDEX idx_class_sessions_holiday ON class_sessions (holiday_id) WHERE holiday_id IS NOT NULL;
+
+-- ────────────────────────────────────────────────────────────
+-- 2. TIMETABLE_NOTIFICATIONS
+-- ────────────────────────────────────────────────────────────
+--   cancelled  a session of an enrolled subject was cancelled
+--   restored   a cancelled session is back on
+--   makeup     a make-up session was scheduled
+CREATE TABLE timetable_notifications (
+    id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id       UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    subject_id       UUID NOT NULL REFERENCES subjects(id) ON DELETE CASCADE,
+    class_session_id UUID REFERENCES class_sessions(id) ON DELETE CASCADE,
+    kind             TEXT NOT NULL CHECK (kind IN ('cancelled', 'restored', 'makeup')),
+    message          TEXT NOT NULL,
+    read_at          TIMESTAMPTZ,
+    created_at       TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_timetable_notifications_student ON timetable_notifications (student_id, created_at DESC);
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE timetable_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the class_sessions trigger below only.
+
+CREATE POLICY "Students can view own timetable notifications"
+    ON timetable_notifications FOR SELECT
+    USING (auth.uid() = student_id);
+
+CREATE POLICY "Students can mark own timetable notifications read"
+    ON timetable_notifications FOR UPDATE
+    USING (auth.uid() = student_id)
+    WITH CHECK (auth.uid() = student_id);
+
+REVOKE UPDATE ON timetable_notifications FROM authenticated;
+GRANT  UPDATE (read_at) ON timetable_notifications TO authenticated;
+
+
+-- ============================================================
+-- FUNCTION: declare_holiday
+-- ============================================================
+-- Admin only. Records the holiday (renaming it if the date is
+-- already one) and cancels every session of the semester on that
+-- date. Sessions that already have attendance are left alone.
+-- Returns { holiday_id, cancelled, kept }.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.declare_holiday(
+    p_semester_id UUID,
+    p_date        DATE,
+    p_name        TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id        UUID;
+    v_cancelled INT;
+    v_kept      INT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can declare holidays';
+    END IF;
+
+    IF NULLIF(trim(p_name), '') IS NULL THEN
+        RAISE EXCEPTION 'Holiday name is required';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM academic_semesters
+        WHERE id = p_semester_id AND p_date BETWEEN start_date AND end_date
+    ) THEN
+        RAISE EXCEPTION 'Date is outside the semester';
+    END IF;
+
+    INSERT INTO academic_holidays (academic_semester_id, holiday_date, name)
+    VALUES (p_semester_id, p_date, trim(p_name))
+    ON CONFLICT (academic_semester_id, holiday_date)
+        DO UPDATE SET name = EXCLUDED.name
+    RETURNING id INTO v_id;
+
+    UPDATE class_sessions cs
+    SET is_cancelled  = true,
+        holiday_id    = v_id,
+        cancel_reason = trim(p_name)
+    WHERE cs.academic_semester_id = p_semester_id
+      AND cs.scheduled_date = p_date
+      AND cs.is_cancelled = false
+      AND NOT EXISTS (SELECT 1 FROM attendance_records ar WHERE ar.class_session_id = cs.id);
+    GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+    SELECT COUNT(*) INTO v_kept
+    FROM class_sessions
+    WHERE academic_semester_id = p_semester_id
+      AND scheduled_date = p_date
+      AND is_cancelled = false;
+
+    RETURN jsonb_build_object('holiday_id', v_id, 'cancelled', v_cancelled, 'kept', v_kept);
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: remove_holiday
+-- ============================================================
+-- Admin only. Deletes the holiday and restores the sessions it
+-- cancelled, except those that have since been made up.
+-- Returns the number of sessions restored.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.remove_holiday(
+    p_holiday_id UUID
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_restored INT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can remove holidays';
+    END IF;
+
+    UPDATE class_sessions cs
+    SET is_cancelled  = false,
+        cancel_reason = NULL
+    WHERE cs.holiday_id = p_holiday_id
+      AND cs.is_cancelled = true
+      AND NOT EXISTS (SELECT 1 FROM class_sessions m WHERE m.makeup_for = cs.id);
+    GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+    DELETE FROM academic_holidays WHERE id = p_holiday_id;
+    RETURN v_restored;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: schedule_makeup_session
+-- ============================================================
+-- Creates a one-off session replacing a cancelled one. It keeps
+-- the original's subject and type and may not fall on a holiday.
+-- Returns the new session id.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.schedule_makeup_session(
+    p_cancelled_session_id UUID,
+    p_scheduled_date       DATE,
+    p_start_time           TIME,
+    p_end_time             TIME,
+    p_venue                TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_orig class_sessions%ROWTYPE;
+    v_id   UUID;
+BEGIN
+    SELECT * INTO v_orig FROM class_sessions WHERE id = p_cancelled_session_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_orig.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    IF NOT v_orig.is_cancelled THEN
+        RAISE EXCEPTION 'Only cancelled sessions can be made up';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM class_sessions WHERE makeup_for = p_cancelled_session_id) THEN
+        RAISE EXCEPTION 'This session already has a make-up';
+    END IF;
+
+    IF p_start_time >= p_end_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM academic_holidays
+        WHERE academic_semester_id = v_orig.academic_semester_id
+          AND holiday_date = p_scheduled_date
+    ) THEN
+        RAISE EXCEPTION 'Make-up date is a holiday';
+    END IF;
+
+    INSERT INTO class_sessions (
+        subject_id, academic_semester_id, scheduled_date,
+        start_time, end_time, venue, session_type, makeup_for
+    )
+    VALUES (
+        v_orig.subject_id, v_orig.academic_semester_id, p_scheduled_date,
+        p_start_time, p_end_time, COALESCE(NULLIF(trim(p_venue), ''), v_orig.venue),
+        v_orig.session_type, v_orig.id
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+
+-- ============================================================
+-- TRIGGER: notify enrolled students of timetable changes
+-- ============================================================
+-- Fires for cancellations and restorations of upcoming sessions
+-- (whichever path made them — holiday, single cancel, import) and
+-- for new make-up sessions.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.on_class_session_notify()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_kind    TEXT;
+    v_message TEXT;
+    v_code    TEXT;
+    v_orig    DATE;
+BEGIN
+    IF NEW.scheduled_date < CURRENT_DATE THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT code INTO v_code FROM subjects WHERE id = NEW.subject_id;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.makeup_for IS NULL THEN
+            RETURN NULL;
+        END IF;
+        SELECT scheduled_date INTO v_orig FROM class_sessions WHERE id = NEW.makeup_for;
+        v_kind := 'makeup';
+        v_message := format(
+            '%s make-up class on %s, %s–%s%s (replaces %s)',
+            v_code, to_char(NEW.scheduled_date, 'Dy DD Mon'),
+            to_char(NEW.start_time, 'HH24:MI'), to_char(NEW.end_time, 'HH24:MI'),
+            COALESCE(' in ' || NEW.venue, ''), to_char(v_orig, 'Dy DD Mon')
+        );
+    ELSIF NEW.is_cancelled AND NOT OLD.is_cancelled THEN
+        v_kind := 'cancelled';
+        v_message := format(
+            '%s class on %s at %s is cancelled%s',
+            v_code, to_char(NEW.scheduled_date, 'Dy DD Mon'),
+            to_char(NEW.start_time, 'HH24:MI'), COALESCE(' — ' || NEW.cancel_reason, '')
+        );
+    ELSIF OLD.is_cancelled AND NOT NEW.is_cancelled THEN
+        v_kind := 'restored';
+        v_message := format(
+            '%s class on %s at %s is back on',
+            v_code, to_char(NEW.scheduled_date, 'Dy DD Mon'), to_char(NEW.start_time, 'HH24:MI')
+        );
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO timetable_notifications (student_id, subject_id, class_session_id, kind, message)
+    SELECT ss.student_id, NEW.subject_id, NEW.id, v_kind, v_message
+    FROM student_subjects ss
+    WHERE ss.subject_id = NEW.subject_id;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_class_session_notify
+    AFTER INSERT OR UPDATE OF is_cancelled ON class_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.on_class_session_notify();
+
+
+-- ============================================================
+-- FUNCTION: calculate_attendance_buffer  (replaces 007 version)
+-- ============================================================
+-- Cancelled sessions no longer come back as "unscheduled
+-- remainder": a cancellation without a make-up lowers the planned
+-- total, while a made-up one is replaced by its make-up session.
+-- Attendance marked on a session that was later cancelled no
+-- longer counts as present.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_attendance_buffer(
+    p_student_id UUID,
+    p_subject_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_present_count          NUMERIC;
+    v_held_count             NUMERIC;
+    v_medical_held           NUMERIC;
+    v_medical_total          NUMERIC;
+    v_future_weight          NUMERIC;
+    v_scheduled_sessions     INT;
+    v_avg_weight             NUMERIC;
+    v_classes_planned        INT;
+    v_cancelled_unreplaced   INT;
+    v_total_planned          NUMERIC;
+    v_current_pct            NUMERIC(5,4);
+    v_threshold              NUMERIC(4,2);
+    v_condonation            NUMERIC(4,2);
+    v_weighting_mode         TEXT;
+    v_medical_policy         TEXT;
+    v_remaining              NUMERIC;
+    v_buffer_classes         NUMERIC;
+    v_projected_pct          NUMERIC(5,4);
+    v_is_safe                BOOLEAN;
+    v_eligibility            TEXT;
+    v_to_threshold           NUMERIC;
+    v_to_condonation         NUMERIC;
+BEGIN
+    -- Thresholds, weighting mode and medical policy from the subject's semester
+    SELECT sem.attendance_threshold, sem.condonation_threshold, sem.weighting_mode, sem.medical_policy
+    INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+    FROM subjects s
+    JOIN academic_semesters sem ON sem.id = s.academic_semester_id
+    WHERE s.id = p_subject_id;
+
+    -- Subjects not yet linked to a semester use the current one
+    IF NOT FOUND THEN
+        SELECT attendance_threshold, condonation_threshold, weighting_mode, medical_policy
+        INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+        FROM academic_semesters
+        WHERE is_current = true
+        LIMIT 1;
+    END IF;
+
+    -- Fallbacks if no semester is configured
+    IF v_threshold IS NULL THEN
+        v_threshold := 0.75;
+    END IF;
+    IF v_condonation IS NULL THEN
+        v_condonation := 0.65;
+    END IF;
+    IF v_weighting_mode IS NULL THEN
+        v_weighting_mode := 'unit';
+    END IF;
+    IF v_medical_policy IS NULL THEN
+        v_medical_policy := 'exclude_from_held';
+    END IF;
+
+    -- Total classes planned for this subject (a plain count)
+    SELECT COALESCE(total_classes_planned, 0) INTO v_classes_planned
+    FROM subjects
+    WHERE id = p_subject_id;
+
+    -- Cancelled sessions nobody made up are classes that won't happen
+    SELECT COUNT(*) INTO v_cancelled_unreplaced
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = true
+      AND NOT EXISTS (SELECT 1 FROM class_sessions m WHERE m.makeup_for = cs.id);
+
+    -- Weighted hours held (not cancelled) so far, scheduled future hours,
+    -- number of scheduled sessions and their average weight
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date > CURRENT_DATE), 0),
+        COUNT(*),
+        COALESCE(AVG(session_weight(cs)), 1)
+    INTO v_held_count, v_future_weight, v_scheduled_sessions, v_avg_weight
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false;
+
+    -- Weighted hours the student attended
+    SELECT COALESCE(SUM(session_weight(cs)), 0) INTO v_present_count
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false
+      AND ar.status IN ('present', 'on_duty');
+
+    -- Weighted medical hours (held so far / whole semester)
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)), 0)
+    INTO v_medical_held, v_medical_total
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false
+      AND ar.status = 'medical';
+
+    v_total_planned := v_held_count + v_future_weight
+        + GREATEST(v_classes_planned - v_cancelled_unreplaced - v_scheduled_sessions, 0) * v_avg_weight;
+
+    IF v_medical_policy = 'count_as_present' THEN
+        v_present_count := v_present_count + v_medical_held;
+    ELSE
+        v_held_count    := v_held_count - v_medical_held;
+        v_total_planned := v_total_planned - v_medical_total;
+    END IF;
+
+    -- Current attendance percentage
+    IF v_held_count > 0 THEN
+        v_current_pct := v_present_count / v_held_count;
+    ELSE
+        v_current_pct := 1.0;
+    END IF;
+
+    -- Remaining weighted hours = planned - held
+    v_remaining := GREATEST(v_total_planned - v_held_count, 0);
+
+    -- Buffer: how many remaining hours the student can skip and stay >= threshold
+    v_buffer_classes := GREATEST(
+        (v_present_count + v_remaining) - CEIL(v_threshold * v_total_planned),
+        0
+    );
+
+    -- Projected percentage if student attends all remaining classes
+    IF v_total_planned > 0 THEN
+        v_projected_pct := (v_present_count + v_remaining) / v_total_planned;
+    ELSE
+        v_projected_pct := v_current_pct;
+    END IF;
+
+    -- Is the student currently safe?
+    v_is_safe := v_current_pct >= v_threshold;
+
+    -- Graded eligibility against institute rules
+    IF v_current_pct >= v_threshold THEN
+        v_eligibility := 'safe';
+    ELSIF v_current_pct >= v_condonation THEN
+        v_eligibility := 'condonable';
+    ELSE
+        v_eligibility := 'detained';
+    END IF;
+
+    -- Hours needed: (present + x) / (held + x) >= t  =>  x >= (t*held - present) / (1 - t)
+    -- NULL when the threshold is 100% and already missed (unreachable)
+    v_to_threshold := CASE
+        WHEN v_current_pct >= v_threshold THEN 0
+        ELSE CEIL((v_threshold * v_held_count - v_present_count) / NULLIF(1 - v_threshold, 0))
+    END;
+    v_to_condonation := CASE
+        WHEN v_current_pct >= v_condonation THEN 0
+        ELSE CEIL((v_condonation * v_held_count - v_present_count) / NULLIF(1 - v_condonation, 0))
+    END;
+
+    RETURN jsonb_build_object(
+        'present_count',          v_present_count,
+        'held_count',             v_held_count,
+        'total_planned',          ROUND(v_total_planned, 2),
+        'current_pct',            ROUND(v_current_pct, 4),
+        'buffer_classes',         v_buffer_classes,
+        'projected_pct',          ROUND(v_projected_pct, 4),
+        'is_safe',                v_is_safe,
+        'attendance_threshold',   v_threshold,
+        'condonation_threshold',  v_condonation,
+        'eligibility',            v_eligibility,
+        'classes_to_threshold',   v_to_threshold,
+        'classes_to_condonation', v_to_condonation,
+        'weighting_mode',         v_weighting_mode,
+        'medical_count',          v_medical_held,
+        'medical_policy',         v_medical_policy
+    );
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: get_student_attendance_summary  (replaces 007 version)
+-- ============================================================
+-- On-duty and medical counts skip cancelled sessions, matching
+-- calculate_attendance_buffer.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_student_attendance_summary(
+    p_student_id  UUID,
+    p_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    subject_id     UUID,
+    subject_name   TEXT,
+    subject_code   TEXT,
+    buffer         JSONB,
+    on_duty_count  NUMERIC,
+    medical_count  NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        s.id,
+        s.name,
+        s.code,
+        calculate_attendance_buffer(p_student_id, s.id),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE ar.status = 'on_duty'), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE ar.status = 'medical'), 0)
+    FROM student_subjects ss
+    JOIN subjects s ON s.id = ss.subject_id
+    LEFT JOIN class_sessions cs
+           ON cs.subject_id = s.id
+          AND cs.is_cancelled = false
+    LEFT JOIN attendance_records ar
+           ON ar.class_session_id = cs.id
+          AND ar.student_id = p_student_id
+    WHERE ss.student_id = p_student_id
+      AND s.academic_semester_id = COALESCE(
+          p_semester_id,
+          (SELECT id FROM academic_semesters WHERE is_current = true LIMIT 1)
+      )
+      -- Students may only read their own summary; faculty / admin can read any
+      AND (
+          p_student_id = auth.uid()
+          OR EXISTS (
+              SELECT 1 FROM profiles AS p
+              WHERE p.id = auth.uid() AND p.role IN ('faculty', 'admin')
+          )
+      )
+    GROUP BY s.id, s.name, s.code
+    ORDER BY s.code;
+$$;
@@ -0,0 +1,170 @@
+-- ============================================================
+-- 014_session_clashes.sql  –  Student, faculty and venue clash detection for class sessions
+-- ============================================================
+-- Two sessions clash when they are on the same date, their times
+-- overlap, neither is cancelled, and one of:
+--   student  the subjects share at least one enrolled student
+--   faculty  same subject, or both subjects have the same faculty
+--   venue    same venue (case- and whitespace-insensitive)
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: check_session_clashes
+-- ============================================================
+-- p_sessions is a JSON array of proposed sessions:
+--   [{ subject_id, scheduled_date, start_time, end_time, venue }]
+-- Each is checked against the stored sessions, ignoring the ids in
+-- p_exclude (sessions the caller is about to move or cancel).
+-- Returns one row per clash; idx is the 0-based array position.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.check_session_clashes(
+    p_sessions JSONB,
+    p_exclude  UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+    idx             INT,
+    clash_type      TEXT,
+    session_id      UUID,
+    subject_id      UUID,
+    subject_code    TEXT,
+    subject_name    TEXT,
+    scheduled_date  DATE,
+    start_time      TIME,
+    end_time        TIME,
+    venue           TEXT,
+    shared_students INT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH cand AS (
+        SELECT
+            (c.ord - 1)::INT                              AS idx,
+            (c.value->>'subject_id')::UUID                AS subject_id,
+            (c.value->>'scheduled_date')::DATE            AS scheduled_date,
+            (c.value->>'start_time')::TIME                AS start_time,
+            (c.value->>'end_time')::TIME                  AS end_time,
+            NULLIF(lower(trim(c.value->>'venue')), '')    AS venue_key
+        FROM jsonb_array_elements(COALESCE(p_sessions, '[]'::JSONB)) WITH ORDINALITY AS c(value, ord)
+    )
+    SELECT
+        c.idx, t.clash_type, cs.id, s.id, s.code, s.name,
+        cs.scheduled_date, cs.start_time, cs.end_time, cs.venue, t.shared
+    FROM cand c
+    JOIN subjects own ON own.id = c.subject_id
+    JOIN class_sessions cs
+      ON cs.scheduled_date = c.scheduled_date
+     AND cs.start_time < c.end_time
+     AND c.start_time < cs.end_time
+     AND cs.is_cancelled = false
+     AND cs.id <> ALL (COALESCE(p_exclude, '{}'))
+    JOIN subjects s ON s.id = cs.subject_id
+    CROSS JOIN LATERAL (
+        SELECT 'faculty'::TEXT AS clash_type, NULL::INT AS shared
+        WHERE s.id = own.id OR s.faculty_id = own.faculty_id
+        UNION ALL
+        SELECT 'venue', NULL
+        WHERE c.venue_key IS NOT NULL AND lower(trim(cs.venue)) = c.venue_key
+        UNION ALL
+        SELECT 'student', n.shared
+        FROM (
+            SELECT COUNT(DISTINCT a.student_id)::INT AS shared
+            FROM student_subjects a
+            JOIN student_subjects b ON b.student_id = a.student_id
+            WHERE a.subject_id = own.id AND b.subject_id = s.id
+        ) n
+        WHERE s.id <> own.id AND n.shared > 0
+    ) t
+    ORDER BY c.idx, cs.start_time;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: get_semester_clashes
+-- ============================================================
+-- Admin report: every clashing pair of scheduled sessions in the
+-- semester (current one when p_semester_id is NULL), one row per
+-- pair with all the ways they clash.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_semester_clashes(
+    p_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    scheduled_date  DATE,
+    session_a       UUID,
+    subject_a       TEXT,
+    start_a         TIME,
+    end_a           TIME,
+    venue_a         TEXT,
+    session_b       UUID,
+    subject_b       TEXT,
+    start_b         TIME,
+    end_b           TIME,
+    venue_b         TEXT,
+    clash_types     TEXT[],
+    shared_students INT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_semester UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view the clash report';
+    END IF;
+
+    v_semester := COALESCE(
+        p_semester_id,
+        (SELECT id FROM academic_semesters WHERE is_current = true LIMIT 1)
+    );
+
+    RETURN QUERY
+    WITH pairs AS (
+        SELECT
+            a.scheduled_date,
+            a.id AS a_id, sa.code AS a_code, a.start_time AS a_start, a.end_time AS a_end, a.venue AS a_venue,
+            b.id AS b_id, sb.code AS b_code, b.start_time AS b_start, b.end_time AS b_end, b.venue AS b_venue,
+            (sa.id = sb.id OR sa.faculty_id = sb.faculty_id) AS same_faculty,
+            (NULLIF(lower(trim(a.venue)), '') = lower(trim(b.venue))) AS same_venue,
+            CASE WHEN sa.id = sb.id THEN 0 ELSE (
+                SELECT COUNT(DISTINCT x.student_id)::INT
+                FROM student_subjects x
+                JOIN student_subjects y ON y.student_id = x.student_id
+                WHERE x.subject_id = sa.id AND y.subject_id = sb.id
+            ) END AS shared
+        FROM class_sessions a
+        JOIN class_sessions b
+          ON b.academic_semester_id = a.academic_semester_id
+         AND b.scheduled_date = a.scheduled_date
+         AND b.start_time < a.end_time
+         AND a.start_time < b.end_time
+         AND a.id < b.id
+        JOIN subjects sa ON sa.id = a.subject_id
+        JOIN subjects sb ON sb.id = b.subject_id
+        WHERE a.academic_semester_id = v_semester
+          AND a.is_cancelled = false
+          AND b.is_cancelled = false
+    )
+    SELECT
+        p.scheduled_date,
+        p.a_id, p.a_code, p.a_start, p.a_end, p.a_venue,
+        p.b_id, p.b_code, p.b_start, p.b_end, p.b_venue,
+        array_remove(ARRAY[
+            CASE WHEN p.shared > 0 THEN 'student' END,
+            CASE WHEN p.same_faculty THEN 'faculty' END,
+            CASE WHEN p.same_venue THEN 'venue' END
+        ], NULL),
+        p.shared
+    FROM pairs p
+    WHERE p.shared > 0 OR p.same_faculty OR COALESCE(p.same_venue, false)
+    ORDER BY p.scheduled_date, p.a_start;
+END;
+$$;
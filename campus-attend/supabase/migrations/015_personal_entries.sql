@@ -0,0 +1,187 @@
+-- ============================================================
+-- 015_personal_entries.sql  –  Student personal timetable entries and session correction proposals
+-- ============================================================
+-- Students can't write class_sessions (RLS limits inserts to faculty
+-- and admins), so their own blocks live in a separate table that
+-- nothing in the attendance pipeline reads. Changes to official
+-- sessions go through correction proposals the subject's faculty
+-- accepts or rejects.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. PERSONAL_TIMETABLE_ENTRIES
+-- ────────────────────────────────────────────────────────────
+--   study     self-study / revision block
+--   class     extra class outside the institute timetable (coaching, MOOC …)
+--   reminder  anything else worth a slot
+-- repeat_until makes the entry recur weekly on entry_date's weekday.
+CREATE TABLE personal_timetable_entries (
+    id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id           UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    academic_semester_id UUID REFERENCES academic_semesters(id) ON DELETE CASCADE,
+    kind                 TEXT NOT NULL DEFAULT 'study' CHECK (kind IN ('study', 'class', 'reminder')),
+    title                TEXT NOT NULL,
+    entry_date           DATE NOT NULL,
+    start_time           TIME NOT NULL,
+    end_time             TIME NOT NULL,
+    venue                TEXT,
+    notes                TEXT,
+    repeat_until         DATE,
+    created_at           TIMESTAMPTZ DEFAULT now(),
+    CHECK (end_time > start_time),
+    CHECK (repeat_until IS NULL OR repeat_until >= entry_date)
+);
+
+CREATE INDEX idx_personal_entries_student ON personal_timetable_entries (student_id, entry_date);
+
+-- ────────────────────────────────────────────────────────────
+-- 2. SESSION_CORRECTIONS
+-- ────────────────────────────────────────────────────────────
+-- A student's proposed fix to an official session. NULL proposed_*
+-- fields keep the current value; proposed_cancel reports a class
+-- that isn't happening.
+CREATE TABLE session_corrections (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_session_id    UUID NOT NULL REFERENCES class_sessions(id) ON DELETE CASCADE,
+    proposed_by         UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    proposed_date       DATE,
+    proposed_start_time TIME,
+    proposed_end_time   TIME,
+    proposed_venue      TEXT,
+    proposed_cancel     BOOLEAN NOT NULL DEFAULT false,
+    note                TEXT NOT NULL,
+    status              TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+    reviewed_by         UUID REFERENCES profiles(id),
+    reviewed_at         TIMESTAMPTZ,
+    review_note         TEXT,
+    created_at          TIMESTAMPTZ DEFAULT now(),
+    CHECK (
+        proposed_cancel
+        OR proposed_date IS NOT NULL
+        OR proposed_start_time IS NOT NULL
+        OR proposed_end_time IS NOT NULL
+        OR proposed_venue IS NOT NULL
+    )
+);
+
+-- One open proposal per student per session
+CREATE UNIQUE INDEX idx_session_corrections_pending
+    ON session_corrections (class_session_id, proposed_by)
+    WHERE status = 'pending';
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE personal_timetable_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_corrections        ENABLE ROW LEVEL SECURITY;
+
+-- ── personal_timetable_entries ──────────────────────────────
+
+CREATE POLICY "Students manage own personal entries"
+    ON personal_timetable_entries FOR ALL
+    USING (auth.uid() = student_id)
+    WITH CHECK (auth.uid() = student_id);
+
+-- ── session_corrections ─────────────────────────────────────
+
+-- Students propose corrections to sessions of subjects they take
+CREATE POLICY "Students can propose corrections"
+    ON session_corrections FOR INSERT
+    WITH CHECK (
+        auth.uid() = proposed_by
+        AND status = 'pending'
+        AND EXISTS (
+            SELECT 1
+            FROM class_sessions   cs
+            JOIN student_subjects ss ON ss.subject_id = cs.subject_id
+            WHERE cs.id = session_corrections.class_session_id
+              AND ss.student_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Students can view own corrections"
+    ON session_corrections FOR SELECT
+    USING (auth.uid() = proposed_by);
+
+-- Reviews go through review_session_correction()
+CREATE POLICY "Faculty and admins can view corrections"
+    ON session_corrections FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1
+            FROM class_sessions cs
+            WHERE cs.id = session_corrections.class_session_id
+              AND can_manage_subject_timetable(cs.subject_id)
+        )
+    );
+
+
+-- ============================================================
+-- FUNCTION: review_session_correction
+-- ============================================================
+-- Accepting applies the proposal to the session (detaching it from
+-- its template, like a "this session only" edit); rejecting just
+-- records the decision. Only the subject's faculty or an admin.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.review_session_correction(
+    p_correction_id UUID,
+    p_accept        BOOLEAN,
+    p_note          TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_corr    session_corrections%ROWTYPE;
+    v_session class_sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_corr FROM session_corrections WHERE id = p_correction_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Correction not found';
+    END IF;
+
+    SELECT * INTO v_session FROM class_sessions WHERE id = v_corr.class_session_id;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can review corrections';
+    END IF;
+
+    IF v_corr.status <> 'pending' THEN
+        RAISE EXCEPTION 'Correction has already been reviewed';
+    END IF;
+
+    IF p_accept THEN
+        IF v_corr.proposed_cancel THEN
+            UPDATE class_sessions
+            SET is_cancelled  = true,
+                cancel_reason = COALESCE(NULLIF(trim(p_note), ''), v_corr.note)
+            WHERE id = v_session.id;
+        ELSE
+            IF COALESCE(v_corr.proposed_start_time, v_session.start_time)
+               >= COALESCE(v_corr.proposed_end_time, v_session.end_time) THEN
+                RAISE EXCEPTION 'Proposed end time must be after start time';
+            END IF;
+
+            UPDATE class_sessions
+            SET scheduled_date = COALESCE(v_corr.proposed_date, scheduled_date),
+                start_time     = COALESCE(v_corr.proposed_start_time, start_time),
+                end_time       = COALESCE(v_corr.proposed_end_time, end_time),
+                venue          = COALESCE(NULLIF(trim(v_corr.proposed_venue), ''), venue),
+                is_detached    = is_detached OR template_id IS NOT NULL
+            WHERE id = v_session.id;
+        END IF;
+    END IF;
+
+    UPDATE session_corrections
+    SET status      = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_note = NULLIF(trim(p_note), '')
+    WHERE id = p_correction_id;
+END;
+$$;
@@ -0,0 +1,425 @@
+-- ============================================================
+-- 016_venues.sql  –  Venue registry, venue links on sessions/events, per-venue bookings
+-- ============================================================
+-- class_sessions.venue and events.venue stay as the display text so
+-- every existing read path keeps working. venue_id links a row to
+-- the registry: it is resolved from the text (canonical name or any
+-- alias) on write, and the text is rewritten to the canonical name,
+-- so "LH-1" and "Lecture Hall 1" end up as one venue.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. VENUES
+-- ────────────────────────────────────────────────────────────
+CREATE TABLE venues (
+    id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name              TEXT NOT NULL,
+    building          TEXT,
+    capacity          INT CHECK (capacity IS NULL OR capacity > 0),
+    geofence_lat      DOUBLE PRECISION,
+    geofence_lng      DOUBLE PRECISION,
+    geofence_radius_m INT NOT NULL DEFAULT 100 CHECK (geofence_radius_m BETWEEN 10 AND 5000),
+    aliases           TEXT[] NOT NULL DEFAULT '{}',
+    is_active         BOOLEAN NOT NULL DEFAULT true,
+    created_at        TIMESTAMPTZ DEFAULT now(),
+    CHECK ((geofence_lat IS NULL) = (geofence_lng IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_venues_name ON venues (lower(trim(name)));
+
+-- ────────────────────────────────────────────────────────────
+-- 2. VENUE LINKS
+-- ────────────────────────────────────────────────────────────
+ALTER TABLE class_sessions
+    ADD COLUMN venue_id UUID REFERENCES venues(id) ON DELETE SET NULL;
+ALTER TABLE timetable_templates
+    ADD COLUMN venue_id UUID REFERENCES venues(id) ON DELETE SET NULL;
+ALTER TABLE events
+    ADD COLUMN venue_id UUID REFERENCES venues(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_class_sessions_venue ON class_sessions (venue_id, scheduled_date);
+CREATE INDEX idx_events_venue         ON events (venue_id, start_datetime);
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE venues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view venues"
+    ON venues FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage venues"
+    ON venues FOR ALL
+    USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+
+-- ============================================================
+-- FUNCTION: resolve_venue
+-- ============================================================
+-- Registry id for a free-text venue, matching the canonical name or
+-- any alias case- and whitespace-insensitively. NULL when unknown.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.resolve_venue(p_text TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT v.id
+    FROM venues v
+    WHERE NULLIF(lower(trim(p_text)), '') IS NOT NULL
+      AND (
+          lower(trim(v.name)) = lower(trim(p_text))
+          OR lower(trim(p_text)) IN (SELECT lower(trim(a)) FROM unnest(v.aliases) a)
+      )
+    ORDER BY v.is_active DESC, v.created_at
+    LIMIT 1;
+$$;
+
+
+-- ============================================================
+-- TRIGGER: keep venue text and venue_id in step
+-- ============================================================
+-- Shared by class_sessions, timetable_templates and events.
+--   venue_id set/changed  → venue text becomes the canonical name
+--   venue text changed    → venue_id is re-resolved from it
+-- Events with no geofence of their own inherit the venue's.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.sync_venue_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_venue venues%ROWTYPE;
+BEGIN
+    IF NEW.venue_id IS NOT NULL
+       AND (TG_OP = 'INSERT' OR NEW.venue_id IS DISTINCT FROM OLD.venue_id) THEN
+        SELECT * INTO v_venue FROM venues WHERE id = NEW.venue_id;
+        NEW.venue := v_venue.name;
+    ELSIF TG_OP = 'INSERT' OR NEW.venue IS DISTINCT FROM OLD.venue THEN
+        NEW.venue_id := resolve_venue(NEW.venue);
+        IF NEW.venue_id IS NOT NULL THEN
+            SELECT * INTO v_venue FROM venues WHERE id = NEW.venue_id;
+            NEW.venue := v_venue.name;
+        END IF;
+    END IF;
+
+    -- Nested so the geofence columns are only referenced on events
+    IF TG_TABLE_NAME = 'events' AND NEW.venue_id IS NOT NULL THEN
+        IF NEW.geofence_lat IS NULL AND NEW.geofence_lng IS NULL THEN
+            SELECT * INTO v_venue FROM venues WHERE id = NEW.venue_id;
+            NEW.geofence_lat      := v_venue.geofence_lat;
+            NEW.geofence_lng      := v_venue.geofence_lng;
+            NEW.geofence_radius_m := COALESCE(v_venue.geofence_radius_m, NEW.geofence_radius_m);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_class_session_venue
+    BEFORE INSERT OR UPDATE OF venue, venue_id ON class_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_venue_link();
+
+CREATE TRIGGER on_timetable_template_venue
+    BEFORE INSERT OR UPDATE OF venue, venue_id ON timetable_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_venue_link();
+
+CREATE TRIGGER on_event_venue
+    BEFORE INSERT OR UPDATE OF venue, venue_id ON events
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_venue_link();
+
+
+-- ============================================================
+-- TRIGGER: link existing rows when a venue is added or renamed
+-- ============================================================
+-- Unlinked rows whose text matches the new name/aliases are linked
+-- (and so canonicalised); linked rows follow a rename.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.on_venue_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_keys TEXT[];
+BEGIN
+    SELECT array_agg(DISTINCT lower(trim(k)))
+    INTO v_keys
+    FROM unnest(NEW.aliases || NEW.name) k
+    WHERE NULLIF(trim(k), '') IS NOT NULL;
+
+    UPDATE class_sessions      SET venue_id = NEW.id WHERE venue_id IS NULL AND lower(trim(venue)) = ANY (v_keys);
+    UPDATE timetable_templates SET venue_id = NEW.id WHERE venue_id IS NULL AND lower(trim(venue)) = ANY (v_keys);
+    UPDATE events              SET venue_id = NEW.id WHERE venue_id IS NULL AND lower(trim(venue)) = ANY (v_keys);
+
+    IF TG_OP = 'UPDATE' AND NEW.name IS DISTINCT FROM OLD.name THEN
+        UPDATE class_sessions      SET venue = NEW.name WHERE venue_id = NEW.id;
+        UPDATE timetable_templates SET venue = NEW.name WHERE venue_id = NEW.id;
+        UPDATE events              SET venue = NEW.name WHERE venue_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_venue_change
+    AFTER INSERT OR UPDATE OF name, aliases ON venues
+    FOR EACH ROW
+    EXECUTE FUNCTION public.on_venue_change();
+
+
+-- ============================================================
+-- FUNCTION: get_venue_bookings
+-- ============================================================
+-- Everything booked at a venue between two dates: class sessions
+-- (not cancelled) and events (not cancelled), in local time.
+-- Event timestamps are converted with p_timezone so they line up
+-- with session times. conflicts lists the ids of overlapping
+-- bookings. Faculty, club admins and admins only.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_venue_bookings(
+    p_venue_id UUID,
+    p_from     DATE,
+    p_to       DATE,
+    p_timezone TEXT DEFAULT 'Asia/Kolkata'
+)
+RETURNS TABLE (
+    kind       TEXT,
+    booking_id UUID,
+    title      TEXT,
+    detail     TEXT,
+    starts_at  TIMESTAMP,
+    ends_at    TIMESTAMP,
+    conflicts  UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid() AND role IN ('faculty', 'club_admin', 'admin')
+    ) THEN
+        RAISE EXCEPTION 'Only staff can view venue bookings';
+    END IF;
+
+    RETURN QUERY
+    WITH b AS (
+        SELECT
+            'session'::TEXT                          AS kind,
+            cs.id                                    AS booking_id,
+            s.code || ' · ' || s.name                AS title,
+            cs.session_type                          AS detail,
+            (cs.scheduled_date + cs.start_time)      AS starts_at,
+            (cs.scheduled_date + cs.end_time)        AS ends_at
+        FROM class_sessions cs
+        JOIN subjects s ON s.id = cs.subject_id
+        WHERE cs.venue_id = p_venue_id
+          AND cs.is_cancelled = false
+          AND cs.scheduled_date BETWEEN p_from AND p_to
+        UNION ALL
+        SELECT
+            'event',
+            e.id,
+            e.name,
+            e.category,
+            e.start_datetime AT TIME ZONE p_timezone,
+            e.end_datetime   AT TIME ZONE p_timezone
+        FROM events e
+        WHERE e.venue_id = p_venue_id
+          AND e.status <> 'cancelled'
+          AND (e.start_datetime AT TIME ZONE p_timezone)::DATE <= p_to
+          AND (e.end_datetime   AT TIME ZONE p_timezone)::DATE >= p_from
+    )
+    SELECT
+        b.kind, b.booking_id, b.title, b.detail, b.starts_at, b.ends_at,
+        COALESCE(
+            (SELECT array_agg(o.booking_id)
+             FROM b o
+             WHERE o.booking_id <> b.booking_id
+               AND o.starts_at < b.ends_at
+               AND b.starts_at < o.ends_at),
+            '{}'
+        )
+    FROM b
+    ORDER BY b.starts_at, b.kind;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: check_session_clashes  (replaces 014)
+-- ============================================================
+-- Venue clashes now compare registry ids, so "LH-1" and
+-- "Lecture Hall 1" clash; unregistered text still compares as text.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.check_session_clashes(
+    p_sessions JSONB,
+    p_exclude  UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+    idx             INT,
+    clash_type      TEXT,
+    session_id      UUID,
+    subject_id      UUID,
+    subject_code    TEXT,
+    subject_name    TEXT,
+    scheduled_date  DATE,
+    start_time      TIME,
+    end_time        TIME,
+    venue           TEXT,
+    shared_students INT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH cand AS (
+        SELECT
+            (c.ord - 1)::INT                              AS idx,
+            (c.value->>'subject_id')::UUID                AS subject_id,
+            (c.value->>'scheduled_date')::DATE            AS scheduled_date,
+            (c.value->>'start_time')::TIME                AS start_time,
+            (c.value->>'end_time')::TIME                  AS end_time,
+            COALESCE(resolve_venue(c.value->>'venue')::TEXT,
+                     NULLIF(lower(trim(c.value->>'venue')), '')) AS venue_key
+        FROM jsonb_array_elements(COALESCE(p_sessions, '[]'::JSONB)) WITH ORDINALITY AS c(value, ord)
+    )
+    SELECT
+        c.idx, t.clash_type, cs.id, s.id, s.code, s.name,
+        cs.scheduled_date, cs.start_time, cs.end_time, cs.venue, t.shared
+    FROM cand c
+    JOIN subjects own ON own.id = c.subject_id
+    JOIN class_sessions cs
+      ON cs.scheduled_date = c.scheduled_date
+     AND cs.start_time < c.end_time
+     AND c.start_time < cs.end_time
+     AND cs.is_cancelled = false
+     AND cs.id <> ALL (COALESCE(p_exclude, '{}'))
+    JOIN subjects s ON s.id = cs.subject_id
+    CROSS JOIN LATERAL (
+        SELECT 'faculty'::TEXT AS clash_type, NULL::INT AS shared
+        WHERE s.id = own.id OR s.faculty_id = own.faculty_id
+        UNION ALL
+        SELECT 'venue', NULL
+        WHERE c.venue_key IS NOT NULL
+          AND COALESCE(cs.venue_id::TEXT, lower(trim(cs.venue))) = c.venue_key
+        UNION ALL
+        SELECT 'student', n.shared
+        FROM (
+            SELECT COUNT(DISTINCT a.student_id)::INT AS shared
+            FROM student_subjects a
+            JOIN student_subjects b ON b.student_id = a.student_id
+            WHERE a.subject_id = own.id AND b.subject_id = s.id
+        ) n
+        WHERE s.id <> own.id AND n.shared > 0
+    ) t
+    ORDER BY c.idx, cs.start_time;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: get_semester_clashes  (replaces 014)
+-- ============================================================
+-- Same venue comparison as check_session_clashes.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_semester_clashes(
+    p_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    scheduled_date  DATE,
+    session_a       UUID,
+    subject_a       TEXT,
+    start_a         TIME,
+    end_a           TIME,
+    venue_a         TEXT,
+    session_b       UUID,
+    subject_b       TEXT,
+    start_b         TIME,
+    end_b           TIME,
+    venue_b         TEXT,
+    clash_types     TEXT[],
+    shared_students INT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_semester UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view the clash report';
+    END IF;
+
+    v_semester := COALESCE(
+        p_semester_id,
+        (SELECT id FROM academic_semesters WHERE is_current = true LIMIT 1)
+    );
+
+    RETURN QUERY
+    WITH pairs AS (
+        SELECT
+            a.scheduled_date,
+            a.id AS a_id, sa.code AS a_code, a.start_time AS a_start, a.end_time AS a_end, a.venue AS a_venue,
+            b.id AS b_id, sb.code AS b_code, b.start_time AS b_start, b.end_time AS b_end, b.venue AS b_venue,
+            (sa.id = sb.id OR sa.faculty_id = sb.faculty_id) AS same_faculty,
+            (COALESCE(a.venue_id::TEXT, NULLIF(lower(trim(a.venue)), ''))
+                = COALESCE(b.venue_id::TEXT, lower(trim(b.venue)))) AS same_venue,
+            CASE WHEN sa.id = sb.id THEN 0 ELSE (
+                SELECT COUNT(DISTINCT x.student_id)::INT
+                FROM student_subjects x
+                JOIN student_subjects y ON y.student_id = x.student_id
+                WHERE x.subject_id = sa.id AND y.subject_id = sb.id
+            ) END AS shared
+        FROM class_sessions a
+        JOIN class_sessions b
+          ON b.academic_semester_id = a.academic_semester_id
+         AND b.scheduled_date = a.scheduled_date
+         AND b.start_time < a.end_time
+         AND a.start_time < b.end_time
+         AND a.id < b.id
+        JOIN subjects sa ON sa.id = a.subject_id
+        JOIN subjects sb ON sb.id = b.subject_id
+        WHERE a.academic_semester_id = v_semester
+          AND a.is_cancelled = false
+          AND b.is_cancelled = false
+    )
+    SELECT
+        p.scheduled_date,
+        p.a_id, p.a_code, p.a_start, p.a_end, p.a_venue,
+        p.b_id, p.b_code, p.b_start, p.b_end, p.b_venue,
+        array_remove(ARRAY[
+            CASE WHEN p.shared > 0 THEN 'student' END,
+            CASE WHEN p.same_faculty THEN 'faculty' END,
+            CASE WHEN p.same_venue THEN 'venue' END
+        ], NULL),
+        p.shared
+    FROM pairs p
+    WHERE p.shared > 0 OR p.same_faculty OR COALESCE(p.same_venue, false)
+    ORDER BY p.scheduled_date, p.a_start;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- ============================================================
+-- 017_substitute_faculty.sql  –  Per-session substitute faculty and attendance rights
+-- ============================================================
+-- Marking rights used to follow subjects.faculty_id only. A session
+-- can now be handed to a substitute, who may then view and mark
+-- attendance for that one session. The subject's own faculty keeps
+-- full access, and every assignment is kept for the admin history.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. SESSION_SUBSTITUTIONS
+-- ────────────────────────────────────────────────────────────
+-- revoked_at NULL = the active substitute for the session; revoked
+-- rows stay as history.
+CREATE TABLE session_substitutions (
+    id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_session_id      UUID NOT NULL REFERENCES class_sessions(id) ON DELETE CASCADE,
+    original_faculty_id   UUID REFERENCES profiles(id),
+    substitute_faculty_id UUID NOT NULL REFERENCES profiles(id),
+    reason                TEXT,
+    assigned_by           UUID REFERENCES profiles(id),
+    created_at            TIMESTAMPTZ DEFAULT now(),
+    revoked_at            TIMESTAMPTZ,
+    revoked_by            UUID REFERENCES profiles(id)
+);
+
+CREATE UNIQUE INDEX idx_session_substitutions_active
+    ON session_substitutions (class_session_id)
+    WHERE revoked_at IS NULL;
+
+CREATE INDEX idx_session_substitutions_substitute
+    ON session_substitutions (substitute_faculty_id)
+    WHERE revoked_at IS NULL;
+
+
+-- ============================================================
+-- FUNCTION: can_mark_session
+-- ============================================================
+-- True for the subject's faculty and for the session's active
+-- substitute.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.can_mark_session(
+    p_session_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM class_sessions cs
+        JOIN subjects      s ON s.id = cs.subject_id
+        WHERE cs.id = p_session_id AND s.faculty_id = auth.uid()
+    ) OR EXISTS (
+        SELECT 1 FROM session_substitutions
+        WHERE class_session_id = p_session_id
+          AND substitute_faculty_id = auth.uid()
+          AND revoked_at IS NULL
+    );
+$$;
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE session_substitutions ENABLE ROW LEVEL SECURITY;
+
+-- ── session_substitutions ───────────────────────────────────
+-- Writes go through assign/revoke_session_substitute()
+
+CREATE POLICY "Faculty can view substitutions of own sessions"
+    ON session_substitutions FOR SELECT
+    USING (
+        auth.uid() = substitute_faculty_id
+        OR EXISTS (
+            SELECT 1 FROM class_sessions cs
+            WHERE cs.id = session_substitutions.class_session_id
+              AND can_manage_subject_timetable(cs.subject_id)
+        )
+    );
+
+-- ── profiles ────────────────────────────────────────────────
+-- Needed to pick a substitute and to show who covers a session
+
+CREATE POLICY "Faculty can view faculty profiles"
+    ON profiles FOR SELECT
+    USING (
+        role = 'faculty'
+        AND EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role IN ('faculty', 'admin')
+        )
+    );
+
+-- ── attendance_records ──────────────────────────────────────
+-- Replaces the 001 policy, which only allowed the subject's faculty
+
+DROP POLICY "Faculty can insert attendance" ON attendance_records;
+
+CREATE POLICY "Faculty can insert attendance"
+    ON attendance_records FOR INSERT
+    WITH CHECK (can_mark_session(class_session_id));
+
+CREATE POLICY "Substitutes can view attendance for covered sessions"
+    ON attendance_records FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM session_substitutions ss
+            WHERE ss.class_session_id = attendance_records.class_session_id
+              AND ss.substitute_faculty_id = auth.uid()
+              AND ss.revoked_at IS NULL
+        )
+    );
+
+
+-- ============================================================
+-- FUNCTION: assign_session_substitute
+-- ============================================================
+-- Hands one session to another faculty member, replacing any
+-- active substitute. The subject's faculty or an admin only.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.assign_session_substitute(
+    p_session_id    UUID,
+    p_substitute_id UUID,
+    p_reason        TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session class_sessions%ROWTYPE;
+    v_faculty UUID;
+    v_id      UUID;
+BEGIN
+    SELECT * INTO v_session FROM class_sessions WHERE id = p_session_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can assign a substitute';
+    END IF;
+
+    IF v_session.is_cancelled THEN
+        RAISE EXCEPTION 'Session is cancelled';
+    END IF;
+
+    SELECT faculty_id INTO v_faculty FROM subjects WHERE id = v_session.subject_id;
+
+    IF p_substitute_id = v_faculty THEN
+        RAISE EXCEPTION 'The substitute must be someone other than the subject''s faculty';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_substitute_id AND role = 'faculty') THEN
+        RAISE EXCEPTION 'Substitute must be a faculty member';
+    END IF;
+
+    UPDATE session_substitutions
+    SET revoked_at = now(),
+        revoked_by = auth.uid()
+    WHERE class_session_id = p_session_id
+      AND revoked_at IS NULL;
+
+    INSERT INTO session_substitutions (
+        class_session_id, original_faculty_id, substitute_faculty_id, reason, assigned_by
+    ) VALUES (
+        p_session_id, v_faculty, p_substitute_id, NULLIF(trim(p_reason), ''), auth.uid()
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: revoke_session_substitute
+-- ============================================================
+-- Hands the session back to the subject's faculty. Attendance the
+-- substitute already marked is kept.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.revoke_session_substitute(
+    p_session_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM class_sessions
+        WHERE id = p_session_id AND can_manage_subject_timetable(subject_id)
+    ) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can change the substitute';
+    END IF;
+
+    UPDATE session_substitutions
+    SET revoked_at = now(),
+        revoked_by = auth.uid()
+    WHERE class_session_id = p_session_id
+      AND revoked_at IS NULL;
+END;
+$$;
@@ -0,0 +1,225 @@
+-- ============================================================
+-- 018_session_reschedule.sql  –  Rescheduling a session in place, with student notifications
+-- ============================================================
+-- Moving a class used to mean cancelling it and adding a new one,
+-- which lost its identity (attendance, OD requests, corrections)
+-- and told nobody. reschedule_class_session() moves the session
+-- itself, remembers the slot it was first scheduled in and
+-- notifies every enrolled student.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CLASS_SESSIONS: original slot of a moved session
+-- ────────────────────────────────────────────────────────────
+-- rescheduled_from_*  the slot before the first reschedule; moving
+--                     the session again keeps it, moving it back
+--                     clears it
+-- rescheduled_at      last reschedule, drives the "moved" badge
+ALTER TABLE class_sessions
+    ADD COLUMN rescheduled_from_date  DATE,
+    ADD COLUMN rescheduled_from_start TIME,
+    ADD COLUMN rescheduled_from_end   TIME,
+    ADD COLUMN rescheduled_from_venue TEXT,
+    ADD COLUMN rescheduled_at         TIMESTAMPTZ,
+    ADD COLUMN reschedule_reason      TEXT;
+
+-- ────────────────────────────────────────────────────────────
+-- 2. ACADEMIC_SEMESTERS: how long timetables flag a moved session
+-- ────────────────────────────────────────────────────────────
+ALTER TABLE academic_semesters
+    ADD COLUMN reschedule_badge_days SMALLINT NOT NULL DEFAULT 7
+        CHECK (reschedule_badge_days >= 0);
+
+-- ────────────────────────────────────────────────────────────
+-- 3. TIMETABLE_NOTIFICATIONS: new kind
+-- ────────────────────────────────────────────────────────────
+--   rescheduled  a session moved to another date, time or venue
+ALTER TABLE timetable_notifications
+    DROP CONSTRAINT timetable_notifications_kind_check,
+    ADD CONSTRAINT timetable_notifications_kind_check
+        CHECK (kind IN ('cancelled', 'restored', 'makeup', 'rescheduled'));
+
+
+-- ============================================================
+-- FUNCTION: reschedule_class_session
+-- ============================================================
+-- Moves one upcoming session to a new slot in the same semester.
+-- A recurring session is detached from its weekly slot, like a
+-- "this only" edit. Sessions that already have attendance stay
+-- where they are.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.reschedule_class_session(
+    p_session_id     UUID,
+    p_scheduled_date DATE,
+    p_start_time     TIME,
+    p_end_time       TIME,
+    p_venue          TEXT DEFAULT NULL,
+    p_reason         TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session class_sessions%ROWTYPE;
+    v_venue   TEXT;
+BEGIN
+    SELECT * INTO v_session FROM class_sessions WHERE id = p_session_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    IF v_session.is_cancelled THEN
+        RAISE EXCEPTION 'Cancelled sessions can''t be rescheduled — schedule a make-up instead';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM attendance_records WHERE class_session_id = p_session_id) THEN
+        RAISE EXCEPTION 'Attendance has already been marked for this session';
+    END IF;
+
+    IF p_start_time >= p_end_time THEN
+        RAISE EXCEPTION 'End time must be after start time';
+    END IF;
+
+    IF p_scheduled_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'A session can''t be moved into the past';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM academic_semesters
+        WHERE id = v_session.academic_semester_id
+          AND p_scheduled_date BETWEEN start_date AND end_date
+    ) THEN
+        RAISE EXCEPTION 'New date is outside the semester';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM academic_holidays
+        WHERE academic_semester_id = v_session.academic_semester_id
+          AND holiday_date = p_scheduled_date
+    ) THEN
+        RAISE EXCEPTION 'New date is a holiday';
+    END IF;
+
+    v_venue := COALESCE(NULLIF(trim(p_venue), ''), v_session.venue);
+
+    IF p_scheduled_date = v_session.scheduled_date
+       AND p_start_time = v_session.start_time
+       AND p_end_time = v_session.end_time
+       AND v_venue IS NOT DISTINCT FROM v_session.venue THEN
+        RAISE EXCEPTION 'The session is already in that slot';
+    END IF;
+
+    UPDATE class_sessions
+    SET rescheduled_from_date  = COALESCE(rescheduled_from_date, scheduled_date),
+        rescheduled_from_start = CASE WHEN rescheduled_from_date IS NULL THEN start_time ELSE rescheduled_from_start END,
+        rescheduled_from_end   = CASE WHEN rescheduled_from_date IS NULL THEN end_time ELSE rescheduled_from_end END,
+        rescheduled_from_venue = CASE WHEN rescheduled_from_date IS NULL THEN venue ELSE rescheduled_from_venue END,
+        scheduled_date         = p_scheduled_date,
+        start_time             = p_start_time,
+        end_time               = p_end_time,
+        venue                  = v_venue,
+        is_detached            = template_id IS NOT NULL,
+        rescheduled_at         = now(),
+        reschedule_reason      = NULLIF(trim(p_reason), '')
+    WHERE id = p_session_id;
+
+    -- Moved back to where it started: nothing to flag any more
+    UPDATE class_sessions
+    SET rescheduled_from_date  = NULL,
+        rescheduled_from_start = NULL,
+        rescheduled_from_end   = NULL,
+        rescheduled_from_venue = NULL
+    WHERE id = p_session_id
+      AND rescheduled_from_date = scheduled_date
+      AND rescheduled_from_start = start_time
+      AND rescheduled_from_end = end_time
+      AND rescheduled_from_venue IS NOT DISTINCT FROM venue;
+END;
+$$;
+
+
+-- ============================================================
+-- TRIGGER: notify enrolled students of timetable changes  (replaces 013 version)
+-- ============================================================
+-- Adds reschedules: any change of rescheduled_at tells students
+-- where the session moved from and to.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.on_class_session_notify()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_kind    TEXT;
+    v_message TEXT;
+    v_code    TEXT;
+    v_orig    DATE;
+BEGIN
+    IF NEW.scheduled_date < CURRENT_DATE THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT code INTO v_code FROM subjects WHERE id = NEW.subject_id;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.makeup_for IS NULL THEN
+            RETURN NULL;
+        END IF;
+        SELECT scheduled_date INTO v_orig FROM class_sessions WHERE id = NEW.makeup_for;
+        v_kind := 'makeup';
+        v_message := format(
+            '%s make-up class on %s, %s–%s%s (replaces %s)',
+            v_code, to_char(NEW.scheduled_date, 'Dy DD Mon'),
+            to_char(NEW.start_time, 'HH24:MI'), to_char(NEW.end_time, 'HH24:MI'),
+            COALESCE(' in ' || NEW.venue, ''), to_char(v_orig, 'Dy DD Mon')
+        );
+    ELSIF NEW.is_cancelled AND NOT OLD.is_cancelled THEN
+        v_kind := 'cancelled';
+        v_message := format(
+            '%s class on %s at %s is cancelled%s',
+            v_code, to_char(NEW.scheduled_date, 'Dy DD Mon'),
+            to_char(NEW.start_time, 'HH24:MI'), COALESCE(' — ' || NEW.cancel_reason, '')
+        );
+    ELSIF OLD.is_cancelled AND NOT NEW.is_cancelled THEN
+        v_kind := 'restored';
+        v_message := format(
+            '%s class on %s at %s is back on',
+            v_code, to_char(NEW.scheduled_date, 'Dy DD Mon'), to_char(NEW.start_time, 'HH24:MI')
+        );
+    ELSIF NEW.rescheduled_at IS DISTINCT FROM OLD.rescheduled_at THEN
+        v_kind := 'rescheduled';
+        v_message := format(
+            '%s class on %s at %s moved to %s, %s–%s%s%s',
+            v_code, to_char(OLD.scheduled_date, 'Dy DD Mon'), to_char(OLD.start_time, 'HH24:MI'),
+            to_char(NEW.scheduled_date, 'Dy DD Mon'),
+            to_char(NEW.start_time, 'HH24:MI'), to_char(NEW.end_time, 'HH24:MI'),
+            COALESCE(' in ' || NEW.venue, ''), COALESCE(' — ' || NEW.reschedule_reason, '')
+        );
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO timetable_notifications (student_id, subject_id, class_session_id, kind, message)
+    SELECT ss.student_id, NEW.subject_id, NEW.id, v_kind, v_message
+    FROM student_subjects ss
+    WHERE ss.subject_id = NEW.subject_id;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER on_class_session_notify ON class_sessions;
+
+CREATE TRIGGER on_class_session_notify
+    AFTER INSERT OR UPDATE OF is_cancelled, rescheduled_at ON class_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.on_class_session_notify();
@@ -0,0 +1,302 @@
+-- ============================================================
+-- 019_class_check_in.sql  –  Live QR / code self check-in for class sessions
+-- ============================================================
+-- Faculty open a session "live" and project a six-digit code (also
+-- encoded in a QR) that changes every few seconds. Students enter or
+-- scan it to mark themselves present; the code is derived from a
+-- per-window secret that never leaves the database. Closing the
+-- window ends check-in and can mark everyone else absent.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CLASS_CHECK_IN_WINDOWS
+-- ────────────────────────────────────────────────────────────
+-- One row per session that has been opened for check-in.
+-- closed_at NULL = check-in is open.
+CREATE TABLE class_check_in_windows (
+    class_session_id UUID PRIMARY KEY REFERENCES class_sessions(id) ON DELETE CASCADE,
+    secret           TEXT NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex'),
+    rotate_seconds   SMALLINT NOT NULL DEFAULT 10 CHECK (rotate_seconds BETWEEN 5 AND 60),
+    opened_by        UUID REFERENCES profiles(id),
+    opened_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+    closed_at        TIMESTAMPTZ,
+    closed_by        UUID REFERENCES profiles(id)
+);
+
+-- ────────────────────────────────────────────────────────────
+-- 2. CLASS_CHECK_IN_ATTEMPTS
+-- ────────────────────────────────────────────────────────────
+-- Wrong codes per student, so codes can't be guessed by brute force
+CREATE TABLE class_check_in_attempts (
+    id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id   UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_class_check_in_attempts_student ON class_check_in_attempts (student_id, attempted_at DESC);
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+-- Both tables are only touched by the functions below; with no
+-- policies, clients can't read the secrets.
+
+ALTER TABLE class_check_in_windows  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_check_in_attempts ENABLE ROW LEVEL SECURITY;
+
+
+-- ============================================================
+-- FUNCTION: class_check_in_code
+-- ============================================================
+-- The six-digit code of a window's secret for one time step.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.class_check_in_code(
+    p_secret TEXT,
+    p_step   BIGINT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT lpad(
+        (abs(('x' || substr(md5(p_secret || ':' || p_step), 1, 8))::bit(32)::int) % 1000000)::text,
+        6, '0'
+    );
+$$;
+
+
+-- ============================================================
+-- FUNCTION: open_class_check_in
+-- ============================================================
+-- Opens (or reopens, with a fresh secret) check-in for a session
+-- on its own day. The subject's faculty or its substitute only.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.open_class_check_in(
+    p_session_id     UUID,
+    p_rotate_seconds SMALLINT DEFAULT 10
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session class_sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_session FROM class_sessions WHERE id = p_session_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF NOT can_mark_session(p_session_id) THEN
+        RAISE EXCEPTION 'Only the session''s faculty can run check-in';
+    END IF;
+
+    IF v_session.is_cancelled THEN
+        RAISE EXCEPTION 'Session is cancelled';
+    END IF;
+
+    IF v_session.scheduled_date <> CURRENT_DATE THEN
+        RAISE EXCEPTION 'Live check-in is only available on the day of the session';
+    END IF;
+
+    INSERT INTO class_check_in_windows (class_session_id, rotate_seconds, opened_by)
+    VALUES (p_session_id, p_rotate_seconds, auth.uid())
+    ON CONFLICT (class_session_id) DO UPDATE
+    SET secret         = encode(gen_random_bytes(16), 'hex'),
+        rotate_seconds = EXCLUDED.rotate_seconds,
+        opened_by      = EXCLUDED.opened_by,
+        opened_at      = now(),
+        closed_at      = NULL,
+        closed_by      = NULL;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: get_class_check_in
+-- ============================================================
+-- What the faculty's live screen polls: the current code, how long
+-- it stays valid and the check-in count.
+-- Returns { is_open, code, seconds_left, rotate_seconds,
+--           checked_in, marked, enrolled }.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_class_check_in(
+    p_session_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_window   class_check_in_windows%ROWTYPE;
+    v_epoch    BIGINT := floor(extract(epoch FROM now()));
+    v_open     BOOLEAN;
+    v_checked  INT;
+    v_marked   INT;
+    v_enrolled INT;
+BEGIN
+    IF NOT can_mark_session(p_session_id) THEN
+        RAISE EXCEPTION 'Only the session''s faculty can run check-in';
+    END IF;
+
+    SELECT * INTO v_window FROM class_check_in_windows WHERE class_session_id = p_session_id;
+    v_open := FOUND AND v_window.closed_at IS NULL;
+
+    SELECT
+        COUNT(*) FILTER (WHERE marked_by = 'student'),
+        COUNT(*)
+    INTO v_checked, v_marked
+    FROM attendance_records
+    WHERE class_session_id = p_session_id;
+
+    SELECT COUNT(*) INTO v_enrolled
+    FROM student_subjects ss
+    JOIN class_sessions cs ON cs.subject_id = ss.subject_id
+    WHERE cs.id = p_session_id;
+
+    RETURN jsonb_build_object(
+        'is_open',        v_open,
+        'code',           CASE WHEN v_open THEN class_check_in_code(v_window.secret, v_epoch / v_window.rotate_seconds) END,
+        'seconds_left',   CASE WHEN v_open THEN v_window.rotate_seconds - v_epoch % v_window.rotate_seconds END,
+        'rotate_seconds', v_window.rotate_seconds,
+        'checked_in',     v_checked,
+        'marked',         v_marked,
+        'enrolled',       v_enrolled
+    );
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: class_check_in
+-- ============================================================
+-- Student side. Finds the open window among the caller's enrolled
+-- subjects (or the given session) whose current or previous code
+-- matches, and marks the caller present. An existing record of any
+-- status is left alone. More than 10 wrong codes in 5 minutes locks
+-- the student out for the rest of that time.
+-- Returns { result: 'checked_in' | 'already_marked' | 'invalid_code',
+--           session_id, subject_code, subject_name, status }.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.class_check_in(
+    p_code       TEXT,
+    p_session_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_epoch    BIGINT := floor(extract(epoch FROM now()));
+    v_session  UUID;
+    v_code     TEXT;
+    v_name     TEXT;
+    v_existing TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'student') THEN
+        RAISE EXCEPTION 'Only students can check in to a class';
+    END IF;
+
+    IF (
+        SELECT COUNT(*) FROM class_check_in_attempts
+        WHERE student_id = auth.uid() AND attempted_at > now() - interval '5 minutes'
+    ) >= 10 THEN
+        RAISE EXCEPTION 'Too many wrong codes. Try again in a few minutes.';
+    END IF;
+
+    SELECT cs.id, s.code, s.name
+    INTO v_session, v_code, v_name
+    FROM class_check_in_windows w
+    JOIN class_sessions   cs ON cs.id = w.class_session_id
+    JOIN subjects         s  ON s.id = cs.subject_id
+    JOIN student_subjects ss ON ss.subject_id = cs.subject_id AND ss.student_id = auth.uid()
+    WHERE w.closed_at IS NULL
+      AND cs.is_cancelled = false
+      AND cs.scheduled_date = CURRENT_DATE
+      AND (p_session_id IS NULL OR cs.id = p_session_id)
+      AND trim(p_code) IN (
+          class_check_in_code(w.secret, v_epoch / w.rotate_seconds),
+          class_check_in_code(w.secret, v_epoch / w.rotate_seconds - 1)
+      )
+    LIMIT 1;
+
+    IF v_session IS NULL THEN
+        INSERT INTO class_check_in_attempts (student_id) VALUES (auth.uid());
+        RETURN jsonb_build_object('result', 'invalid_code');
+    END IF;
+
+    SELECT status INTO v_existing
+    FROM attendance_records
+    WHERE class_session_id = v_session AND student_id = auth.uid();
+
+    IF v_existing IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'result', 'already_marked', 'session_id', v_session,
+            'subject_code', v_code, 'subject_name', v_name, 'status', v_existing
+        );
+    END IF;
+
+    INSERT INTO attendance_records (student_id, class_session_id, status, marked_by)
+    VALUES (auth.uid(), v_session, 'present', 'student');
+
+    RETURN jsonb_build_object(
+        'result', 'checked_in', 'session_id', v_session,
+        'subject_code', v_code, 'subject_name', v_name, 'status', 'present'
+    );
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: close_class_check_in
+-- ============================================================
+-- Ends check-in for the session. With p_mark_absent, every enrolled
+-- student without a record is marked absent. Returns the number of
+-- students marked absent.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.close_class_check_in(
+    p_session_id  UUID,
+    p_mark_absent BOOLEAN DEFAULT false
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_absent INT := 0;
+BEGIN
+    IF NOT can_mark_session(p_session_id) THEN
+        RAISE EXCEPTION 'Only the session''s faculty can run check-in';
+    END IF;
+
+    UPDATE class_check_in_windows
+    SET closed_at = now(),
+        closed_by = auth.uid()
+    WHERE class_session_id = p_session_id
+      AND closed_at IS NULL;
+
+    IF p_mark_absent THEN
+        INSERT INTO attendance_records (student_id, class_session_id, status, marked_by)
+        SELECT ss.student_id, cs.id, 'absent', 'faculty'
+        FROM class_sessions cs
+        JOIN student_subjects ss ON ss.subject_id = cs.subject_id
+        WHERE cs.id = p_session_id
+        ON CONFLICT (student_id, class_session_id) DO NOTHING;
+        GET DIAGNOSTICS v_absent = ROW_COUNT;
+    END IF;
+
+    RETURN v_absent;
+END;
+$$;
@@ -0,0 +1,167 @@
+-- ============================================================
+-- 020_event_check_in.sql  –  Server-side QR + geofence verification for event check-in
+-- ============================================================
+-- Check-in used to be an upsert from the browser, which computed
+-- the distance itself and wrote geofence_verified; any student could
+-- set it to true. check_in_to_event() now validates the QR token, the
+-- check-in window and the reported position against the event's
+-- geofence, and is the only writer of the check-in fields.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. EVENT_REGISTRATIONS: what the check-in was verified against
+-- ────────────────────────────────────────────────────────────
+ALTER TABLE event_registrations
+    ADD COLUMN check_in_accuracy_m      DOUBLE PRECISION,
+    ADD COLUMN check_in_distance_m      INT,
+    ADD COLUMN geofence_override_reason TEXT;
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+-- Students no longer update their registration directly, and may
+-- only insert the event and themselves; every check-in field is
+-- written by check_in_to_event().
+
+DROP POLICY "Students can update own registration" ON event_registrations;
+
+REVOKE UPDATE ON event_registrations FROM authenticated;
+REVOKE INSERT ON event_registrations FROM authenticated;
+GRANT  INSERT (event_id, student_id) ON event_registrations TO authenticated;
+
+
+-- ============================================================
+-- FUNCTION: distance_m
+-- ============================================================
+-- Great-circle (haversine) distance between two points, in metres.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.distance_m(
+    p_lat1 DOUBLE PRECISION,
+    p_lng1 DOUBLE PRECISION,
+    p_lat2 DOUBLE PRECISION,
+    p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT 2 * 6371000 * asin(sqrt(
+        sin(radians(p_lat2 - p_lat1) / 2) ^ 2
+        + cos(radians(p_lat1)) * cos(radians(p_lat2)) * sin(radians(p_lng2 - p_lng1) / 2) ^ 2
+    ));
+$$;
+
+
+-- ============================================================
+-- FUNCTION: check_in_to_event
+-- ============================================================
+-- Checks the caller in to the event behind a QR token. Check-in
+-- opens 30 minutes before the start and closes at the end.
+--
+-- The position is verified when it lies inside the geofence and
+-- the device's reported accuracy is no wider than the fence, so a
+-- coarse fix can't land "inside" by chance. Events without a
+-- geofence verify any position. An unverified check-in needs an
+-- override reason (at least 5 characters), which is stored for the
+-- organiser.
+--
+-- Returns { registration_id, event_id, verified, distance_m }.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.check_in_to_event(
+    p_token           TEXT,
+    p_lat             DOUBLE PRECISION,
+    p_lng             DOUBLE PRECISION,
+    p_accuracy_m      DOUBLE PRECISION,
+    p_override_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event    events%ROWTYPE;
+    v_distance DOUBLE PRECISION;
+    v_verified BOOLEAN;
+    v_reason   TEXT := nullif(trim(p_override_reason), '');
+    v_reg_id   UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'student') THEN
+        RAISE EXCEPTION 'Only students can check in to events';
+    END IF;
+
+    SELECT * INTO v_event FROM events WHERE qr_code_token = p_token;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid or expired QR code';
+    END IF;
+
+    IF v_event.status = 'cancelled' THEN
+        RAISE EXCEPTION 'This event has been cancelled';
+    END IF;
+
+    IF v_event.status = 'completed' OR now() > v_event.end_datetime THEN
+        RAISE EXCEPTION 'The event has ended. Check-in is closed.';
+    END IF;
+
+    IF now() < v_event.start_datetime - interval '30 minutes' THEN
+        RAISE EXCEPTION 'Check-in opens 30 minutes before the event starts';
+    END IF;
+
+    IF p_lat IS NULL OR p_lng IS NULL
+       OR p_lat NOT BETWEEN -90 AND 90 OR p_lng NOT BETWEEN -180 AND 180 THEN
+        RAISE EXCEPTION 'A valid location is required to check in';
+    END IF;
+
+    IF p_accuracy_m IS NULL OR p_accuracy_m < 0 THEN
+        RAISE EXCEPTION 'Location accuracy is required to check in';
+    END IF;
+
+    IF v_event.geofence_lat IS NULL OR v_event.geofence_lng IS NULL THEN
+        v_verified := true;
+    ELSE
+        v_distance := distance_m(p_lat, p_lng, v_event.geofence_lat, v_event.geofence_lng);
+        v_verified := v_distance <= v_event.geofence_radius_m
+                  AND p_accuracy_m <= v_event.geofence_radius_m;
+    END IF;
+
+    IF NOT v_verified AND coalesce(length(v_reason), 0) < 5 THEN
+        RAISE EXCEPTION 'You are outside the event zone. Give a reason (at least 5 characters) to check in anyway.';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM event_registrations
+        WHERE event_id = v_event.id AND student_id = auth.uid() AND check_in_time IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'You have already checked in to this event';
+    END IF;
+
+    INSERT INTO event_registrations (
+        event_id, student_id, check_in_time, check_in_lat, check_in_lng,
+        check_in_accuracy_m, check_in_distance_m, geofence_verified, geofence_override_reason
+    )
+    VALUES (
+        v_event.id, auth.uid(), now(), p_lat, p_lng,
+        p_accuracy_m, round(v_distance), v_verified, CASE WHEN NOT v_verified THEN v_reason END
+    )
+    ON CONFLICT (event_id, student_id) DO UPDATE
+    SET check_in_time            = EXCLUDED.check_in_time,
+        check_in_lat             = EXCLUDED.check_in_lat,
+        check_in_lng             = EXCLUDED.check_in_lng,
+        check_in_accuracy_m      = EXCLUDED.check_in_accuracy_m,
+        check_in_distance_m      = EXCLUDED.check_in_distance_m,
+        geofence_verified        = EXCLUDED.geofence_verified,
+        geofence_override_reason = EXCLUDED.geofence_override_reason
+    RETURNING id INTO v_reg_id;
+
+    RETURN jsonb_build_object(
+        'registration_id', v_reg_id,
+        'event_id',        v_event.id,
+        'verified',        v_verified,
+        'distance_m',      round(v_distance)
+    );
+END;
+$$;
@@ -0,0 +1,221 @@
+-- ============================================================
+-- 021_attendance_audit.sql  –  Append-only history of attendance changes
+-- ============================================================
+-- Attendance is upserted over existing records, so the previous
+-- status used to be lost. A trigger now writes every insert, update
+-- and delete on attendance_records to attendance_audit with who made
+-- it, when, the old and new status and where it came from.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. ATTENDANCE_RECORDS.SOURCE
+-- ────────────────────────────────────────────────────────────
+-- Where the current status came from. Writers may set it; when a
+-- write doesn't, it is worked out from marked_by (see below).
+ALTER TABLE attendance_records
+    ADD COLUMN source TEXT CHECK (source IN (
+        'faculty_ui', 'od_approval', 'medical_leave', 'import', 'self_check_in', 'system'
+    ));
+
+-- ────────────────────────────────────────────────────────────
+-- 2. ATTENDANCE_AUDIT
+-- ────────────────────────────────────────────────────────────
+-- attendance_record_id is not a foreign key so the history of a
+-- deleted record survives it.
+CREATE TABLE attendance_audit (
+    id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    attendance_record_id UUID NOT NULL,
+    student_id           UUID REFERENCES profiles(id) ON DELETE CASCADE,
+    class_session_id     UUID REFERENCES class_sessions(id) ON DELETE CASCADE,
+    action               TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    old_status           TEXT,
+    new_status           TEXT,
+    source               TEXT NOT NULL,
+    actor_id             UUID REFERENCES profiles(id) ON DELETE SET NULL,   -- NULL = server job
+    changed_at           TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_attendance_audit_session ON attendance_audit (class_session_id, changed_at DESC);
+CREATE INDEX idx_attendance_audit_student ON attendance_audit (student_id, changed_at DESC);
+CREATE INDEX idx_attendance_audit_changed ON attendance_audit (changed_at DESC);
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+-- Written by the triggers below only, and never changed: there
+-- are no write policies and no UPDATE / DELETE grants.
+
+ALTER TABLE attendance_audit ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON attendance_audit FROM anon, authenticated;
+
+-- Whoever can mark a session can see its history
+CREATE POLICY "Faculty can view audit for own sessions"
+    ON attendance_audit FOR SELECT
+    USING (can_mark_session(class_session_id));
+
+-- Admins can see all history
+CREATE POLICY "Admins can view all attendance audit"
+    ON attendance_audit FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles AS p
+            WHERE p.id = auth.uid() AND p.role = 'admin'
+        )
+    );
+
+
+-- ============================================================
+-- TRIGGER: attendance_records source
+-- ============================================================
+-- A write that sets source keeps it. Otherwise it is derived from
+-- marked_by, so an update that leaves source untouched isn't
+-- credited to whatever wrote the row before:
+--   student → self_check_in, ai_approved → od_approval,
+--   system + medical → medical_leave, system → system,
+--   faculty → faculty_ui.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.set_attendance_source()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.source IS NOT DISTINCT FROM OLD.source THEN
+        NEW.source := NULL;
+    END IF;
+
+    NEW.source := coalesce(NEW.source, CASE
+        WHEN NEW.marked_by = 'student'      THEN 'self_check_in'
+        WHEN NEW.marked_by = 'ai_approved'  THEN 'od_approval'
+        WHEN NEW.marked_by = 'system' AND NEW.status = 'medical' THEN 'medical_leave'
+        WHEN NEW.marked_by = 'system'       THEN 'system'
+        ELSE 'faculty_ui'
+    END);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_attendance_source
+    BEFORE INSERT OR UPDATE ON attendance_records
+    FOR EACH ROW EXECUTE FUNCTION public.set_attendance_source();
+
+
+-- ============================================================
+-- TRIGGER: attendance_records audit
+-- ============================================================
+-- One audit row per insert, delete and status change. Re-saving a
+-- roster without changing a student's status isn't logged for
+-- that student.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.audit_attendance_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO attendance_audit (
+            attendance_record_id, student_id, class_session_id, action, new_status, source, actor_id
+        )
+        VALUES (NEW.id, NEW.student_id, NEW.class_session_id, 'insert', NEW.status, NEW.source, auth.uid());
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        IF NEW.status IS DISTINCT FROM OLD.status THEN
+            INSERT INTO attendance_audit (
+                attendance_record_id, student_id, class_session_id, action, old_status, new_status, source, actor_id
+            )
+            VALUES (NEW.id, NEW.student_id, NEW.class_session_id, 'update', OLD.status, NEW.status, NEW.source, auth.uid());
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO attendance_audit (
+        attendance_record_id, student_id, class_session_id, action, old_status, source, actor_id
+    )
+    VALUES (
+        OLD.id, OLD.student_id, OLD.class_session_id, 'delete', OLD.status,
+        CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'faculty_ui' END, auth.uid()
+    );
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER trg_attendance_audit
+    AFTER INSERT OR UPDATE OR DELETE ON attendance_records
+    FOR EACH ROW EXECUTE FUNCTION public.audit_attendance_change();
+
+
+-- ============================================================
+-- FUNCTION: search_attendance_audit
+-- ============================================================
+-- The admin audit view. p_query matches the student's name, email
+-- or the subject's code / name; the other filters are optional.
+-- Newest first, paged by p_limit / p_offset. Admins only.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.search_attendance_audit(
+    p_query  TEXT DEFAULT NULL,
+    p_source TEXT DEFAULT NULL,
+    p_from   DATE DEFAULT NULL,
+    p_to     DATE DEFAULT NULL,
+    p_limit  INT  DEFAULT 50,
+    p_offset INT  DEFAULT 0
+)
+RETURNS TABLE (
+    id             UUID,
+    changed_at     TIMESTAMPTZ,
+    action         TEXT,
+    old_status     TEXT,
+    new_status     TEXT,
+    source         TEXT,
+    actor_name     TEXT,
+    student_name   TEXT,
+    student_email  TEXT,
+    subject_code   TEXT,
+    subject_name   TEXT,
+    scheduled_date DATE,
+    start_time     TIME
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_pattern TEXT := '%' || coalesce(trim(p_query), '') || '%';
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can search the attendance audit';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        a.id, a.changed_at, a.action, a.old_status, a.new_status, a.source,
+        actor.full_name, st.full_name, st.email,
+        s.code, s.name, cs.scheduled_date, cs.start_time
+    FROM attendance_audit a
+    LEFT JOIN profiles       st    ON st.id = a.student_id
+    LEFT JOIN profiles       actor ON actor.id = a.actor_id
+    LEFT JOIN class_sessions cs    ON cs.id = a.class_session_id
+    LEFT JOIN subjects       s     ON s.id = cs.subject_id
+    WHERE (p_source IS NULL OR a.source = p_source)
+      AND (p_from IS NULL OR a.changed_at >= p_from)
+      AND (p_to   IS NULL OR a.changed_at <  p_to + 1)
+      AND (
+          coalesce(trim(p_query), '') = ''
+          OR st.full_name ILIKE v_pattern
+          OR st.email     ILIKE v_pattern
+          OR s.code       ILIKE v_pattern
+          OR s.name       ILIKE v_pattern
+      )
+    ORDER BY a.changed_at DESC
+    LIMIT least(p_limit, 200) OFFSET p_offset;
+END;
+$$;
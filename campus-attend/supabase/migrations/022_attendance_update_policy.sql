@@ -0,0 +1,22 @@
+-- ============================================================
+-- 022_attendance_update_policy.sql  –  Let faculty edit marks already saved
+-- ============================================================
+-- Attendance is saved with an upsert, but attendance_records only
+-- had an INSERT policy, so the ON CONFLICT DO UPDATE path was
+-- rejected: a saved mark could never be changed from the roster,
+-- an OD approval couldn't replace an absent mark and offline
+-- re-syncs over existing rows failed.
+-- ============================================================
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- ── attendance_records ──────────────────────────────────────
+
+-- Whoever may mark a session (its faculty or active substitute) may change its marks
+CREATE POLICY "Faculty can update attendance"
+    ON attendance_records FOR UPDATE
+    USING (can_mark_session(class_session_id))
+    WITH CHECK (can_mark_session(class_session_id));
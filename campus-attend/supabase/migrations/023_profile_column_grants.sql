@@ -0,0 +1,58 @@
+-- ============================================================
+-- 023_profile_column_grants.sql  –  Lock down self-service profile updates
+-- ============================================================
+-- "Users can update own profile" let a user write every column of
+-- their own row. A student could set mentor_id to themselves and
+-- approve their own medical leave (and see their own mentee
+-- alerts), or change their role. Users may now only edit their
+-- personal details; mentor_id, role and the academic fields are
+-- set by admins through the database.
+-- Medical certificates must also sit in the requesting student's
+-- own folder, so a request can't point a reviewer at someone
+-- else's file.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CLEAN UP SELF-ASSIGNED MENTORS
+-- ────────────────────────────────────────────────────────────
+-- Only faculty and admins can mentor, and never themselves
+UPDATE profiles AS p
+SET mentor_id = NULL
+WHERE p.mentor_id IS NOT NULL
+  AND (
+      p.mentor_id = p.id
+      OR NOT EXISTS (
+          SELECT 1 FROM profiles AS m
+          WHERE m.id = p.mentor_id AND m.role IN ('faculty', 'admin')
+      )
+  );
+
+-- Pending requests routed to the student themselves go to the admins
+UPDATE medical_leave_requests
+SET reviewer_id = NULL
+WHERE status = 'pending'
+  AND reviewer_id = student_id;
+
+ALTER TABLE profiles
+    ADD CONSTRAINT profiles_mentor_not_self CHECK (mentor_id <> id);
+
+-- ────────────────────────────────────────────────────────────
+-- 2. CERTIFICATE PATHS
+-- ────────────────────────────────────────────────────────────
+-- Objects live under "<student_id>/<file>" (see 006)
+ALTER TABLE medical_leave_requests
+    ADD CONSTRAINT medical_leave_certificate_own_folder
+        CHECK (certificate_path IS NULL OR certificate_path LIKE student_id::TEXT || '/%')
+        NOT VALID;
+
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+-- ── profiles ────────────────────────────────────────────────
+-- The 001 policy still scopes updates to the user's own row;
+-- these grants limit which columns that covers.
+
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT  UPDATE (full_name, phone_whatsapp, avatar_url) ON profiles TO authenticated;
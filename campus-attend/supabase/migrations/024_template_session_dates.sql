@@ -0,0 +1,258 @@
+-- ============================================================
+-- 024_template_session_dates.sql  –  Safer "this and following" timetable edits
+-- ============================================================
+-- Editing a weekly slot "from this session on" deleted and
+-- regenerated the remaining sessions. That wiped deliberately
+-- cancelled sessions (and the holiday/cancel notices tied to them),
+-- failed outright once a student had raised an OD request against
+-- one, and put a second session on the original date of any
+-- session that had been moved, because the generator only skipped
+-- dates that still had a session from the template.
+-- Sessions now remember the weekly date they were generated for,
+-- and only untouched sessions are regenerated.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CLASS_SESSIONS: the weekly date a session stands for
+-- ────────────────────────────────────────────────────────────
+-- Set when a template generates the session and never changed by
+-- later moves, so the generator won't refill that date.
+ALTER TABLE class_sessions
+    ADD COLUMN template_date DATE;
+
+UPDATE class_sessions
+SET template_date = COALESCE(rescheduled_from_date, scheduled_date)
+WHERE template_id IS NOT NULL;
+
+
+-- ============================================================
+-- FUNCTION: generate_template_sessions  (replaces 010 version)
+-- ============================================================
+-- Also skips dates a moved session of this template was
+-- originally generated for.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.generate_template_sessions(
+    p_template_id UUID
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tpl   timetable_templates%ROWTYPE;
+    v_from  DATE;
+    v_until DATE;
+    v_count INT;
+BEGIN
+    SELECT * INTO v_tpl FROM timetable_templates WHERE id = p_template_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    SELECT
+        GREATEST(COALESCE(v_tpl.valid_from, sem.start_date), sem.start_date),
+        LEAST(COALESCE(v_tpl.valid_until, sem.end_date), sem.end_date)
+    INTO v_from, v_until
+    FROM academic_semesters sem
+    WHERE sem.id = v_tpl.academic_semester_id;
+
+    IF v_from IS NULL OR v_until IS NULL THEN
+        RAISE EXCEPTION 'Subject is not linked to a semester with start and end dates';
+    END IF;
+
+    INSERT INTO class_sessions (
+        subject_id, academic_semester_id, template_id, template_date,
+        scheduled_date, start_time, end_time, venue, session_type
+    )
+    SELECT
+        v_tpl.subject_id, v_tpl.academic_semester_id, v_tpl.id, d::DATE,
+        d::DATE, v_tpl.start_time, v_tpl.end_time, v_tpl.venue, v_tpl.session_type
+    FROM generate_series(v_from, v_until, INTERVAL '1 day') AS d
+    -- ISODOW: Monday = 1 … Sunday = 7
+    WHERE EXTRACT(ISODOW FROM d) - 1 = v_tpl.weekday
+      AND NOT EXISTS (
+          SELECT 1 FROM academic_holidays h
+          WHERE h.academic_semester_id = v_tpl.academic_semester_id
+            AND h.holiday_date = d::DATE
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM class_sessions cs
+          WHERE cs.template_id = v_tpl.id
+            AND (cs.scheduled_date = d::DATE OR cs.template_date = d::DATE)
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_template_sessions(UUID) FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- FUNCTION: edit_class_session  (replaces 010 version)
+-- ============================================================
+-- 'following' only regenerates sessions nothing refers to yet.
+-- Sessions with attendance, OD requests or a substitute keep their
+-- date and take the new time/venue; cancelled and detached ones are
+-- left exactly as they are. All of them move to the new template.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.edit_class_session(
+    p_session_id     UUID,
+    p_scope          TEXT,
+    p_scheduled_date DATE DEFAULT NULL,
+    p_start_time     TIME DEFAULT NULL,
+    p_end_time       TIME DEFAULT NULL,
+    p_venue          TEXT DEFAULT NULL,
+    p_session_type   TEXT DEFAULT NULL,
+    p_weekday        SMALLINT DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session class_sessions%ROWTYPE;
+    v_tpl     timetable_templates%ROWTYPE;
+    v_new_id  UUID;
+    v_count   INT;
+BEGIN
+    IF p_scope NOT IN ('this', 'following') THEN
+        RAISE EXCEPTION 'Invalid scope: %', p_scope;
+    END IF;
+
+    SELECT * INTO v_session FROM class_sessions WHERE id = p_session_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    -- ── This session only ──
+    IF p_scope = 'this' OR v_session.template_id IS NULL THEN
+        UPDATE class_sessions
+        SET scheduled_date = COALESCE(p_scheduled_date, scheduled_date),
+            start_time     = COALESCE(p_start_time, start_time),
+            end_time       = COALESCE(p_end_time, end_time),
+            venue          = COALESCE(NULLIF(trim(p_venue), ''), venue),
+            session_type   = COALESCE(p_session_type, session_type),
+            is_detached    = template_id IS NOT NULL
+        WHERE id = p_session_id;
+        RETURN 1;
+    END IF;
+
+    -- ── This and following ──
+    SELECT * INTO v_tpl FROM timetable_templates WHERE id = v_session.template_id;
+
+    INSERT INTO timetable_templates (
+        subject_id, academic_semester_id, weekday, start_time, end_time,
+        venue, session_type, valid_from, valid_until, created_by
+    )
+    VALUES (
+        v_tpl.subject_id, v_tpl.academic_semester_id,
+        COALESCE(p_weekday, v_tpl.weekday),
+        COALESCE(p_start_time, v_tpl.start_time),
+        COALESCE(p_end_time, v_tpl.end_time),
+        COALESCE(NULLIF(trim(p_venue), ''), v_tpl.venue),
+        COALESCE(p_session_type, v_tpl.session_type),
+        v_session.scheduled_date, v_tpl.valid_until, auth.uid()
+    )
+    RETURNING id INTO v_new_id;
+
+    UPDATE timetable_templates
+    SET valid_until = v_session.scheduled_date - 1
+    WHERE id = v_tpl.id;
+
+    -- Sessions something already refers to keep their date: move them
+    -- to the new slot's time/venue and hand them to the new template
+    -- so the generator doesn't add a second session on the same day.
+    UPDATE class_sessions cs
+    SET template_id  = v_new_id,
+        start_time   = COALESCE(p_start_time, cs.start_time),
+        end_time     = COALESCE(p_end_time, cs.end_time),
+        venue        = COALESCE(NULLIF(trim(p_venue), ''), cs.venue),
+        session_type = COALESCE(p_session_type, cs.session_type)
+    WHERE cs.template_id = v_tpl.id
+      AND cs.scheduled_date >= v_session.scheduled_date
+      AND cs.is_detached = false
+      AND cs.is_cancelled = false
+      AND (
+          EXISTS (SELECT 1 FROM attendance_records ar WHERE ar.class_session_id = cs.id)
+          OR EXISTS (SELECT 1 FROM on_duty_requests od WHERE od.class_session_id = cs.id)
+          OR EXISTS (SELECT 1 FROM session_substitutions ss WHERE ss.class_session_id = cs.id)
+      );
+
+    -- Untouched ones are regenerated from the new template
+    DELETE FROM class_sessions cs
+    WHERE cs.template_id = v_tpl.id
+      AND cs.scheduled_date >= v_session.scheduled_date
+      AND cs.is_detached = false
+      AND cs.is_cancelled = false;
+
+    -- Detached and cancelled ones stay as they are but belong to the
+    -- new template; their template_date keeps that day from being refilled
+    UPDATE class_sessions
+    SET template_id = v_new_id
+    WHERE template_id = v_tpl.id
+      AND scheduled_date >= v_session.scheduled_date;
+
+    v_count := generate_template_sessions(v_new_id);
+
+    -- A template that no longer covers any date is dropped
+    DELETE FROM timetable_templates
+    WHERE id = v_tpl.id
+      AND valid_until < COALESCE(valid_from, (
+          SELECT start_date FROM academic_semesters WHERE id = v_tpl.academic_semester_id
+      ));
+
+    RETURN v_count;
+END;
+$$;
+
+
+-- ============================================================
+-- FUNCTION: delete_timetable_template  (replaces 010 version)
+-- ============================================================
+-- Sessions with an OD request are kept as one-offs too, like those
+-- with attendance.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.delete_timetable_template(
+    p_template_id UUID
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_subject_id UUID;
+    v_count      INT;
+BEGIN
+    SELECT subject_id INTO v_subject_id FROM timetable_templates WHERE id = p_template_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    IF NOT can_manage_subject_timetable(v_subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can edit its timetable';
+    END IF;
+
+    DELETE FROM class_sessions cs
+    WHERE cs.template_id = p_template_id
+      AND NOT EXISTS (SELECT 1 FROM attendance_records ar WHERE ar.class_session_id = cs.id)
+      AND NOT EXISTS (SELECT 1 FROM on_duty_requests od WHERE od.class_session_id = cs.id);
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    -- ON DELETE SET NULL turns the remaining sessions into one-offs
+    DELETE FROM timetable_templates WHERE id = p_template_id;
+
+    RETURN v_count;
+END;
+$$;
@@ -0,0 +1,144 @@
+-- ============================================================
+-- 025_attendance_alert_fixes.sql  –  Stop repeated and premature alerts
+-- ============================================================
+-- evaluate_attendance_alerts compared against the last snapshot
+-- from before today, so every extra run on the same day (one per
+-- attendance submission) fired the same crossing alerts again.
+-- It also raised zero_buffer on the first run for subjects with no
+-- planned total and no classes held yet.
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: evaluate_attendance_alerts  (replaces 008 version)
+-- ============================================================
+-- Compares against the latest snapshot, today's included, and only
+-- reports a used-up buffer once classes have been held.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.evaluate_attendance_alerts(
+    p_subject_id UUID DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    c_rapid_drop  CONSTANT NUMERIC := 0.05;
+    v_enrol       RECORD;
+    v_buffer      JSONB;
+    v_pct         NUMERIC(5,4);
+    v_buf         NUMERIC;
+    v_elig        TEXT;
+    v_threshold   NUMERIC;
+    v_condonation NUMERIC;
+    v_prev        attendance_snapshots%ROWTYPE;
+    v_week_ago    attendance_snapshots%ROWTYPE;
+    v_count       INT := 0;
+BEGIN
+    FOR v_enrol IN
+        SELECT ss.student_id, s.id AS subject_id, s.code
+        FROM student_subjects ss
+        JOIN subjects s ON s.id = ss.subject_id
+        JOIN academic_semesters sem ON sem.id = s.academic_semester_id
+        WHERE sem.is_current = true
+          AND (p_subject_id IS NULL OR s.id = p_subject_id)
+    LOOP
+        v_buffer      := calculate_attendance_buffer(v_enrol.student_id, v_enrol.subject_id);
+        v_pct         := (v_buffer ->> 'current_pct')::NUMERIC;
+        v_buf         := (v_buffer ->> 'buffer_classes')::NUMERIC;
+        v_elig        := v_buffer ->> 'eligibility';
+        v_threshold   := (v_buffer ->> 'attendance_threshold')::NUMERIC;
+        v_condonation := (v_buffer ->> 'condonation_threshold')::NUMERIC;
+
+        -- Most recent snapshot, including one from an earlier run today
+        v_prev := NULL;
+        SELECT * INTO v_prev
+        FROM attendance_snapshots
+        WHERE student_id = v_enrol.student_id
+          AND subject_id = v_enrol.subject_id
+          AND snapshot_date <= CURRENT_DATE
+        ORDER BY snapshot_date DESC
+        LIMIT 1;
+
+        -- Latest snapshot at least a week old
+        v_week_ago := NULL;
+        SELECT * INTO v_week_ago
+        FROM attendance_snapshots
+        WHERE student_id = v_enrol.student_id
+          AND subject_id = v_enrol.subject_id
+          AND snapshot_date <= CURRENT_DATE - 7
+        ORDER BY snapshot_date DESC
+        LIMIT 1;
+
+        -- Threshold crossings (no previous snapshot = treated as safe)
+        IF v_elig = 'detained' AND COALESCE(v_prev.eligibility, 'safe') <> 'detained' THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'below_condonation', 'critical', v_pct, v_prev.current_pct, v_buf,
+                 format('%s attendance is %s%% — below the %s%% condonation limit. You are at risk of detention.',
+                        v_enrol.code, ROUND(v_pct * 100), ROUND(v_condonation * 100)));
+            v_count := v_count + 1;
+        ELSIF v_elig = 'condonable' AND COALESCE(v_prev.eligibility, 'safe') = 'safe' THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'below_threshold', 'warning', v_pct, v_prev.current_pct, v_buf,
+                 format('%s attendance dropped to %s%%, below the %s%% requirement. Condonation may be needed.',
+                        v_enrol.code, ROUND(v_pct * 100), ROUND(v_threshold * 100)));
+            v_count := v_count + 1;
+        END IF;
+
+        -- Buffer just ran out (a subject with nothing held yet has no buffer to lose)
+        IF v_buf = 0
+           AND COALESCE(v_prev.buffer_classes, 1) > 0
+           AND (v_buffer ->> 'held_count')::NUMERIC > 0 THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'zero_buffer',
+                 CASE WHEN v_elig = 'safe' THEN 'warning' ELSE 'critical' END,
+                 v_pct, v_prev.current_pct, v_buf,
+                 format('%s: no classes left to miss — every remaining class must be attended to stay at %s%%.',
+                        v_enrol.code, ROUND(v_threshold * 100)));
+            v_count := v_count + 1;
+        END IF;
+
+        -- Rapid drop against a week ago, at most once a week
+        IF v_week_ago.current_pct IS NOT NULL
+           AND v_week_ago.current_pct - v_pct >= c_rapid_drop
+           AND NOT EXISTS (
+               SELECT 1 FROM attendance_alerts a
+               WHERE a.student_id = v_enrol.student_id
+                 AND a.subject_id = v_enrol.subject_id
+                 AND a.alert_type = 'rapid_drop'
+                 AND a.created_at > now() - INTERVAL '7 days'
+           ) THEN
+            INSERT INTO attendance_alerts
+                (student_id, subject_id, alert_type, severity, current_pct, previous_pct, buffer_classes, message)
+            VALUES
+                (v_enrol.student_id, v_enrol.subject_id, 'rapid_drop', 'warning', v_pct, v_week_ago.current_pct, v_buf,
+                 format('%s attendance fell from %s%% to %s%% in the last week.',
+                        v_enrol.code, ROUND(v_week_ago.current_pct * 100), ROUND(v_pct * 100)));
+            v_count := v_count + 1;
+        END IF;
+
+        -- Today's snapshot (re-runs on the same day overwrite it)
+        INSERT INTO attendance_snapshots
+            (student_id, subject_id, snapshot_date, current_pct, buffer_classes, eligibility)
+        VALUES
+            (v_enrol.student_id, v_enrol.subject_id, CURRENT_DATE, v_pct, v_buf, v_elig)
+        ON CONFLICT (student_id, subject_id, snapshot_date) DO UPDATE
+            SET current_pct    = EXCLUDED.current_pct,
+                buffer_classes = EXCLUDED.buffer_classes,
+                eligibility    = EXCLUDED.eligibility;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_attendance_alerts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT  EXECUTE ON FUNCTION public.evaluate_attendance_alerts(UUID) TO service_role;
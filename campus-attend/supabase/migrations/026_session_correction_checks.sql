@@ -0,0 +1,115 @@
+-- ============================================================
+-- 026_session_correction_checks.sql  –  Validate accepted session corrections
+-- ============================================================
+-- Accepting a student's correction moved the session wherever the
+-- proposal said: onto a holiday, outside the semester, into the
+-- past, or away from a class whose attendance was already taken,
+-- and nothing remembered where it had been.
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: review_session_correction  (replaces 015 version)
+-- ============================================================
+-- A proposed move gets the same checks as a reschedule and keeps
+-- the session's original slot. Cancellations are unchanged.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.review_session_correction(
+    p_correction_id UUID,
+    p_accept        BOOLEAN,
+    p_note          TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_corr    session_corrections%ROWTYPE;
+    v_session class_sessions%ROWTYPE;
+    v_date    DATE;
+    v_start   TIME;
+    v_end     TIME;
+BEGIN
+    SELECT * INTO v_corr FROM session_corrections WHERE id = p_correction_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Correction not found';
+    END IF;
+
+    SELECT * INTO v_session FROM class_sessions WHERE id = v_corr.class_session_id;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can review corrections';
+    END IF;
+
+    IF v_corr.status <> 'pending' THEN
+        RAISE EXCEPTION 'Correction has already been reviewed';
+    END IF;
+
+    IF p_accept THEN
+        IF v_corr.proposed_cancel THEN
+            UPDATE class_sessions
+            SET is_cancelled  = true,
+                cancel_reason = COALESCE(NULLIF(trim(p_note), ''), v_corr.note)
+            WHERE id = v_session.id;
+        ELSE
+            v_date  := COALESCE(v_corr.proposed_date, v_session.scheduled_date);
+            v_start := COALESCE(v_corr.proposed_start_time, v_session.start_time);
+            v_end   := COALESCE(v_corr.proposed_end_time, v_session.end_time);
+
+            IF v_start >= v_end THEN
+                RAISE EXCEPTION 'Proposed end time must be after start time';
+            END IF;
+
+            IF v_session.is_cancelled THEN
+                RAISE EXCEPTION 'The session has been cancelled';
+            END IF;
+
+            IF EXISTS (SELECT 1 FROM attendance_records WHERE class_session_id = v_session.id) THEN
+                RAISE EXCEPTION 'Attendance has already been marked for this session';
+            END IF;
+
+            IF v_date < CURRENT_DATE THEN
+                RAISE EXCEPTION 'A session can''t be moved into the past';
+            END IF;
+
+            IF NOT EXISTS (
+                SELECT 1 FROM academic_semesters
+                WHERE id = v_session.academic_semester_id
+                  AND v_date BETWEEN start_date AND end_date
+            ) THEN
+                RAISE EXCEPTION 'Proposed date is outside the semester';
+            END IF;
+
+            IF EXISTS (
+                SELECT 1 FROM academic_holidays
+                WHERE academic_semester_id = v_session.academic_semester_id
+                  AND holiday_date = v_date
+            ) THEN
+                RAISE EXCEPTION 'Proposed date is a holiday';
+            END IF;
+
+            -- Remember the slot before the first move, as reschedules do
+            UPDATE class_sessions
+            SET rescheduled_from_date  = COALESCE(rescheduled_from_date, scheduled_date),
+                rescheduled_from_start = CASE WHEN rescheduled_from_date IS NULL THEN start_time ELSE rescheduled_from_start END,
+                rescheduled_from_end   = CASE WHEN rescheduled_from_date IS NULL THEN end_time ELSE rescheduled_from_end END,
+                rescheduled_from_venue = CASE WHEN rescheduled_from_date IS NULL THEN venue ELSE rescheduled_from_venue END,
+                scheduled_date         = v_date,
+                start_time             = v_start,
+                end_time               = v_end,
+                venue                  = COALESCE(NULLIF(trim(v_corr.proposed_venue), ''), venue),
+                is_detached            = is_detached OR template_id IS NOT NULL
+            WHERE id = v_session.id;
+        END IF;
+    END IF;
+
+    UPDATE session_corrections
+    SET status      = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_note = NULLIF(trim(p_note), '')
+    WHERE id = p_correction_id;
+END;
+$$;
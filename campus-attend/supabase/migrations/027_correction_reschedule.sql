@@ -0,0 +1,75 @@
+-- ============================================================
+-- 027_correction_reschedule.sql  –  Accepted corrections reschedule the session
+-- ============================================================
+-- Accepting a student's correction moved the session quietly:
+-- enrolled students got no "rescheduled" notification and
+-- timetables showed no "moved from" badge. Accepted moves now go
+-- through reschedule_class_session() like any other reschedule.
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: review_session_correction  (replaces 026 version)
+-- ============================================================
+-- A proposed move is applied with reschedule_class_session(), using
+-- the review note (or the student's note) as the reason.
+-- Cancellations are unchanged.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.review_session_correction(
+    p_correction_id UUID,
+    p_accept        BOOLEAN,
+    p_note          TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_corr    session_corrections%ROWTYPE;
+    v_session class_sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_corr FROM session_corrections WHERE id = p_correction_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Correction not found';
+    END IF;
+
+    SELECT * INTO v_session FROM class_sessions WHERE id = v_corr.class_session_id;
+
+    IF NOT can_manage_subject_timetable(v_session.subject_id) THEN
+        RAISE EXCEPTION 'Only the subject''s faculty or an admin can review corrections';
+    END IF;
+
+    IF v_corr.status <> 'pending' THEN
+        RAISE EXCEPTION 'Correction has already been reviewed';
+    END IF;
+
+    IF p_accept THEN
+        IF v_corr.proposed_cancel THEN
+            UPDATE class_sessions
+            SET is_cancelled  = true,
+                cancel_reason = COALESCE(NULLIF(trim(p_note), ''), v_corr.note)
+            WHERE id = v_session.id;
+        ELSE
+            -- Same checks, original slot, "moved" badge and student
+            -- notification as a faculty reschedule
+            PERFORM reschedule_class_session(
+                v_session.id,
+                COALESCE(v_corr.proposed_date, v_session.scheduled_date),
+                COALESCE(v_corr.proposed_start_time, v_session.start_time),
+                COALESCE(v_corr.proposed_end_time, v_session.end_time),
+                v_corr.proposed_venue,
+                COALESCE(NULLIF(trim(p_note), ''), v_corr.note)
+            );
+        END IF;
+    END IF;
+
+    UPDATE session_corrections
+    SET status      = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_note = NULLIF(trim(p_note), '')
+    WHERE id = p_correction_id;
+END;
+$$;
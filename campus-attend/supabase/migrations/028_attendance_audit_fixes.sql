@@ -0,0 +1,72 @@
+-- ============================================================
+-- 028_attendance_audit_fixes.sql  –  Keep audit history and explicit sources
+-- ============================================================
+-- attendance_audit cascaded deletes of students and sessions, so
+-- removing either wiped the history the table exists to keep.
+-- And set_attendance_source treated a write that named the same
+-- source as the row already had like one that left it out:
+-- re-approving an OD (source 'od_approval', marked_by 'faculty')
+-- was recorded as a faculty edit.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. ATTENDANCE_AUDIT: history outlives students and sessions
+-- ────────────────────────────────────────────────────────────
+-- class_session_id is kept as a plain id, like attendance_record_id.
+-- student_id stays a foreign key for the profile lookups but is
+-- cleared rather than deleted with the student.
+ALTER TABLE attendance_audit
+    DROP CONSTRAINT attendance_audit_class_session_id_fkey,
+    DROP CONSTRAINT attendance_audit_student_id_fkey,
+    ADD CONSTRAINT attendance_audit_student_id_fkey
+        FOREIGN KEY (student_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+
+-- ============================================================
+-- TRIGGER: attendance_records source  (replaces 021 version)
+-- ============================================================
+-- An UPDATE that names source keeps the value it gives, even when
+-- it's the one already stored. Only updates that leave source out
+-- get it worked out again from marked_by.
+-- trg_attendance_explicit_source runs first (triggers fire in name
+-- order) and notes the row for set_attendance_source.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.note_explicit_attendance_source()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM set_config('campus_attend.explicit_source', NEW.id::TEXT, true);
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_attendance_source()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.source IS NOT DISTINCT FROM OLD.source
+       AND current_setting('campus_attend.explicit_source', true) IS DISTINCT FROM NEW.id::TEXT THEN
+        NEW.source := NULL;
+    END IF;
+    PERFORM set_config('campus_attend.explicit_source', '', true);
+
+    NEW.source := coalesce(NEW.source, CASE
+        WHEN NEW.marked_by = 'student'      THEN 'self_check_in'
+        WHEN NEW.marked_by = 'ai_approved'  THEN 'od_approval'
+        WHEN NEW.marked_by = 'system' AND NEW.status = 'medical' THEN 'medical_leave'
+        WHEN NEW.marked_by = 'system'       THEN 'system'
+        ELSE 'faculty_ui'
+    END);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_attendance_explicit_source
+    BEFORE UPDATE OF source ON attendance_records
+    FOR EACH ROW EXECUTE FUNCTION public.note_explicit_attendance_source();
@@ -0,0 +1,69 @@
+-- ============================================================
+-- 029_calendar_revisions.sql  –  Change tracking for calendar feeds
+-- ============================================================
+-- Calendar apps only replace an event they already have when its
+-- SEQUENCE goes up, and use LAST-MODIFIED to tell which copy is
+-- newer. Sessions and events now carry both, so a rescheduled or
+-- cancelled class shows up as changed in subscribed calendars.
+-- ============================================================
+
+-- ────────────────────────────────────────────────────────────
+-- 1. CLASS_SESSIONS / EVENTS: revision + updated_at
+-- ────────────────────────────────────────────────────────────
+-- revision    bumped when anything shown in a calendar changes
+-- updated_at  last change of any kind
+ALTER TABLE class_sessions
+    ADD COLUMN revision   INT NOT NULL DEFAULT 0,
+    ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+ALTER TABLE events
+    ADD COLUMN revision   INT NOT NULL DEFAULT 0,
+    ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+
+-- ============================================================
+-- TRIGGER: class_sessions revision
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.bump_class_session_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.scheduled_date, NEW.start_time, NEW.end_time, NEW.venue, NEW.session_type, NEW.is_cancelled)
+       IS DISTINCT FROM (OLD.scheduled_date, OLD.start_time, OLD.end_time, OLD.venue, OLD.session_type, OLD.is_cancelled) THEN
+        NEW.revision := OLD.revision + 1;
+    END IF;
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_class_session_revision
+    BEFORE UPDATE ON class_sessions
+    FOR EACH ROW EXECUTE FUNCTION public.bump_class_session_revision();
+
+
+-- ============================================================
+-- TRIGGER: events revision
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.bump_event_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.name, NEW.description, NEW.start_datetime, NEW.end_datetime, NEW.venue, NEW.status)
+       IS DISTINCT FROM (OLD.name, OLD.description, OLD.start_datetime, OLD.end_datetime, OLD.venue, OLD.status) THEN
+        NEW.revision := OLD.revision + 1;
+    END IF;
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_event_revision
+    BEFORE UPDATE ON events
+    FOR EACH ROW EXECUTE FUNCTION public.bump_event_revision();
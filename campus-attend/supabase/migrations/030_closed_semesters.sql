@@ -0,0 +1,112 @@
+-- ============================================================
+-- 030_closed_semesters.sql  –  Past semesters are read-only on the server
+-- ============================================================
+-- The app shows a past semester read-only, but nothing stopped a
+-- client (or an RPC called directly) from marking attendance,
+-- editing the timetable or assigning substitutes in it. Once a
+-- semester has ended and another is current, its sessions and
+-- everything hanging off them can no longer be changed by users.
+-- The guard is a trigger so it covers direct writes under RLS and
+-- the SECURITY DEFINER RPCs alike.
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: is_semester_closed
+-- ============================================================
+-- A semester is closed once it has ended and isn't the current one.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.is_semester_closed(
+    p_semester_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM academic_semesters
+        WHERE id = p_semester_id
+          AND is_current = false
+          AND end_date < CURRENT_DATE
+    );
+$$;
+
+
+-- ============================================================
+-- TRIGGER: reject changes in closed semesters
+-- ============================================================
+-- The row's semester is its own academic_semester_id, else its
+-- subject's, else its class session's. Server jobs (no user) and
+-- changes made by other triggers, such as a venue rename, pass.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.row_semester(
+    p_row JSONB
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (p_row ->> 'academic_semester_id')::UUID,
+        (SELECT academic_semester_id FROM subjects WHERE id = (p_row ->> 'subject_id')::UUID),
+        (SELECT academic_semester_id FROM class_sessions WHERE id = (p_row ->> 'class_session_id')::UUID)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_closed_semester()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND pg_trigger_depth() = 1 THEN
+        IF (TG_OP <> 'INSERT' AND is_semester_closed(row_semester(to_jsonb(OLD))))
+           OR (TG_OP <> 'DELETE' AND is_semester_closed(row_semester(to_jsonb(NEW)))) THEN
+            RAISE EXCEPTION 'This semester has ended; its records are read-only';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_class_session_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON class_sessions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_timetable_template_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON timetable_templates
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_academic_holiday_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON academic_holidays
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_attendance_record_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON attendance_records
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_on_duty_request_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON on_duty_requests
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_session_substitution_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON session_substitutions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_session_correction_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON session_corrections
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
+
+CREATE TRIGGER on_class_check_in_window_closed_semester
+    BEFORE INSERT OR UPDATE OR DELETE ON class_check_in_windows
+    FOR EACH ROW EXECUTE FUNCTION public.guard_closed_semester();
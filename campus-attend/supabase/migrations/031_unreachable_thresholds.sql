@@ -0,0 +1,210 @@
+-- ============================================================
+-- 031_unreachable_thresholds.sql  –  Don't promise thresholds past the semester
+-- ============================================================
+-- classes_to_threshold and classes_to_condonation said how many more
+-- classes a student had to attend without checking that many were
+-- left. Late in the semester a student could be told to attend 12
+-- more classes when only 4 remained. Both now come back NULL
+-- (unreachable) once the classes needed exceed those remaining.
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: calculate_attendance_buffer  (replaces 013 version)
+-- ============================================================
+-- The classes needed are capped by the remaining planned classes;
+-- anything beyond that is reported as unreachable.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_attendance_buffer(
+    p_student_id UUID,
+    p_subject_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_present_count          NUMERIC;
+    v_held_count             NUMERIC;
+    v_medical_held           NUMERIC;
+    v_medical_total          NUMERIC;
+    v_future_weight          NUMERIC;
+    v_scheduled_sessions     INT;
+    v_avg_weight             NUMERIC;
+    v_classes_planned        INT;
+    v_cancelled_unreplaced   INT;
+    v_total_planned          NUMERIC;
+    v_current_pct            NUMERIC(5,4);
+    v_threshold              NUMERIC(4,2);
+    v_condonation            NUMERIC(4,2);
+    v_weighting_mode         TEXT;
+    v_medical_policy         TEXT;
+    v_remaining              NUMERIC;
+    v_buffer_classes         NUMERIC;
+    v_projected_pct          NUMERIC(5,4);
+    v_is_safe                BOOLEAN;
+    v_eligibility            TEXT;
+    v_to_threshold           NUMERIC;
+    v_to_condonation         NUMERIC;
+BEGIN
+    -- Thresholds, weighting mode and medical policy from the subject's semester
+    SELECT sem.attendance_threshold, sem.condonation_threshold, sem.weighting_mode, sem.medical_policy
+    INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+    FROM subjects s
+    JOIN academic_semesters sem ON sem.id = s.academic_semester_id
+    WHERE s.id = p_subject_id;
+
+    -- Subjects not yet linked to a semester use the current one
+    IF NOT FOUND THEN
+        SELECT attendance_threshold, condonation_threshold, weighting_mode, medical_policy
+        INTO v_threshold, v_condonation, v_weighting_mode, v_medical_policy
+        FROM academic_semesters
+        WHERE is_current = true
+        LIMIT 1;
+    END IF;
+
+    -- Fallbacks if no semester is configured
+    IF v_threshold IS NULL THEN
+        v_threshold := 0.75;
+    END IF;
+    IF v_condonation IS NULL THEN
+        v_condonation := 0.65;
+    END IF;
+    IF v_weighting_mode IS NULL THEN
+        v_weighting_mode := 'unit';
+    END IF;
+    IF v_medical_policy IS NULL THEN
+        v_medical_policy := 'exclude_from_held';
+    END IF;
+
+    -- Total classes planned for this subject (a plain count)
+    SELECT COALESCE(total_classes_planned, 0) INTO v_classes_planned
+    FROM subjects
+    WHERE id = p_subject_id;
+
+    -- Cancelled sessions nobody made up are classes that won't happen
+    SELECT COUNT(*) INTO v_cancelled_unreplaced
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = true
+      AND NOT EXISTS (SELECT 1 FROM class_sessions m WHERE m.makeup_for = cs.id);
+
+    -- Weighted hours held (not cancelled) so far, scheduled future hours,
+    -- number of scheduled sessions and their average weight
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date > CURRENT_DATE), 0),
+        COUNT(*),
+        COALESCE(AVG(session_weight(cs)), 1)
+    INTO v_held_count, v_future_weight, v_scheduled_sessions, v_avg_weight
+    FROM class_sessions cs
+    WHERE cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false;
+
+    -- Weighted hours the student attended
+    SELECT COALESCE(SUM(session_weight(cs)), 0) INTO v_present_count
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false
+      AND ar.status IN ('present', 'on_duty');
+
+    -- Weighted medical hours (held so far / whole semester)
+    SELECT
+        COALESCE(SUM(session_weight(cs)) FILTER (WHERE cs.scheduled_date <= CURRENT_DATE), 0),
+        COALESCE(SUM(session_weight(cs)), 0)
+    INTO v_medical_held, v_medical_total
+    FROM attendance_records ar
+    JOIN class_sessions cs ON cs.id = ar.class_session_id
+    WHERE ar.student_id = p_student_id
+      AND cs.subject_id = p_subject_id
+      AND cs.is_cancelled = false
+      AND ar.status = 'medical';
+
+    v_total_planned := v_held_count + v_future_weight
+        + GREATEST(v_classes_planned - v_cancelled_unreplaced - v_scheduled_sessions, 0) * v_avg_weight;
+
+    IF v_medical_policy = 'count_as_present' THEN
+        v_present_count := v_present_count + v_medical_held;
+    ELSE
+        v_held_count    := v_held_count - v_medical_held;
+        v_total_planned := v_total_planned - v_medical_total;
+    END IF;
+
+    -- Current attendance percentage
+    IF v_held_count > 0 THEN
+        v_current_pct := v_present_count / v_held_count;
+    ELSE
+        v_current_pct := 1.0;
+    END IF;
+
+    -- Remaining weighted hours = planned - held
+    v_remaining := GREATEST(v_total_planned - v_held_count, 0);
+
+    -- Buffer: how many remaining hours the student can skip and stay >= threshold
+    v_buffer_classes := GREATEST(
+        (v_present_count + v_remaining) - CEIL(v_threshold * v_total_planned),
+        0
+    );
+
+    -- Projected percentage if student attends all remaining classes
+    IF v_total_planned > 0 THEN
+        v_projected_pct := (v_present_count + v_remaining) / v_total_planned;
+    ELSE
+        v_projected_pct := v_current_pct;
+    END IF;
+
+    -- Is the student currently safe?
+    v_is_safe := v_current_pct >= v_threshold;
+
+    -- Graded eligibility against institute rules
+    IF v_current_pct >= v_threshold THEN
+        v_eligibility := 'safe';
+    ELSIF v_current_pct >= v_condonation THEN
+        v_eligibility := 'condonable';
+    ELSE
+        v_eligibility := 'detained';
+    END IF;
+
+    -- Hours needed: (present + x) / (held + x) >= t  =>  x >= (t*held - present) / (1 - t)
+    -- NULL when it can't be reached: the threshold is 100% and already
+    -- missed, or more hours are needed than are left this semester
+    v_to_threshold := CASE
+        WHEN v_current_pct >= v_threshold THEN 0
+        ELSE CEIL((v_threshold * v_held_count - v_present_count) / NULLIF(1 - v_threshold, 0))
+    END;
+    v_to_condonation := CASE
+        WHEN v_current_pct >= v_condonation THEN 0
+        ELSE CEIL((v_condonation * v_held_count - v_present_count) / NULLIF(1 - v_condonation, 0))
+    END;
+
+    IF v_to_threshold > v_remaining THEN
+        v_to_threshold := NULL;
+    END IF;
+    IF v_to_condonation > v_remaining THEN
+        v_to_condonation := NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'present_count',          v_present_count,
+        'held_count',             v_held_count,
+        'total_planned',          ROUND(v_total_planned, 2),
+        'current_pct',            ROUND(v_current_pct, 4),
+        'buffer_classes',         v_buffer_classes,
+        'projected_pct',          ROUND(v_projected_pct, 4),
+        'is_safe',                v_is_safe,
+        'attendance_threshold',   v_threshold,
+        'condonation_threshold',  v_condonation,
+        'eligibility',            v_eligibility,
+        'classes_to_threshold',   v_to_threshold,
+        'classes_to_condonation', v_to_condonation,
+        'weighting_mode',         v_weighting_mode,
+        'medical_count',          v_medical_held,
+        'medical_policy',         v_medical_policy
+    );
+END;
+$$;
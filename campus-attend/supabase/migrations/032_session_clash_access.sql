@@ -0,0 +1,101 @@
+-- ============================================================
+-- 032_session_clash_access.sql  –  Only timetable managers can check clashes
+-- ============================================================
+-- check_session_clashes runs as the owner so it can see every
+-- session and enrolment, but it never checked who was asking: any
+-- signed-in user (or anon) could pass arbitrary subject ids and read
+-- the sessions around them and how many students they share with
+-- other subjects. Callers must now be able to edit the timetable of
+-- every subject they ask about, as import_class_sessions requires.
+-- ============================================================
+
+
+-- ============================================================
+-- FUNCTION: check_session_clashes  (replaces 016 version)
+-- ============================================================
+-- Same result as before, after the permission check.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.check_session_clashes(
+    p_sessions JSONB,
+    p_exclude  UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+    idx             INT,
+    clash_type      TEXT,
+    session_id      UUID,
+    subject_id      UUID,
+    subject_code    TEXT,
+    subject_name    TEXT,
+    scheduled_date  DATE,
+    start_time      TIME,
+    end_time        TIME,
+    venue           TEXT,
+    shared_students INT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_subject UUID;
+BEGIN
+    -- ── Permission: every candidate subject must be manageable ──
+    FOR v_subject IN
+        SELECT DISTINCT (c->>'subject_id')::UUID
+        FROM jsonb_array_elements(COALESCE(p_sessions, '[]'::JSONB)) AS c
+    LOOP
+        IF NOT can_manage_subject_timetable(v_subject) THEN
+            RAISE EXCEPTION 'You cannot edit the timetable of subject %', v_subject;
+        END IF;
+    END LOOP;
+
+    RETURN QUERY
+    WITH cand AS (
+        SELECT
+            (c.ord - 1)::INT                              AS idx,
+            (c.value->>'subject_id')::UUID                AS subject_id,
+            (c.value->>'scheduled_date')::DATE            AS scheduled_date,
+            (c.value->>'start_time')::TIME                AS start_time,
+            (c.value->>'end_time')::TIME                  AS end_time,
+            COALESCE(resolve_venue(c.value->>'venue')::TEXT,
+                     NULLIF(lower(trim(c.value->>'venue')), '')) AS venue_key
+        FROM jsonb_array_elements(COALESCE(p_sessions, '[]'::JSONB)) WITH ORDINALITY AS c(value, ord)
+    )
+    SELECT
+        c.idx, t.clash_type, cs.id, s.id, s.code, s.name,
+        cs.scheduled_date, cs.start_time, cs.end_time, cs.venue, t.shared
+    FROM cand c
+    JOIN subjects own ON own.id = c.subject_id
+    JOIN class_sessions cs
+      ON cs.scheduled_date = c.scheduled_date
+     AND cs.start_time < c.end_time
+     AND c.start_time < cs.end_time
+     AND cs.is_cancelled = false
+     AND cs.id <> ALL (COALESCE(p_exclude, '{}'))
+    JOIN subjects s ON s.id = cs.subject_id
+    CROSS JOIN LATERAL (
+        SELECT 'faculty'::TEXT AS clash_type, NULL::INT AS shared
+        WHERE s.id = own.id OR s.faculty_id = own.faculty_id
+        UNION ALL
+        SELECT 'venue', NULL
+        WHERE c.venue_key IS NOT NULL
+          AND COALESCE(cs.venue_id::TEXT, lower(trim(cs.venue))) = c.venue_key
+        UNION ALL
+        SELECT 'student', n.shared
+        FROM (
+            SELECT COUNT(DISTINCT a.student_id)::INT AS shared
+            FROM student_subjects a
+            JOIN student_subjects b ON b.student_id = a.student_id
+            WHERE a.subject_id = own.id AND b.subject_id = s.id
+        ) n
+        WHERE s.id <> own.id AND n.shared > 0
+    ) t
+    ORDER BY c.idx, cs.start_time;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_session_clashes(JSONB, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_session_clashes(JSONB, UUID[]) TO authenticated;